@@ -41,3 +41,149 @@ create table if not exists public.templates (
 
 create index if not exists templates_event_id_idx on public.templates(event_id);
 create unique index if not exists templates_one_default_per_event_idx on public.templates(event_id) where is_default = true;
+
+-- Photo versions: edits (e.g. a baked-in preview effect) are stored as new photos
+-- linked to the original. The newest version supersedes the rest in galleries.
+alter table public.photos add column if not exists parent_photo_id uuid references public.photos(id) on delete cascade;
+alter table public.photos add column if not exists effect text;
+alter table public.photos add column if not exists superseded_by uuid references public.photos(id) on delete set null;
+
+create index if not exists photos_parent_photo_id_idx on public.photos(parent_photo_id);
+
+-- Print queue mirror: the booth owns the queue (IndexedDB) and upserts each job
+-- here by its client-generated id so the event manager can inspect it.
+create table if not exists public.print_jobs (
+  id uuid primary key,
+  event_id uuid not null references public.events(id) on delete cascade,
+  photo_id uuid references public.photos(id) on delete set null,
+  photo_url text,
+  copies integer not null default 1,
+  status text not null default 'queued'
+    check (status in ('queued', 'printing', 'completed', 'failed', 'cancelled')),
+  attempts integer not null default 0,
+  auto boolean not null default false,
+  reprint_of uuid,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists print_jobs_event_id_created_at_idx on public.print_jobs(event_id, created_at desc);
+
+-- Print allowances: per-guest-session counts, and prints an operator let through
+-- past settings.maxPrints / settings.maxPrintsPerSession.
+alter table public.print_jobs add column if not exists session_id text;
+alter table public.print_jobs add column if not exists override boolean not null default false;
+
+create index if not exists print_jobs_event_id_session_id_idx on public.print_jobs(event_id, session_id);
+
+-- Session albums: one short code per guest visit, resolving at /p/[code] alongside
+-- photo codes. Items are the photos sharing the booth's session_id.
+create table if not exists public.session_albums (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events(id) on delete cascade,
+  session_id text not null,
+  short_code text not null unique,
+  created_at timestamptz not null default now(),
+  unique (event_id, session_id)
+);
+
+create index if not exists photos_event_id_session_id_idx on public.photos(event_id, session_id);
+
+-- Social wall: with settings.wallRequireApproval on, /wall/[slug] shows only photos
+-- an operator approved in the Moderation tab.
+alter table public.photos add column if not exists wall_approved_at timestamptz;
+
+-- Pre-publication moderation: with settings.requireApproval on, new photos are
+-- stored 'pending' and stay off the gallery, wall and /p pages until approved.
+-- Null means the photo was never queued and counts as approved.
+alter table public.photos add column if not exists moderation_status text
+  check (moderation_status in ('pending', 'approved', 'rejected'));
+alter table public.photos add column if not exists moderation_reason text;
+alter table public.photos add column if not exists moderated_at timestamptz;
+
+create index if not exists photos_event_id_moderation_status_idx on public.photos(event_id, moderation_status);
+
+-- Content screening: classifier scores recorded when a photo is stored
+-- ({ provider, scores: { nudity, gesture, text }, flagged, at } or { provider, error, at }).
+alter table public.photos add column if not exists screening jsonb;
+
+-- Face search ("Find my photos"): one 128-number descriptor per face found in a
+-- photo, written by the background indexer when settings.faceSearchEnabled is on.
+-- Deleted when the gallery expires, when an operator erases them, or with the photo.
+create table if not exists public.face_embeddings (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events(id) on delete cascade,
+  photo_id uuid not null references public.photos(id) on delete cascade,
+  descriptor real[] not null,
+  box jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists face_embeddings_event_id_idx on public.face_embeddings(event_id);
+create index if not exists face_embeddings_photo_id_idx on public.face_embeddings(photo_id);
+
+alter table public.photos add column if not exists faces_indexed_at timestamptz;
+
+-- Gallery access: the password is checked server-side only and guests get signed,
+-- expiring access tokens. Bumping gallery_token_version revokes every token and
+-- magic link issued before. Passwords previously kept in settings move to the column.
+alter table public.events add column if not exists gallery_password text;
+alter table public.events add column if not exists gallery_token_version integer not null default 0;
+
+update public.events
+  set gallery_password = settings->>'galleryPassword'
+  where gallery_password is null and coalesce(settings->>'galleryPassword', '') <> '';
+update public.events
+  set settings = settings - 'galleryPassword'
+  where settings ? 'galleryPassword';
+
+-- Gallery retention: gallery_expires_at is derived from the owner's plan
+-- (galleryDays) plus paid extension days. After expiry and a grace period the media
+-- is archived to one ZIP (archive_key) or deleted, per settings.retentionAction.
+-- retention_started_at is when the clock may start at the earliest: creation for new
+-- events, this migration for existing ones, so no old gallery is expired on rollout.
+alter table public.events add column if not exists retention_started_at timestamptz not null default now();
+alter table public.events add column if not exists gallery_expires_at timestamptz;
+alter table public.events add column if not exists gallery_extra_days integer not null default 0;
+alter table public.events add column if not exists retention_warned_at timestamptz;
+alter table public.events add column if not exists retention_grace_notified_at timestamptz;
+alter table public.events add column if not exists retention_state text
+  check (retention_state in ('archived', 'deleted'));
+alter table public.events add column if not exists retention_purged_at timestamptz;
+alter table public.events add column if not exists archive_key text;
+
+-- Paid gallery extensions, one row per Stripe checkout session, so a redelivered
+-- webhook doesn't add the days twice.
+create table if not exists public.gallery_extensions (
+  checkout_session_id text primary key,
+  event_id uuid not null references public.events(id) on delete cascade,
+  days integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists gallery_extensions_event_id_idx on public.gallery_extensions(event_id);
+
+-- Guest favourites: hearts from the public gallery, keyed by an anonymous id the
+-- browser generates and keeps in localStorage. No guest account is involved.
+create table if not exists public.photo_favourites (
+  photo_id uuid not null references public.photos(id) on delete cascade,
+  event_id uuid not null references public.events(id) on delete cascade,
+  device_id uuid not null,
+  created_at timestamptz not null default now(),
+  primary key (photo_id, device_id)
+);
+
+create index if not exists photo_favourites_event_id_device_id_idx on public.photo_favourites(event_id, device_id);
+
+-- Infinite-scroll gallery: image dimensions for the masonry layout and a tiny
+-- blurred JPEG data URI shown while each photo loads. placeholder is null until
+-- the background job has described the photo, '' when it couldn't be read.
+-- The gallery pages by (created_at, id) cursor.
+alter table public.photos add column if not exists width integer;
+alter table public.photos add column if not exists height integer;
+alter table public.photos add column if not exists placeholder text;
+
+create index if not exists photos_event_id_created_at_id_idx on public.photos(event_id, created_at desc, id desc);
+create index if not exists photos_placeholder_pending_idx on public.photos(created_at desc) where placeholder is null;
@@ -0,0 +1,239 @@
+/**
+ * capture-bridge.js
+ * Local HTTP bridge between the booth browser and a tethered camera / hot folder.
+ * Runs on the booth machine next to the browser — not on the API server.
+ *
+ * Usage:
+ *   node scripts/capture-bridge.js
+ *
+ * Env vars (all optional):
+ *   CAPTURE_BRIDGE_PORT    port to listen on (default 5055)
+ *   CAPTURE_FOLDER         hot folder to serve and to save DSLR captures into (default ./captures)
+ *   CAPTURE_BRIDGE_MODE    'gphoto2' or 'standin' (default: gphoto2 when installed, else standin)
+ *   CAPTURE_BRIDGE_ORIGINS comma-separated booth origins allowed to use the camera (default:
+ *                          ALLOWED_ORIGINS, else the hosted frontend and http://localhost:3000)
+ *
+ * Endpoints:
+ *   GET  /status          { ok, mode, camera }
+ *   POST /capture         fire the shutter, respond with the JPEG
+ *   GET  /liveview        MJPEG stream (multipart/x-mixed-replace)
+ *   GET  /folder          { files: [{ name, url, modifiedAt }] } newest first
+ *   GET  /folder/:name    one image from the hot folder
+ *
+ * The stand-in mode needs no camera: it renders numbered test frames, so the
+ * booth's DSLR flow can be exercised on any laptop.
+ */
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+const { execFile, spawn, execFileSync } = require('child_process');
+const sharp = require('sharp');
+
+const PORT = Number(process.env.CAPTURE_BRIDGE_PORT) || 5055;
+const FOLDER = path.resolve(process.env.CAPTURE_FOLDER || './captures');
+const IMAGE_EXT = /\.(jpe?g)$/i;
+
+// Only the booth frontend may fire the camera or read the hot folder; any other page
+// the booth browser opens would otherwise be able to take and read guests' photos
+const ALLOWED_ORIGINS = (process.env.CAPTURE_BRIDGE_ORIGINS || process.env.ALLOWED_ORIGINS || 'https://photobooth-v2-ten.vercel.app,http://localhost:3000')
+  .split(',').map(o => o.trim()).filter(Boolean);
+
+// Requests without an Origin (curl, scripts on this machine) aren't from a browser page
+function originAllowed(req) {
+  return !req.headers.origin || ALLOWED_ORIGINS.includes(req.headers.origin);
+}
+
+function hasGphoto2() {
+  try {
+    execFileSync('gphoto2', ['--version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const MODE = process.env.CAPTURE_BRIDGE_MODE || (hasGphoto2() ? 'gphoto2' : 'standin');
+fs.mkdirSync(FOLDER, { recursive: true });
+
+// ─── Camera ───────────────────────────────────────────────────────────────────
+
+let shotCount = 0;
+
+function standInFrame(label, width = 1920, height = 1280) {
+  const hue = (shotCount * 47) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+    <rect width="100%" height="100%" fill="hsl(${hue},45%,35%)"/>
+    <text x="50%" y="46%" font-family="sans-serif" font-size="${height / 10}" fill="#fff" text-anchor="middle">${label}</text>
+    <text x="50%" y="60%" font-family="sans-serif" font-size="${height / 24}" fill="#fff" fill-opacity="0.7" text-anchor="middle">${new Date().toLocaleTimeString()}</text>
+  </svg>`;
+  return sharp(Buffer.from(svg)).jpeg({ quality: 90 }).toBuffer();
+}
+
+function cameraName() {
+  if (MODE !== 'gphoto2') return Promise.resolve('Stand-in camera');
+  return new Promise((resolve) => {
+    execFile('gphoto2', ['--auto-detect'], (err, stdout) => {
+      // Output: header, dashes, then "<model>   usb:001,004"
+      const line = !err && stdout.split('\n').slice(2).find(l => l.trim());
+      resolve(line ? line.replace(/\s+usb:.*$/, '').trim() : null);
+    });
+  });
+}
+
+function gphotoCapture() {
+  const file = path.join(os.tmpdir(), `bridge-${Date.now()}.jpg`);
+  return new Promise((resolve, reject) => {
+    execFile('gphoto2', ['--capture-image-and-download', '--filename', file, '--force-overwrite'], { timeout: 30_000 }, (err) => {
+      if (err) return reject(err);
+      fs.readFile(file, (readErr, buffer) => {
+        fs.unlink(file, () => {});
+        if (readErr) reject(readErr);
+        else resolve(buffer);
+      });
+    });
+  });
+}
+
+// ─── Live view ────────────────────────────────────────────────────────────────
+// One camera connection is shared by every viewer. gphoto2 can't capture while
+// streaming, so the stream pauses during a capture and viewers stay connected.
+
+const BOUNDARY = 'frame';
+const viewers = new Set();
+let liveProcess = null;
+let standInTimer = null;
+let paused = false;
+
+function broadcast(jpeg) {
+  for (const res of viewers) {
+    res.write(`--${BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${jpeg.length}\r\n\r\n`);
+    res.write(jpeg);
+    res.write('\r\n');
+  }
+}
+
+function startLiveView() {
+  if (paused || viewers.size === 0 || liveProcess || standInTimer) return;
+
+  if (MODE !== 'gphoto2') {
+    standInTimer = setInterval(async () => broadcast(await standInFrame('Live view', 960, 640)), 200);
+    return;
+  }
+
+  // --capture-movie writes back-to-back JPEGs; split them on SOI/EOI markers
+  liveProcess = spawn('gphoto2', ['--capture-movie', '--stdout'], { stdio: ['ignore', 'pipe', 'ignore'] });
+  let pending = Buffer.alloc(0);
+  liveProcess.stdout.on('data', (chunk) => {
+    pending = Buffer.concat([pending, chunk]);
+    for (;;) {
+      const start = pending.indexOf(Buffer.from([0xff, 0xd8]));
+      const end = start === -1 ? -1 : pending.indexOf(Buffer.from([0xff, 0xd9]), start + 2);
+      if (end === -1) break;
+      broadcast(pending.subarray(start, end + 2));
+      pending = pending.subarray(end + 2);
+    }
+  });
+  liveProcess.on('exit', () => { liveProcess = null; });
+}
+
+function stopLiveView() {
+  if (standInTimer) clearInterval(standInTimer);
+  standInTimer = null;
+  if (!liveProcess) return Promise.resolve();
+  const proc = liveProcess;
+  return new Promise((resolve) => {
+    proc.once('exit', () => resolve());
+    proc.kill('SIGINT');
+  });
+}
+
+// ─── Hot folder ───────────────────────────────────────────────────────────────
+
+function listFolder() {
+  return fs.readdirSync(FOLDER)
+    .filter(name => IMAGE_EXT.test(name))
+    .map(name => ({ name, modifiedAt: fs.statSync(path.join(FOLDER, name)).mtimeMs }))
+    .sort((a, b) => b.modifiedAt - a.modifiedAt)
+    .slice(0, 50)
+    .map(f => ({ ...f, url: `/folder/${encodeURIComponent(f.name)}`, modifiedAt: new Date(f.modifiedAt).toISOString() }));
+}
+
+// ─── HTTP ─────────────────────────────────────────────────────────────────────
+
+function sendJSON(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer(async (req, res) => {
+  if (!originAllowed(req)) return sendJSON(res, 403, { error: 'Origin not allowed' });
+  if (req.headers.origin) {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  }
+  if (req.method === 'OPTIONS') return res.writeHead(204).end();
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  try {
+    if (req.method === 'GET' && url.pathname === '/status') {
+      const camera = await cameraName();
+      return sendJSON(res, camera ? 200 : 503, { ok: !!camera, mode: MODE, camera });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/capture') {
+      paused = true;
+      await stopLiveView();
+      try {
+        shotCount++;
+        const jpeg = MODE === 'gphoto2' ? await gphotoCapture() : await standInFrame(`Shot ${shotCount}`);
+        fs.writeFile(path.join(FOLDER, `capture-${Date.now()}.jpg`), jpeg, () => {});
+        res.writeHead(200, { 'Content-Type': 'image/jpeg', 'Content-Length': jpeg.length });
+        return res.end(jpeg);
+      } finally {
+        paused = false;
+        startLiveView();
+      }
+    }
+
+    if (req.method === 'GET' && url.pathname === '/liveview') {
+      res.writeHead(200, {
+        'Content-Type': `multipart/x-mixed-replace; boundary=${BOUNDARY}`,
+        'Cache-Control': 'no-cache',
+        Connection: 'close',
+      });
+      viewers.add(res);
+      req.on('close', () => {
+        viewers.delete(res);
+        if (viewers.size === 0) stopLiveView();
+      });
+      return startLiveView();
+    }
+
+    if (req.method === 'GET' && url.pathname === '/folder') {
+      return sendJSON(res, 200, { files: listFolder() });
+    }
+
+    if (req.method === 'GET' && url.pathname.startsWith('/folder/')) {
+      const name = path.basename(decodeURIComponent(url.pathname.slice('/folder/'.length)));
+      const file = path.join(FOLDER, name);
+      if (!IMAGE_EXT.test(name) || !fs.existsSync(file)) return sendJSON(res, 404, { error: 'Not found' });
+      res.writeHead(200, { 'Content-Type': 'image/jpeg' });
+      return fs.createReadStream(file).pipe(res);
+    }
+
+    sendJSON(res, 404, { error: 'Not found' });
+  } catch (error) {
+    console.error('❌ Bridge error:', error.message);
+    if (!res.headersSent) sendJSON(res, 500, { error: error.message });
+    else res.end();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`📷 Capture bridge (${MODE}) on http://localhost:${PORT}`);
+  console.log(`📁 Hot folder: ${FOLDER}`);
+  console.log(`🔒 Accepting booths from ${ALLOWED_ORIGINS.join(', ')}`);
+});
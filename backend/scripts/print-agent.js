@@ -0,0 +1,480 @@
+/**
+ * print-agent.js
+ * Local print agent for silent printing from the booth browser to a dye-sub printer.
+ * Runs on the booth machine next to the browser — not on the API server.
+ *
+ * Usage:
+ *   node scripts/print-agent.js
+ *
+ * Env vars (all optional):
+ *   PRINT_AGENT_PORT       port to listen on (default 5056)
+ *   PRINT_AGENT_MODE       'cups' or 'standin' (default: cups when a CUPS printer is set up, else standin)
+ *   PRINTER_NAME           CUPS queue to print to (default: the CUPS default printer)
+ *   PRINT_DPI              render resolution (default 300)
+ *   PRINT_MEDIA_CAPACITY   prints per media roll / ribbon (default 400)
+ *   PRINT_OUTPUT_DIR       where the stand-in writes its PDFs (default ./prints)
+ *   PRINT_AGENT_ORIGINS    comma-separated booth origins allowed to print (default: ALLOWED_ORIGINS,
+ *                          else the hosted frontend and http://localhost:3000)
+ *
+ * Protocol (version 1):
+ *   GET    /status                      { ok, protocol, mode, printer: { name, state, error, media } }
+ *   POST   /jobs?id=&copies=&paperSize= body is the page (image/jpeg or image/png) → 202 { job }
+ *                                        re-submitting a known id returns that job instead of printing again
+ *   GET    /jobs/:id                    { job }
+ *   DELETE /jobs/:id                    cancel a job that hasn't started → { job }, 409 once printing
+ *   WS     /events                      pushes { type: 'status', printer } and { type: 'job', job }
+ *
+ *   printer.state  'idle' | 'printing' | 'error' | 'offline'
+ *   printer.media  { remaining, capacity } or null when the printer doesn't report it
+ *   job.status     'queued' | 'printing' | 'completed' | 'failed' | 'cancelled'
+ *   error          { code, message } — code is one of out_of_media, ribbon_out, paper_jam,
+ *                  cover_open, offline, render_failed, unknown
+ *   paperSize      the media loaded: 4x6, 5x7, 6x8, a5, a4 or letter. The booth sends pages
+ *                  already laid out for it, bleed included (frontend/src/services/printRenderer.ts);
+ *                  the agent only scales them to the media at PRINT_DPI.
+ *
+ * The stand-in mode needs no printer: each job becomes a print-ready PDF (one page
+ * per copy) in PRINT_OUTPUT_DIR, and media counts down from PRINT_MEDIA_CAPACITY.
+ */
+
+const http = require('http');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+const { execFile, execFileSync } = require('child_process');
+const sharp = require('sharp');
+
+const PROTOCOL_VERSION = 1;
+const PORT = Number(process.env.PRINT_AGENT_PORT) || 5056;
+const DPI = Number(process.env.PRINT_DPI) || 300;
+const MEDIA_CAPACITY = Number(process.env.PRINT_MEDIA_CAPACITY) || 400;
+const OUTPUT_DIR = path.resolve(process.env.PRINT_OUTPUT_DIR || './prints');
+const MAX_BODY_BYTES = 30 * 1024 * 1024;
+const CUPS_POLL_MS = 2000;
+
+// Only the booth frontend may drive the printer; any other page the booth browser
+// opens would otherwise be able to print, cancel jobs and read the queue
+const ALLOWED_ORIGINS = (process.env.PRINT_AGENT_ORIGINS || process.env.ALLOWED_ORIGINS || 'https://photobooth-v2-ten.vercel.app,http://localhost:3000')
+  .split(',').map(o => o.trim()).filter(Boolean);
+
+// Requests without an Origin (curl, scripts on this machine) aren't from a browser page
+function originAllowed(req) {
+  return !req.headers.origin || ALLOWED_ORIGINS.includes(req.headers.origin);
+}
+
+// Page sizes in inches, portrait. CUPS media names are PWG sizes in points.
+const PAPER_SIZES = {
+  '4x6':   { width: 4,    height: 6,     cups: 'w288h432' },
+  '5x7':   { width: 5,    height: 7,     cups: 'w360h504' },
+  '6x8':   { width: 6,    height: 8,     cups: 'w432h576' },
+  a5:      { width: 5.83, height: 8.27,  cups: 'A5' },
+  a4:      { width: 8.27, height: 11.69, cups: 'A4' },
+  letter:  { width: 8.5,  height: 11,    cups: 'Letter' },
+};
+
+function run(cmd, args) {
+  return new Promise((resolve, reject) => {
+    execFile(cmd, args, { timeout: 15_000 }, (err, stdout) => (err ? reject(err) : resolve(stdout)));
+  });
+}
+
+function cupsDefaultPrinter() {
+  if (process.env.PRINTER_NAME) return process.env.PRINTER_NAME;
+  try {
+    // "system default destination: DNP_DS620"
+    const out = execFileSync('lpstat', ['-d'], { encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] });
+    const match = out.match(/destination:\s*(\S+)/);
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+const PRINTER = cupsDefaultPrinter();
+const MODE = process.env.PRINT_AGENT_MODE || (PRINTER ? 'cups' : 'standin');
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+/**
+ * Scale the page to the media at DPI. Landscape pages print on landscape media,
+ * so nothing is cropped more than the aspect difference requires.
+ */
+async function renderPage(image, paperSize) {
+  const paper = PAPER_SIZES[paperSize] || PAPER_SIZES['4x6'];
+  const { data, info } = await sharp(image).rotate().toBuffer({ resolveWithObject: true });
+  const landscape = info.width > info.height;
+  const inches = landscape ? { width: paper.height, height: paper.width } : { width: paper.width, height: paper.height };
+  const width = Math.round(inches.width * DPI);
+  const height = Math.round(inches.height * DPI);
+
+  const jpeg = await sharp(data)
+    .resize(width, height, { fit: 'cover', position: 'centre' })
+    .flatten({ background: '#ffffff' })
+    .toColourspace('srgb')
+    .jpeg({ quality: 95, chromaSubsampling: '4:4:4' })
+    .withMetadata({ density: DPI })
+    .toBuffer();
+
+  return { jpeg, width, height, inches, paper };
+}
+
+/**
+ * Minimal PDF: one DCT-encoded image shared by `pages` identical pages.
+ */
+function jpegToPdf({ jpeg, width, height, inches }, pages) {
+  const w = (inches.width * 72).toFixed(2);
+  const h = (inches.height * 72).toFixed(2);
+  const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+  const pageIds = Array.from({ length: pages }, (_, i) => 5 + i);
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages} >>`,
+    [`<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`, jpeg, '\nendstream'],
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    ...pageIds.map(() => `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 3 0 R >> >> /Contents 4 0 R >>`),
+  ];
+
+  const chunks = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'binary')];
+  const offsets = [];
+  let size = chunks[0].length;
+  const push = (part) => {
+    const buf = Buffer.isBuffer(part) ? part : Buffer.from(part, 'binary');
+    chunks.push(buf);
+    size += buf.length;
+  };
+
+  objects.forEach((obj, i) => {
+    offsets.push(size);
+    push(`${i + 1} 0 obj\n`);
+    (Array.isArray(obj) ? obj : [obj]).forEach(push);
+    push('\nendobj\n');
+  });
+
+  const xref = size;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(o => push(`${String(o).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  return Buffer.concat(chunks);
+}
+
+// ─── Printers ─────────────────────────────────────────────────────────────────
+
+class PrintError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.code = code;
+  }
+}
+
+// Map the driver's free-text reason onto the protocol's error codes
+function classifyReason(reason) {
+  if (/ribbon|ink/i.test(reason)) return 'ribbon_out';
+  if (/paper|media/i.test(reason)) return 'out_of_media';
+  if (/jam/i.test(reason)) return 'paper_jam';
+  if (/cover|door/i.test(reason)) return 'cover_open';
+  if (/offline|not connected|unplugged/i.test(reason)) return 'offline';
+  return 'unknown';
+}
+
+const standInPrinter = {
+  name: 'Stand-in PDF printer',
+  remaining: MEDIA_CAPACITY,
+
+  async status() {
+    return {
+      name: this.name,
+      state: 'idle',
+      error: this.remaining > 0 ? null : { code: 'out_of_media', message: 'Out of paper' },
+      media: { remaining: this.remaining, capacity: MEDIA_CAPACITY },
+    };
+  },
+
+  async print(job, page) {
+    if (this.remaining < job.copies) throw new PrintError('out_of_media', 'Out of paper');
+    fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+    const file = path.join(OUTPUT_DIR, `${new Date().toISOString().replace(/[:.]/g, '-')}-${job.id}.pdf`);
+    fs.writeFileSync(file, jpegToPdf(page, job.copies));
+    this.remaining -= job.copies;
+    job.output = file;
+  },
+};
+
+const cupsPrinter = {
+  name: PRINTER,
+
+  async status() {
+    let state = 'idle';
+    let error = null;
+    try {
+      // "printer DNP is idle.  enabled since …" / "printer DNP disabled since … -\n\tRibbon end"
+      const out = await run('lpstat', ['-p', PRINTER]);
+      if (/disabled/.test(out)) {
+        const reason = out.split('\n').slice(1).join(' ').trim() || 'Printer stopped';
+        state = 'error';
+        error = { code: classifyReason(reason), message: reason };
+      } else if (/now printing/.test(out)) {
+        state = 'printing';
+      }
+    } catch {
+      return { name: PRINTER, state: 'offline', error: { code: 'offline', message: 'Printer not found' }, media: null };
+    }
+    return { name: PRINTER, state, error, media: await this.media() };
+  },
+
+  // Drivers that report supply levels expose them as CUPS marker-levels (percent)
+  async media() {
+    try {
+      const out = await run('lpoptions', ['-p', PRINTER]);
+      const match = out.match(/marker-levels=(-?\d+)/);
+      if (!match || Number(match[1]) < 0) return null;
+      return { remaining: Math.round((Number(match[1]) / 100) * MEDIA_CAPACITY), capacity: MEDIA_CAPACITY };
+    } catch {
+      return null;
+    }
+  },
+
+  async print(job, page) {
+    const file = path.join(os.tmpdir(), `print-${job.id}.jpg`);
+    fs.writeFileSync(file, page.jpeg);
+    try {
+      // "request id is DNP-42 (1 file(s))"
+      const out = await run('lp', ['-d', PRINTER, '-n', String(job.copies), '-o', `media=${page.paper.cups}`, '-o', 'fit-to-page', file]);
+      const requestId = (out.match(/request id is (\S+)/) || [])[1];
+      if (!requestId) throw new PrintError('unknown', 'CUPS did not accept the job');
+
+      for (;;) {
+        await new Promise(r => setTimeout(r, CUPS_POLL_MS));
+        const pending = await run('lpstat', ['-o', PRINTER]).catch(() => '');
+        if (!pending.includes(requestId)) return;
+        const status = await this.status();
+        if (status.state === 'error' || status.state === 'offline') {
+          await run('cancel', [requestId]).catch(() => {});
+          throw new PrintError(status.error.code, status.error.message);
+        }
+      }
+    } finally {
+      fs.unlink(file, () => {});
+    }
+  },
+};
+
+const printer = MODE === 'cups' ? cupsPrinter : standInPrinter;
+
+// ─── Jobs ─────────────────────────────────────────────────────────────────────
+
+const jobs = new Map();     // id → job, kept for the life of the agent
+const queue = [];           // { job, image } waiting to print
+let printing = false;
+
+function publicJob(job) {
+  const { id, status, copies, paperSize, error, createdAt, completedAt } = job;
+  return { id, status, copies, paperSize, error, createdAt, completedAt };
+}
+
+function updateJob(job, patch) {
+  Object.assign(job, patch);
+  broadcast({ type: 'job', job: publicJob(job) });
+}
+
+async function processQueue() {
+  if (printing) return;
+  printing = true;
+  try {
+    while (queue.length > 0) {
+      const { job, image } = queue.shift();
+      if (job.status !== 'queued') continue;
+      updateJob(job, { status: 'printing' });
+      broadcastStatus();
+      try {
+        let page;
+        try {
+          page = await renderPage(image, job.paperSize);
+        } catch (err) {
+          throw new PrintError('render_failed', `Could not read the photo: ${err.message}`);
+        }
+        await printer.print(job, page);
+        updateJob(job, { status: 'completed', completedAt: new Date().toISOString() });
+        console.log(`🖨️  ${job.id} printed (${job.copies}× ${job.paperSize})${job.output ? ` → ${job.output}` : ''}`);
+      } catch (err) {
+        const error = { code: err.code || 'unknown', message: err.message };
+        updateJob(job, { status: 'failed', error, completedAt: new Date().toISOString() });
+        console.error(`❌ ${job.id} failed: ${error.message}`);
+      }
+      broadcastStatus();
+    }
+  } finally {
+    printing = false;
+  }
+}
+
+async function printerStatus() {
+  const status = await printer.status();
+  if (printing && status.state === 'idle') status.state = 'printing';
+  return status;
+}
+
+// ─── WebSocket (/events) ──────────────────────────────────────────────────────
+// Server → client text frames only; the booth never needs to send anything.
+
+const sockets = new Set();
+
+function wsFrame(text) {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81; header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81; header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+function broadcast(message) {
+  const frame = wsFrame(JSON.stringify(message));
+  for (const socket of sockets) socket.write(frame);
+}
+
+function broadcastStatus() {
+  if (sockets.size === 0) return;
+  printerStatus().then(status => broadcast({ type: 'status', printer: status })).catch(() => {});
+}
+
+function acceptWebSocket(req, socket) {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) return socket.destroy();
+  const accept = crypto.createHash('sha1').update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', '',
+  ].join('\r\n'));
+
+  sockets.add(socket);
+  socket.on('data', (buf) => {
+    if ((buf[0] & 0x0f) === 0x8) socket.end();   // close frame
+  });
+  socket.on('close', () => sockets.delete(socket));
+  socket.on('error', () => sockets.delete(socket));
+  printerStatus().then(status => socket.write(wsFrame(JSON.stringify({ type: 'status', printer: status })))).catch(() => {});
+}
+
+// ─── HTTP ─────────────────────────────────────────────────────────────────────
+
+function sendJSON(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Photo too large'));
+        req.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  if (!originAllowed(req)) return sendJSON(res, 403, { error: 'Origin not allowed' });
+  if (req.headers.origin) {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    // Lets the hosted booth page reach this agent on localhost
+    res.setHeader('Access-Control-Allow-Private-Network', 'true');
+  }
+  if (req.method === 'OPTIONS') return res.writeHead(204).end();
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const jobMatch = url.pathname.match(/^\/jobs\/([\w-]+)$/);
+  try {
+    if (req.method === 'GET' && url.pathname === '/status') {
+      const status = await printerStatus();
+      return sendJSON(res, 200, { ok: status.state !== 'offline', protocol: PROTOCOL_VERSION, mode: MODE, printer: status });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/jobs') {
+      const id = url.searchParams.get('id');
+      if (!id || !/^[\w-]+$/.test(id)) return sendJSON(res, 400, { error: 'id required' });
+
+      // A booth that reloaded mid-print resubmits the same job — report it, don't print twice
+      const existing = jobs.get(id);
+      if (existing) {
+        req.resume();
+        return sendJSON(res, 202, { job: publicJob(existing) });
+      }
+
+      const image = await readBody(req);
+      if (image.length === 0) return sendJSON(res, 400, { error: 'Photo required' });
+      const paperSize = url.searchParams.get('paperSize') || '4x6';
+      if (!PAPER_SIZES[paperSize]) return sendJSON(res, 400, { error: `Unknown paper size ${paperSize}` });
+
+      const job = {
+        id,
+        status: 'queued',
+        copies: Math.max(1, Math.min(10, Number(url.searchParams.get('copies')) || 1)),
+        paperSize,
+        error: null,
+        createdAt: new Date().toISOString(),
+        completedAt: null,
+      };
+      jobs.set(id, job);
+      queue.push({ job, image });
+      broadcast({ type: 'job', job: publicJob(job) });
+      processQueue();
+      return sendJSON(res, 202, { job: publicJob(job) });
+    }
+
+    if (req.method === 'GET' && jobMatch) {
+      const job = jobs.get(jobMatch[1]);
+      return job ? sendJSON(res, 200, { job: publicJob(job) }) : sendJSON(res, 404, { error: 'Job not found' });
+    }
+
+    if (req.method === 'DELETE' && jobMatch) {
+      const job = jobs.get(jobMatch[1]);
+      if (!job) return sendJSON(res, 404, { error: 'Job not found' });
+      if (job.status !== 'queued') return sendJSON(res, 409, { error: `Job is already ${job.status}`, job: publicJob(job) });
+      updateJob(job, { status: 'cancelled', completedAt: new Date().toISOString() });
+      return sendJSON(res, 200, { job: publicJob(job) });
+    }
+
+    sendJSON(res, 404, { error: 'Not found' });
+  } catch (error) {
+    console.error('❌ Agent error:', error.message);
+    if (!res.headersSent) sendJSON(res, 500, { error: error.message });
+    else res.end();
+  }
+});
+
+server.on('upgrade', (req, socket) => {
+  // Browsers don't apply CORS to WebSockets, so check the origin here too
+  if (!originAllowed(req)) return socket.destroy();
+  if (new URL(req.url, `http://localhost:${PORT}`).pathname === '/events') acceptWebSocket(req, socket);
+  else socket.destroy();
+});
+
+server.listen(PORT, () => {
+  console.log(`🖨️  Print agent (${MODE}${MODE === 'cups' ? `: ${PRINTER}` : ''}) on http://localhost:${PORT}`);
+  console.log(`🔒 Accepting booths from ${ALLOWED_ORIGINS.join(', ')}`);
+  if (MODE !== 'cups') console.log(`📁 PDFs: ${OUTPUT_DIR}`);
+});
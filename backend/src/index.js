@@ -48,6 +48,27 @@ const authLimiter = rateLimit({
 app.use('/api/auth/login', authLimiter);
 app.use('/api/auth/signup', authLimiter);
 app.use('/api/auth/forgot-password', authLimiter);
+app.use('/api/gallery/:slug/verify-password', authLimiter);
+app.use('/api/prints/event/:eventId/override', authLimiter);
+app.use('/api/events/:id/operator-pin', authLimiter);
+
+// Guest ZIP downloads fetch every selected photo — keep them well under the global limit
+app.use('/api/gallery/:slug/download', rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: Number(process.env.GALLERY_ZIP_PER_15_MIN) || 10,
+  message: { error: 'Too many downloads, please try again in 15 minutes' },
+  standardHeaders: true,
+  legacyHeaders: false,
+}));
+
+// Each selfie search runs face detection on the CPU — a handful per guest is plenty
+app.use('/api/gallery/:slug/faces/search', rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: Number(process.env.FACE_SEARCH_PER_15_MIN) || 10,
+  message: { error: 'Too many searches, please try again in 15 minutes' },
+  standardHeaders: true,
+  legacyHeaders: false,
+}));
 
 // ── Safe route loader ─────────────────────────────────────────────────────────
 const routeStatus = {};
@@ -84,6 +105,8 @@ app.use('/api/gallery',   safeRoute('gallery',   './routes/gallery'));
 app.use('/api/email',     safeRoute('email',     './routes/email'));
 app.use('/api/backgrounds', safeRoute('backgrounds', './routes/backgrounds'));
 app.use('/api/templates', safeRoute('templates', './routes/templates'));
+app.use('/api/prints',    safeRoute('prints',    './routes/prints'));
+app.use('/api/sessions',  safeRoute('sessions',  './routes/sessions'));
 
 app.get('/', (req, res) => res.json({ name: 'SnapBooth AI Backend', status: 'ok', version: '2.0.0' }));
 
@@ -180,3 +203,13 @@ async function seedDemoEvent() {
 }
 
 seedDemoEvent();
+
+// ─── Gallery retention sweep ─────────────────────────────────────────────────
+require('./services/retention').startRetentionJobs();
+
+// ─── Gallery grid placeholders (dimensions + LQIP) ───────────────────────────
+require('./services/placeholders').startPlaceholderJobs();
+
+// ─── Face search indexer + expiry purge ──────────────────────────────────────
+require('./services/faceSearch').startFaceSearchJobs()
+  .catch(e => console.warn('⚠️  Face search jobs not started:', e.message));
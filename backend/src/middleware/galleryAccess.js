@@ -0,0 +1,57 @@
+const { authenticate } = require('./requireAuth');
+const { findGalleryEvent, isProtected, verifyGalleryToken, tokenFromRequest } = require('../services/galleryAccess');
+const { galleryClosed } = require('../services/retention');
+
+/**
+ * galleryAccess middleware factory
+ * Guards gallery content (photo listing, downloads, ZIP, face search, social wall).
+ * `eventParam` names the route param holding the event slug or id, or is an async
+ * function of the request returning it for routes keyed by something else.
+ * With `{ display: true }` the operator's wall display links are accepted too.
+ *
+ * Lets the request through for:
+ *   - the event's owner, signed in (Authorization: Bearer
+ *     <supabase JWT>)                                            → req.galleryAccess = 'operator'
+ *   - anyone, when the gallery has no password                   → req.galleryAccess = 'guest'
+ *   - guests with a valid gallery token (X-Gallery-Token header,
+ *     or ?access_token= for plain links such as downloads)       → req.galleryAccess = 'guest'
+ *
+ * Attaches req.galleryEvent. Returns 404 for unknown events, 410 { error: 'GALLERY_EXPIRED' }
+ * to guests once the gallery has expired, and 401 { error: 'PASSWORD_REQUIRED' } when
+ * a protected gallery has no valid token.
+ */
+function galleryAccess(eventParam = 'slug', { display = false } = {}) {
+  return async (req, res, next) => {
+    try {
+      const key = typeof eventParam === 'function' ? await eventParam(req) : req.params[eventParam];
+      const event = key ? await findGalleryEvent(key) : null;
+      if (!event) return res.status(404).json({ error: 'Gallery not found' });
+      req.galleryEvent = event;
+
+      // A stale session, or someone else's account, falls through to the guest rules
+      const auth = req.headers.authorization ? await authenticate(req).catch(() => null) : null;
+      if (auth && event.owner_id && auth.user.id === event.owner_id) {
+        req.user = auth.user;
+        req.supabaseUser = auth.supabaseUser;
+        req.galleryAccess = 'operator';
+        return next();
+      }
+
+      if (galleryClosed(event)) {
+        return res.status(410).json({ error: 'GALLERY_EXPIRED', eventName: event.name });
+      }
+      if (isProtected(event)) {
+        const token = verifyGalleryToken(event, tokenFromRequest(req));
+        if (!token || (token.k === 'display' && !display)) {
+          return res.status(401).json({ error: 'PASSWORD_REQUIRED', eventName: event.name });
+        }
+      }
+      req.galleryAccess = 'guest';
+      next();
+    } catch (err) {
+      res.status(500).json({ error: err.message });
+    }
+  };
+}
+
+module.exports = galleryAccess;
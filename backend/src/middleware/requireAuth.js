@@ -1,5 +1,27 @@
 const { createClient } = require('@supabase/supabase-js');
 
+/**
+ * Resolve the Supabase user behind an Authorization: Bearer <token> header.
+ * Returns { user, supabaseUser }, or null when the header is missing or invalid.
+ */
+async function authenticate(req) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+
+  const token = authHeader.split(' ')[1];
+
+  // Create a per-request client using the user's JWT
+  const supabaseUser = createClient(
+    process.env.SUPABASE_URL,
+    process.env.SUPABASE_ANON_KEY,
+    { global: { headers: { Authorization: `Bearer ${token}` } } }
+  );
+
+  const { data: { user }, error } = await supabaseUser.auth.getUser();
+  if (error || !user) return null;
+  return { user, supabaseUser };
+}
+
 /**
  * requireAuth middleware
  * Validates Supabase JWT from Authorization: Bearer <token>
@@ -13,23 +35,13 @@ async function requireAuth(req, res, next) {
       return res.status(401).json({ error: 'Missing authorization token' });
     }
 
-    const token = authHeader.split(' ')[1];
-
-    // Create a per-request client using the user's JWT
-    const supabaseUser = createClient(
-      process.env.SUPABASE_URL,
-      process.env.SUPABASE_ANON_KEY,
-      { global: { headers: { Authorization: `Bearer ${token}` } } }
-    );
-
-    const { data: { user }, error } = await supabaseUser.auth.getUser();
-
-    if (error || !user) {
+    const auth = await authenticate(req);
+    if (!auth) {
       return res.status(401).json({ error: 'Invalid or expired token' });
     }
 
-    req.user = user;
-    req.supabaseUser = supabaseUser;
+    req.user = auth.user;
+    req.supabaseUser = auth.supabaseUser;
     next();
   } catch (err) {
     console.error('Auth middleware error:', err.message);
@@ -38,3 +50,4 @@ async function requireAuth(req, res, next) {
 }
 
 module.exports = requireAuth;
+module.exports.authenticate = authenticate;
@@ -6,6 +6,8 @@ const { generateAIImage, applyAIFilter, AI_STYLES } = require('../services/ai');
 const { uploadToStorage } = require('../services/storage');
 const { generateQRDataURL, buildGalleryUrl, generateUniqueShortCode } = require('../services/sharing');
 const supabase = require('../services/database');
+const { initialModerationStatus } = require('../services/moderation');
+const { screenImage } = require('../services/screening');
 const { v4: uuidv4 } = require('uuid');
 
 const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 15 * 1024 * 1024 } });
@@ -204,6 +206,7 @@ router.post(
 router.post('/generate', upload.single('file'), async (req, res) => {
   try {
     const { styleKey = 'anime', eventId, photoId, customPrompt } = req.body;
+    let sessionId = req.body.sessionId || null;
     if (!eventId) return res.status(400).json({ error: 'eventId required' });
 
     // Get image buffer — either from direct upload or from stored photo
@@ -216,11 +219,13 @@ router.post('/generate', upload.single('file'), async (req, res) => {
       // Fetch stored photo from DB + download from URL
       const { data: photo } = await supabase
         .from('photos')
-        .select('url')
+        .select('url, session_id')
         .eq('id', photoId)
         .maybeSingle();
 
       if (!photo?.url) return res.status(404).json({ error: 'Photo not found' });
+      // The AI result joins the guest's session album alongside the original
+      sessionId = sessionId || photo.session_id || null;
 
       // Download photo using built-in https/http (no external dependency)
       imageBuffer = await new Promise((resolve, reject) => {
@@ -288,7 +293,7 @@ router.post('/generate', upload.single('file'), async (req, res) => {
       }
     }
 
-    const { data: event } = await supabase.from('events').select('id, slug, name').eq('id', eventId).maybeSingle();
+    const { data: event } = await supabase.from('events').select('id, slug, name, settings').eq('id', eventId).maybeSingle();
     if (!event) return res.status(404).json({ error: 'Event not found' });
 
     // Upload AI image to storage
@@ -297,6 +302,9 @@ router.post('/generate', upload.single('file'), async (req, res) => {
     const aiUrl = await uploadToStorage(result.buffer, storageKey, 'image/jpeg');
     const shortCode = await generateUniqueShortCode(supabase);
 
+    // Generated images are screened like captures — a model can produce what the guest didn't pose
+    const screening = await screenImage(event, result.buffer);
+
     // Save to DB linked to original photo
     const galleryUrl = buildGalleryUrl(event.slug, aiId, shortCode);
     console.log('[ai/generate] short_code generated', { aiId, eventId, shortCode, galleryUrl });
@@ -310,7 +318,10 @@ router.post('/generate', upload.single('file'), async (req, res) => {
       storage_key: storageKey,
       mode: 'ai',
       short_code: shortCode,
+      session_id: sessionId,
       metadata: { style: styleKey, originalPhotoId: photoId },
+      moderation_status: initialModerationStatus(event),
+      ...screening,
     });
     if (aiInsertError) throw aiInsertError;
     console.log('[ai/generate] DB insert success', { aiId, eventId, shortCode });
@@ -412,9 +423,11 @@ router.post('/surprise', upload.single('photo'), async (req, res) => {
     const storageKey = `events/${eventId || 'unknown'}/ai/${aiId}.jpg`;
     const aiUrl = await uploadToStorage(result.buffer, storageKey, 'image/jpeg');
     const shortCode = await generateUniqueShortCode(supabase);
-    const { data: event } = await supabase.from('events').select('id, slug').eq('id', eventId).maybeSingle();
+    const { data: event } = await supabase.from('events').select('id, slug, settings').eq('id', eventId).maybeSingle();
     if (!event) return res.status(404).json({ error: 'Event not found' });
 
+    const screening = await screenImage(event, result.buffer);
+
     const galleryUrl = buildGalleryUrl(event.slug, aiId, shortCode);
     console.log('[ai/surprise] short_code generated', { aiId, eventId, shortCode, galleryUrl });
     const qrDataUrl = await generateQRDataURL(galleryUrl);
@@ -427,7 +440,10 @@ router.post('/surprise', upload.single('photo'), async (req, res) => {
       storage_key: storageKey,
       mode: 'ai',
       short_code: shortCode,
+      session_id: req.body.sessionId || null,
       metadata: { style: randomStyle, surprise: true },
+      moderation_status: initialModerationStatus(event),
+      ...screening,
     });
     if (surpriseInsertError) throw surpriseInsertError;
     console.log('[ai/surprise] DB insert success', { aiId, eventId, shortCode });
@@ -1,6 +1,8 @@
 const express = require('express');
 const router = express.Router();
 const supabase = require('../services/database');
+const requireAuth = require('../middleware/requireAuth');
+const { GALLERY_EXTENSIONS, extendGallery } = require('../services/retention');
 
 // Lazy-load stripe so missing STRIPE_SECRET_KEY doesn't crash the server at startup.
 // Routes will return 503 if key is not configured.
@@ -140,6 +142,49 @@ router.post('/checkout/event', async (req, res) => {
   }
 });
 
+// ─── POST /api/billing/checkout/gallery-extension ────────────────────────────
+// "Extend gallery" upsell: one-time charge that adds days to an event's gallery.
+// Applied by the webhook once paid. Body: { eventId, days: 30 | 90 }
+router.post('/checkout/gallery-extension', requireAuth, async (req, res) => {
+  try {
+    const { eventId, days } = req.body;
+    const amount = GALLERY_EXTENSIONS[days];
+    if (!amount) return res.status(400).json({ error: `days must be one of ${Object.keys(GALLERY_EXTENSIONS).join(', ')}` });
+
+    const { data: event } = await supabase.from('events').select('id, name, owner_id, retention_state').eq('id', eventId).maybeSingle();
+    // Only the owner buys time for a gallery
+    if (!event || event.owner_id !== req.user.id) return res.status(404).json({ error: 'Event not found' });
+    if (event.retention_state) return res.status(409).json({ error: 'This gallery has already been closed' });
+
+    const stripe = getStripe();
+    const session = await stripe.checkout.sessions.create({
+      payment_method_types: ['card'],
+      mode: 'payment',
+      line_items: [
+        {
+          price_data: {
+            currency: 'usd',
+            product_data: {
+              name: `Gallery Extension — ${days} days`,
+              description: `Keep the ${event.name} gallery online ${days} days longer`,
+            },
+            unit_amount: amount,
+          },
+          quantity: 1,
+        },
+      ],
+      customer_email: req.user.email,
+      success_url: `${process.env.FRONTEND_URL}/admin/events/${event.id}?gallery_extended=${days}`,
+      cancel_url: `${process.env.FRONTEND_URL}/admin/events/${event.id}`,
+      metadata: { type: 'gallery_extension', eventId: event.id, days: String(days) },
+    });
+
+    res.json({ checkoutUrl: session.url });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // ─── POST /api/billing/portal ────────────────────────────────────────────────
 // Opens Stripe Customer Portal for self-service billing management
 router.post('/portal', async (req, res) => {
@@ -185,6 +230,12 @@ router.post('/webhook', express.raw({ type: 'application/json' }), async (req, r
     switch (event.type) {
       case 'checkout.session.completed': {
         const session = event.data.object;
+
+        if (session.metadata?.type === 'gallery_extension') {
+          await extendGallery(session.metadata.eventId, Number(session.metadata.days), session.id);
+          break;
+        }
+
         const { planKey, operatorEmail, operatorName } = session.metadata;
 
         // Upsert operator record
@@ -2,6 +2,7 @@ const express = require('express');
 const { v4: uuidv4 } = require('uuid');
 const router = express.Router();
 const supabase = require('../services/database');
+const { operatorPinOf, operatorPinMatches, withoutOperatorPin } = require('../services/operatorPin');
 
 /**
  * Generate a URL-safe slug from event name
@@ -60,7 +61,11 @@ router.get('/:id', async (req, res) => {
     }
 
     if (!event) return res.status(404).json({ error: 'Event not found' });
-    res.json({ event });
+
+    // The gallery password and operator PIN never leave the server — guests verify the
+    // password through /api/gallery, the booth checks the PIN with POST /:id/operator-pin
+    const { gallery_password, archive_key, ...visible } = event;
+    res.json({ event: { ...withoutOperatorPin(visible), gallery_protected: !!gallery_password } });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -138,7 +143,7 @@ router.post('/', async (req, res) => {
 
     if (error) throw error;
 
-    res.status(201).json({ success: true, event });
+    res.status(201).json({ success: true, event: withoutOperatorPin(event) });
   } catch (error) {
     console.error('Event creation error:', error);
     res.status(500).json({ error: error.message });
@@ -152,7 +157,21 @@ router.post('/', async (req, res) => {
 router.put('/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const updates = req.body;
+    // Gallery password changes go through PUT /api/gallery/:id/access, which also signs guests out
+    // Retention columns are managed by the retention sweep and paid extensions
+    const {
+      gallery_password, gallery_token_version, gallery_protected,
+      gallery_expires_at, gallery_extra_days, retention_state, archive_key,
+      ...updates
+    } = req.body;
+
+    // Event responses leave the PIN out, so settings saved without one keep the current PIN;
+    // an explicit '' removes it
+    if (updates.settings && !('operatorPin' in updates.settings)) {
+      const { data: current } = await supabase.from('events').select('settings').eq('id', id).maybeSingle();
+      const operatorPin = operatorPinOf(current);
+      if (operatorPin) updates.settings = { ...updates.settings, operatorPin };
+    }
 
     const { data: event, error } = await supabase
       .from('events')
@@ -162,7 +181,23 @@ router.put('/:id', async (req, res) => {
       .single();
 
     if (error) throw error;
-    res.json({ success: true, event });
+    const { gallery_password: password, archive_key: archiveKey, ...visible } = event;
+    res.json({ success: true, event: { ...withoutOperatorPin(visible), gallery_protected: !!password } });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/events/:id/operator-pin
+ * Check a PIN typed on the booth's operator pad — { pin } → { success }, 403 when wrong
+ */
+router.post('/:id/operator-pin', async (req, res) => {
+  try {
+    const { data: event } = await supabase.from('events').select('id, settings').eq('id', req.params.id).maybeSingle();
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+    if (!operatorPinMatches(event, req.body.pin)) return res.status(403).json({ error: 'Wrong PIN' });
+    res.json({ success: true });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
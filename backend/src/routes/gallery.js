@@ -1,67 +1,111 @@
 const express = require('express');
+const multer = require('multer');
 const router = express.Router();
 const supabase = require('../services/database');
+const requireAuth = require('../middleware/requireAuth');
+const galleryAccess = require('../middleware/galleryAccess');
+const { publicOnly, isPublic } = require('../services/moderation');
+const faceSearch = require('../services/faceSearch');
+const {
+  findGalleryEvent, isProtected, checkGalleryPassword, issueSessionToken, issueLinkToken, issueDisplayToken, revokeGalleryAccess,
+} = require('../services/galleryAccess');
+const { buildGalleryAccessUrl, buildWallUrl } = require('../services/sharing');
+const { getRetention } = require('../services/retention');
+const { pageSize, filterByMode, fetchPhotoPage } = require('../services/photoFeed');
 
-// ─── GET /api/gallery/:slug ───────────────────────────────────────────────────
-// Returns event info + paginated photos for public gallery
-router.get('/:slug', async (req, res) => {
-  try {
-    const { slug } = req.params;
-    const { page = 1, limit = 24, password } = req.query;
-
-    let { data: event } = await supabase
-      .from('events')
-      .select('id, name, slug, date, venue, branding, settings, gallery_password, gallery_expires_at')
-      .eq('slug', slug)
-      .maybeSingle();
+const WALL_LAYOUTS = ['mosaic', 'carousel', 'polaroid'];
+const WALL_PHOTO_LIMIT = 40;
+const ZIP_MAX_PHOTOS = Number(process.env.GALLERY_ZIP_MAX_PHOTOS) || 100;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-    if (!event && /^[0-9a-f-]{36}$/i.test(slug)) {
-      const byId = await supabase.from('events').select('id, name, slug, date, venue, branding, settings, gallery_password, gallery_expires_at').eq('id', slug).maybeSingle();
-      if (byId.data) event = byId.data;
+// Selfies for face search are read from memory and never stored
+const selfieUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 15 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only image files allowed'));
     }
+  },
+});
 
-    if (!event) return res.status(404).json({ error: 'Gallery not found' });
+function downloadExtension(contentType) {
+  if (contentType.includes('mp4')) return 'mp4';
+  if (contentType.includes('webm')) return 'webm';
+  if (contentType.includes('gif')) return 'gif';
+  return 'jpg';
+}
 
-    // Check if gallery has expired
-    if (event.gallery_expires_at && new Date(event.gallery_expires_at) < new Date()) {
-      return res.status(410).json({ error: 'Gallery has expired' });
+// Admin routes: the signed-in user's own event, or null — other accounts' events
+// look the same as missing ones
+async function findOwnedEvent(req) {
+  const event = await findGalleryEvent(req.params.slug);
+  return event && event.owner_id === req.user.id ? event : null;
+}
+
+// Public photo of this event, or null — what a guest may favourite or download
+async function findGalleryPhoto(event, photoId) {
+  if (!UUID_RE.test(photoId)) return null;
+  const { data: photo } = await supabase
+    .from('photos')
+    .select('id, is_hidden, moderation_status')
+    .eq('id', photoId)
+    .eq('event_id', event.id)
+    .is('superseded_by', null)
+    .maybeSingle();
+  return photo && isPublic(photo) ? photo : null;
+}
+
+// ─── GET /api/gallery/:slug ───────────────────────────────────────────────────
+// Returns event info + paginated photos for public gallery. Password-protected
+// galleries need an access token from /verify-password or a magic link.
+// With `cursor` (empty for the first page) it pages by cursor — the infinite
+// scroll grid — and `mode` (photo | gif | strip | ai) filters by capture type.
+router.get('/:slug', galleryAccess(), async (req, res) => {
+  try {
+    const { page = 1, limit = 24, cursor, mode } = req.query;
+    const event = req.galleryEvent;
+    const eventInfo = {
+      name: event.name,
+      slug: event.slug,
+      date: event.date,
+      venue: event.venue,
+      branding: event.branding,
+    };
+
+    // Only the first page counts — it's the expensive part of the query
+    const query = filterByMode(publicOnly(supabase
+      .from('photos')
+      .select('id, url, thumb_url, gallery_url, short_code, mode, created_at, width, height, placeholder', { count: cursor ? undefined : 'exact' })
+      .eq('event_id', event.id))
+      .is('superseded_by', null), mode);
+
+    // Track gallery view (fire and forget — don't block response); once per visit
+    // for the infinite scroll grid
+    if (!cursor) {
+      supabase.from('analytics').insert({
+        event_id: event.id,
+        action: 'gallery_viewed',
+        metadata: { page },
+      }).catch(() => {});
     }
 
-    // Password protection
-    if (event.gallery_password) {
-      if (!password) {
-        return res.status(401).json({ error: 'PASSWORD_REQUIRED', eventName: event.name });
-      }
-      if (password !== event.gallery_password) {
-        return res.status(403).json({ error: 'WRONG_PASSWORD' });
-      }
+    if (cursor !== undefined) {
+      const size = pageSize(limit, 24);
+      const { photos, nextCursor, count } = await fetchPhotoPage(query, { cursor, limit: size });
+      return res.json({ event: eventInfo, photos, nextCursor, total: cursor ? undefined : count || 0 });
     }
 
     // Fetch photos
     const offset = (Number(page) - 1) * Number(limit);
-    const { data: photos, count } = await supabase
-      .from('photos')
-      .select('id, url, thumb_url, gallery_url, mode, created_at', { count: 'exact' })
-      .eq('event_id', event.id)
-      .eq('is_hidden', false)
+    const { data: photos, count } = await query
       .order('created_at', { ascending: false })
       .range(offset, offset + Number(limit) - 1);
 
-    // Track gallery view (fire and forget — don't block response)
-    supabase.from('analytics').insert({
-      event_id: event.id,
-      action: 'gallery_viewed',
-      metadata: { page },
-    }).catch(() => {});
-
     res.json({
-      event: {
-        name: event.name,
-        slug: event.slug,
-        date: event.date,
-        venue: event.venue,
-        branding: event.branding,
-      },
+      event: eventInfo,
       photos: photos || [],
       pagination: {
         page: Number(page),
@@ -75,22 +119,463 @@ router.get('/:slug', async (req, res) => {
   }
 });
 
+// ─── GET /api/gallery/:slug/wall ──────────────────────────────────────────────
+// Social wall feed for /wall/[slug] — display settings + the latest photos it may
+// show. With wallRequireApproval on, only photos approved in Moderation qualify.
+// The wall re-fetches this on every 'photo-taken' / 'photo-moderated' socket event.
+// Protected galleries need a guest token or the token from a display link.
+router.get('/:slug/wall', galleryAccess('slug', { display: true }), async (req, res) => {
+  try {
+    const event = req.galleryEvent;
+
+    const settings = event.settings || {};
+    const wall = {
+      layout: WALL_LAYOUTS.includes(settings.wallLayout) ? settings.wallLayout : 'mosaic',
+      showQR: settings.wallShowQR !== false,
+      requireApproval: settings.wallRequireApproval === true,
+      slideSeconds: Number(settings.wallSlideSeconds) || 6,
+    };
+
+    let query = publicOnly(supabase
+      .from('photos')
+      .select('id, url, thumb_url, gallery_url, mode, created_at')
+      .eq('event_id', event.id))
+      .is('superseded_by', null)
+      .order('created_at', { ascending: false })
+      .limit(WALL_PHOTO_LIMIT);
+    if (wall.requireApproval) query = query.not('wall_approved_at', 'is', null);
+
+    const { data: photos, error } = await query;
+    if (error) throw error;
+
+    res.json({
+      event: { id: event.id, name: event.name, slug: event.slug, branding: event.branding },
+      wall,
+      photos: photos || [],
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── POST /api/gallery/:slug/faces/search ─────────────────────────────────────
+// "Find my photos" — multipart `selfie` plus `consent=true`. The selfie is
+// described in memory, matched against the event's face descriptors and dropped.
+router.post('/:slug/faces/search', galleryAccess(), selfieUpload.single('selfie'), async (req, res) => {
+  try {
+    const event = req.galleryEvent;
+    if (!faceSearch.faceSearchEnabled(event)) {
+      return res.status(404).json({ error: 'Face search is not available for this gallery' });
+    }
+    if (faceSearch.galleryExpired(event)) {
+      faceSearch.deleteEventFaceData(event.id).catch(() => {});
+      return res.status(410).json({ error: 'Gallery has expired' });
+    }
+    if (req.body.consent !== 'true') {
+      return res.status(400).json({ error: 'CONSENT_REQUIRED' });
+    }
+    if (!req.file) return res.status(400).json({ error: 'No selfie provided' });
+    if (!(await faceSearch.faceSearchAvailable())) {
+      return res.status(503).json({ error: 'Face search is temporarily unavailable' });
+    }
+
+    let photoIds;
+    try {
+      photoIds = await faceSearch.searchBySelfie(event.id, req.file.buffer);
+    } catch (err) {
+      if (err.code === 'NO_FACE') return res.status(422).json({ error: 'NO_FACE' });
+      throw err;
+    }
+
+    let photos = [];
+    if (photoIds.length) {
+      const { data, error } = await publicOnly(supabase
+        .from('photos')
+        .select('id, url, thumb_url, gallery_url, mode, created_at')
+        .eq('event_id', event.id))
+        .is('superseded_by', null)
+        .in('id', photoIds);
+      if (error) throw error;
+      // Closest matches first
+      const rank = new Map(photoIds.map((id, i) => [id, i]));
+      photos = (data || []).sort((a, b) => rank.get(a.id) - rank.get(b.id));
+    }
+
+    supabase.from('analytics').insert({
+      event_id: event.id,
+      action: 'face_search',
+      metadata: { matches: photos.length },
+    }).catch(() => {});
+
+    res.json({ photos });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── GET /api/gallery/:slug/faces ─────────────────────────────────────────────
+// Admin: indexing progress for the event's face search
+router.get('/:slug/faces', requireAuth, async (req, res) => {
+  try {
+    const event = await findOwnedEvent(req);
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+
+    const [available, status] = await Promise.all([
+      faceSearch.faceSearchAvailable(),
+      faceSearch.indexStatus(event.id),
+    ]);
+    res.json({ available, enabled: faceSearch.faceSearchEnabled(event), ...status });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── POST /api/gallery/:slug/faces/index ──────────────────────────────────────
+// Admin: index photos taken before face search was switched on. Runs in the
+// background; poll GET /faces for progress.
+router.post('/:slug/faces/index', requireAuth, async (req, res) => {
+  try {
+    const event = await findOwnedEvent(req);
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+    if (!faceSearch.faceSearchEnabled(event)) {
+      return res.status(400).json({ error: 'Turn on face search and save before indexing' });
+    }
+    if (!(await faceSearch.faceSearchAvailable())) {
+      return res.status(503).json({ error: 'Face search model is not installed on this server' });
+    }
+
+    (async () => {
+      let indexed;
+      do {
+        indexed = await faceSearch.indexPendingPhotos(event.id);
+      } while (indexed > 0);
+    })().catch(err => console.warn('[faceSearch] backfill failed:', err.message));
+
+    res.status(202).json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── DELETE /api/gallery/:slug/faces ──────────────────────────────────────────
+// Admin: erase every face descriptor stored for the event
+router.delete('/:slug/faces', requireAuth, async (req, res) => {
+  try {
+    const event = await findOwnedEvent(req);
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+
+    await faceSearch.deleteEventFaceData(event.id);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // ─── POST /api/gallery/:slug/verify-password ─────────────────────────────────
+// Trade the gallery password for a signed access token (sent back as
+// X-Gallery-Token). Galleries without a password need no token.
 router.post('/:slug/verify-password', async (req, res) => {
   try {
-    const { password } = req.body;
-    const { data: event } = await supabase
-      .from('events')
-      .select('gallery_password, name')
-      .or(`id.eq.${req.params.slug},slug.eq.${req.params.slug}`)
-      .single();
-
+    const event = await findGalleryEvent(req.params.slug);
     if (!event) return res.status(404).json({ error: 'Not found' });
-    if (password === event.gallery_password) {
-      res.json({ success: true });
-    } else {
-      res.status(403).json({ error: 'Wrong password' });
+    if (!isProtected(event)) return res.json({ success: true, token: null, expiresAt: null });
+
+    if (!checkGalleryPassword(event, req.body.password)) {
+      return res.status(403).json({ error: 'Wrong password' });
+    }
+    res.json({ success: true, ...issueSessionToken(event) });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── PUT /api/gallery/:slug/access ────────────────────────────────────────────
+// Admin: set or clear (empty password) the gallery password. Changing it signs
+// every guest out, magic links included.
+router.put('/:slug/access', requireAuth, async (req, res) => {
+  try {
+    const event = await findOwnedEvent(req);
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+
+    const password = typeof req.body.password === 'string' ? req.body.password.trim() : '';
+    await revokeGalleryAccess(event, { gallery_password: password || null });
+    res.json({ success: true, protected: !!password });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── POST /api/gallery/:slug/access/links ─────────────────────────────────────
+// Admin: magic link that opens a protected gallery without the password.
+// Body: { label?: guest name or email, days?: 1–365 (default 30) }
+router.post('/:slug/access/links', requireAuth, async (req, res) => {
+  try {
+    const event = await findOwnedEvent(req);
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+    if (!isProtected(event)) {
+      return res.status(400).json({ error: 'Set a gallery password first — open galleries need no link' });
+    }
+
+    const label = typeof req.body.label === 'string' ? req.body.label.trim().slice(0, 80) : '';
+    const { token, expiresAt } = issueLinkToken(event, label, req.body.days);
+
+    supabase.from('analytics').insert({
+      event_id: event.id,
+      action: 'gallery_link_created',
+      metadata: { label, expiresAt },
+    }).catch(() => {});
+
+    res.json({ url: buildGalleryAccessUrl(event.slug, token), label, expiresAt });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── POST /api/gallery/:slug/access/display ───────────────────────────────────
+// Admin: link that opens the social wall of a protected gallery on a venue screen,
+// without opening the gallery itself. Body: { days?: 1–365 (default 3) }
+router.post('/:slug/access/display', requireAuth, async (req, res) => {
+  try {
+    const event = await findOwnedEvent(req);
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+    if (!isProtected(event)) return res.json({ url: buildWallUrl(event.slug), expiresAt: null });
+
+    const { token, expiresAt } = issueDisplayToken(event, req.body.days);
+    res.json({ url: buildWallUrl(event.slug, token), expiresAt });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── POST /api/gallery/:slug/access/revoke ────────────────────────────────────
+// Admin: invalidate every password session and magic link issued so far
+router.post('/:slug/access/revoke', requireAuth, async (req, res) => {
+  try {
+    const event = await findOwnedEvent(req);
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+
+    await revokeGalleryAccess(event);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── GET /api/gallery/:slug/retention ─────────────────────────────────────────
+// Admin: expiry, grace period, plan allowance, extension prices and — once the
+// media has been archived — a 24-hour download link for the archive
+router.get('/:slug/retention', requireAuth, async (req, res) => {
+  try {
+    const event = await findOwnedEvent(req);
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+
+    res.json(await getRetention(event.id));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── GET /api/gallery/:slug/photos/:photoId ───────────────────────────────────
+// One gallery photo, for deep links (?photo=) to a photo that isn't in the pages
+// the infinite scroll has loaded yet
+router.get('/:slug/photos/:photoId', galleryAccess(), async (req, res) => {
+  try {
+    if (!UUID_RE.test(req.params.photoId)) return res.status(404).json({ error: 'Photo not found' });
+    const { data: photo } = await publicOnly(supabase
+      .from('photos')
+      .select('id, url, thumb_url, gallery_url, short_code, mode, created_at, width, height, placeholder')
+      .eq('id', req.params.photoId)
+      .eq('event_id', req.galleryEvent.id))
+      .is('superseded_by', null)
+      .maybeSingle();
+    if (!photo) return res.status(404).json({ error: 'Photo not found' });
+
+    res.json({ photo });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── GET /api/gallery/:slug/photos/:photoId/download ──────────────────────────
+// Original file as an attachment — behind the gallery password like the listing.
+// Plain links can carry the access token as ?access_token=.
+router.get('/:slug/photos/:photoId/download', galleryAccess(), async (req, res) => {
+  try {
+    const event = req.galleryEvent;
+    const { data: photo } = await supabase
+      .from('photos')
+      .select('id, url, mode, is_hidden, moderation_status')
+      .eq('id', req.params.photoId)
+      .eq('event_id', event.id)
+      .maybeSingle();
+    if (!photo || (req.galleryAccess !== 'operator' && !isPublic(photo))) {
+      return res.status(404).json({ error: 'Photo not found' });
     }
+
+    const file = await fetch(photo.url);
+    if (!file.ok) return res.status(502).json({ error: 'Could not fetch photo' });
+    const contentType = file.headers.get('content-type') || 'application/octet-stream';
+    const ext = downloadExtension(contentType);
+
+    supabase.from('analytics').insert({
+      event_id: event.id,
+      action: 'gallery_download',
+      metadata: { photoId: photo.id },
+    }).catch(() => {});
+
+    res.set({
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${event.slug}-${photo.id.slice(0, 6)}.${ext}"`,
+      'Cache-Control': 'private, no-store',
+    });
+    res.send(Buffer.from(await file.arrayBuffer()));
+  } catch (error) {
+    if (!res.headersSent) res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── GET /api/gallery/:slug/download?ids= ─────────────────────────────────────
+// The guest's selection (comma-separated photo ids, up to GALLERY_ZIP_MAX_PHOTOS)
+// streamed as one ZIP. Rate limited per IP in index.js; hidden, unapproved and
+// other events' photos in the list are skipped.
+router.get('/:slug/download', galleryAccess(), async (req, res) => {
+  try {
+    const event = req.galleryEvent;
+    const ids = [...new Set(String(req.query.ids || '').split(',').map(id => id.trim()).filter(id => UUID_RE.test(id)))];
+    if (!ids.length) return res.status(400).json({ error: 'Select at least one photo' });
+    if (ids.length > ZIP_MAX_PHOTOS) {
+      return res.status(400).json({ error: `You can download up to ${ZIP_MAX_PHOTOS} photos at once` });
+    }
+
+    const { data: photos, error } = await publicOnly(supabase
+      .from('photos')
+      .select('id, url, mode, created_at')
+      .eq('event_id', event.id)
+      .in('id', ids))
+      .is('superseded_by', null)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    if (!photos?.length) return res.status(404).json({ error: 'No photos found' });
+
+    supabase.from('analytics').insert({
+      event_id: event.id,
+      action: 'gallery_zip_download',
+      metadata: { count: photos.length },
+    }).catch(() => {});
+
+    const archiver = require('archiver');
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${event.slug}-photos.zip"`,
+      'Cache-Control': 'private, no-store',
+    });
+
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    archive.on('error', err => res.destroy(err));
+    archive.pipe(res);
+
+    // One photo in memory at a time; stop fetching if the guest gives up
+    let aborted = false;
+    req.on('close', () => { aborted = true; });
+    for (const photo of photos) {
+      if (aborted) break;
+      try {
+        const file = await fetch(photo.url);
+        if (!file.ok) continue;
+        const ext = downloadExtension(file.headers.get('content-type') || '');
+        archive.append(Buffer.from(await file.arrayBuffer()), { name: `${photo.mode}_${photo.id.slice(0, 8)}.${ext}` });
+      } catch { /* skip failed photo */ }
+    }
+
+    await archive.finalize();
+  } catch (error) {
+    console.error('Gallery ZIP error:', error);
+    if (!res.headersSent) res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── GET /api/gallery/:slug/favourites/mine?device= ───────────────────────────
+// Photos this device has hearted, newest first — the gallery's Favourites view
+// doesn't depend on which pages are loaded. The device id is a random UUID the
+// browser keeps in localStorage — favourites are anonymous.
+router.get('/:slug/favourites/mine', galleryAccess(), async (req, res) => {
+  try {
+    const { device } = req.query;
+    if (!UUID_RE.test(device || '')) return res.status(400).json({ error: 'device is required' });
+
+    const { data, error } = await supabase
+      .from('photo_favourites')
+      .select('photo_id')
+      .eq('event_id', req.galleryEvent.id)
+      .eq('device_id', device);
+    if (error) throw error;
+
+    const photoIds = (data || []).map(row => row.photo_id);
+    if (!photoIds.length) return res.json({ photoIds, photos: [] });
+
+    const { data: photos, error: photosError } = await publicOnly(supabase
+      .from('photos')
+      .select('id, url, thumb_url, gallery_url, short_code, mode, created_at, width, height, placeholder')
+      .in('id', photoIds))
+      .is('superseded_by', null)
+      .order('created_at', { ascending: false });
+    if (photosError) throw photosError;
+
+    res.json({ photoIds: (photos || []).map(photo => photo.id), photos: photos || [] });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── PUT | DELETE /api/gallery/:slug/photos/:photoId/favourite?device= ────────
+async function setFavourite(req, res, favourite) {
+  try {
+    const event = req.galleryEvent;
+    const { device } = req.query;
+    if (!UUID_RE.test(device || '')) return res.status(400).json({ error: 'device is required' });
+
+    const photo = await findGalleryPhoto(event, req.params.photoId);
+    if (!photo) return res.status(404).json({ error: 'Photo not found' });
+
+    const { error } = favourite
+      ? await supabase.from('photo_favourites').upsert(
+        { photo_id: photo.id, event_id: event.id, device_id: device },
+        { onConflict: 'photo_id,device_id', ignoreDuplicates: true },
+      )
+      : await supabase.from('photo_favourites').delete().eq('photo_id', photo.id).eq('device_id', device);
+    if (error) throw error;
+
+    res.json({ success: true, favourite });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+}
+
+router.put('/:slug/photos/:photoId/favourite', galleryAccess(), (req, res) => setFavourite(req, res, true));
+router.delete('/:slug/photos/:photoId/favourite', galleryAccess(), (req, res) => setFavourite(req, res, false));
+
+// ─── GET /api/gallery/:slug/favourites ────────────────────────────────────────
+// Admin: how many guests hearted each photo — { counts: { [photoId]: n }, total }
+router.get('/:slug/favourites', requireAuth, async (req, res) => {
+  try {
+    const event = await findOwnedEvent(req);
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+
+    const counts = {};
+    let total = 0;
+    for (let from = 0; ; from += 1000) {
+      const { data, error } = await supabase
+        .from('photo_favourites')
+        .select('photo_id')
+        .eq('event_id', event.id)
+        .range(from, from + 999);
+      if (error) throw error;
+      for (const row of data || []) counts[row.photo_id] = (counts[row.photo_id] || 0) + 1;
+      total += data?.length || 0;
+      if (!data || data.length < 1000) break;
+    }
+
+    res.json({ counts, total });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -111,19 +596,27 @@ router.post('/track-download', async (req, res) => {
   }
 });
 
+// Standalone photo links carry no slug — the photo's event decides access
+async function photoEventId(req) {
+  if (!UUID_RE.test(req.params.photoId)) return null;
+  const { data: photo } = await supabase.from('photos').select('event_id').eq('id', req.params.photoId).maybeSingle();
+  return photo?.event_id || null;
+}
+
 // ─── GET /api/gallery/photo/:photoId ─────────────────────────────────────────
 // QR code scans to /gallery/:slug?photo=:photoId
 // This endpoint returns a single photo for the lightbox open on arrival
-router.get('/photo/:photoId', async (req, res) => {
+router.get('/photo/:photoId', galleryAccess(photoEventId), async (req, res) => {
   try {
     const { data: photo, error } = await supabase
       .from('photos')
-      .select('id, url, thumb_url, gallery_url, mode, created_at, events(name, slug, branding)')
+      .select('id, url, thumb_url, gallery_url, mode, created_at, is_hidden, moderation_status, events(name, slug, branding)')
       .eq('id', req.params.photoId)
       .single();
 
-    if (error || !photo) return res.status(404).json({ error: 'Photo not found' });
-    res.json({ photo });
+    if (error || !isPublic(photo)) return res.status(404).json({ error: 'Photo not found' });
+    const { is_hidden, moderation_status, ...visible } = photo;
+    res.json({ photo: visible });
   } catch (err) {
     res.status(500).json({ error: err.message });
   }
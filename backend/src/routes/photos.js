@@ -6,11 +6,17 @@ const router = express.Router();
 
 const { uploadToStorage } = require('../services/storage');
 const { applyBrandingOverlay, createPhotoStrip, applyBeautyMode } = require('../services/imageProcessor');
-const { generateQRDataURL, buildGalleryUrl, buildWhatsAppUrl, generateUniqueShortCode, generateStoriesImage } = require('../services/sharing');
+const { generateQRDataURL, buildGalleryUrl, buildWhatsAppUrl, generateUniqueShortCode, isValidShortCode, generateStoriesImage } = require('../services/sharing');
 const { createGIF, createBoomerang } = require('../services/gif');
 const supabase = require('../services/database');
 const requireAuth = require('../middleware/requireAuth');
+const galleryAccess = require('../middleware/galleryAccess');
 const { checkPhotoLimit, requireFeature } = require('../middleware/planEnforcement');
+const { MODERATION_STATUSES, REJECT_REASONS, initialModerationStatus, publicOnly, isPublic } = require('../services/moderation');
+const { screenImage } = require('../services/screening');
+const { describeImage } = require('../services/placeholders');
+const { pageSize, filterByMode, fetchPhotoPage } = require('../services/photoFeed');
+const { issueSignedToken, verifySignedToken } = require('../services/signedTokens');
 
 // ─── Webhook helper ───────────────────────────────────────────────────────────
 async function fireWebhook(event, payload) {
@@ -37,12 +43,58 @@ async function fireWebhook(event, payload) {
   }
 }
 
+// ─── Live feed ────────────────────────────────────────────────────────────────
+// Anyone can join an event's socket room (the wall does), so photos that are held
+// for approval or auto-hidden are announced without their links
+function emitPhotoTaken(req, eventId, row, { photoId, thumbUrl, galleryUrl, mode }) {
+  const io = req.app.get('io');
+  io.to(`event-${eventId}`).emit('photo-taken', {
+    photoId,
+    ...(isPublic(row) ? { thumbUrl, galleryUrl } : {}),
+    mode,
+    moderationStatus: row.moderation_status,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// ─── Offline-queue helpers ────────────────────────────────────────────────────
+// Captures queued on the booth while offline arrive later with a short code the
+// guest has already scanned as a "ready soon" QR. Honour that code when it is
+// free; if this event already owns it, the request is a retry whose response
+// was lost, so hand back the existing row instead of creating a duplicate.
+async function claimShortCode(requested, eventId) {
+  if (requested && isValidShortCode(requested)) {
+    const { data: existing } = await supabase
+      .from('photos')
+      .select('*')
+      .eq('short_code', requested)
+      .maybeSingle();
+    if (!existing) return { shortCode: requested, existing: null };
+    if (existing.event_id === eventId) return { shortCode: requested, existing };
+  }
+  return { shortCode: await generateUniqueShortCode(supabase), existing: null };
+}
+
+async function existingCaptureResponse(photo, event) {
+  return {
+    id: photo.id,
+    url: photo.url,
+    thumbUrl: photo.thumb_url,
+    galleryUrl: photo.gallery_url,
+    qrCode: await generateQRDataURL(photo.gallery_url),
+    whatsappUrl: buildWhatsAppUrl(photo.url, event.name),
+    downloadUrl: photo.url,
+    editToken: editTokenFor(photo.id, photo.created_at),
+  };
+}
+
 // Multer: memory storage for direct processing
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 75 * 1024 * 1024 }, // 75MB for high-resolution booth uploads
   fileFilter: (req, file, cb) => {
-    if (file.mimetype.startsWith('image/')) {
+    // Browser-encoded animations may arrive as MP4/WebM instead of GIF
+    if (file.mimetype.startsWith('image/') || (file.fieldname === 'animation' && file.mimetype.startsWith('video/'))) {
       cb(null, true);
     } else {
       cb(new Error('Only image files allowed'));
@@ -50,6 +102,19 @@ const upload = multer({
   },
 });
 
+// Video guestbook clips: MediaRecorder output (webm, or mp4 on Safari) plus a poster frame
+const videoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 150 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (file.fieldname === 'video' ? file.mimetype.startsWith('video/') : file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only video clips with an image poster allowed'));
+    }
+  },
+});
+
 /**
  * POST /api/photos/upload
  * Upload a photo, apply branding, generate QR
@@ -70,7 +135,7 @@ function normalizeUploadedPhoto(req, res, next) {
 
 router.post('/upload', normalizeUploadedPhoto, async (req, res) => {
   try {
-    const { eventId, mode = 'single', sessionId } = req.body;
+    const { eventId, mode = 'single', sessionId, shortCode: requestedShortCode, templated } = req.body;
     if (!req.file) return res.status(400).json({ error: 'No photo provided' });
     if (!eventId) return res.status(400).json({ error: 'Event ID required' });
 
@@ -83,6 +148,11 @@ router.post('/upload', normalizeUploadedPhoto, async (req, res) => {
 
     if (!event) return res.status(404).json({ error: 'Event not found' });
 
+    const { shortCode, existing } = await claimShortCode(requestedShortCode, eventId);
+    if (existing) {
+      return res.json({ success: true, photo: await existingCaptureResponse(existing, event) });
+    }
+
     // Check photo limit using event's owner (not the guest)
     if (event.owner_id) {
       const { getUserPlanFeatures } = require('../middleware/planEnforcement');
@@ -121,7 +191,8 @@ router.post('/upload', normalizeUploadedPhoto, async (req, res) => {
       return res.status(415).json({ error: 'Unsupported or invalid image format. Please upload a JPG, PNG, WEBP, HEIC, or GIF image.' });
     }
 
-    if (event.branding) {
+    // Booth uploads arrive already rendered through the event template
+    if (event.branding && templated !== 'true') {
       processedBuffer = await applyBrandingOverlay(processedBuffer, event.branding);
     }
 
@@ -135,14 +206,17 @@ router.post('/upload', normalizeUploadedPhoto, async (req, res) => {
       .toBuffer();
     const thumbKey = `events/${eventId}/thumbs/${photoId}_thumb.jpg`;
     const thumbUrl = await uploadToStorage(thumbBuffer, thumbKey, 'image/jpeg');
+    const imageMeta = await describeImage(thumbBuffer);
 
     // Build gallery URL and QR code
-    const shortCode = await generateUniqueShortCode(supabase);
     const galleryUrl = buildGalleryUrl(event.slug, photoId, shortCode);
     console.log('[photos/upload] short_code generated', { photoId, eventId, shortCode, galleryUrl });
     const qrDataUrl = await generateQRDataURL(galleryUrl);
     const whatsappUrl = buildWhatsAppUrl(photoUrl, event.name);
 
+    // Screen before the row exists, so a flagged photo is never public
+    const screening = await screenImage(event, processedBuffer);
+
     // Save to database
     const { data: photo, error: dbError } = await supabase
       .from('photos')
@@ -156,6 +230,9 @@ router.post('/upload', normalizeUploadedPhoto, async (req, res) => {
         storage_key: storageKey,
         short_code: shortCode,
         mode,
+        moderation_status: initialModerationStatus(event),
+        ...screening,
+        ...imageMeta,
         created_at: new Date().toISOString(),
       })
       .select()
@@ -172,20 +249,15 @@ router.post('/upload', normalizeUploadedPhoto, async (req, res) => {
     });
 
     // Emit via Socket.IO to admin dashboard
-    const io = req.app.get('io');
-    io.to(`event-${eventId}`).emit('photo-taken', {
-      photoId,
-      thumbUrl,
-      galleryUrl,
-      mode,
-      timestamp: new Date().toISOString(),
-    });
-
-    // Fire webhook (non-blocking)
-    fireWebhook(event, {
-      trigger: 'photo.created',
-      photo: { id: photoId, url: photoUrl, thumbUrl, galleryUrl, mode },
-    });
+    emitPhotoTaken(req, eventId, photo, { photoId, thumbUrl, galleryUrl, mode });
+
+    // Fire webhook (non-blocking) — held or auto-hidden photos fire once approved
+    if (isPublic(photo)) {
+      fireWebhook(event, {
+        trigger: 'photo.created',
+        photo: { id: photoId, url: photoUrl, thumbUrl, galleryUrl, mode },
+      });
+    }
 
     res.json({
       success: true,
@@ -197,6 +269,7 @@ router.post('/upload', normalizeUploadedPhoto, async (req, res) => {
         qrCode: qrDataUrl,
         whatsappUrl,
         downloadUrl: photoUrl,
+        editToken: editTokenFor(photoId, photo.created_at),
       },
     });
   } catch (error) {
@@ -207,30 +280,55 @@ router.post('/upload', normalizeUploadedPhoto, async (req, res) => {
 
 /**
  * POST /api/photos/gif
- * Create GIF or Boomerang from multiple frames
+ * Create GIF or Boomerang from multiple frames, or store one the booth already
+ * encoded (`animation`: GIF or MP4/WebM, with an optional `poster` frame)
  */
-router.post('/gif', upload.array('frames', 10), async (req, res) => {
+router.post('/gif', upload.fields([
+  { name: 'frames', maxCount: 10 },
+  { name: 'animation', maxCount: 1 },
+  { name: 'poster', maxCount: 1 },
+]), async (req, res) => {
   try {
-    const { eventId, type = 'gif', sessionId } = req.body;
+    const { eventId, type = 'gif', sessionId, shortCode: requestedShortCode } = req.body;
+    const frameFiles = req.files?.frames || [];
+    const animationFile = req.files?.animation?.[0];
     if (!eventId) return res.status(400).json({ error: 'Event ID required' });
-    if (!req.files?.length) return res.status(400).json({ error: 'No frames provided' });
+    if (!frameFiles.length && !animationFile) return res.status(400).json({ error: 'No frames provided' });
 
     const { data: event } = await supabase.from('events').select('*').eq('id', eventId).single();
     if (!event) return res.status(404).json({ error: 'Event not found' });
 
-    const frames = req.files.map((f) => f.buffer);
+    const { shortCode, existing } = await claimShortCode(requestedShortCode, eventId);
+    if (existing) {
+      return res.json({ success: true, gif: { ...(await existingCaptureResponse(existing, event)), type: existing.mode } });
+    }
+
     let gifBuffer;
+    let contentType = 'image/gif';
 
-    if (type === 'boomerang') {
-      gifBuffer = await createBoomerang(frames);
+    if (animationFile) {
+      gifBuffer = animationFile.buffer;
+      contentType = animationFile.mimetype.split(';')[0];
+    } else if (type === 'boomerang') {
+      gifBuffer = await createBoomerang(frameFiles.map((f) => f.buffer));
     } else {
-      gifBuffer = await createGIF(frames);
+      gifBuffer = await createGIF(frameFiles.map((f) => f.buffer));
     }
 
     const gifId = uuidv4();
-    const storageKey = `events/${eventId}/gifs/${gifId}.gif`;
-    const gifUrl = await uploadToStorage(gifBuffer, storageKey, 'image/gif');
-    const shortCode = await generateUniqueShortCode(supabase);
+    const ext = contentType === 'image/gif' ? 'gif' : contentType === 'video/mp4' ? 'mp4' : 'webm';
+    const storageKey = `events/${eventId}/gifs/${gifId}.${ext}`;
+    const gifUrl = await uploadToStorage(gifBuffer, storageKey, contentType);
+
+    let thumbUrl = null;
+    const posterFile = req.files?.poster?.[0];
+    if (posterFile) {
+      const thumbBuffer = await sharp(posterFile.buffer).resize(400, 400, { fit: 'inside' }).jpeg({ quality: 80 }).toBuffer();
+      thumbUrl = await uploadToStorage(thumbBuffer, `events/${eventId}/thumbs/${gifId}_thumb.jpg`, 'image/jpeg');
+    }
+
+    // Screen the poster, or the GIF's first frame; booth-encoded video without a poster is held
+    const screening = await screenImage(event, posterFile?.buffer || (contentType === 'image/gif' ? gifBuffer : null));
 
     const galleryUrl = buildGalleryUrl(event.slug, gifId, shortCode);
     console.log('[photos/gif] short_code generated', { gifId, eventId, type, shortCode, galleryUrl });
@@ -242,10 +340,13 @@ router.post('/gif', upload.array('frames', 10), async (req, res) => {
       event_id: eventId,
       session_id: sessionId,
       url: gifUrl,
+      thumb_url: thumbUrl,
       gallery_url: galleryUrl,
       storage_key: storageKey,
       mode: type,
       short_code: shortCode,
+      moderation_status: initialModerationStatus(event),
+      ...screening,
     });
     if (gifInsertError) throw gifInsertError;
     console.log('[photos/gif] DB insert success', { gifId, eventId, shortCode, type });
@@ -253,7 +354,7 @@ router.post('/gif', upload.array('frames', 10), async (req, res) => {
     await supabase.from('analytics').insert({
       event_id: eventId,
       action: type === 'boomerang' ? 'boomerang_created' : 'gif_created',
-      metadata: { frameCount: frames.length },
+      metadata: { frameCount: frameFiles.length || null, encodedOnDevice: !!animationFile, contentType },
     });
 
     res.json({
@@ -261,6 +362,7 @@ router.post('/gif', upload.array('frames', 10), async (req, res) => {
       gif: {
         id: gifId,
         url: gifUrl,
+        thumbUrl,
         galleryUrl,
         qrCode: qrDataUrl,
         whatsappUrl,
@@ -279,19 +381,25 @@ router.post('/gif', upload.array('frames', 10), async (req, res) => {
  */
 router.post('/strip', upload.array('photos', 4), async (req, res) => {
   try {
-    const { eventId, sessionId } = req.body;
+    const { eventId, sessionId, shortCode: requestedShortCode } = req.body;
     if (!eventId) return res.status(400).json({ error: 'Event ID required' });
     if (!req.files?.length) return res.status(400).json({ error: 'No photos provided' });
     const { data: event } = await supabase.from('events').select('*').eq('id', eventId).single();
     if (!event) return res.status(404).json({ error: 'Event not found' });
 
+    const { shortCode, existing } = await claimShortCode(requestedShortCode, eventId);
+    if (existing) {
+      return res.json({ success: true, strip: await existingCaptureResponse(existing, event) });
+    }
+
     const photos = req.files.map((f) => f.buffer);
     const stripBuffer = await createPhotoStrip(photos, event?.branding || {});
 
     const stripId = uuidv4();
     const storageKey = `events/${eventId}/strips/${stripId}.jpg`;
     const stripUrl = await uploadToStorage(stripBuffer, storageKey, 'image/jpeg');
-    const shortCode = await generateUniqueShortCode(supabase);
+
+    const screening = await screenImage(event, stripBuffer);
 
     const galleryUrl = buildGalleryUrl(event.slug, stripId, shortCode);
     console.log('[photos/strip] short_code generated', { stripId, eventId, shortCode, galleryUrl });
@@ -307,6 +415,8 @@ router.post('/strip', upload.array('photos', 4), async (req, res) => {
       storage_key: storageKey,
       mode: 'strip',
       short_code: shortCode,
+      moderation_status: initialModerationStatus(event),
+      ...screening,
     });
     if (stripInsertError) throw stripInsertError;
     console.log('[photos/strip] DB insert success', { stripId, eventId, shortCode });
@@ -326,28 +436,266 @@ router.post('/strip', upload.array('photos', 4), async (req, res) => {
   }
 });
 
+/**
+ * POST /api/photos/video
+ * Store a video guestbook clip with its poster frame
+ */
+router.post('/video', videoUpload.fields([{ name: 'video', maxCount: 1 }, { name: 'poster', maxCount: 1 }]), async (req, res) => {
+  try {
+    const { eventId, sessionId, duration, shortCode: requestedShortCode } = req.body;
+    const videoFile = req.files?.video?.[0];
+    if (!eventId) return res.status(400).json({ error: 'Event ID required' });
+    if (!videoFile) return res.status(400).json({ error: 'No video provided' });
+
+    const { data: event } = await supabase.from('events').select('*').eq('id', eventId).single();
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+    if (event.settings?.allowVideo !== true) {
+      return res.status(403).json({ error: 'Video mode is disabled for this event' });
+    }
+
+    const { shortCode, existing } = await claimShortCode(requestedShortCode, eventId);
+    if (existing) {
+      return res.json({ success: true, video: { ...(await existingCaptureResponse(existing, event)), mode: 'video' } });
+    }
+
+    const videoId = uuidv4();
+    const contentType = videoFile.mimetype.split(';')[0];
+    const ext = contentType === 'video/mp4' ? 'mp4' : 'webm';
+    const storageKey = `events/${eventId}/videos/${videoId}.${ext}`;
+    const videoUrl = await uploadToStorage(videoFile.buffer, storageKey, contentType);
+
+    let thumbUrl = null;
+    const posterFile = req.files?.poster?.[0];
+    if (posterFile) {
+      const thumbBuffer = await sharp(posterFile.buffer).resize(400, 400, { fit: 'inside' }).jpeg({ quality: 80 }).toBuffer();
+      thumbUrl = await uploadToStorage(thumbBuffer, `events/${eventId}/thumbs/${videoId}_thumb.jpg`, 'image/jpeg');
+    }
+
+    // Only the poster frame can be screened; a clip without one is held for review
+    const screening = await screenImage(event, posterFile?.buffer || null);
+    const moderation = { moderation_status: initialModerationStatus(event), ...screening };
+
+    const galleryUrl = buildGalleryUrl(event.slug, videoId, shortCode);
+    const qrDataUrl = await generateQRDataURL(galleryUrl);
+    const whatsappUrl = buildWhatsAppUrl(galleryUrl, event.name);
+
+    const { error: videoInsertError } = await supabase.from('photos').insert({
+      id: videoId,
+      event_id: eventId,
+      session_id: sessionId,
+      url: videoUrl,
+      thumb_url: thumbUrl,
+      gallery_url: galleryUrl,
+      storage_key: storageKey,
+      mode: 'video',
+      short_code: shortCode,
+      ...moderation,
+    });
+    if (videoInsertError) throw videoInsertError;
+    console.log('[photos/video] DB insert success', { videoId, eventId, shortCode });
+
+    await supabase.from('analytics').insert({
+      event_id: eventId,
+      action: 'video_created',
+      metadata: { videoId, duration: Number(duration) || null, bytes: videoFile.size },
+    });
+
+    emitPhotoTaken(req, eventId, moderation, { photoId: videoId, thumbUrl, galleryUrl, mode: 'video' });
+
+    if (isPublic(moderation)) {
+      fireWebhook(event, {
+        trigger: 'photo.created',
+        photo: { id: videoId, url: videoUrl, thumbUrl, galleryUrl, mode: 'video' },
+      });
+    }
+
+    res.json({
+      success: true,
+      video: {
+        id: videoId,
+        url: videoUrl,
+        thumbUrl,
+        galleryUrl,
+        qrCode: qrDataUrl,
+        whatsappUrl,
+        downloadUrl: videoUrl,
+        mode: 'video',
+      },
+    });
+  } catch (error) {
+    console.error('Video upload error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ─── Photo versions ───────────────────────────────────────────────────────────
+// Edits (a baked-in effect today) are stored as new photos linked to the root
+// original via parent_photo_id. The newest version supersedes the root and any
+// older versions, so galleries list one photo per capture and the original short
+// link resolves to the edit.
+
+// Only the booth that took the photo may edit it, and only while the guest is
+// still at the preview: uploads hand back an edit token for the capture that
+// expires PHOTO_EDIT_WINDOW_MINUTES after it was taken.
+const EDIT_WINDOW_MS = (Number(process.env.PHOTO_EDIT_WINDOW_MINUTES) || 15) * 60 * 1000;
+
+function editTokenFor(photoId, createdAt = Date.now()) {
+  return issueSignedToken('edit', { p: photoId }, new Date(createdAt).getTime() + EDIT_WINDOW_MS);
+}
+
+function canEditCapture(req, rootId) {
+  return verifySignedToken('edit', req.headers['x-edit-token'])?.p === rootId;
+}
+
+async function supersedeVersions(rootId, currentId) {
+  const { error } = await supabase
+    .from('photos')
+    .update({ superseded_by: currentId })
+    .or(`id.eq.${rootId},parent_photo_id.eq.${rootId}`)
+    .neq('id', currentId);
+  if (error) throw error;
+}
+
+/**
+ * POST /api/photos/:photoId/versions
+ * Save an edited copy of a photo. Body: photo file, effect (key from the booth's effect list).
+ * Needs the capture's edit token in X-Edit-Token.
+ */
+router.post('/:photoId/versions', normalizeUploadedPhoto, async (req, res) => {
+  try {
+    const { effect = null } = req.body;
+    if (!req.file) return res.status(400).json({ error: 'No photo provided' });
+
+    const { data: original } = await supabase.from('photos').select('*').eq('id', req.params.photoId).single();
+    if (!original) return res.status(404).json({ error: 'Photo not found' });
+
+    // Versions always hang off the root so re-editing never stacks effects
+    const rootId = original.parent_photo_id || original.id;
+    if (!canEditCapture(req, rootId)) return res.status(403).json({ error: 'This photo can no longer be edited' });
+    const { data: event } = await supabase.from('events').select('*').eq('id', original.event_id).single();
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+
+    const versionId = uuidv4();
+    const storageKey = `events/${event.id}/photos/${versionId}.jpg`;
+    const jpeg = await sharp(req.file.buffer).jpeg({ quality: 92 }).toBuffer();
+    const photoUrl = await uploadToStorage(jpeg, storageKey, 'image/jpeg');
+
+    const thumbBuffer = await sharp(jpeg).resize(400, 400, { fit: 'inside' }).jpeg({ quality: 80 }).toBuffer();
+    const thumbUrl = await uploadToStorage(thumbBuffer, `events/${event.id}/thumbs/${versionId}_thumb.jpg`, 'image/jpeg');
+
+    const shortCode = await generateUniqueShortCode(supabase);
+    const galleryUrl = buildGalleryUrl(event.slug, versionId, shortCode);
+    const screening = await screenImage(event, jpeg);
+
+    const { error: insertError } = await supabase.from('photos').insert({
+      id: versionId,
+      event_id: event.id,
+      session_id: original.session_id,
+      url: photoUrl,
+      thumb_url: thumbUrl,
+      gallery_url: galleryUrl,
+      storage_key: storageKey,
+      short_code: shortCode,
+      mode: original.mode,
+      parent_photo_id: rootId,
+      effect,
+      // The edited image is what guests will see, so it is reviewed like a new
+      // capture — except that a photo the operator rejected or took down stays so
+      moderation_status: original.moderation_status === 'rejected' ? 'rejected' : initialModerationStatus(event),
+      ...(original.is_hidden && { is_hidden: true, hidden_at: original.hidden_at, hidden_by: original.hidden_by }),
+      ...screening,
+    });
+    if (insertError) throw insertError;
+    await supersedeVersions(rootId, versionId);
+
+    await supabase.from('analytics').insert({
+      event_id: event.id,
+      action: 'effect_applied',
+      metadata: { photoId: rootId, versionId, effect },
+    });
+
+    res.json({
+      success: true,
+      photo: {
+        id: versionId,
+        url: photoUrl,
+        thumbUrl,
+        galleryUrl,
+        qrCode: await generateQRDataURL(galleryUrl),
+        whatsappUrl: buildWhatsAppUrl(photoUrl, event.name),
+        downloadUrl: photoUrl,
+        parentId: rootId,
+        effect,
+      },
+    });
+  } catch (error) {
+    console.error('Photo version error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/photos/:photoId/versions/restore
+ * Make the root original current again (guest went back to "Original").
+ * Needs the capture's edit token in X-Edit-Token.
+ */
+router.post('/:photoId/versions/restore', async (req, res) => {
+  try {
+    const { data: photo } = await supabase.from('photos').select('id, parent_photo_id').eq('id', req.params.photoId).single();
+    if (!photo) return res.status(404).json({ error: 'Photo not found' });
+
+    const rootId = photo.parent_photo_id || photo.id;
+    if (!canEditCapture(req, rootId)) return res.status(403).json({ error: 'This photo can no longer be edited' });
+    const { data: root } = await supabase.from('photos').select('*').eq('id', rootId).single();
+    if (!root) return res.status(404).json({ error: 'Photo not found' });
+    const { data: event } = await supabase.from('events').select('*').eq('id', root.event_id).single();
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+
+    await supersedeVersions(rootId, rootId);
+    const { error } = await supabase.from('photos').update({ superseded_by: null }).eq('id', rootId);
+    if (error) throw error;
+
+    res.json({ success: true, photo: await existingCaptureResponse(root, event) });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * GET /api/photos/event/:eventId
- * Get all photos for an event (for gallery/admin)
+ * Get all photos for an event (for gallery/admin). Password-protected galleries
+ * need a gallery access token; include_hidden is for signed-in operators only.
+ * Pass `cursor` (empty for the first page) to page by cursor instead of `page`,
+ * and `mode` (photo | gif | strip | ai) to filter.
  */
-router.get('/event/:eventId', async (req, res) => {
+router.get('/event/:eventId', galleryAccess('eventId'), async (req, res) => {
   try {
-    const { eventId } = req.params;
-    const { page = 1, limit = 50, include_hidden = 'false' } = req.query;
+    const eventId = req.galleryEvent.id;
+    const { page = 1, limit = 50, include_hidden = 'false', cursor, mode } = req.query;
+    if (include_hidden === 'true' && req.galleryAccess !== 'operator') {
+      return res.status(401).json({ error: 'Missing authorization token' });
+    }
 
-    let query = supabase
+    let query = filterByMode(supabase
       .from('photos')
-      .select('id, url, thumb_url, gallery_url, mode, created_at, is_hidden, hidden_by, short_code')
+      .select('id, url, thumb_url, gallery_url, mode, created_at, is_hidden, hidden_by, short_code, wall_approved_at, moderation_status, moderation_reason, screening, width, height, placeholder')
       .eq('event_id', eventId)
-      .order('created_at', { ascending: false })
-      .range((page - 1) * limit, page * limit - 1);
+      .is('superseded_by', null), mode);
 
-    // Operators can request all photos including hidden ones
+    // Operators can request all photos including hidden and unapproved ones
     if (include_hidden !== 'true') {
-      query = query.or('is_hidden.is.null,is_hidden.eq.false');
+      query = publicOnly(query);
     }
 
-    const { data: photos, error } = await query;
+    if (cursor !== undefined) {
+      const size = pageSize(limit, 50);
+      const { photos, nextCursor } = await fetchPhotoPage(query, { cursor, limit: size });
+      return res.json({ photos, limit: size, nextCursor });
+    }
+
+    const { data: photos, error } = await query
+      .order('created_at', { ascending: false })
+      .range((page - 1) * limit, page * limit - 1);
     if (error) throw error;
     res.json({ photos, page: Number(page), limit: Number(limit) });
   } catch (error) {
@@ -368,6 +716,17 @@ router.get('/:photoId', async (req, res) => {
       .single();
 
     if (error || !photo) return res.status(404).json({ error: 'Photo not found' });
+
+    // A guest who scanned the QR before picking an effect should land on the edited version
+    if (photo.superseded_by) {
+      const { data: current } = await supabase
+        .from('photos')
+        .select('*, events(name, branding)')
+        .eq('id', photo.superseded_by)
+        .single();
+      if (current && isPublic(current)) return res.json({ photo: current });
+    }
+    if (!isPublic(photo)) return res.status(404).json({ error: 'Photo not found' });
     res.json({ photo });
   } catch (error) {
     res.status(500).json({ error: error.message });
@@ -392,28 +751,164 @@ router.get('/event/:eventId/count', async (req, res) => {
   }
 });
 
+// Moderation decides what the public gallery and wall show, so only the event's owner may do it
+async function findOwnedEvent(req, eventId) {
+  const { data: event } = await supabase.from('events').select('*').eq('id', eventId).maybeSingle();
+  return event && event.owner_id === req.user.id ? event : null;
+}
+
 /**
  * PATCH /api/photos/:photoId/moderate
- * Hide or unhide a photo (moderation queue)
- * Body: { is_hidden: boolean, reason?: string }
+ * Hide or unhide a photo (moderation queue), and approve it for the social wall
+ * Body: { is_hidden?: boolean, reason?: string, wall_approved?: boolean }
  */
 router.patch('/:photoId/moderate', requireAuth, async (req, res) => {
-  const { is_hidden, reason = '' } = req.body;
-  if (typeof is_hidden !== 'boolean') {
-    return res.status(400).json({ error: 'is_hidden (boolean) required' });
+  const { is_hidden, reason = '', wall_approved } = req.body;
+  if (typeof is_hidden !== 'boolean' && typeof wall_approved !== 'boolean') {
+    return res.status(400).json({ error: 'is_hidden or wall_approved (boolean) required' });
+  }
+  try {
+    const update = {};
+    if (typeof is_hidden === 'boolean') {
+      update.is_hidden = is_hidden;
+      update.hidden_at = is_hidden ? new Date().toISOString() : null;
+      update.hidden_by = is_hidden ? (reason || 'operator') : null;
+    }
+    if (typeof wall_approved === 'boolean') {
+      update.wall_approved_at = wall_approved ? new Date().toISOString() : null;
+    }
+
+    const { data: target } = await supabase.from('photos').select('event_id').eq('id', req.params.photoId).maybeSingle();
+    if (!target || !(await findOwnedEvent(req, target.event_id))) return res.status(404).json({ error: 'Photo not found' });
+
+    const { data: photo, error } = await supabase
+      .from('photos')
+      .update(update)
+      .eq('id', req.params.photoId)
+      .select('id, event_id, is_hidden, wall_approved_at')
+      .single();
+
+    if (error) throw error;
+
+    // Social walls re-fetch their feed so a hidden photo leaves the screen at once
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`event-${photo.event_id}`).emit('photo-moderated', {
+        photoId: photo.id,
+        isHidden: !!photo.is_hidden,
+        wallApproved: !!photo.wall_approved_at,
+      });
+    }
+
+    res.json({ success: true, is_hidden: !!photo.is_hidden, wall_approved_at: photo.wall_approved_at });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+/**
+ * GET /api/photos/event/:eventId/moderation
+ * Approval queue counts, plus the photos in one state when ?status= is given
+ * (pending oldest first so the queue is worked in capture order)
+ */
+router.get('/event/:eventId/moderation', requireAuth, async (req, res) => {
+  try {
+    const { eventId } = req.params;
+    const { status, limit = 200 } = req.query;
+    if (status && !MODERATION_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${MODERATION_STATUSES.join(', ')}` });
+    }
+    if (!(await findOwnedEvent(req, eventId))) return res.status(404).json({ error: 'Event not found' });
+
+    const countOf = (s) => supabase
+      .from('photos')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId)
+      .eq('moderation_status', s)
+      .is('superseded_by', null);
+    const [pending, rejected] = await Promise.all([countOf('pending'), countOf('rejected')]);
+    if (pending.error) throw pending.error;
+    if (rejected.error) throw rejected.error;
+
+    let photos = [];
+    if (status) {
+      const { data, error } = await supabase
+        .from('photos')
+        .select('id, url, thumb_url, mode, created_at, session_id, moderation_status, moderation_reason, moderated_at, screening')
+        .eq('event_id', eventId)
+        .eq('moderation_status', status)
+        .is('superseded_by', null)
+        .order(status === 'pending' ? 'created_at' : 'moderated_at', { ascending: status === 'pending' })
+        .limit(Number(limit));
+      if (error) throw error;
+      photos = data || [];
+    }
+
+    res.json({ counts: { pending: pending.count || 0, rejected: rejected.count || 0 }, photos });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+/**
+ * POST /api/photos/moderate/bulk
+ * Approve or reject photos from the approval queue
+ * Body: { eventId, photoIds: string[], action: 'approve' | 'reject', reason?: string, note?: string }
+ */
+router.post('/moderate/bulk', requireAuth, async (req, res) => {
+  const { eventId, photoIds, action, reason, note = '' } = req.body;
+  if (!eventId || !Array.isArray(photoIds) || !photoIds.length) {
+    return res.status(400).json({ error: 'eventId and photoIds required' });
+  }
+  if (action !== 'approve' && action !== 'reject') {
+    return res.status(400).json({ error: "action must be 'approve' or 'reject'" });
+  }
+  if (action === 'reject' && !REJECT_REASONS.includes(reason)) {
+    return res.status(400).json({ error: `reason must be one of ${REJECT_REASONS.join(', ')}` });
   }
   try {
-    const { error } = await supabase
+    const event = await findOwnedEvent(req, eventId);
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+
+    // Every photo must belong to this event before any of them changes
+    const { data: before, error: readError } = await supabase
+      .from('photos')
+      .select('id, event_id, moderation_status')
+      .in('id', photoIds);
+    if (readError) throw readError;
+    const ids = new Set(photoIds);
+    if ((before || []).length !== ids.size || (before || []).some(p => p.event_id !== eventId)) {
+      return res.status(404).json({ error: 'Photo not found' });
+    }
+
+    // Only photos leaving the queue for the first time announce themselves to webhooks
+    const wasPending = new Set((before || []).filter(p => p.moderation_status === 'pending').map(p => p.id));
+
+    const moderationStatus = action === 'approve' ? 'approved' : 'rejected';
+    const { data: photos, error } = await supabase
       .from('photos')
       .update({
-        is_hidden,
-        hidden_at: is_hidden ? new Date().toISOString() : null,
-        hidden_by: is_hidden ? (reason || 'operator') : null,
+        moderation_status: moderationStatus,
+        moderation_reason: action === 'reject' ? (note ? `${reason}: ${note}` : reason) : null,
+        moderated_at: new Date().toISOString(),
       })
-      .eq('id', req.params.photoId);
-
+      .eq('event_id', eventId)
+      .in('id', photoIds)
+      .select('id, url, thumb_url, gallery_url, mode, is_hidden');
     if (error) throw error;
-    res.json({ success: true, is_hidden });
+
+    const io = req.app.get('io');
+    for (const photo of photos || []) {
+      if (io) io.to(`event-${eventId}`).emit('photo-moderated', { photoId: photo.id, moderationStatus });
+      if (action === 'approve' && wasPending.has(photo.id) && !photo.is_hidden) {
+        fireWebhook(event, {
+          trigger: 'photo.created',
+          photo: { id: photo.id, url: photo.url, thumbUrl: photo.thumb_url, galleryUrl: photo.gallery_url, mode: photo.mode },
+        });
+      }
+    }
+
+    res.json({ success: true, updated: (photos || []).length, moderationStatus });
   } catch (err) {
     res.status(500).json({ error: err.message });
   }
@@ -430,8 +925,20 @@ router.get('/short/:shortCode', async (req, res) => {
       .select('*, events(name, branding)')
       .eq('short_code', req.params.shortCode)
       .single();
-
     if (error || !photo) return res.status(404).json({ error: 'Photo not found' });
+
+    // The QR was printed before the guest picked an effect — show the edited version
+    if (photo.superseded_by) {
+      const { data: current } = await supabase
+        .from('photos')
+        .select('*, events(name, branding)')
+        .eq('id', photo.superseded_by)
+        .single();
+      if (current && isPublic(current)) return res.json({ photo: current });
+    }
+
+    // Awaiting approval looks the same as not uploaded yet — /p/[code] keeps polling
+    if (!isPublic(photo)) return res.status(404).json({ error: 'Photo not found' });
     res.json({ photo });
   } catch (error) {
     res.status(500).json({ error: error.message });
@@ -451,7 +958,7 @@ router.get('/:photoId/stories', async (req, res) => {
       .eq('id', req.params.photoId)
       .single();
 
-    if (error || !photo) return res.status(404).json({ error: 'Photo not found' });
+    if (error || !isPublic(photo)) return res.status(404).json({ error: 'Photo not found' });
 
     // Fetch original photo buffer
     const photoRes = await fetch(photo.url);
@@ -520,24 +1027,28 @@ router.delete('/:photoId', requireAuth, async (req, res) => {
 
 /**
  * GET /api/photos/event/:eventId/zip
- * Download all photos for an event as a ZIP
+ * Download all photos for an event as a ZIP. Operators get every photo; guests
+ * (with a gallery access token when the gallery is protected) get what the
+ * gallery shows.
  */
-router.get('/event/:eventId/zip', requireAuth, async (req, res) => {
+router.get('/event/:eventId/zip', galleryAccess('eventId'), async (req, res) => {
   try {
-    const { eventId } = req.params;
+    const eventId = req.galleryEvent.id;
     const archiver = require('archiver');
 
-    const { data: photos, error } = await supabase
+    let query = supabase
       .from('photos')
       .select('id, url, mode, created_at')
       .eq('event_id', eventId)
       .order('created_at', { ascending: false });
+    if (req.galleryAccess !== 'operator') query = publicOnly(query).is('superseded_by', null);
+
+    const { data: photos, error } = await query;
 
     if (error) throw error;
     if (!photos?.length) return res.status(404).json({ error: 'No photos found' });
 
-    const { data: event } = await supabase.from('events').select('name').eq('id', eventId).single();
-    const eventName = (event?.name || 'event').replace(/\s+/g, '_');
+    const eventName = (req.galleryEvent.name || 'event').replace(/\s+/g, '_');
     const date = new Date().toISOString().split('T')[0];
 
     res.set({
@@ -568,12 +1079,14 @@ router.get('/event/:eventId/zip', requireAuth, async (req, res) => {
 
 /**
  * POST /api/photos/burst
- * Accept multiple burst frames, store them individually
-*/
+ * Store the guest's picks from a burst (frame_0..frame_9) as individual photos,
+ * plus an optional contact_sheet image of the whole burst.
+ */
 router.post('/burst', upload.fields([
   { name: 'frame_0' }, { name: 'frame_1' }, { name: 'frame_2' },
   { name: 'frame_3' }, { name: 'frame_4' }, { name: 'frame_5' },
   { name: 'frame_6' }, { name: 'frame_7' }, { name: 'frame_8' }, { name: 'frame_9' },
+  { name: 'contact_sheet', maxCount: 1 },
 ]), async (req, res) => {
   try {
     const { eventId, sessionId } = req.body;
@@ -581,33 +1094,83 @@ router.post('/burst', upload.fields([
 
     const { data: event } = await supabase.from('events').select('*').eq('id', eventId).single();
     if (!event) return res.status(404).json({ error: 'Event not found' });
+    if (event.settings?.allowBurst !== true) {
+      return res.status(403).json({ error: 'Burst mode is disabled for this event' });
+    }
 
     const files = req.files || {};
-    const uploadedPhotos = [];
-
+    const frames = [];
     for (let i = 0; i < 10; i++) {
-      const fileArr = files[`frame_${i}`];
-      if (!fileArr || !fileArr[0]) continue;
-      const file = fileArr[0];
-      const photoId = require('uuid').v4();
-      const storageKey = `events/${eventId}/burst/${photoId}.jpg`;
+      const file = files[`frame_${i}`]?.[0];
+      if (file) frames.push(file.buffer);
+    }
+    if (!frames.length) return res.status(400).json({ error: 'No frames provided' });
+
+    // Store one burst item (pick or contact sheet) and return it in the upload shape
+    async function storeBurstItem(buffer, mode) {
+      const photoId = uuidv4();
+      const folder = mode === 'contact_sheet' ? 'contact-sheets' : 'burst';
+      const storageKey = `events/${eventId}/${folder}/${photoId}.jpg`;
+      const jpeg = await sharp(buffer)
+        .resize(2048, 2048, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 92 })
+        .toBuffer();
+      const photoUrl = await uploadToStorage(jpeg, storageKey, 'image/jpeg');
+
+      const thumbBuffer = await sharp(jpeg).resize(400, 400, { fit: 'inside' }).jpeg({ quality: 80 }).toBuffer();
+      const thumbUrl = await uploadToStorage(thumbBuffer, `events/${eventId}/thumbs/${photoId}_thumb.jpg`, 'image/jpeg');
+
+      const shortCode = await generateUniqueShortCode(supabase);
+      const galleryUrl = buildGalleryUrl(event.slug, photoId, shortCode);
+      const screening = await screenImage(event, jpeg);
+
+      const row = {
+        id: photoId,
+        event_id: eventId,
+        session_id: sessionId,
+        url: photoUrl,
+        thumb_url: thumbUrl,
+        gallery_url: galleryUrl,
+        storage_key: storageKey,
+        short_code: shortCode,
+        mode,
+        moderation_status: initialModerationStatus(event),
+        ...screening,
+      };
+      const { error: insertError } = await supabase.from('photos').insert(row);
+      if (insertError) throw insertError;
+      emitPhotoTaken(req, eventId, row, { photoId, thumbUrl, galleryUrl, mode });
+
+      return {
+        id: photoId,
+        url: photoUrl,
+        thumbUrl,
+        galleryUrl,
+        qrCode: await generateQRDataURL(galleryUrl),
+        whatsappUrl: buildWhatsAppUrl(photoUrl, event.name),
+        downloadUrl: photoUrl,
+        editToken: editTokenFor(photoId),
+        mode,
+      };
+    }
 
-      let publicUrl;
-      try {
-        publicUrl = await uploadToStorage(file.buffer, storageKey, 'image/jpeg');
-      } catch (e) { console.warn('R2 burst upload failed:', e.message); continue; }
-      const shortCode = require('nanoid').nanoid(6);
+    const photos = [];
+    for (const buffer of frames) {
+      photos.push(await storeBurstItem(buffer, 'burst'));
+    }
 
-      const { data: photo } = await supabase.from('photos').insert({
-        id: photoId, event_id: eventId, session_id: sessionId,
-        url: publicUrl, mode: 'burst', short_code: shortCode,
-      }).select().single();
+    const sheetFile = files.contact_sheet?.[0];
+    const contactSheet = sheetFile ? await storeBurstItem(sheetFile.buffer, 'contact_sheet') : null;
 
-      if (photo) uploadedPhotos.push(photo);
-    }
+    await supabase.from('analytics').insert({
+      event_id: eventId,
+      action: 'burst_created',
+      metadata: { picks: photos.length, contactSheet: !!contactSheet },
+    });
 
-    res.json({ photos: uploadedPhotos, count: uploadedPhotos.length });
+    res.json({ success: true, photos, contactSheet, count: photos.length });
   } catch (error) {
+    console.error('Burst upload error:', error);
     res.status(500).json({ error: error.message });
   }
 });
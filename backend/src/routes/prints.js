@@ -0,0 +1,255 @@
+/**
+ * Print Queue Routes
+ *
+ * The booth keeps the real print queue in IndexedDB (frontend/src/services/printService.ts)
+ * and mirrors every job change here, so the event manager can inspect it. Commands
+ * from the manager (pause, resume, cancel, reprint, retry) are relayed to the booth
+ * over the event's socket room; the booth applies them and mirrors the result back.
+ *
+ * Print allowances (settings.maxPrints per event, settings.maxPrintsPerSession per
+ * guest session) count copies of queued, printing and completed jobs. A new job that
+ * would go over either is refused with 409 unless the operator overrode the limit,
+ * whatever its status — including jobs the booth printed while it was offline.
+ *
+ * An override is only honoured with a short-lived override token: the booth gets
+ * one by sending the operator's PIN, and operator reprints carry one minted with
+ * the command.
+ *
+ * Routes:
+ *   POST /api/prints/event/:eventId/override   — { pin } → { overrideToken, expiresAt }
+ *   PUT  /api/prints/jobs/:jobId               — booth upserts a job (client-generated uuid)
+ *   GET  /api/prints/event/:eventId/usage      — prints used against the allowances (?sessionId=)
+ *   GET  /api/prints/event/:eventId            — jobs for an event, newest first
+ *   POST /api/prints/event/:eventId/commands   — { action, jobId? } relayed to the booth
+ */
+
+const express = require('express');
+const router = express.Router();
+const supabase = require('../services/database');
+const requireAuth = require('../middleware/requireAuth');
+const { issueSignedToken, verifySignedToken } = require('../services/signedTokens');
+const { operatorPinOf, operatorPinMatches } = require('../services/operatorPin');
+
+const JOB_STATUSES = ['queued', 'printing', 'completed', 'failed', 'cancelled'];
+const JOB_ACTIONS = ['cancel', 'reprint', 'retry'];
+const QUEUE_ACTIONS = ['pause', 'resume'];
+// Jobs that use up paper, or are about to
+const COUNTED_STATUSES = ['queued', 'printing', 'completed'];
+// Long enough to queue the print the PIN was entered for
+const OVERRIDE_TTL_MS = 5 * 60 * 1000;
+
+function toTimestamp(ms) {
+  return ms ? new Date(ms).toISOString() : null;
+}
+
+function limitOf(value) {
+  const n = Number(value);
+  return n > 0 ? n : null;
+}
+
+async function printUsage(eventId, sessionId) {
+  const { data: jobs, error } = await supabase
+    .from('print_jobs')
+    .select('copies, session_id')
+    .eq('event_id', eventId)
+    .in('status', COUNTED_STATUSES);
+  if (error) throw error;
+
+  const sum = (rows) => rows.reduce((n, job) => n + (job.copies || 0), 0);
+  return {
+    used: sum(jobs || []),
+    sessionUsed: sessionId ? sum((jobs || []).filter(j => j.session_id === sessionId)) : 0,
+  };
+}
+
+// `reprintOf` narrows a token to reprints of one job
+function issueOverrideToken(eventId, reprintOf) {
+  const expiresAt = Date.now() + OVERRIDE_TTL_MS;
+  const claims = reprintOf ? { e: eventId, r: reprintOf } : { e: eventId };
+  return { overrideToken: issueSignedToken('print-override', claims, expiresAt), expiresAt: new Date(expiresAt).toISOString() };
+}
+
+function isOverrideFor(eventId, token, reprintOf) {
+  const claims = verifySignedToken('print-override', token);
+  return !!claims && claims.e === eventId && (!claims.r || claims.r === reprintOf);
+}
+
+// The print queue is the owner's to see and control — a reprint even gets past the allowance
+async function findOwnedEvent(req, eventId) {
+  const { data: event } = await supabase.from('events').select('id, owner_id, settings').eq('id', eventId).maybeSingle();
+  return event && event.owner_id === req.user.id ? event : null;
+}
+
+/**
+ * The refusal body when `copies` more prints would exceed an allowance, otherwise null
+ */
+async function checkAllowance(eventId, sessionId, copies) {
+  const { data: event } = await supabase.from('events').select('settings').eq('id', eventId).maybeSingle();
+  const maxPrints = limitOf(event?.settings?.maxPrints);
+  const maxPrintsPerSession = sessionId ? limitOf(event?.settings?.maxPrintsPerSession) : null;
+  if (!maxPrints && !maxPrintsPerSession) return null;
+
+  const { used, sessionUsed } = await printUsage(eventId, sessionId);
+  if (maxPrints && used + copies > maxPrints) {
+    return { error: 'This event has used all of its prints', code: 'print_limit', scope: 'event', remaining: Math.max(0, maxPrints - used) };
+  }
+  if (maxPrintsPerSession && sessionUsed + copies > maxPrintsPerSession) {
+    return { error: 'This guest has used all of their prints', code: 'print_limit', scope: 'session', remaining: Math.max(0, maxPrintsPerSession - sessionUsed) };
+  }
+  return null;
+}
+
+// ─── POST /event/:eventId/override ────────────────────────────────────────────
+
+router.post('/event/:eventId/override', async (req, res) => {
+  try {
+    const { data: event } = await supabase.from('events').select('id, settings').eq('id', req.params.eventId).maybeSingle();
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+
+    if (!operatorPinOf(event)) return res.status(403).json({ error: 'This event has no operator PIN' });
+    if (!operatorPinMatches(event, req.body.pin)) return res.status(403).json({ error: 'Wrong PIN' });
+    res.json(issueOverrideToken(event.id));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ─── PUT /jobs/:jobId ─────────────────────────────────────────────────────────
+
+router.put('/jobs/:jobId', async (req, res) => {
+  try {
+    const {
+      eventId, photoId, photoUrl, copies = 1, status, attempts = 0, auto = false, reprintOf,
+      sessionId, overrideToken, error, createdAt, completedAt,
+    } = req.body;
+    if (!eventId || !photoId) return res.status(400).json({ error: 'eventId and photoId required' });
+    if (!JOB_STATUSES.includes(status)) return res.status(400).json({ error: `status must be one of ${JOB_STATUSES.join(', ')}` });
+    const jobCopies = Math.max(1, Math.min(10, Number(copies) || 1));
+
+    // The token only has to be valid when the job first arrives; later syncs keep
+    // the override that was recorded then
+    const { data: existing } = await supabase.from('print_jobs').select('id, override').eq('id', req.params.jobId).maybeSingle();
+    const override = existing ? !!existing.override : isOverrideFor(eventId, overrideToken, reprintOf);
+
+    // Allowances are checked once, when a job first reaches us — whatever state the booth
+    // says it is in, so a job can't skip the check by arriving as already printed
+    if (!existing && !override) {
+      const refusal = await checkAllowance(eventId, sessionId, jobCopies);
+      if (refusal) return res.status(409).json(refusal);
+    }
+
+    const { error: upsertError } = await supabase
+      .from('print_jobs')
+      .upsert({
+        id: req.params.jobId,
+        event_id: eventId,
+        photo_id: photoId,
+        photo_url: photoUrl || null,
+        copies: jobCopies,
+        status,
+        attempts: Number(attempts) || 0,
+        auto: !!auto,
+        reprint_of: reprintOf || null,
+        session_id: sessionId || null,
+        override,
+        error: error || null,
+        created_at: toTimestamp(createdAt) || new Date().toISOString(),
+        completed_at: toTimestamp(completedAt),
+        updated_at: new Date().toISOString(),
+      });
+
+    if (upsertError) throw upsertError;
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ─── GET /event/:eventId/usage ────────────────────────────────────────────────
+
+router.get('/event/:eventId/usage', async (req, res) => {
+  try {
+    const { eventId } = req.params;
+    const sessionId = req.query.sessionId || null;
+    const { data: event } = await supabase.from('events').select('settings').eq('id', eventId).maybeSingle();
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+
+    const { used, sessionUsed } = await printUsage(eventId, sessionId);
+    res.json({
+      used,
+      sessionUsed,
+      maxPrints: limitOf(event.settings?.maxPrints),
+      maxPrintsPerSession: limitOf(event.settings?.maxPrintsPerSession),
+    });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ─── GET /event/:eventId ──────────────────────────────────────────────────────
+
+router.get('/event/:eventId', requireAuth, async (req, res) => {
+  try {
+    if (!(await findOwnedEvent(req, req.params.eventId))) return res.status(404).json({ error: 'Event not found' });
+
+    const limit = Math.min(Number(req.query.limit) || 100, 500);
+    const { data: jobs, error } = await supabase
+      .from('print_jobs')
+      .select('*')
+      .eq('event_id', req.params.eventId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    res.json({ jobs: jobs || [] });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ─── POST /event/:eventId/commands ────────────────────────────────────────────
+
+router.post('/event/:eventId/commands', requireAuth, async (req, res) => {
+  try {
+    const { action, jobId } = req.body;
+    const { eventId } = req.params;
+
+    if (![...QUEUE_ACTIONS, ...JOB_ACTIONS].includes(action)) {
+      return res.status(400).json({ error: 'Unknown print command' });
+    }
+    if (JOB_ACTIONS.includes(action) && !jobId) {
+      return res.status(400).json({ error: 'jobId required' });
+    }
+    const event = await findOwnedEvent(req, eventId);
+    if (!event) return res.status(404).json({ error: 'Event not found' });
+
+    // Pause state lives on the event so booths that were offline pick it up on load
+    let paused;
+    if (QUEUE_ACTIONS.includes(action)) {
+      paused = action === 'pause';
+      const { error } = await supabase
+        .from('events')
+        .update({ settings: { ...(event.settings || {}), printQueuePaused: paused } })
+        .eq('id', eventId);
+      if (error) throw error;
+    }
+
+    // Reprints from the manager aren't held to the allowance. The booth files them
+    // under the first job in the chain, so that's what the token is for.
+    const command = jobId ? { action, jobId } : { action };
+    if (action === 'reprint') {
+      const { data: job } = await supabase.from('print_jobs').select('id, reprint_of').eq('id', jobId).eq('event_id', eventId).maybeSingle();
+      if (!job) return res.status(404).json({ error: 'Print job not found' });
+      command.overrideToken = issueOverrideToken(eventId, job.reprint_of || job.id).overrideToken;
+    }
+
+    const io = req.app.get('io');
+    if (io) io.to(`event-${eventId}`).emit('print-command', command);
+
+    res.json({ success: true, paused });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+module.exports = router;
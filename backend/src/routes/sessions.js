@@ -0,0 +1,57 @@
+/**
+ * Session Album Routes
+ *
+ * A session album groups every capture from one guest visit (photos, GIFs, strips,
+ * AI results) under a single short code that resolves at /p/[code], like a photo.
+ * Sending the album by email or SMS lives with the other share routes in share.js.
+ *
+ * Routes:
+ *   POST /api/sessions                — { eventId, sessionId } → album code, URL and item count
+ *   GET  /api/sessions/short/:code    — album, event branding and items for /p/[code]
+ */
+
+const express = require('express');
+const router = express.Router();
+const { ensureAlbum, listAlbumItems, getAlbumByCode } = require('../services/sessionAlbums');
+const { buildAlbumUrl } = require('../services/sharing');
+
+// ─── POST / ───────────────────────────────────────────────────────────────────
+
+router.post('/', async (req, res) => {
+  try {
+    const { eventId, sessionId } = req.body;
+    if (!eventId || !sessionId) return res.status(400).json({ error: 'eventId and sessionId required' });
+
+    const album = await ensureAlbum(eventId, sessionId);
+    const items = await listAlbumItems(eventId, sessionId);
+    res.json({
+      album: { shortCode: album.short_code, url: buildAlbumUrl(album.short_code), count: items.length },
+    });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ─── GET /short/:code ─────────────────────────────────────────────────────────
+
+router.get('/short/:code', async (req, res) => {
+  try {
+    const result = await getAlbumByCode(req.params.code);
+    if (!result) return res.status(404).json({ error: 'Album not found' });
+
+    const { album, event, items, url } = result;
+    res.json({
+      album: {
+        shortCode: album.short_code,
+        url,
+        createdAt: album.created_at,
+        event: event ? { name: event.name, slug: event.slug, branding: event.branding } : null,
+        items,
+      },
+    });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+module.exports = router;
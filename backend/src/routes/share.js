@@ -16,6 +16,7 @@
  *
  * POST /api/share/email  — sends branded HTML email via Resend (resend.com)
  * POST /api/share/sms    — sends SMS via Twilio
+ * POST /api/share/session/email, /session/sms — same, for a whole session album ({ code })
  *
  * Required env vars on Render:
  *   RESEND_API_KEY          — get free at resend.com (100 emails/day free)
@@ -54,11 +55,38 @@ const express = require('express');
 const router  = express.Router();
 const supabase = require('../services/database');
 const { generateQRDataURL, buildGalleryUrl, buildWhatsAppUrl } = require('../services/sharing');
+const { getAlbumByCode } = require('../services/sessionAlbums');
+const { resendFromAddress, sendViaResend } = require('../services/resend');
 
 function frontendUrl() {
   return process.env.FRONTEND_URL || 'https://photobooth-v2-xi.vercel.app';
 }
 
+/** Send through Twilio. Returns null on success, or the provider's error text. */
+async function sendViaTwilio(to, body) {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER } = process.env;
+  const twilioRes = await fetch(
+    `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Messages.json`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': 'Basic ' + Buffer.from(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`).toString('base64'),
+        'Content-Type':  'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ From: TWILIO_PHONE_NUMBER, To: to, Body: body }).toString(),
+    }
+  );
+  if (twilioRes.ok) return null;
+  const detail = await twilioRes.text();
+  console.error('Twilio error:', detail);
+  return detail;
+}
+
+function twilioConfigured() {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER } = process.env;
+  return !!(TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_PHONE_NUMBER);
+}
+
 function buildPhotoPageUrl(photo) {
   if (photo?.short_code) return `${frontendUrl()}/p/${photo.short_code}`;
   const slug = photo?.events?.slug || photo?.event_slug;
@@ -127,15 +155,8 @@ router.post('/email', async (req, res) => {
       return res.status(503).json({ error: 'Email service not configured. Add RESEND_API_KEY to Render environment variables. Get a free key at resend.com' });
     }
 
-    // Use verified custom domain if set, otherwise fall back to Resend's free sending domain
-    // To use your own domain: verify it at resend.com/domains then set RESEND_FROM_EMAIL env var
-    const fromEmail = process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev';
-    const fromAddress = process.env.RESEND_FROM_EMAIL
-      ? `${fromName} <${fromEmail}>`
-      : `SnapBooth Photos <onboarding@resend.dev>`;
-
     const emailBody = {
-      from: fromAddress,
+      from: resendFromAddress(fromName),
       to:   [recipient],
       subject: customSubject || `Your photo from ${eventName} 📸`,
       ...(replyTo ? { reply_to: replyTo } : {}),
@@ -172,17 +193,8 @@ router.post('/email', async (req, res) => {
 </html>`,
     };
 
-    const r = await fetch('https://api.resend.com/emails', {
-      method:  'POST',
-      headers: { 'Authorization': `Bearer ${process.env.RESEND_API_KEY}`, 'Content-Type': 'application/json' },
-      body:    JSON.stringify(emailBody),
-    });
-
-    if (!r.ok) {
-      const detail = await r.text();
-      console.error('Resend error:', detail);
-      return res.status(502).json({ error: 'Email send failed', detail });
-    }
+    const detail = await sendViaResend(emailBody);
+    if (detail) return res.status(502).json({ error: 'Email send failed', detail });
 
     await supabase.from('analytics').insert({
       event_id: photo.event_id, action: 'photo_emailed', metadata: { photoId, recipient },
@@ -202,8 +214,7 @@ router.post('/sms', async (req, res) => {
 
   if (!photoId || !recipient) return res.status(400).json({ error: 'photoId and phone are required' });
 
-  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER } = process.env;
-  if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_PHONE_NUMBER) {
+  if (!twilioConfigured()) {
     return res.status(503).json({ error: 'SMS service not configured (TWILIO_* env vars missing)' });
   }
 
@@ -224,23 +235,8 @@ router.post('/sms', async (req, res) => {
       ? customSmsMsg.replace('{url}', photoPageUrl).replace('{event}', eventName)
       : `📸 ${eventName} — here's your photo! View & save: ${photoPageUrl}`;
 
-    const twilioRes = await fetch(
-      `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Messages.json`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': 'Basic ' + Buffer.from(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`).toString('base64'),
-          'Content-Type':  'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({ From: TWILIO_PHONE_NUMBER, To: recipient, Body: messageBody }).toString(),
-      }
-    );
-
-    if (!twilioRes.ok) {
-      const detail = await twilioRes.text();
-      console.error('Twilio error:', detail);
-      return res.status(502).json({ error: 'SMS send failed', detail });
-    }
+    const detail = await sendViaTwilio(recipient, messageBody);
+    if (detail) return res.status(502).json({ error: 'SMS send failed', detail });
 
     await supabase.from('analytics').insert({
       event_id: photo.event_id, action: 'photo_sms_sent', metadata: { photoId, recipient },
@@ -252,6 +248,118 @@ router.post('/sms', async (req, res) => {
   }
 });
 
+// ─── POST /api/share/session/email ────────────────────────────────────────────
+// Everything from one guest visit in a single email, linking to the session album
+router.post('/session/email', async (req, res) => {
+  const { code, toEmail, email } = req.body;
+  const recipient = toEmail || email;
+
+  if (!code || !recipient) return res.status(400).json({ error: 'code and email are required' });
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipient)) return res.status(400).json({ error: 'Invalid email address' });
+
+  try {
+    const result = await getAlbumByCode(code);
+    if (!result) return res.status(404).json({ error: 'Album not found' });
+    const { album, event, items, url: albumUrl } = result;
+    if (items.length === 0) return res.status(409).json({ error: 'Nothing in this album yet' });
+
+    if (!process.env.RESEND_API_KEY) {
+      return res.status(503).json({ error: 'Email service not configured. Add RESEND_API_KEY to Render environment variables. Get a free key at resend.com' });
+    }
+
+    const eventName    = event?.name || 'SnapBooth';
+    const settings     = event?.settings || {};
+    const primaryColor = event?.branding?.primaryColor || '#7c3aed';
+    const fromName     = settings.emailFromName || eventName;
+    const replyTo      = settings.emailReplyTo  || null;
+    const count        = items.length;
+
+    // Stills inline, two per row; videos and animations link to their own page
+    const thumbs = items.map(item => {
+      const href = item.short_code ? `${frontendUrl()}/p/${item.short_code}` : albumUrl;
+      return `<a href="${href}" style="display:inline-block;width:46%;margin:1%;vertical-align:top">
+        <img src="${item.thumb_url || item.url}" alt="" style="width:100%;border-radius:10px" />
+      </a>`;
+    }).join('');
+
+    const emailBody = {
+      from: resendFromAddress(fromName),
+      to:   [recipient],
+      subject: settings.emailSubject || `Your ${count} photos from ${eventName} 📸`,
+      ...(replyTo ? { reply_to: replyTo } : {}),
+      html: `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"></head>
+<body style="margin:0;padding:0;background:#0a0a0f;font-family:Arial,sans-serif">
+  <div style="max-width:600px;margin:0 auto;padding:32px 16px">
+    <h1 style="color:#ffffff;font-size:28px;font-weight:900;margin:0 0 8px;text-align:center">
+      Your Photos are Ready! 📸
+    </h1>
+    <p style="color:rgba(255,255,255,0.5);text-align:center;margin:0 0 32px">${count} from ${eventName}</p>
+    <div style="text-align:center;margin-bottom:32px">${thumbs}</div>
+    <div style="text-align:center;margin-bottom:32px">
+      <a href="${albumUrl}"
+        style="display:inline-block;padding:16px 40px;background:${primaryColor};color:#ffffff;
+               text-decoration:none;border-radius:12px;font-weight:700;font-size:18px">
+        View &amp; Save All
+      </a>
+    </div>
+    <p style="color:rgba(255,255,255,0.2);font-size:12px;text-align:center;margin:0">
+      Powered by SnapBooth AI &nbsp;&middot;&nbsp; Photos available for 30 days
+    </p>
+  </div>
+</body>
+</html>`,
+    };
+
+    const detail = await sendViaResend(emailBody);
+    if (detail) return res.status(502).json({ error: 'Email send failed', detail });
+
+    await supabase.from('analytics').insert({
+      event_id: album.event_id, action: 'session_emailed', metadata: { code, count, recipient },
+    });
+
+    res.json({ success: true, message: `${count} photos sent to ${recipient}` });
+  } catch (err) {
+    console.error('/api/share/session/email error:', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ─── POST /api/share/session/sms ──────────────────────────────────────────────
+router.post('/session/sms', async (req, res) => {
+  const { code, toPhone, phone } = req.body;
+  const recipient = toPhone || phone;
+
+  if (!code || !recipient) return res.status(400).json({ error: 'code and phone are required' });
+  if (!twilioConfigured()) {
+    return res.status(503).json({ error: 'SMS service not configured (TWILIO_* env vars missing)' });
+  }
+
+  try {
+    const result = await getAlbumByCode(code);
+    if (!result) return res.status(404).json({ error: 'Album not found' });
+    const { album, event, items, url: albumUrl } = result;
+
+    const eventName   = event?.name || 'SnapBooth';
+    const customSmsMsg = event?.settings?.smsMessage || null;
+    const messageBody = customSmsMsg
+      ? customSmsMsg.replace('{url}', albumUrl).replace('{event}', eventName)
+      : `📸 ${eventName} — here are your ${items.length} photos! View & save: ${albumUrl}`;
+
+    const detail = await sendViaTwilio(recipient, messageBody);
+    if (detail) return res.status(502).json({ error: 'SMS send failed', detail });
+
+    await supabase.from('analytics').insert({
+      event_id: album.event_id, action: 'session_sms_sent', metadata: { code, count: items.length, recipient },
+    });
+
+    res.json({ success: true, message: `SMS sent to ${recipient}` });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
 
 // ─── POST /api/share/test-email ───────────────────────────────────────────────
 // Operator sends themselves a test email from the event settings panel
@@ -271,11 +379,8 @@ router.post('/test-email', async (req, res) => {
     const fromName     = settings.emailFromName || eventName;
     const replyTo      = settings.emailReplyTo || null;
     const customSubject = settings.emailSubject || null;
-    const fromEmail    = process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev';
-    const fromAddress  = process.env.RESEND_FROM_EMAIL ? `${fromName} <${fromEmail}>` : `SnapBooth Photos <onboarding@resend.dev>`;
-
     const emailBody = {
-      from: fromAddress,
+      from: resendFromAddress(fromName),
       to: [toEmail],
       subject: customSubject || `[TEST] Your photo from ${eventName} 📸`,
       ...(replyTo ? { reply_to: replyTo } : {}),
@@ -291,13 +396,8 @@ router.post('/test-email', async (req, res) => {
       </body></html>`,
     };
 
-    const r = await fetch('https://api.resend.com/emails', {
-      method: 'POST',
-      headers: { 'Authorization': `Bearer ${process.env.RESEND_API_KEY}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify(emailBody),
-    });
-
-    if (!r.ok) { const d = await r.text(); return res.status(502).json({ error: 'Test email failed', detail: d }); }
+    const detail = await sendViaResend(emailBody);
+    if (detail) return res.status(502).json({ error: 'Test email failed', detail });
     res.json({ success: true, message: `Test email sent to ${toEmail}` });
   } catch (err) {
     res.status(500).json({ error: err.message });
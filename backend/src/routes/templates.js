@@ -1,88 +1,117 @@
 /**
  * Templates Routes - Photo template management
+ *
+ * Templates use the shared schema from frontend/src/services/templateEngine.ts
+ * ({ width, height, background, elements[] } with photo slots) and are stored
+ * whole in templates.layout so the booth and designer round-trip them as-is.
  */
 
 const express = require('express');
 const router = express.Router();
+const supabase = require('../services/database');
+const requireAuth = require('../middleware/requireAuth');
 
-// GET /api/events/:id/templates
-router.get('/templates', async (req, res) => {
+// Only one default per event (enforced by templates_one_default_per_event_idx)
+async function clearDefault(eventId) {
+  await supabase
+    .from('templates')
+    .update({ is_default: false })
+    .eq('event_id', eventId)
+    .eq('is_default', true);
+}
+
+// GET /api/templates/event/:eventId
+router.get('/event/:eventId', async (req, res) => {
   try {
-    const { data: templates } = await supabase
-      .from('photo_templates')
+    const { data: templates, error } = await supabase
+      .from('templates')
       .select('*')
-      .eq('event_id', req.params.id)
+      .eq('event_id', req.params.eventId)
+      .eq('is_active', true)
       .order('created_at', { ascending: false });
 
+    if (error) throw error;
     res.json({ templates: templates || [] });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// POST /api/events/:id/templates
-router.post('/templates', async (req, res) => {
+// POST /api/templates/event/:eventId
+router.post('/event/:eventId', requireAuth, async (req, res) => {
   try {
-    const { name, elements, layout, width, height, is_default } = req.body;
-    const eventId = req.params.id;
+    const { name, layout, isDefault = false } = req.body;
+    const { eventId } = req.params;
 
     if (!name) {
       return res.status(400).json({ error: 'Template name required' });
     }
+    if (!layout || !Array.isArray(layout.elements)) {
+      return res.status(400).json({ error: 'Template layout with elements required' });
+    }
+
+    if (isDefault) await clearDefault(eventId);
 
-    const { data: template } = await supabase
-      .from('photo_templates')
+    const { data: template, error } = await supabase
+      .from('templates')
       .insert({
         event_id: eventId,
         name,
-        elements: elements || [],
-        layout: layout || 'custom',
-        width: width || 1200,
-        height: height || 1800,
-        is_default: is_default || false,
+        layout,
+        is_default: !!isDefault,
       })
       .select()
       .single();
 
+    if (error) throw error;
     res.json({ success: true, template });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// PATCH /api/events/:id/templates/:templateId
-router.patch('/templates/:templateId', async (req, res) => {
+// PATCH /api/templates/:templateId
+router.patch('/:templateId', requireAuth, async (req, res) => {
   try {
-    const { name, elements, layout, width, height, is_default } = req.body;
+    const { name, layout, isDefault } = req.body;
 
-    const { data: template } = await supabase
-      .from('photo_templates')
-      .update({
-        name,
-        elements,
-        layout,
-        width,
-        height,
-        is_default,
-      })
+    const { data: existing } = await supabase
+      .from('templates')
+      .select('id, event_id')
+      .eq('id', req.params.templateId)
+      .single();
+    if (!existing) return res.status(404).json({ error: 'Template not found' });
+
+    if (isDefault) await clearDefault(existing.event_id);
+
+    const updates = { updated_at: new Date().toISOString() };
+    if (name !== undefined) updates.name = name;
+    if (layout !== undefined) updates.layout = layout;
+    if (isDefault !== undefined) updates.is_default = !!isDefault;
+
+    const { data: template, error } = await supabase
+      .from('templates')
+      .update(updates)
       .eq('id', req.params.templateId)
       .select()
       .single();
 
+    if (error) throw error;
     res.json({ success: true, template });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// DELETE /api/events/:id/templates/:templateId
-router.delete('/templates/:templateId', async (req, res) => {
+// DELETE /api/templates/:templateId
+router.delete('/:templateId', requireAuth, async (req, res) => {
   try {
-    await supabase
-      .from('photo_templates')
-      .delete()
+    const { error } = await supabase
+      .from('templates')
+      .update({ is_active: false, is_default: false, updated_at: new Date().toISOString() })
       .eq('id', req.params.templateId);
 
+    if (error) throw error;
     res.json({ success: true });
   } catch (error) {
     res.status(500).json({ error: error.message });
@@ -0,0 +1,331 @@
+/**
+ * backend/src/services/faceSearch.js
+ *
+ * "Find my photos" — opt-in selfie search for the public gallery.
+ *
+ * With settings.faceSearchEnabled on, a background indexer finds the faces in each
+ * of the event's photos and stores a 128-number descriptor per face in
+ * face_embeddings. A guest who consents uploads a selfie; it is described the same
+ * way, compared against the event's descriptors by euclidean distance, and thrown
+ * away — selfies are never stored.
+ *
+ * Runs on CPU with @vladmandic/face-api on @tensorflow/tfjs-node (SSD MobileNet
+ * detector, 68-point landmarks, ResNet-34 recognition net — about 7MB of models
+ * shipped inside the package). Both packages are required lazily so the rest of the
+ * backend still boots where the native TensorFlow binding is missing; face search
+ * then reports itself unavailable.
+ *
+ * Descriptors are biometric data: they are deleted when the event's gallery
+ * expires, when an operator erases them, and with the photo or event (cascade).
+ */
+
+const path = require('path');
+const sharp = require('sharp');
+const supabase = require('./database');
+
+// Below this distance two descriptors are treated as the same person. 0.6 is the
+// model's usual cut-off; a little stricter keeps strangers out of a guest's results.
+const MATCH_DISTANCE = Number(process.env.FACE_MATCH_DISTANCE) || 0.5;
+
+const MIN_DETECTION_CONFIDENCE = 0.5;
+// Faces narrower than this share of the frame are too small to describe reliably
+const MIN_FACE_WIDTH = 0.04;
+const MAX_DIMENSION = 1024;
+
+const INDEX_BATCH = 20;
+const INDEX_INTERVAL_MS = 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+// ─── Model ────────────────────────────────────────────────────────────────────
+
+let modelPromise = null;
+
+function loadModel() {
+  if (!modelPromise) {
+    modelPromise = (async () => {
+      const faceapi = require('@vladmandic/face-api');
+      const modelPath = process.env.FACE_MODEL_PATH ||
+        path.join(path.dirname(require.resolve('@vladmandic/face-api')), '..', 'model');
+      await Promise.all([
+        faceapi.nets.ssdMobilenetv1.loadFromDisk(modelPath),
+        faceapi.nets.faceLandmark68Net.loadFromDisk(modelPath),
+        faceapi.nets.faceRecognitionNet.loadFromDisk(modelPath),
+      ]);
+      return faceapi;
+    })().catch(err => {
+      modelPromise = null;
+      throw err;
+    });
+  }
+  return modelPromise;
+}
+
+async function faceSearchAvailable() {
+  try {
+    await loadModel();
+    return true;
+  } catch (err) {
+    console.warn('[faceSearch] model unavailable:', err.message);
+    return false;
+  }
+}
+
+/**
+ * Find and describe every face in an image. Returns
+ * [{ descriptor: number[128], box: { x, y, width, height } (0–1), score }].
+ */
+async function describeFaces(buffer) {
+  const faceapi = await loadModel();
+
+  const { data, info } = await sharp(buffer, { pages: 1 })
+    .rotate()
+    .resize(MAX_DIMENSION, MAX_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const tensor = faceapi.tf.tensor3d(new Uint8Array(data), [info.height, info.width, 3]);
+  try {
+    const detections = await faceapi
+      .detectAllFaces(tensor, new faceapi.SsdMobilenetv1Options({ minConfidence: MIN_DETECTION_CONFIDENCE }))
+      .withFaceLandmarks()
+      .withFaceDescriptors();
+
+    return detections
+      .map(d => ({
+        descriptor: Array.from(d.descriptor),
+        score: d.detection.score,
+        box: {
+          x: d.detection.box.x / info.width,
+          y: d.detection.box.y / info.height,
+          width: d.detection.box.width / info.width,
+          height: d.detection.box.height / info.height,
+        },
+      }))
+      .filter(f => f.box.width >= MIN_FACE_WIDTH);
+  } finally {
+    tensor.dispose();
+  }
+}
+
+function distance(a, b) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return Math.sqrt(sum);
+}
+
+// ─── Indexing ─────────────────────────────────────────────────────────────────
+
+function faceSearchEnabled(event) {
+  return event?.settings?.faceSearchEnabled === true;
+}
+
+function galleryExpired(event) {
+  return !!event?.gallery_expires_at && new Date(event.gallery_expires_at) < new Date();
+}
+
+/**
+ * Replace a photo's face descriptors. Videos are indexed from their poster frame.
+ */
+async function indexPhoto(photo) {
+  const source = photo.mode === 'video' ? photo.thumb_url : photo.url || photo.thumb_url;
+  let faces = [];
+  if (source) {
+    const res = await fetch(source);
+    if (!res.ok) throw new Error(`Could not fetch photo ${photo.id} (${res.status})`);
+    faces = await describeFaces(Buffer.from(await res.arrayBuffer()));
+  }
+
+  await supabase.from('face_embeddings').delete().eq('photo_id', photo.id);
+  if (faces.length) {
+    const { error } = await supabase.from('face_embeddings').insert(faces.map(f => ({
+      event_id: photo.event_id,
+      photo_id: photo.id,
+      descriptor: f.descriptor,
+      box: f.box,
+    })));
+    if (error) throw error;
+  }
+  await supabase.from('photos').update({ faces_indexed_at: new Date().toISOString() }).eq('id', photo.id);
+  return faces.length;
+}
+
+const indexing = new Set();
+
+/**
+ * Index up to `limit` of an event's photos that have no descriptors yet.
+ * One run per event at a time; a photo that fails is marked indexed with no
+ * faces rather than retried forever.
+ */
+async function indexPendingPhotos(eventId, limit = INDEX_BATCH) {
+  if (indexing.has(eventId)) return 0;
+  indexing.add(eventId);
+  try {
+    const { data: photos, error } = await supabase
+      .from('photos')
+      .select('id, event_id, url, thumb_url, mode')
+      .eq('event_id', eventId)
+      .is('faces_indexed_at', null)
+      .is('superseded_by', null)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+    if (error) throw error;
+
+    let done = 0;
+    for (const photo of photos || []) {
+      try {
+        await indexPhoto(photo);
+      } catch (err) {
+        console.warn(`[faceSearch] skipping photo ${photo.id}:`, err.message);
+        await supabase.from('photos').update({ faces_indexed_at: new Date().toISOString() }).eq('id', photo.id);
+      }
+      done++;
+    }
+    return done;
+  } finally {
+    indexing.delete(eventId);
+  }
+}
+
+/**
+ * Indexed / waiting photo counts and stored face count for the admin panel
+ */
+async function indexStatus(eventId) {
+  const photoCount = (indexed) => {
+    const query = supabase
+      .from('photos')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId)
+      .is('superseded_by', null);
+    return indexed ? query.not('faces_indexed_at', 'is', null) : query.is('faces_indexed_at', null);
+  };
+  const [indexed, pending, faces] = await Promise.all([
+    photoCount(true),
+    photoCount(false),
+    supabase.from('face_embeddings').select('id', { count: 'exact', head: true }).eq('event_id', eventId),
+  ]);
+  for (const result of [indexed, pending, faces]) if (result.error) throw result.error;
+
+  return {
+    indexed: indexed.count || 0,
+    pending: pending.count || 0,
+    faces: faces.count || 0,
+    running: indexing.has(eventId),
+  };
+}
+
+// ─── Search ───────────────────────────────────────────────────────────────────
+
+/**
+ * Photo ids in the event containing the person in the selfie, closest first.
+ * Throws an error with code 'NO_FACE' when the selfie has no usable face.
+ */
+async function searchBySelfie(eventId, selfieBuffer) {
+  const faces = await describeFaces(selfieBuffer);
+  if (!faces.length) {
+    const err = new Error('No face found in the selfie');
+    err.code = 'NO_FACE';
+    throw err;
+  }
+  // The guest is the biggest face in their own selfie
+  const probe = faces.reduce((a, b) => (b.box.width * b.box.height > a.box.width * a.box.height ? b : a)).descriptor;
+
+  const best = new Map();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: rows, error } = await supabase
+      .from('face_embeddings')
+      .select('photo_id, descriptor')
+      .eq('event_id', eventId)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const row of rows || []) {
+      const d = distance(probe, row.descriptor);
+      if (d <= MATCH_DISTANCE && (!best.has(row.photo_id) || d < best.get(row.photo_id))) {
+        best.set(row.photo_id, d);
+      }
+    }
+    if (!rows || rows.length < PAGE_SIZE) break;
+  }
+
+  return [...best.entries()].sort((a, b) => a[1] - b[1]).map(([photoId]) => photoId);
+}
+
+// ─── Retention ────────────────────────────────────────────────────────────────
+
+/**
+ * Erase every face descriptor stored for an event and mark its photos unindexed
+ */
+async function deleteEventFaceData(eventId) {
+  const { error } = await supabase.from('face_embeddings').delete().eq('event_id', eventId);
+  if (error) throw error;
+  await supabase.from('photos').update({ faces_indexed_at: null }).eq('event_id', eventId);
+}
+
+/**
+ * Delete descriptors for every event whose gallery has expired
+ */
+async function purgeExpiredFaceData() {
+  const { data: events, error } = await supabase
+    .from('events')
+    .select('id')
+    .lt('gallery_expires_at', new Date().toISOString());
+  if (error) throw error;
+
+  let purged = 0;
+  for (const { id } of events || []) {
+    const { count, error: deleteError } = await supabase
+      .from('face_embeddings')
+      .delete({ count: 'exact' })
+      .eq('event_id', id);
+    if (deleteError) throw deleteError;
+    purged += count || 0;
+  }
+  if (purged) console.log(`[faceSearch] purged ${purged} face descriptors from expired galleries`);
+  return purged;
+}
+
+// ─── Scheduler ────────────────────────────────────────────────────────────────
+
+async function indexEnabledEvents() {
+  const { data: events, error } = await supabase
+    .from('events')
+    .select('id, settings, gallery_expires_at')
+    .eq('settings->>faceSearchEnabled', 'true');
+  if (error) throw error;
+
+  for (const event of events || []) {
+    if (!galleryExpired(event)) await indexPendingPhotos(event.id);
+  }
+}
+
+/**
+ * Start the background indexer and the expiry purge. Does nothing when the
+ * model can't be loaded on this server.
+ */
+async function startFaceSearchJobs() {
+  if (!(await faceSearchAvailable())) return;
+
+  const run = (name, job) => () => job().catch(err => console.warn(`[faceSearch] ${name} failed:`, err.message));
+  setInterval(run('indexer', indexEnabledEvents), INDEX_INTERVAL_MS);
+  setInterval(run('purge', purgeExpiredFaceData), PURGE_INTERVAL_MS);
+  run('purge', purgeExpiredFaceData)();
+}
+
+module.exports = {
+  MATCH_DISTANCE,
+  faceSearchAvailable,
+  faceSearchEnabled,
+  galleryExpired,
+  indexPendingPhotos,
+  indexStatus,
+  searchBySelfie,
+  deleteEventFaceData,
+  purgeExpiredFaceData,
+  startFaceSearchJobs,
+};
@@ -0,0 +1,151 @@
+/**
+ * backend/src/services/galleryAccess.js
+ *
+ * Password-protected galleries. The password lives only in events.gallery_password
+ * and never leaves the server; guests trade it for a signed, expiring access token
+ * at POST /api/gallery/:slug/verify-password. Operators can also mint per-guest
+ * magic links — the same kind of token, longer lived, carried in the link itself —
+ * and display links that open only the social wall on a venue screen.
+ *
+ * Token format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256 signature)
+ *   { e: eventId, v: tokenVersion, k: 'password' | 'link' | 'display', g?: guest label, exp }
+ *
+ * Every token carries the event's gallery_token_version. "Revoke all access" and
+ * password changes bump the version, which invalidates every token issued before.
+ */
+
+const crypto = require('crypto');
+const supabase = require('./database');
+
+const SESSION_TTL_MS = (Number(process.env.GALLERY_SESSION_HOURS) || 12) * 60 * 60 * 1000;
+const DEFAULT_LINK_DAYS = 30;
+const MAX_LINK_DAYS = 365;
+const DEFAULT_DISPLAY_DAYS = 3;
+
+const EVENT_FIELDS = 'id, owner_id, name, slug, date, venue, branding, settings, gallery_password, gallery_token_version, gallery_expires_at, retention_state';
+
+// ─── Event lookup ─────────────────────────────────────────────────────────────
+
+// Galleries are linked by slug, but older QR codes carry the event id
+async function findGalleryEvent(slug) {
+  const { data: event } = await supabase.from('events').select(EVENT_FIELDS).eq('slug', slug).maybeSingle();
+  if (event || !/^[0-9a-f-]{36}$/i.test(slug)) return event;
+
+  const { data: byId } = await supabase.from('events').select(EVENT_FIELDS).eq('id', slug).maybeSingle();
+  return byId;
+}
+
+function isProtected(event) {
+  return !!event?.gallery_password;
+}
+
+// ─── Signing ──────────────────────────────────────────────────────────────────
+
+function secret() {
+  const key = process.env.GALLERY_TOKEN_SECRET || process.env.SUPABASE_SERVICE_KEY;
+  if (!key) throw new Error('GALLERY_TOKEN_SECRET is not set');
+  return key;
+}
+
+function sign(body) {
+  return crypto.createHmac('sha256', secret()).update(body).digest('base64url');
+}
+
+function safeEqual(a, b) {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function issueToken(event, kind, ttlMs, label) {
+  const exp = Date.now() + ttlMs;
+  const payload = { e: event.id, v: event.gallery_token_version || 0, k: kind, exp };
+  if (label) payload.g = label;
+
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return { token: `${body}.${sign(body)}`, expiresAt: new Date(exp).toISOString() };
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Constant-time check of a guest's password against the event's
+ */
+function checkGalleryPassword(event, password) {
+  return isProtected(event) && typeof password === 'string' && safeEqual(password, event.gallery_password);
+}
+
+/**
+ * Access token for a guest who entered the gallery password
+ */
+function issueSessionToken(event) {
+  return issueToken(event, 'password', SESSION_TTL_MS);
+}
+
+/**
+ * Access token for a per-guest magic link, valid for `days` (1–365)
+ */
+function issueLinkToken(event, label, days = DEFAULT_LINK_DAYS) {
+  const validDays = Math.min(Math.max(Number(days) || DEFAULT_LINK_DAYS, 1), MAX_LINK_DAYS);
+  return issueToken(event, 'link', validDays * 24 * 60 * 60 * 1000, label);
+}
+
+/**
+ * Access token for the event's social wall, valid for `days` (1–365). It opens
+ * the wall only, not the gallery.
+ */
+function issueDisplayToken(event, days = DEFAULT_DISPLAY_DAYS) {
+  const validDays = Math.min(Math.max(Number(days) || DEFAULT_DISPLAY_DAYS, 1), MAX_LINK_DAYS);
+  return issueToken(event, 'display', validDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * The token's payload when it was signed here, is for this event, hasn't expired
+ * and hasn't been revoked — otherwise null
+ */
+function verifyGalleryToken(event, token) {
+  if (!event || typeof token !== 'string') return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature || !safeEqual(signature, sign(body))) return null;
+
+  let payload;
+  try {
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (payload.e !== event.id) return null;
+  if (payload.v !== (event.gallery_token_version || 0)) return null;
+  if (!(payload.exp > Date.now())) return null;
+  return payload;
+}
+
+function tokenFromRequest(req) {
+  return req.headers['x-gallery-token'] || req.query.access_token || null;
+}
+
+/**
+ * Invalidate every access token and magic link issued for the event so far.
+ * Pass `changes` to update other event columns (the password) in the same write.
+ */
+async function revokeGalleryAccess(event, changes = {}) {
+  const version = (event.gallery_token_version || 0) + 1;
+  const { error } = await supabase
+    .from('events')
+    .update({ ...changes, gallery_token_version: version })
+    .eq('id', event.id);
+  if (error) throw error;
+  return version;
+}
+
+module.exports = {
+  findGalleryEvent,
+  isProtected,
+  checkGalleryPassword,
+  issueSessionToken,
+  issueLinkToken,
+  issueDisplayToken,
+  verifyGalleryToken,
+  tokenFromRequest,
+  revokeGalleryAccess,
+};
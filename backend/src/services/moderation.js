@@ -0,0 +1,47 @@
+/**
+ * moderation.js — pre-publication approval
+ *
+ * With settings.requireApproval on, new captures are stored as 'pending' and stay
+ * out of every public surface (gallery, social wall, /p pages, session albums)
+ * until an operator approves them in the Moderation tab. Rejected photos stay out
+ * with the operator's reason. Photos stored without a status — everything from
+ * before approval mode, or from events that don't use it — count as approved.
+ *
+ * Hiding (is_hidden) is separate: it takes an already published photo down.
+ */
+
+const MODERATION_STATUSES = ['pending', 'approved', 'rejected'];
+
+const REJECT_REASONS = ['inappropriate', 'gesture', 'quality', 'duplicate', 'off_brand', 'other'];
+
+/**
+ * Status a new capture is stored with — 'pending' when the event requires approval
+ */
+function initialModerationStatus(event) {
+  return event?.settings?.requireApproval === true ? 'pending' : null;
+}
+
+/**
+ * Narrow a supabase photos query to what guests may see
+ */
+function publicOnly(query) {
+  return query
+    .or('is_hidden.is.null,is_hidden.eq.false')
+    .or('moderation_status.is.null,moderation_status.eq.approved');
+}
+
+/**
+ * Same rule as publicOnly, for a row already fetched
+ */
+function isPublic(photo) {
+  if (!photo || photo.is_hidden) return false;
+  return !photo.moderation_status || photo.moderation_status === 'approved';
+}
+
+module.exports = {
+  MODERATION_STATUSES,
+  REJECT_REASONS,
+  initialModerationStatus,
+  publicOnly,
+  isPublic,
+};
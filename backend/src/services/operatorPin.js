@@ -0,0 +1,37 @@
+/**
+ * backend/src/services/operatorPin.js
+ *
+ * The operator PIN (events.settings.operatorPin) unlocks the booth's operator panel
+ * and lets a print past the event's allowance. It never leaves the server: event
+ * responses carry only its length, so the booth can draw the PIN pad, and the
+ * booth sends what was typed here to be checked.
+ */
+
+const crypto = require('crypto');
+
+function safeEqual(a, b) {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function operatorPinOf(event) {
+  const pin = event?.settings?.operatorPin;
+  return typeof pin === 'string' && pin ? pin : null;
+}
+
+function operatorPinMatches(event, pin) {
+  const operatorPin = operatorPinOf(event);
+  return !!operatorPin && typeof pin === 'string' && safeEqual(pin, operatorPin);
+}
+
+/**
+ * The event as the booth and admin may see it: settings without the PIN, plus
+ * operator_pin_length (0 when the event has no PIN)
+ */
+function withoutOperatorPin(event) {
+  const { operatorPin, ...settings } = event.settings || {};
+  return { ...event, settings, operator_pin_length: operatorPinOf(event)?.length || 0 };
+}
+
+module.exports = { operatorPinOf, operatorPinMatches, withoutOperatorPin };
@@ -0,0 +1,76 @@
+/**
+ * photoFeed.js — cursor pagination for gallery photo listings
+ *
+ * Offset pages shift while the booth is still adding photos, so the gallery pages
+ * by cursor instead: newest first, ordered by (created_at, id), and the cursor is
+ * the last row seen. Next pages start strictly after it, whatever was added since.
+ *
+ * Cursor format: base64url(JSON { c: created_at, i: id })
+ */
+
+const MAX_PAGE_SIZE = 200;
+
+// Gallery filter chips → stored photo modes
+const MODE_FILTERS = {
+  photo: ['single', 'burst'],
+  gif:   ['gif', 'boomerang', 'video'],
+  strip: ['strip', 'contact_sheet'],
+  ai:    ['ai'],
+};
+
+function encodeCursor(photo) {
+  return Buffer.from(JSON.stringify({ c: photo.created_at, i: photo.id })).toString('base64url');
+}
+
+function decodeCursor(cursor) {
+  if (!cursor) return null;
+  try {
+    const { c, i } = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    if (Number.isNaN(Date.parse(c)) || !/^[0-9a-f-]{36}$/i.test(i)) return null;
+    return { c, i };
+  } catch {
+    return null;
+  }
+}
+
+function pageSize(limit, fallback) {
+  return Math.min(Math.max(Number(limit) || fallback, 1), MAX_PAGE_SIZE);
+}
+
+/**
+ * Restrict a photos query to a gallery filter (unknown filters are ignored)
+ */
+function filterByMode(query, mode) {
+  const modes = MODE_FILTERS[mode];
+  return modes ? query.in('mode', modes) : query;
+}
+
+/**
+ * One page of a photos query after `cursor` (null for the first page). Applies
+ * the ordering itself; returns the rows and the cursor for the next page, or null
+ * when this was the last one.
+ */
+async function fetchPhotoPage(query, { cursor, limit }) {
+  const after = decodeCursor(cursor);
+  if (after) {
+    query = query.or(`created_at.lt."${after.c}",and(created_at.eq."${after.c}",id.lt.${after.i})`);
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+  if (error) throw error;
+
+  const rows = data || [];
+  const hasMore = rows.length > limit;
+  const photos = hasMore ? rows.slice(0, limit) : rows;
+  return { photos, nextCursor: hasMore ? encodeCursor(photos[photos.length - 1]) : null, count };
+}
+
+module.exports = {
+  MODE_FILTERS,
+  pageSize,
+  filterByMode,
+  fetchPhotoPage,
+};
@@ -0,0 +1,90 @@
+/**
+ * placeholders.js — image dimensions and LQIP placeholders for the gallery grid
+ *
+ * The virtualised masonry grid needs each photo's aspect ratio before the image
+ * loads, and shows a tiny blurred copy (an inline JPEG data URI, a few hundred
+ * bytes) while it does. Uploads fill these in directly; a background job covers
+ * every other capture path and photos from before this existed.
+ *
+ * photos.placeholder is null while pending and '' when the photo couldn't be read.
+ */
+
+const sharp = require('sharp');
+const supabase = require('./database');
+
+const PLACEHOLDER_WIDTH = 16;
+const BATCH_SIZE = 25;
+const INTERVAL_MS = 30 * 1000;
+
+let running = false;
+
+/**
+ * { width, height, placeholder } for an image buffer
+ */
+async function describeImage(buffer) {
+  const image = sharp(buffer, { animated: false }).rotate();
+  const { width, height } = await image.metadata();
+  const tiny = await image
+    .resize(PLACEHOLDER_WIDTH, null, { fit: 'inside' })
+    .blur(1)
+    .jpeg({ quality: 50 })
+    .toBuffer();
+  return { width, height, placeholder: `data:image/jpeg;base64,${tiny.toString('base64')}` };
+}
+
+function isVideoUrl(url) {
+  return /\.(mp4|webm)(\?|$)/i.test(url || '');
+}
+
+async function describePhoto(photo) {
+  const source = photo.thumb_url || (isVideoUrl(photo.url) ? null : photo.url);
+  if (!source) return { placeholder: '' };
+
+  const res = await fetch(source);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return describeImage(Buffer.from(await res.arrayBuffer()));
+}
+
+/**
+ * Describe up to `limit` photos still missing a placeholder, newest first so
+ * galleries being browsed right now are served first
+ */
+async function fillPendingPlaceholders(limit = BATCH_SIZE) {
+  if (running) return 0;
+  running = true;
+  try {
+    const { data: photos, error } = await supabase
+      .from('photos')
+      .select('id, url, thumb_url')
+      .is('placeholder', null)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+
+    for (const photo of photos || []) {
+      let meta;
+      try {
+        meta = await describePhoto(photo);
+      } catch (err) {
+        console.warn(`[placeholders] skipping photo ${photo.id}:`, err.message);
+        meta = { placeholder: '' };
+      }
+      await supabase.from('photos').update(meta).eq('id', photo.id);
+    }
+    return (photos || []).length;
+  } finally {
+    running = false;
+  }
+}
+
+function startPlaceholderJobs() {
+  const run = () => fillPendingPlaceholders().catch(err => console.warn('[placeholders] backfill failed:', err.message));
+  setInterval(run, INTERVAL_MS);
+  run();
+}
+
+module.exports = {
+  describeImage,
+  fillPendingPlaceholders,
+  startPlaceholderJobs,
+};
@@ -0,0 +1,33 @@
+/**
+ * backend/src/services/resend.js
+ * Transactional email through Resend (resend.com) — guest shares and owner notices.
+ *
+ * Env vars: RESEND_API_KEY, RESEND_FROM_EMAIL (optional, a domain verified at resend.com/domains)
+ */
+
+function resendConfigured() {
+  return !!process.env.RESEND_API_KEY;
+}
+
+// Use verified custom domain if set, otherwise fall back to Resend's free sending domain
+// To use your own domain: verify it at resend.com/domains then set RESEND_FROM_EMAIL env var
+function resendFromAddress(fromName) {
+  return process.env.RESEND_FROM_EMAIL
+    ? `${fromName} <${process.env.RESEND_FROM_EMAIL}>`
+    : `SnapBooth Photos <onboarding@resend.dev>`;
+}
+
+/** Send through Resend. Returns null on success, or the provider's error text. */
+async function sendViaResend(emailBody) {
+  const r = await fetch('https://api.resend.com/emails', {
+    method:  'POST',
+    headers: { 'Authorization': `Bearer ${process.env.RESEND_API_KEY}`, 'Content-Type': 'application/json' },
+    body:    JSON.stringify(emailBody),
+  });
+  if (r.ok) return null;
+  const detail = await r.text();
+  console.error('Resend error:', detail);
+  return detail;
+}
+
+module.exports = { resendConfigured, resendFromAddress, sendViaResend };
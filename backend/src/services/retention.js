@@ -0,0 +1,408 @@
+/**
+ * backend/src/services/retention.js
+ *
+ * Gallery retention lifecycle, driven by the owner's plan (PLAN_FEATURES.galleryDays):
+ *
+ *   active    gallery_expires_at = end of the event day + plan galleryDays + days bought
+ *             as extensions. Recomputed every sweep so upgrades and extensions apply
+ *             without touching the event, but a stored expiry is never moved earlier.
+ *   expiring  WARNING_DAYS before expiry the owner is emailed an "extend" link.
+ *   grace     Past expiry guests get 410 while operators still see everything. The
+ *             owner is emailed; extending during grace brings the gallery back untouched.
+ *   archived  GRACE_DAYS after the grace email went out the media leaves storage. With
+ *   deleted   settings.retentionAction 'archive' (the default) it is zipped into one
+ *             archive first, downloadable from the admin Overview; 'delete' removes it
+ *             outright. Without a sent grace email nothing is ever purged.
+ *
+ * Events without an owner have no plan to date them from and are never expired.
+ * Events that existed before retention start their clock at retention_started_at
+ * (the migration), not at their event day.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const supabase = require('./database');
+const { getUserPlanFeatures } = require('../middleware/planEnforcement');
+const { uploadFileToStorage, storageKeyFromUrl, deleteFromStorage, getSignedDownloadUrl } = require('./storage');
+const { resendConfigured, resendFromAddress, sendViaResend } = require('./resend');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GRACE_DAYS = Number(process.env.GALLERY_GRACE_DAYS) || 7;
+const WARNING_DAYS = Number(process.env.GALLERY_WARNING_DAYS) || 2;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const PAGE_SIZE = 500;
+
+const RETENTION_ACTIONS = ['archive', 'delete'];
+
+// One-off "extend gallery" purchases: days → price in cents
+const GALLERY_EXTENSIONS = { 30: 900, 90: 1900 };
+
+const EVENT_FIELDS = 'id, name, slug, date, created_at, owner_id, settings, retention_started_at, gallery_expires_at, gallery_extra_days, ' +
+  'retention_warned_at, retention_grace_notified_at, retention_state, retention_purged_at, archive_key';
+
+function frontendUrl() {
+  return (process.env.FRONTEND_URL || 'https://photobooth-v2-xi.vercel.app').replace(/\/$/, '');
+}
+
+// ─── Dates ────────────────────────────────────────────────────────────────────
+
+// The clock starts at the end of the event day (or creation, for events set up late;
+// or the retention migration, for events that predate it)
+function galleryStart(event) {
+  const created = Math.max(
+    new Date(event.created_at || Date.now()).getTime(),
+    event.retention_started_at ? new Date(event.retention_started_at).getTime() : 0,
+  );
+  const day = event.date ? new Date(event.date).getTime() : NaN;
+  const start = new Date(Number.isNaN(day) ? created : Math.max(day, created));
+  start.setUTCHours(23, 59, 59, 999);
+  return start;
+}
+
+function expiryFor(event, galleryDays) {
+  const days = galleryDays + (event.gallery_extra_days || 0);
+  return new Date(galleryStart(event).getTime() + days * DAY_MS);
+}
+
+/**
+ * Where an event is in the lifecycle:
+ * { state: 'unlimited' | 'active' | 'expiring' | 'grace' | 'archived' | 'deleted',
+ *   expiresAt, graceEndsAt, daysLeft, purgedAt }
+ */
+function retentionStatus(event) {
+  const expires = event.gallery_expires_at ? new Date(event.gallery_expires_at).getTime() : null;
+  // Grace runs from the later of expiry and the grace email, so the owner always gets the full period
+  const notified = event.retention_grace_notified_at ? new Date(event.retention_grace_notified_at).getTime() : 0;
+  const status = {
+    expiresAt: event.gallery_expires_at || null,
+    graceEndsAt: expires ? new Date(Math.max(expires, notified) + GRACE_DAYS * DAY_MS).toISOString() : null,
+    daysLeft: expires ? Math.ceil((expires - Date.now()) / DAY_MS) : null,
+    purgedAt: event.retention_purged_at || null,
+  };
+
+  if (event.retention_state) return { ...status, state: event.retention_state };
+  if (!expires) return { ...status, state: 'unlimited' };
+  const now = Date.now();
+  const state = now >= expires ? 'grace' : now >= expires - WARNING_DAYS * DAY_MS ? 'expiring' : 'active';
+  return { ...status, state };
+}
+
+/**
+ * Guests lose access from expiry on; operators keep it until the media is purged
+ */
+function galleryClosed(event) {
+  return !!event?.retention_state ||
+    (!!event?.gallery_expires_at && new Date(event.gallery_expires_at) <= new Date());
+}
+
+/**
+ * Bring gallery_expires_at in line with the owner's plan. Only ever moves it later
+ * (upgrade, extension), which re-arms the warning and grace emails — a downgrade
+ * never cuts short a date the owner has already been shown.
+ */
+async function syncExpiry(event, features) {
+  if (!event.owner_id || event.retention_state) return event;
+
+  const expected = expiryFor(event, features.galleryDays);
+  const current = event.gallery_expires_at ? new Date(event.gallery_expires_at) : null;
+  if (current && current >= expected) return event;
+
+  const changes = {
+    gallery_expires_at: expected.toISOString(),
+    retention_warned_at: null,
+    retention_grace_notified_at: null,
+  };
+  const { error } = await supabase.from('events').update(changes).eq('id', event.id);
+  if (error) throw error;
+  return { ...event, ...changes };
+}
+
+// ─── Owner emails ─────────────────────────────────────────────────────────────
+
+async function ownerEmail(event) {
+  const { data, error } = await supabase.auth.admin.getUserById(event.owner_id);
+  if (error) throw error;
+  return data?.user?.email || null;
+}
+
+function noticeEmail(event, kind, status) {
+  const expires = new Date(status.expiresAt).toDateString();
+  const graceEnds = new Date(status.graceEndsAt).toDateString();
+  const archive = (event.settings?.retentionAction || 'archive') === 'archive';
+  const adminUrl = `${frontendUrl()}/admin/events/${event.id}`;
+
+  const subject = kind === 'warning'
+    ? `Your ${event.name} gallery expires on ${expires}`
+    : `Your ${event.name} gallery has expired`;
+  const message = kind === 'warning'
+    ? `Guests can view and download photos until <strong style="color:#fff">${expires}</strong>.`
+    : `Guests can no longer open the gallery. On <strong style="color:#fff">${graceEnds}</strong> the photos will be ` +
+      (archive ? 'moved into a single archive you can download, and the gallery closed for good.' : 'permanently deleted.');
+
+  return {
+    from: resendFromAddress('SnapBooth'),
+    subject,
+    html: `<!DOCTYPE html><html><body style="background:#0a0a0f;font-family:Arial,sans-serif;padding:32px">
+      <div style="max-width:600px;margin:0 auto;text-align:center">
+        <h1 style="color:#fff;font-size:24px">${event.name}</h1>
+        <p style="color:rgba(255,255,255,0.6);line-height:1.6">${message}</p>
+        <p style="color:rgba(255,255,255,0.6);line-height:1.6">Extend the gallery or upgrade your plan to keep it online.</p>
+        <a href="${adminUrl}" style="display:inline-block;background:#7c3aed;color:#fff;text-decoration:none;font-weight:bold;padding:14px 28px;border-radius:12px;margin:16px 0">Extend gallery</a>
+        <p style="color:rgba(255,255,255,0.3);font-size:12px">Sent by SnapBooth AI because you own this event</p>
+      </div>
+    </body></html>`,
+  };
+}
+
+/**
+ * Email the owner a 'warning' (before expiry) or 'grace' (after) notice once.
+ * Left unmarked when email isn't configured, so it goes out once it is.
+ */
+async function notifyOwner(event, kind) {
+  if (!resendConfigured()) return false;
+  const to = await ownerEmail(event);
+  if (!to) return false;
+
+  // The grace email starts the grace period, so it quotes the purge date as of sending
+  const column = kind === 'warning' ? 'retention_warned_at' : 'retention_grace_notified_at';
+  const sentAt = new Date().toISOString();
+  const status = retentionStatus({ ...event, [column]: sentAt });
+
+  const detail = await sendViaResend({ ...noticeEmail(event, kind, status), to: [to] });
+  if (detail) throw new Error(`Retention email failed: ${detail}`);
+
+  const { error } = await supabase.from('events').update({ [column]: sentAt }).eq('id', event.id);
+  if (error) throw error;
+  return true;
+}
+
+// ─── Purge ────────────────────────────────────────────────────────────────────
+
+async function eventPhotos(eventId) {
+  const photos = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('photos')
+      .select('id, url, thumb_url, mode, storage_key')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    photos.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return photos;
+  }
+}
+
+function fileExtension(contentType, mode) {
+  if (contentType.includes('mp4')) return 'mp4';
+  if (contentType.includes('webm')) return 'webm';
+  if (contentType.includes('gif') || mode === 'gif' || mode === 'boomerang') return 'gif';
+  return 'jpg';
+}
+
+/**
+ * Zip every photo into one storage object. Photos are added one at a time — the next
+ * is only downloaded once archiver has finished compressing the last into the file — and the
+ * finished file is streamed up, so memory use doesn't grow with the size of the event.
+ * Returns the archive's storage key.
+ */
+async function archiveEventPhotos(event, photos) {
+  const archiver = require('archiver');
+  const tmpFile = path.join(os.tmpdir(), `snapbooth-archive-${event.id}.zip`);
+
+  try {
+    const output = fs.createWriteStream(tmpFile);
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    const written = new Promise((resolve, reject) => {
+      output.on('close', resolve);
+      output.on('error', reject);
+      archive.on('error', reject);
+    });
+    archive.pipe(output);
+
+    for (const photo of photos) {
+      let data;
+      let ext;
+      try {
+        const res = await fetch(photo.url);
+        if (!res.ok) continue;
+        ext = fileExtension(res.headers.get('content-type') || '', photo.mode);
+        data = Buffer.from(await res.arrayBuffer());
+      } catch { /* skip failed photo */ continue; }
+
+      const added = new Promise(resolve => archive.once('entry', resolve));
+      archive.append(data, { name: `${photo.mode}_${photo.id.slice(0, 8)}.${ext}` });
+      // Rejects with the archive's error rather than waiting forever
+      await Promise.race([added, written]);
+    }
+    await archive.finalize();
+    await written;
+
+    // Random key — the bucket may be public, so the archive must not be guessable
+    const key = `archives/${event.id}/${crypto.randomUUID()}.zip`;
+    await uploadFileToStorage(tmpFile, key, 'application/zip');
+    return key;
+  } finally {
+    fs.promises.unlink(tmpFile).catch(() => {});
+  }
+}
+
+/**
+ * Remove an expired event's media from storage — archived first unless the event
+ * chose 'delete'. Nothing is deleted if the archive can't be written.
+ */
+async function purgeEvent(event) {
+  const action = RETENTION_ACTIONS.includes(event.settings?.retentionAction) ? event.settings.retentionAction : 'archive';
+  const photos = await eventPhotos(event.id);
+
+  const archiveKey = action === 'archive' && photos.length ? await archiveEventPhotos(event, photos) : null;
+
+  for (const photo of photos) {
+    const keys = new Set([photo.storage_key, storageKeyFromUrl(photo.url), storageKeyFromUrl(photo.thumb_url)].filter(Boolean));
+    for (const key of keys) {
+      try { await deleteFromStorage(key); } catch (e) { console.warn(`[retention] could not delete ${key}:`, e.message); }
+    }
+  }
+
+  const { error: deleteError } = await supabase.from('photos').delete().eq('event_id', event.id);
+  if (deleteError) throw deleteError;
+
+  const { error } = await supabase.from('events').update({
+    retention_state: archiveKey ? 'archived' : 'deleted',
+    retention_purged_at: new Date().toISOString(),
+    archive_key: archiveKey,
+  }).eq('id', event.id);
+  if (error) throw error;
+
+  console.log(`[retention] ${archiveKey ? 'archived' : 'deleted'} ${photos.length} photos from event ${event.id}`);
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+async function findEventForRetention(eventId) {
+  const { data: event, error } = await supabase.from('events').select(EVENT_FIELDS).eq('id', eventId).maybeSingle();
+  if (error) throw error;
+  return event;
+}
+
+/**
+ * Retention details for the admin Overview: lifecycle status, the owner's plan,
+ * extension prices and a download link once archived
+ */
+async function getRetention(eventId) {
+  let event = await findEventForRetention(eventId);
+  if (!event) return null;
+
+  let plan = null;
+  let galleryDays = null;
+  if (event.owner_id) {
+    const owner = await getUserPlanFeatures(event.owner_id);
+    plan = owner.plan;
+    galleryDays = owner.features.galleryDays;
+    event = await syncExpiry(event, owner.features);
+  }
+
+  return {
+    ...retentionStatus(event),
+    plan,
+    galleryDays,
+    extraDays: event.gallery_extra_days || 0,
+    graceDays: GRACE_DAYS,
+    action: RETENTION_ACTIONS.includes(event.settings?.retentionAction) ? event.settings.retentionAction : 'archive',
+    extensions: Object.entries(GALLERY_EXTENSIONS).map(([days, cents]) => ({ days: Number(days), price: cents / 100 })),
+    archiveUrl: event.archive_key ? await getSignedDownloadUrl(event.archive_key, 24 * 60 * 60) : null,
+  };
+}
+
+/**
+ * Add paid days to a gallery. Works until the media has been purged. Each Stripe
+ * checkout session is applied once, however often its webhook is delivered.
+ */
+async function extendGallery(eventId, days, checkoutSessionId) {
+  const event = await findEventForRetention(eventId);
+  if (!event) throw Object.assign(new Error('Event not found'), { status: 404 });
+  if (event.retention_state) throw Object.assign(new Error('This gallery has already been closed'), { status: 409 });
+
+  const { error: claimError } = await supabase
+    .from('gallery_extensions')
+    .insert({ checkout_session_id: checkoutSessionId, event_id: eventId, days: Number(days) });
+  // A redelivered webhook — the primary key kept the first
+  if (claimError && claimError.code === '23505') {
+    console.log(`[retention] checkout ${checkoutSessionId} already applied to event ${eventId}`);
+    return;
+  }
+  if (claimError) throw claimError;
+
+  const extraDays = (event.gallery_extra_days || 0) + Number(days);
+  const { error } = await supabase.from('events').update({ gallery_extra_days: extraDays }).eq('id', eventId);
+  if (error) {
+    // Release the claim so Stripe's retry can apply it
+    await supabase.from('gallery_extensions').delete().eq('checkout_session_id', checkoutSessionId);
+    throw error;
+  }
+
+  if (event.owner_id) {
+    const { features } = await getUserPlanFeatures(event.owner_id);
+    await syncExpiry({ ...event, gallery_extra_days: extraDays }, features);
+  }
+  console.log(`[retention] event ${eventId} extended by ${days} days`);
+}
+
+/**
+ * One pass over every owned, unpurged event: sync expiry, send due emails, purge
+ * galleries whose owner was told GRACE_DAYS ago
+ */
+async function runRetentionSweep() {
+  const plans = new Map();
+  const featuresFor = async (ownerId) => {
+    if (!plans.has(ownerId)) plans.set(ownerId, (await getUserPlanFeatures(ownerId)).features);
+    return plans.get(ownerId);
+  };
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: events, error } = await supabase
+      .from('events')
+      .select(EVENT_FIELDS)
+      .not('owner_id', 'is', null)
+      .is('retention_state', null)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const row of events || []) {
+      try {
+        const event = await syncExpiry(row, await featuresFor(row.owner_id));
+        const status = retentionStatus(event);
+        if (status.state === 'expiring' && !event.retention_warned_at) {
+          await notifyOwner(event, 'warning');
+        } else if (status.state === 'grace') {
+          if (!event.retention_grace_notified_at) await notifyOwner(event, 'grace');
+          else if (new Date(status.graceEndsAt) <= new Date()) await purgeEvent(event);
+        }
+      } catch (err) {
+        console.warn(`[retention] event ${row.id}:`, err.message);
+      }
+    }
+    if (!events || events.length < PAGE_SIZE) return;
+  }
+}
+
+function startRetentionJobs() {
+  const run = () => runRetentionSweep().catch(err => console.warn('[retention] sweep failed:', err.message));
+  setInterval(run, SWEEP_INTERVAL_MS);
+  run();
+}
+
+module.exports = {
+  GRACE_DAYS,
+  RETENTION_ACTIONS,
+  GALLERY_EXTENSIONS,
+  retentionStatus,
+  galleryClosed,
+  getRetention,
+  extendGallery,
+  runRetentionSweep,
+  startRetentionJobs,
+};
@@ -0,0 +1,200 @@
+/**
+ * backend/src/services/screening.js
+ *
+ * Automatic content screening for captures and AI results, run before a photo is
+ * stored so nothing unscreened ever reaches the gallery or social wall.
+ *
+ * A classifier scores an image from 0 to 1 in each category:
+ *   nudity   — exposed skin
+ *   gesture  — rude hand gestures
+ *   text     — writing held up to the camera (signs, phone screens, whiteboards)
+ *
+ * Classifiers are pluggable — pick one with SCREENING_PROVIDER:
+ *
+ *   local (default) — deterministic stand-in built on sharp pixel statistics. It is
+ *                     crude, but the same image always gets the same scores, so the
+ *                     whole pipeline can be exercised offline: a frame filled with
+ *                     skin tones scores high on nudity, black text on white high on text.
+ *   http            — POST the JPEG to SCREENING_URL (Bearer SCREENING_API_KEY) and
+ *                     expect { nudity, gesture, text } back
+ *   off             — never screen, even where an event enables it
+ *
+ * Other providers register with registerClassifier(name, { classify(buffer) }).
+ *
+ * Per event (settings.screeningEnabled), a score at or over the event's threshold
+ * auto-hides the photo with hidden_by 'auto:<categories>'. If the classifier fails,
+ * the photo is held in the approval queue instead of being published unscreened.
+ */
+
+const sharp = require('sharp');
+
+const CATEGORIES = ['nudity', 'gesture', 'text'];
+
+const DEFAULT_THRESHOLDS = { nudity: 0.8, gesture: 0.85, text: 0.9 };
+
+const HTTP_TIMEOUT_MS = 8000;
+
+// ─── Local stand-in ───────────────────────────────────────────────────────────
+
+const SAMPLE_SIZE = 64;
+
+// Classic RGB skin-tone rule — cheap and deterministic
+function isSkin(r, g, b) {
+  return r > 95 && g > 40 && b > 20 &&
+    Math.max(r, g, b) - Math.min(r, g, b) > 15 &&
+    Math.abs(r - g) > 15 && r > g && r > b;
+}
+
+function clamp01(n) {
+  return Math.max(0, Math.min(1, n));
+}
+
+const localClassifier = {
+  async classify(buffer) {
+    const { data } = await sharp(buffer)
+      .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    let skin = 0;
+    let topSkin = 0;
+    let hardEdges = 0;
+    const topRows = Math.floor(SAMPLE_SIZE / 3);
+
+    for (let y = 0; y < SAMPLE_SIZE; y++) {
+      for (let x = 0; x < SAMPLE_SIZE; x++) {
+        const i = (y * SAMPLE_SIZE + x) * 3;
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        if (isSkin(r, g, b)) {
+          skin++;
+          if (y < topRows) topSkin++;
+        }
+        // Lettering shows up as many sharp light/dark steps between neighbours
+        if (x < SAMPLE_SIZE - 1) {
+          const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+          const nextLuma = 0.299 * data[i + 3] + 0.587 * data[i + 4] + 0.114 * data[i + 5];
+          if (Math.abs(luma - nextLuma) > 96) hardEdges++;
+        }
+      }
+    }
+
+    const pixels = SAMPLE_SIZE * SAMPLE_SIZE;
+    const skinRatio = skin / pixels;
+    const topSkinRatio = topSkin / (topRows * SAMPLE_SIZE);
+    const edgeRatio = hardEdges / ((SAMPLE_SIZE - 1) * SAMPLE_SIZE);
+
+    return {
+      nudity: clamp01((skinRatio - 0.2) / 0.5),
+      // A hand pushed up at the lens fills the top of the frame with skin
+      gesture: clamp01((topSkinRatio - skinRatio - 0.15) / 0.4),
+      text: clamp01((edgeRatio - 0.04) / 0.16),
+    };
+  },
+};
+
+// ─── HTTP provider ────────────────────────────────────────────────────────────
+
+const httpClassifier = {
+  async classify(buffer) {
+    const url = process.env.SCREENING_URL;
+    if (!url) throw new Error('SCREENING_URL is not set');
+
+    const jpeg = await sharp(buffer).resize(1024, 1024, { fit: 'inside' }).jpeg({ quality: 85 }).toBuffer();
+    const headers = { 'Content-Type': 'image/jpeg' };
+    if (process.env.SCREENING_API_KEY) headers.Authorization = `Bearer ${process.env.SCREENING_API_KEY}`;
+
+    const res = await fetch(url, { method: 'POST', headers, body: jpeg, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+    if (!res.ok) throw new Error(`Screening service returned ${res.status}`);
+    const body = await res.json();
+
+    const scores = {};
+    for (const category of CATEGORIES) {
+      const score = Number(body[category]);
+      if (!Number.isFinite(score)) throw new Error(`Screening service returned no ${category} score`);
+      scores[category] = clamp01(score);
+    }
+    return scores;
+  },
+};
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+const classifiers = {
+  local: localClassifier,
+  http: httpClassifier,
+};
+
+/**
+ * Add a classifier that SCREENING_PROVIDER can select. It must resolve to a
+ * score from 0 to 1 for every category.
+ */
+function registerClassifier(name, classifier) {
+  classifiers[name] = classifier;
+}
+
+function providerName() {
+  return process.env.SCREENING_PROVIDER || 'local';
+}
+
+// ─── Screening ────────────────────────────────────────────────────────────────
+
+function screeningEnabled(event) {
+  return event?.settings?.screeningEnabled === true && providerName() !== 'off';
+}
+
+/**
+ * The event's auto-hide threshold per category, falling back to the defaults
+ */
+function screeningThresholds(settings = {}) {
+  const thresholds = {};
+  for (const category of CATEGORIES) {
+    const key = `screening${category[0].toUpperCase()}${category.slice(1)}Threshold`;
+    const value = Number(settings?.[key]);
+    thresholds[category] = value > 0 && value <= 1 ? value : DEFAULT_THRESHOLDS[category];
+  }
+  return thresholds;
+}
+
+/**
+ * Screen an image for an event. Returns photo columns to merge into the insert:
+ * the screening record, plus is_hidden when a category crosses its threshold or
+ * moderation_status 'pending' when the image could not be screened. Returns an
+ * empty object when the event doesn't screen.
+ *
+ * Pass null for captures with no still to look at (an animation encoded on the
+ * booth without a poster) — they are held for review.
+ */
+async function screenImage(event, buffer) {
+  if (!screeningEnabled(event)) return {};
+
+  const provider = providerName();
+  const at = new Date().toISOString();
+  try {
+    if (!buffer) throw new Error('No still image to screen');
+    const classifier = classifiers[provider];
+    if (!classifier) throw new Error(`Unknown screening provider "${provider}"`);
+
+    const scores = await classifier.classify(buffer);
+    const thresholds = screeningThresholds(event.settings);
+    const flagged = CATEGORIES.filter(c => scores[c] >= thresholds[c]);
+    const columns = { screening: { provider, scores, flagged, at } };
+    if (flagged.length) {
+      columns.is_hidden = true;
+      columns.hidden_at = at;
+      columns.hidden_by = `auto:${flagged.join(',')}`;
+    }
+    return columns;
+  } catch (err) {
+    console.warn('[screening] holding photo for review:', err.message);
+    return { screening: { provider, error: err.message, at }, moderation_status: 'pending' };
+  }
+}
+
+module.exports = {
+  CATEGORIES,
+  DEFAULT_THRESHOLDS,
+  registerClassifier,
+  screeningThresholds,
+  screenImage,
+};
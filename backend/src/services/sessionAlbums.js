@@ -0,0 +1,86 @@
+/**
+ * sessionAlbums.js — one album per guest visit
+ *
+ * Every capture a guest makes between the idle screen and "Done" carries the
+ * booth's sessionId. An album gives that session its own short code, so the guest
+ * gets one QR / email / SMS for everything instead of one per photo. Items are
+ * looked up live, so captures still uploading from the offline queue appear once
+ * they land.
+ */
+
+const supabase = require('./database');
+const { generateUniqueShortCode, buildAlbumUrl } = require('./sharing');
+const { publicOnly } = require('./moderation');
+
+const ALBUM_ITEM_FIELDS = 'id, url, thumb_url, gallery_url, mode, created_at, short_code';
+
+/**
+ * The album for a booth session, created on first request. Safe to call repeatedly.
+ */
+async function ensureAlbum(eventId, sessionId) {
+  const { data: existing, error: findError } = await supabase
+    .from('session_albums')
+    .select('*')
+    .eq('event_id', eventId)
+    .eq('session_id', sessionId)
+    .maybeSingle();
+  if (findError) throw findError;
+  if (existing) return existing;
+
+  const shortCode = await generateUniqueShortCode(supabase);
+  const { data: album, error } = await supabase
+    .from('session_albums')
+    .insert({ event_id: eventId, session_id: sessionId, short_code: shortCode })
+    .select('*')
+    .single();
+
+  // Two requests for the same session raced — the unique index kept the first
+  if (error && error.code === '23505') {
+    const { data: winner } = await supabase
+      .from('session_albums')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('session_id', sessionId)
+      .single();
+    return winner;
+  }
+  if (error) throw error;
+  return album;
+}
+
+/**
+ * Published captures in a session, oldest first. Edited photos show their latest version.
+ */
+async function listAlbumItems(eventId, sessionId) {
+  const { data: items, error } = await publicOnly(supabase
+    .from('photos')
+    .select(ALBUM_ITEM_FIELDS)
+    .eq('event_id', eventId)
+    .eq('session_id', sessionId))
+    .is('superseded_by', null)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return items || [];
+}
+
+/**
+ * Resolve a short code to its album, event and items, or null if no album has it
+ */
+async function getAlbumByCode(shortCode) {
+  const { data: album, error } = await supabase
+    .from('session_albums')
+    .select('*, events(id, name, slug, branding, settings)')
+    .eq('short_code', shortCode)
+    .maybeSingle();
+  if (error) throw error;
+  if (!album) return null;
+
+  const items = await listAlbumItems(album.event_id, album.session_id);
+  return { album, event: album.events, items, url: buildAlbumUrl(album.short_code) };
+}
+
+module.exports = {
+  ensureAlbum,
+  listAlbumItems,
+  getAlbumByCode,
+};
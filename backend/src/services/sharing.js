@@ -28,6 +28,30 @@ function buildGalleryUrl(eventSlug, photoId, shortCode = null) {
   return `${frontendUrl()}/p/${shortCode}`;
 }
 
+/**
+ * URL of a guest's session album. Albums share the /p/[code] namespace with photos.
+ */
+function buildAlbumUrl(shortCode) {
+  return `${frontendUrl()}/p/${shortCode}`;
+}
+
+/**
+ * Magic link into a password-protected gallery. The token is picked up by the
+ * gallery page and removed from the address bar.
+ */
+function buildGalleryAccessUrl(eventSlug, token) {
+  return `${frontendUrl()}/gallery/${eventSlug}?access=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Social wall link for a venue screen. The wall keeps the token in its address,
+ * so the screen can reload on its own.
+ */
+function buildWallUrl(eventSlug, token) {
+  const base = `${frontendUrl()}/wall/${eventSlug}`;
+  return token ? `${base}?access=${encodeURIComponent(token)}` : base;
+}
+
 /**
  * Generate a 6-character alphanumeric short code.
  * Collision-safe: caller should check uniqueness in DB before using.
@@ -41,19 +65,27 @@ function generateShortCode(length = 6) {
   return code;
 }
 
+/**
+ * True when `code` looks like something generateShortCode() could have produced.
+ * Used to validate codes pre-assigned by the booth for offline-queued captures.
+ */
+function isValidShortCode(code) {
+  return typeof code === 'string' && /^[a-km-np-z2-9]{6,8}$/.test(code);
+}
+
 /**
  * Generate a unique short code — retries up to 5 times if collision.
+ * Checks session albums too, since they resolve through the same /p/[code] page.
  * @param {import('@supabase/supabase-js').SupabaseClient} supabase
  */
 async function generateUniqueShortCode(supabase, length = 6) {
   for (let attempt = 0; attempt < 5; attempt++) {
     const code = generateShortCode(length);
-    const { data } = await supabase
-      .from('photos')
-      .select('id')
-      .eq('short_code', code)
-      .maybeSingle();
-    if (!data) return code; // no collision
+    const [{ data: photo }, { data: album }] = await Promise.all([
+      supabase.from('photos').select('id').eq('short_code', code).maybeSingle(),
+      supabase.from('session_albums').select('id').eq('short_code', code).maybeSingle(),
+    ]);
+    if (!photo && !album) return code; // no collision
   }
   // Fallback: use 8 chars if 6-char space exhausted
   return generateShortCode(8);
@@ -217,8 +249,12 @@ module.exports = {
   generateQRDataURL,
   generateBrandedQR,
   buildGalleryUrl,
+  buildAlbumUrl,
+  buildGalleryAccessUrl,
+  buildWallUrl,
   buildWhatsAppUrl,
   generateShortCode,
   generateUniqueShortCode,
+  isValidShortCode,
   generateStoriesImage,
 };
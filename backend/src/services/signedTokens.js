@@ -0,0 +1,60 @@
+/**
+ * backend/src/services/signedTokens.js
+ *
+ * Short-lived capabilities the server hands to one client, e.g. the booth that
+ * just took a photo being allowed to save edits of it for a few minutes.
+ *
+ * Same format as gallery access tokens (services/galleryAccess.js):
+ *   base64url(JSON payload) + '.' + base64url(HMAC-SHA256 signature)
+ *   { t: purpose, exp, ...claims }
+ *
+ * `t` names what the token is for, so one kind can never be replayed as another.
+ */
+
+const crypto = require('crypto');
+
+function secret() {
+  const key = process.env.GALLERY_TOKEN_SECRET || process.env.SUPABASE_SERVICE_KEY;
+  if (!key) throw new Error('GALLERY_TOKEN_SECRET is not set');
+  return key;
+}
+
+function sign(body) {
+  return crypto.createHmac('sha256', secret()).update(body).digest('base64url');
+}
+
+function safeEqual(a, b) {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Token for `purpose` carrying `claims`, valid until `expiresAt` (ms since epoch)
+ */
+function issueSignedToken(purpose, claims, expiresAt) {
+  const body = Buffer.from(JSON.stringify({ ...claims, t: purpose, exp: expiresAt })).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * The token's payload when it was signed here for `purpose` and hasn't expired —
+ * otherwise null
+ */
+function verifySignedToken(purpose, token) {
+  if (typeof token !== 'string') return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature || !safeEqual(signature, sign(body))) return null;
+
+  let payload;
+  try {
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (payload.t !== purpose) return null;
+  if (!(payload.exp > Date.now())) return null;
+  return payload;
+}
+
+module.exports = { issueSignedToken, verifySignedToken };
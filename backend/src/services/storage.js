@@ -9,6 +9,7 @@
  * and automatically switch to R2 once those env vars are configured.
  */
 
+const fs = require('fs');
 const { S3Client, PutObjectCommand, DeleteObjectCommand } = require('@aws-sdk/client-s3');
 const { getSignedUrl } = require('@aws-sdk/s3-request-presigner');
 const { GetObjectCommand } = require('@aws-sdk/client-s3');
@@ -147,6 +148,54 @@ async function uploadToStorage(buffer, key, contentType = 'image/jpeg') {
   return uploadToSupabase(buffer, key, contentType);
 }
 
+/**
+ * Upload a file from disk without reading it into memory (event archives can
+ * run to gigabytes). The bucket must already exist.
+ */
+async function uploadFileToStorage(filePath, key, contentType = 'application/octet-stream') {
+  const { size } = await fs.promises.stat(filePath);
+
+  if (R2_CONFIGURED) {
+    await s3.send(new PutObjectCommand({
+      Bucket: BUCKET,
+      Key: key,
+      Body: fs.createReadStream(filePath),
+      ContentLength: size,
+      ContentType: contentType,
+    }));
+    return `${PUBLIC_URL}/${key}`;
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_KEY) throw new Error('No storage configured');
+  const res = await fetch(`${SUPABASE_URL}/storage/v1/object/${SUPABASE_BUCKET}/${key}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${SUPABASE_KEY}`,
+      'Content-Type': contentType,
+      'Content-Length': String(size),
+      'x-upsert': 'true',
+    },
+    body: fs.createReadStream(filePath),
+    duplex: 'half',
+  });
+  if (!res.ok) throw new Error(`Supabase upload failed (${res.status}): ${(await res.text()).slice(0, 200)}`);
+  return `${SUPABASE_URL}/storage/v1/object/public/${SUPABASE_BUCKET}/${key}`;
+}
+
+/**
+ * Storage key behind a public URL this module returned, or null for URLs
+ * hosted elsewhere
+ */
+function storageKeyFromUrl(url) {
+  if (!url) return null;
+  const prefixes = [
+    PUBLIC_URL && `${PUBLIC_URL}/`,
+    SUPABASE_URL && `${SUPABASE_URL}/storage/v1/object/public/${SUPABASE_BUCKET}/`,
+  ].filter(Boolean);
+  const prefix = prefixes.find(p => url.startsWith(p));
+  return prefix ? decodeURIComponent(url.slice(prefix.length).split('?')[0]) : null;
+}
+
 async function getSignedDownloadUrl(key, expiresIn = 3600) {
   if (R2_CONFIGURED) {
     const command = new GetObjectCommand({ Bucket: BUCKET, Key: key });
@@ -171,4 +220,10 @@ async function deleteFromStorage(key) {
   } catch { /* ignore delete errors */ }
 }
 
-module.exports = { uploadToStorage, getSignedDownloadUrl, deleteFromStorage };
+module.exports = {
+  uploadToStorage,
+  uploadFileToStorage,
+  storageKeyFromUrl,
+  getSignedDownloadUrl,
+  deleteFromStorage,
+};
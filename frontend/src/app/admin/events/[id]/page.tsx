@@ -7,30 +7,47 @@ import { motion, AnimatePresence } from 'framer-motion';
 import {
   LayoutDashboard, Palette, Camera, Share2, Printer, Image as ImageIcon,
   ShieldCheck, BarChart3, UploadCloud, X,
-  ChevronLeft, Copy, ExternalLink, Save, RefreshCw, Trash2, EyeOff, Eye,
+  ChevronLeft, Copy, ExternalLink, Link2, Save, RefreshCw, Trash2, EyeOff, Eye,
   Download, Smartphone, AlertCircle, Clapperboard, Sparkles, Film, RotateCcw,
   Mail, MessageSquare, Wifi, Globe, Clock, Lock, Users, Activity,
-  CheckCircle, XCircle, Zap, FileText, Hash, Plus, QrCode
+  CheckCircle, XCircle, Zap, FileText, Hash, Plus, QrCode, Pipette, Layers, Video, Wand2, Tv, ScanFace, Heart
 } from 'lucide-react';
 import QRCode from 'qrcode.react';
 import {
   getEvent, updateEvent, getEventPhotos, getEventStats, deletePhoto,
   downloadPhotosZip, pingBackend, hidePhoto, unhidePhoto, getEventLeads,
   exportLeadsCSV, getEventPhotosWithHidden, testWebhook, exportAnalyticsCSV,
-  getEventAnalytics
+  getEventAnalytics, approveForWall, getFavouriteCounts, createWallDisplayLink, DEFAULT_FACE_SEARCH_CONSENT, type ScreeningRecord
 } from '@/lib/api';
 import toast from 'react-hot-toast';
 import { LiveDashboard } from '@/components/admin/LiveDashboard';
 import { AnalyticsDashboard } from '@/components/admin/AnalyticsDashboard';
 import { FramesManager } from '@/components/admin/FramesManager';
+import { PrintQueuePanel } from '@/components/admin/PrintQueuePanel';
+import { ModerationQueue, ScreeningBadge, useModerationCounts } from '@/components/admin/ModerationQueue';
+import { FaceSearchPanel } from '@/components/admin/FaceSearchPanel';
+import { GalleryAccessPanel } from '@/components/admin/GalleryAccessPanel';
+import { GalleryRetentionPanel } from '@/components/admin/GalleryRetentionPanel';
 import { OrientationSettings } from '@/components/admin/OrientationSettings';
+import { ChromaKeyCalibrator } from '@/components/admin/ChromaKeyCalibrator';
+import { TemplateDesigner } from '@/components/admin/TemplateDesigner';
+import { TemplateRenderer } from '@/components/booth/TemplateRenderer';
+import { resolveTemplate, templateVars } from '@/services/templateEngine';
+import { PHOTO_EFFECTS } from '@/services/photoEffects';
+import { CAPTURE_SOURCE_LABELS, DEFAULT_BRIDGE_URL, type CaptureSourceConfig, type CaptureSourceKind } from '@/services/captureSource';
+import { DEFAULT_PRINT_AGENT_URL, PrintAgentClient } from '@/services/printAgent';
+import { PAPER_SIZES, resolvePaperSize } from '@/services/printRenderer';
+import { printService, printTarget } from '@/services/printService';
+import type { Event as BoothEvent } from '@/lib/store';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
-type Tab = 'overview' | 'branding' | 'capture' | 'orientation' | 'aistyles' | 'sharing' | 'print' | 'frames' | 'photos' | 'moderation' | 'leads' | 'analytics' | 'diagnostics';
+type Tab = 'overview' | 'branding' | 'capture' | 'orientation' | 'greenscreen' | 'aistyles' | 'sharing' | 'print' | 'frames' | 'photos' | 'moderation' | 'leads' | 'analytics' | 'diagnostics';
 
 interface EventData {
   id: string; name: string; slug: string; date: string; venue: string; status: string;
+  gallery_protected?: boolean;
+  operator_pin_length?: number;
   branding: Record<string, unknown>;
   settings: Record<string, unknown>;
 }
@@ -40,7 +57,9 @@ interface Stats {
 }
 interface Photo {
   id: string; url: string; thumb_url?: string; mode: string; created_at: string;
-  is_hidden?: boolean; hidden_by?: string;
+  is_hidden?: boolean; hidden_by?: string; wall_approved_at?: string | null;
+  moderation_status?: 'pending' | 'approved' | 'rejected' | null;
+  screening?: ScreeningRecord | null;
 }
 interface Lead {
   id: string; email?: string; name?: string; phone?: string;
@@ -233,7 +252,7 @@ function TestEmailButton({ eventId }: { eventId: string }) {
 }
 
 // ── Diagnostics Panel ─────────────────────────────────────────────────────────
-function DiagnosticsPanel({ eventId }: { eventId: string }) {
+function DiagnosticsPanel({ eventId, settings }: { eventId: string; settings: Record<string, unknown> }) {
   const [backendOk, setBackendOk] = useState<boolean | null>(null);
   const [aiStatus, setAiStatus]   = useState<Record<string, unknown> | null>(null);
   const [checking, setChecking]   = useState(false);
@@ -283,13 +302,12 @@ setBackendOk(result.ok);
       </Card>
 
       <Card title="Test Print" subtitle="Send a test page to verify printer connection" icon={Printer}>
-        <p className="text-zinc-500 text-sm mb-4">Opens a print dialog to confirm your printer is detected and paper size is correct.</p>
-        <button onClick={() => {
-          const w = window.open('', '_blank', 'width=400,height=500');
-          if (w) {
-            w.document.write(`<!DOCTYPE html><html><head><title>SnapBooth Print Test</title><style>*{margin:0;padding:0;box-sizing:border-box}html,body{width:4in;height:6in;overflow:hidden}@page{size:4in 6in portrait;margin:0}.p{position:absolute;top:0;left:0;width:4in;height:6in;display:flex;flex-direction:column;align-items:center;justify-content:center;background:#fff;font-family:Arial,sans-serif;gap:8px}.box{border:3px dashed #7c3aed;border-radius:12px;padding:24px;text-align:center}h1{color:#7c3aed;font-size:22px;margin-bottom:8px}p{color:#555;font-size:12px}</style></head><body><div class="p"><div class="box"><h1>SnapBooth AI</h1><p>Test print successful</p><p style="font-size:10px;color:#999;margin-top:12px">${new Date().toLocaleString()}</p></div></div><script>setTimeout(function(){window.print();window.close()},600)</script></body></html>`);
-            w.document.close();
-          }
+        <p className="text-zinc-500 text-sm mb-4">Prints a calibration page on the event&apos;s paper size showing the trim edge and safe area, through the event&apos;s print method.</p>
+        <button onClick={async () => {
+          try {
+            await printService.printTestPage(printTarget(settings as BoothEvent['settings']));
+            toast.success('Test page sent');
+          } catch (err: unknown) { toast.error(err instanceof Error ? err.message : 'Test print failed'); }
         }} className="flex items-center gap-2 px-5 py-2.5 rounded-xl bg-violet-600/20 border border-violet-500/30 text-violet-300 font-semibold text-sm hover:bg-violet-600/30 transition-colors">
           <Printer className="w-4 h-4" /> Send Test Page
         </button>
@@ -313,6 +331,7 @@ export default function EventManagePage() {
 
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const eventId = params.id as string;
 
   const [event, setEvent] = useState<EventData | null>(null);
@@ -323,12 +342,22 @@ export default function EventManagePage() {
   const [isDirty, setIsDirty] = useState(false);
   const [tab, setTab] = useState<Tab>('overview');
 
+  // Back from a Stripe "extend gallery" checkout
+  const extendedDays = searchParams.get('gallery_extended');
+  useEffect(() => {
+    if (extendedDays) toast.success(`Payment received — gallery extended by ${extendedDays} days`);
+  }, [extendedDays]);
+
   const [zipLoading, setZipLoading] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [favouriteCounts, setFavouriteCounts] = useState<Record<string, number>>({});
+  const [sortByFavourites, setSortByFavourites] = useState(false);
   const [leads, setLeads] = useState<Lead[]>([]);
   const [leadsLoading, setLeadsLoading] = useState(false);
   const [moderatingId, setModeratingId] = useState<string | null>(null);
+  const moderation = useModerationCounts(eventId);
   const [webhookTesting, setWebhookTesting] = useState(false);
+  const [wallLink, setWallLink] = useState<string | null>(null);
   const [webhookResult, setWebhookResult] = useState<'ok' | 'fail' | null>(null);
   const [frames, setFrames] = useState<Frame[]>([]);
   const [framesLoading, setFramesLoading] = useState(false);
@@ -363,6 +392,7 @@ export default function EventManagePage() {
     if (tab === 'leads' && event && leads.length === 0 && !leadsLoading) handleLoadLeads();
     if (tab === 'aistyles' && event && eventStyles.length === 0 && !stylesLoading) handleLoadStyles();
     if (tab === 'frames' && event && frames.length === 0 && !framesLoading) handleLoadFrames();
+    if (tab === 'photos' && event) getFavouriteCounts(event.id).then(setFavouriteCounts).catch(() => {});
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [tab, event?.id]);
 
@@ -388,7 +418,9 @@ export default function EventManagePage() {
     if (!event) return;
     setSaving(true);
     try {
-      await updateEvent(event.id, { name: event.name, venue: event.venue, date: event.date, branding: event.branding, settings: event.settings });
+      const saved = await updateEvent(event.id, { name: event.name, venue: event.venue, date: event.date, branding: event.branding, settings: event.settings });
+      // The saved settings come back without the PIN, which clears the PIN field
+      setEvent(prev => (prev ? { ...prev, settings: saved.settings, operator_pin_length: saved.operator_pin_length } : prev));
       setIsDirty(false);
       toast.success('Changes saved');
     } catch { toast.error('Save failed'); }
@@ -407,6 +439,18 @@ export default function EventManagePage() {
     setIsDirty(true);
   }
 
+  async function checkPrintAgent() {
+    const url = (event?.settings?.printAgentUrl as string) || DEFAULT_PRINT_AGENT_URL;
+    try {
+      const printer = await new PrintAgentClient(url).status();
+      const media = printer.media ? ` · ${printer.media.remaining} prints left` : '';
+      if (printer.error) toast.error(`${printer.name}: ${printer.error.message}`);
+      else toast.success(`${printer.name || 'Printer'} ready${media}`);
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Print agent not reachable');
+    }
+  }
+
   async function handleDeletePhoto(photoId: string) {
     if (!confirm('Permanently delete this photo?')) return;
     setDeletingId(photoId);
@@ -424,6 +468,27 @@ export default function EventManagePage() {
     finally { setModeratingId(null); }
   }
 
+  async function handleWallApproval(photo: Photo, approved: boolean) {
+    setModeratingId(photo.id);
+    try {
+      const res = await approveForWall(photo.id, approved);
+      setPhotos(prev => prev.map(p => p.id === photo.id ? { ...p, wall_approved_at: res.wall_approved_at } : p));
+      toast.success(approved ? 'Approved for the wall' : 'Removed from the wall');
+    } catch { toast.error('Action failed'); }
+    finally { setModeratingId(null); }
+  }
+
+  async function handleReloadPhotos() {
+    try { const ph = await getEventPhotosWithHidden(eventId); setPhotos(ph.photos || []); }
+    catch { toast.error('Could not load photos'); }
+  }
+
+  // New captures and moderation elsewhere (auto-hides included) show up without a reload
+  useEffect(() => {
+    if (moderation.version === 0) return;
+    getEventPhotosWithHidden(eventId).then(ph => setPhotos(ph.photos || [])).catch(() => {});
+  }, [eventId, moderation.version]);
+
   // ── AI Styles handlers ─────────────────────────────────────────────────────
   async function handleLoadStyles() {
     if (!event || stylesLoading) return;
@@ -550,6 +615,15 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
   }
 
   const boothUrl = event ? `${typeof window !== 'undefined' ? window.location.origin : ''}/booth?event=${event.slug}` : '';
+  // Protected galleries' walls open from a display link instead
+  const wallUrl  = wallLink || (event ? `${typeof window !== 'undefined' ? window.location.origin : ''}/wall/${event.slug}` : '');
+  const needsWallLink = !!event?.gallery_protected && !wallLink;
+
+  async function handleCreateWallLink() {
+    if (!event) return;
+    try { const { url } = await createWallDisplayLink(event.id); setWallLink(url); }
+    catch { toast.error('Could not create the display link'); }
+  }
   const primaryColor = (event?.branding?.primaryColor as string) || '#7c3aed';
 
   if (loading) return (
@@ -562,20 +636,31 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
   );
   if (!event) return null;
 
-  const visiblePhotos = photos.filter(p => !p.is_hidden);
-  const hiddenPhotos  = photos.filter(p => p.is_hidden);
+  // Pending and rejected photos live in the approval queue, not in these lists
+  const reviewed      = photos.filter(p => !p.moderation_status || p.moderation_status === 'approved');
+  const visiblePhotos = reviewed.filter(p => !p.is_hidden);
+  const hiddenPhotos  = reviewed.filter(p => p.is_hidden);
+  const wallPending   = visiblePhotos.filter(p => !p.wall_approved_at);
+  const wallApproved  = visiblePhotos.filter(p => p.wall_approved_at);
+  const favouriteTotal = visiblePhotos.reduce((n, p) => n + (favouriteCounts[p.id] || 0), 0);
+  const galleryPhotos  = sortByFavourites
+    ? [...visiblePhotos].sort((a, b) => (favouriteCounts[b.id] || 0) - (favouriteCounts[a.id] || 0))
+    : visiblePhotos;
+  const captureSource = event?.settings?.captureSource as CaptureSourceConfig | undefined;
+  const printMethod = (event?.settings?.printMethod as string) || 'browser';
+  const offeredEffects = (event?.settings?.enabledEffects as string[] | undefined) ?? PHOTO_EFFECTS.map(e => e.key);
 
   const NAV: { section: string; icon: React.ComponentType<{ className?: string }>; tabs: { key: Tab; label: string; badge?: number }[] }[] = [
     { section: 'Event',   icon: LayoutDashboard, tabs: [{ key: 'overview', label: 'Overview' }] },
     { section: 'Design',  icon: Palette,         tabs: [{ key: 'branding', label: 'Branding' }] },
-    { section: 'Booth',   icon: Camera,          tabs: [{ key: 'capture',  label: 'Capture & Modes' }, { key: 'orientation', label: 'Orientation' }] },
+    { section: 'Booth',   icon: Camera,          tabs: [{ key: 'capture',  label: 'Capture & Modes' }, { key: 'orientation', label: 'Orientation' }, { key: 'greenscreen', label: 'Green Screen' }] },
     { section: 'AI',      icon: Sparkles,        tabs: [{ key: 'aistyles', label: 'AI Styles' }] },
     { section: 'Share',   icon: Share2,          tabs: [{ key: 'sharing',  label: 'Sharing & Email' }] },
     { section: 'Print',   icon: Printer,         tabs: [{ key: 'print',    label: 'Print Setup' }] },
     { section: 'Gallery', icon: ImageIcon,       tabs: [
       { key: 'frames',     label: 'Frames' },
       { key: 'photos',     label: 'Photos',     badge: visiblePhotos.length || undefined },
-      { key: 'moderation', label: 'Moderation', badge: hiddenPhotos.length || undefined },
+      { key: 'moderation', label: 'Moderation', badge: moderation.counts.pending || hiddenPhotos.length || undefined },
       { key: 'leads',      label: 'Leads',      badge: leads.length || undefined },
     ]},
     { section: 'Data',    icon: BarChart3,       tabs: [
@@ -776,6 +861,12 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                         </button>
                       </div>
                     </Card>
+
+                    <Card title="Gallery Lifetime" subtitle="Expiry from your plan, grace period and extensions" icon={Clock}>
+                      <GalleryRetentionPanel eventId={event.id}
+                        action={(event.settings?.retentionAction as 'archive' | 'delete') || 'archive'}
+                        onActionChange={v => updateSettings('retentionAction', v)} />
+                    </Card>
                   </div>
                 )}
 
@@ -855,9 +946,13 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                             { key: 'polaroid', label: 'Polaroid', desc: 'White border', emoji: '📷' },
                             { key: 'strip', label: 'Strip', desc: '4-shot film', emoji: '🎞️' },
                           ].map(t => {
-                            const active = ((event.branding?.template as string) || 'classic') === t.key;
+                            const active = !event.branding?.customTemplate && ((event.branding?.template as string) || 'classic') === t.key;
                             return (
-                              <button key={t.key} onClick={() => updateBranding('template', t.key)}
+                              <button key={t.key} onClick={() => {
+                                // Picking a built-in drops any designed template
+                                setEvent({ ...event, branding: { ...event.branding, template: t.key, customTemplate: null } });
+                                setIsDirty(true);
+                              }}
                                 className={`flex flex-col items-center gap-2 p-3 rounded-xl border-2 transition-all text-center ${
                                   active ? 'border-violet-500 bg-violet-500/10' : 'border-zinc-800 bg-zinc-900/50 hover:border-zinc-600'
                                 }`}>
@@ -869,6 +964,15 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                             );
                           })}
                         </div>
+                        {!!event.branding?.customTemplate && (
+                          <p className="text-violet-300 text-xs mt-3">
+                            Using designed template “{(event.branding.customTemplate as { name?: string }).name}” — pick a built-in above to switch back.
+                          </p>
+                        )}
+                      </Card>
+
+                      <Card title="Template Designer" subtitle="Design a custom layout — the booth, uploads and prints all use it" icon={FileText}>
+                        <TemplateDesigner event={event} onTemplateSelect={(t: unknown) => updateBranding('customTemplate', t)} />
                       </Card>
                     </div>
 
@@ -878,47 +982,16 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                         <div className="space-y-4">
                           <div>
                             <p className="text-zinc-500 text-[10px] uppercase tracking-widest font-medium mb-2">Photo Output</p>
-                            {((event.branding?.template as string) || 'classic') === 'polaroid' ? (
-                              <div className="rounded-lg overflow-hidden bg-white p-3 shadow-xl border border-zinc-300">
-                                <div className="bg-zinc-200 rounded" style={{ aspectRatio: '4/3', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
-                                  <span className="text-zinc-400 text-sm">📷 Photo</span>
-                                </div>
-                                <div className="py-3 text-center">
-                                  <p className="text-zinc-600 text-sm font-mono">{(event.branding?.footerText as string) || event.name}</p>
-                                </div>
-                              </div>
-                            ) : ((event.branding?.template as string) || 'classic') === 'strip' ? (
-                              <div className="flex justify-center">
-                                <div className="rounded-xl overflow-hidden" style={{ background: primaryColor, width: '110px' }}>
-                                  <div className="px-2 py-2 text-center"><p className="text-white text-[8px] font-black uppercase tracking-widest truncate">{event.name}</p></div>
-                                  {[0,1,2,3].map(i => (
-                                    <div key={i} className="mx-1.5 mb-1.5 rounded bg-black/30 flex items-center justify-center" style={{ height: '55px' }}>
-                                      <span className="text-white/20 text-lg">📷</span>
-                                    </div>
-                                  ))}
-                                  <div className="px-2 pb-2 text-center"><p className="text-white/60 text-[8px]">{new Date().toLocaleDateString()}</p></div>
-                                </div>
-                              </div>
-                            ) : (
-                              <div className="rounded-2xl overflow-hidden relative" style={{ aspectRatio: '3/4', background: '#1a1a2e' }}>
-                                {(event.branding?.frameUrl as string) && (
-                                  // eslint-disable-next-line @next/next/no-img-element
-                                  <img src={event.branding.frameUrl as string} alt="Frame" className="absolute inset-0 w-full h-full object-contain pointer-events-none" />
-                                )}
-                                <div className="absolute inset-0 flex items-center justify-center text-zinc-600"><span className="text-5xl">📷</span></div>
-                                {(event.branding?.overlayText as string) && (
-                                  <div className="absolute top-0 left-0 right-0 bg-black/50 px-4 py-2">
-                                    <span className="text-white text-xs font-bold">{event.branding.overlayText as string}</span>
-                                  </div>
-                                )}
-                                {((event.branding?.footerText as string) || (event.branding?.showDate as boolean)) && (
-                                  <div className="absolute bottom-0 left-0 right-0 py-2.5 px-4 text-center" style={{ background: `${primaryColor}ee` }}>
-                                    {(event.branding?.footerText as string) && <p className="text-white text-xs font-bold">{event.branding.footerText as string}</p>}
-                                    {(event.branding?.showDate as boolean) && <p className="text-white/70 text-[10px] mt-0.5">{new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}</p>}
-                                  </div>
-                                )}
-                              </div>
-                            )}
+                            {/* Same engine the booth renders uploads with — placeholder boxes stand in for photos */}
+                            <div className="flex justify-center">
+                              <TemplateRenderer
+                                template={resolveTemplate(event as unknown as BoothEvent, 'single')}
+                                photos={[]}
+                                vars={templateVars(event as unknown as BoothEvent)}
+                                scale={0.3}
+                                className="max-h-80 w-auto rounded-xl shadow-xl"
+                              />
+                            </div>
                           </div>
                           <div>
                             <p className="text-zinc-500 text-[10px] uppercase tracking-widest font-medium mb-2">Idle Screen</p>
@@ -959,6 +1032,131 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                           <ToggleRow key={item.key} icon={item.icon} label={item.label} desc={item.desc}
                             checked={(event.settings?.[item.key] as boolean) ?? true} onChange={v => updateSettings(item.key, v)} />
                         ))}
+                        {(event.settings?.allowRetakes as boolean) !== false && (
+                          <div className="max-w-xs">
+                            <FieldLabel>Retakes per Strip</FieldLabel>
+                            <select value={(event.settings?.maxRetakes as number) ?? 3}
+                              onChange={e => updateSettings('maxRetakes', Number(e.target.value))}
+                              className="w-full bg-zinc-950/50 border border-zinc-800 rounded-xl px-3 py-2.5 text-white text-sm focus:outline-none focus:border-violet-500 transition-colors">
+                              {[1, 2, 3, 4, 6].map(n => <option key={n} value={n}>{n}</option>)}
+                            </select>
+                            <p className="text-zinc-600 text-xs mt-1.5">Guests review the assembled strip and can reshoot individual frames.</p>
+                          </div>
+                        )}
+                      </div>
+                    </Card>
+
+                    <Card title="Burst Mode" subtitle="Rapid-fire frames, guests keep their favourites" icon={Layers}>
+                      <div className="space-y-5">
+                        <ToggleRow icon={Layers} label="Burst" desc="One countdown, several quick frames, then a best-shot picker."
+                          checked={(event.settings?.allowBurst as boolean) ?? false} onChange={v => updateSettings('allowBurst', v)} />
+                        {(event.settings?.allowBurst as boolean) && (
+                          <>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                              <div>
+                                <FieldLabel>Frames</FieldLabel>
+                                <select value={(event.settings?.burstCount as number) || 6}
+                                  onChange={e => updateSettings('burstCount', Number(e.target.value))}
+                                  className="w-full bg-zinc-950/50 border border-zinc-800 rounded-xl px-3 py-2.5 text-white text-sm focus:outline-none focus:border-violet-500 transition-colors">
+                                  {[4, 6, 8, 10].map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                              </div>
+                              <div>
+                                <FieldLabel>Interval</FieldLabel>
+                                <select value={(event.settings?.burstIntervalMs as number) || 300}
+                                  onChange={e => updateSettings('burstIntervalMs', Number(e.target.value))}
+                                  className="w-full bg-zinc-950/50 border border-zinc-800 rounded-xl px-3 py-2.5 text-white text-sm focus:outline-none focus:border-violet-500 transition-colors">
+                                  {[150, 300, 500, 1000].map(n => <option key={n} value={n}>{n}ms</option>)}
+                                </select>
+                              </div>
+                            </div>
+                            <ToggleRow icon={ImageIcon} label="Contact Sheet" desc="Also save a grid of every frame alongside the picks."
+                              checked={(event.settings?.burstContactSheet as boolean) ?? false} onChange={v => updateSettings('burstContactSheet', v)} />
+                          </>
+                        )}
+                      </div>
+                    </Card>
+
+                    <Card title="GIF & Boomerang" subtitle="Encoded on the booth — only the finished file is uploaded" icon={Film}>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        {[
+                          { delayKey: 'gifFrameDelayMs',       loopKey: 'gifLoopStyle',       label: 'GIF',       delay: 250, loop: 'forward' },
+                          { delayKey: 'boomerangFrameDelayMs', loopKey: 'boomerangLoopStyle', label: 'Boomerang', delay: 125, loop: 'pingpong' },
+                        ].map(a => (
+                          <div key={a.label} className="space-y-3">
+                            <div>
+                              <FieldLabel>{a.label} Frame Delay</FieldLabel>
+                              <select value={(event.settings?.[a.delayKey] as number) || a.delay}
+                                onChange={e => updateSettings(a.delayKey, Number(e.target.value))}
+                                className="w-full bg-zinc-950/50 border border-zinc-800 rounded-xl px-3 py-2.5 text-white text-sm focus:outline-none focus:border-violet-500 transition-colors">
+                                {[80, 100, 125, 150, 200, 250, 400, 500].map(n => <option key={n} value={n}>{n}ms</option>)}
+                              </select>
+                            </div>
+                            <div>
+                              <FieldLabel>{a.label} Loop Style</FieldLabel>
+                              <select value={(event.settings?.[a.loopKey] as string) || a.loop}
+                                onChange={e => updateSettings(a.loopKey, e.target.value)}
+                                className="w-full bg-zinc-950/50 border border-zinc-800 rounded-xl px-3 py-2.5 text-white text-sm focus:outline-none focus:border-violet-500 transition-colors">
+                                <option value="forward">Forward</option>
+                                <option value="pingpong">Ping-pong</option>
+                                <option value="reverse">Reverse</option>
+                              </select>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="mt-4 max-w-xs">
+                        <FieldLabel>Output Format</FieldLabel>
+                        <select value={(event.settings?.animationFormat as string) || 'gif'}
+                          onChange={e => updateSettings('animationFormat', e.target.value)}
+                          className="w-full bg-zinc-950/50 border border-zinc-800 rounded-xl px-3 py-2.5 text-white text-sm focus:outline-none focus:border-violet-500 transition-colors">
+                          <option value="gif">Animated GIF</option>
+                          <option value="video">Video (MP4 / WebM)</option>
+                        </select>
+                        <p className="text-zinc-600 text-xs mt-1.5">Video files are smaller and sharper; GIFs autoplay everywhere.</p>
+                      </div>
+                    </Card>
+
+                    <Card title="Video Guestbook" subtitle="Short recorded messages with sound" icon={Video}>
+                      <div className="space-y-5">
+                        <ToggleRow icon={Video} label="Video Mode" desc="Guests record a clip after the countdown. Uses the microphone."
+                          checked={(event.settings?.allowVideo as boolean) ?? false} onChange={v => updateSettings('allowVideo', v)} />
+                        {(event.settings?.allowVideo as boolean) && (
+                          <div className="max-w-xs">
+                            <FieldLabel>Clip Length</FieldLabel>
+                            <select value={(event.settings?.videoDuration as number) || 15}
+                              onChange={e => updateSettings('videoDuration', Number(e.target.value))}
+                              className="w-full bg-zinc-950/50 border border-zinc-800 rounded-xl px-3 py-2.5 text-white text-sm focus:outline-none focus:border-violet-500 transition-colors">
+                              {[5, 10, 15, 20, 30].map(n => <option key={n} value={n}>{n}s</option>)}
+                            </select>
+                          </div>
+                        )}
+                      </div>
+                    </Card>
+
+                    <Card title="Camera Source" subtitle="Webcam, tethered DSLR or hot folder — booths can override this per device" icon={Camera}>
+                      <div className="space-y-4">
+                        <div>
+                          <FieldLabel>Source</FieldLabel>
+                          <select value={captureSource?.kind || 'webcam'}
+                            onChange={e => updateSettings('captureSource', { ...captureSource, kind: e.target.value as CaptureSourceKind })}
+                            className="w-full bg-zinc-950/50 border border-zinc-800 rounded-xl px-3 py-2.5 text-white text-sm focus:outline-none focus:border-violet-500 transition-colors">
+                            {(Object.keys(CAPTURE_SOURCE_LABELS) as CaptureSourceKind[]).map(kind => (
+                              <option key={kind} value={kind}>{CAPTURE_SOURCE_LABELS[kind]}</option>
+                            ))}
+                          </select>
+                        </div>
+                        {captureSource && captureSource.kind !== 'webcam' && (
+                          <div>
+                            <FieldLabel>Capture Bridge URL</FieldLabel>
+                            <Input value={captureSource.bridgeUrl || ''}
+                              onChange={v => updateSettings('captureSource', { ...captureSource, bridgeUrl: v || undefined })}
+                              placeholder={DEFAULT_BRIDGE_URL} />
+                            <p className="text-zinc-600 text-xs mt-1.5">
+                              Run <code className="text-zinc-400">npm run capture-bridge</code> on the booth computer. DSLRs are driven through gphoto2; hot folder mode picks up each new JPEG saved to the bridge&apos;s folder. Video guestbook needs a webcam.
+                            </p>
+                          </div>
+                        )}
                       </div>
                     </Card>
 
@@ -987,7 +1185,28 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                       </div>
                     </Card>
 
-                    <Card title="Beauty Mode" subtitle="Server-side skin smoothing applied to every photo" icon={Sparkles}>
+                    <Card title="Preview Effects" subtitle="Filters guests can apply — the chosen one is saved into the photo" icon={Wand2}>
+                      <div className="space-y-4">
+                        {PHOTO_EFFECTS.filter(e => e.key !== 'none').map(e => (
+                          <ToggleRow key={e.key} label={e.label}
+                            checked={offeredEffects.includes(e.key)}
+                            onChange={v => updateSettings('enabledEffects', v ? [...offeredEffects, e.key] : offeredEffects.filter(k => k !== e.key))} />
+                        ))}
+                        <div className="border-t border-zinc-800 pt-4">
+                          <FieldLabel>Default Effect</FieldLabel>
+                          <select value={(event.settings?.defaultEffect as string) || 'none'}
+                            onChange={e => updateSettings('defaultEffect', e.target.value)}
+                            className="w-full bg-zinc-950/50 border border-zinc-800 rounded-xl px-3 py-2.5 text-white text-sm focus:outline-none focus:border-violet-500 transition-colors">
+                            {PHOTO_EFFECTS.filter(e => e.key === 'none' || offeredEffects.includes(e.key)).map(e => (
+                              <option key={e.key} value={e.key}>{e.label}</option>
+                            ))}
+                          </select>
+                          <p className="text-zinc-600 text-xs mt-1.5">Pre-selected on the preview screen and applied unless the guest picks another.</p>
+                        </div>
+                      </div>
+                    </Card>
+
+                    <Card title="Beauty Mode" subtitle="Skin smoothing and brightening, live on the camera and in every photo" icon={Sparkles}>
                       <div>
                         <div className="flex items-center justify-between mb-2">
                           <span className="text-zinc-300 text-sm font-medium">Smoothing Level</span>
@@ -1012,9 +1231,9 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                           <input type="text" inputMode="numeric" pattern="[0-9]*" maxLength={8}
                             value={(event.settings?.operatorPin as string) || ''}
                             onChange={e => updateSettings('operatorPin', e.target.value.replace(/\D/g, '').slice(0, 8))}
-                            placeholder="No PIN — tap gear icon freely"
+                            placeholder={event.operator_pin_length ? 'PIN set — type to change' : 'No PIN — tap gear icon freely'}
                             className="w-full bg-zinc-950/50 border border-zinc-800 rounded-xl px-4 py-3 text-white text-xl tracking-[0.5em] font-mono focus:outline-none focus:border-violet-500 transition-colors max-w-xs" />
-                          <p className="text-zinc-600 text-xs mt-1.5">4–8 digits. Tap ⚙️ in booth to access operator controls.</p>
+                          <p className="text-zinc-600 text-xs mt-1.5">4–8 digits. Tap ⚙️ in booth to access operator controls. The saved PIN is never shown — to remove it, type a digit, clear the field and save.</p>
                         </div>
                         <div className="border-t border-zinc-800 pt-4 space-y-4">
                           <ToggleRow icon={Lock} label="Kiosk Mode" desc="Locks booth fullscreen — guests cannot exit or navigate away"
@@ -1055,6 +1274,13 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                   </Card>
                 )}
 
+                {/* ══ GREEN SCREEN ══ */}
+                {tab === 'greenscreen' && (
+                  <Card title="Green Screen" subtitle="Sample the backdrop and tune the chroma key" icon={Pipette}>
+                    <ChromaKeyCalibrator event={event} updateSettings={updateSettings} />
+                  </Card>
+                )}
+
                 {/* ══ AI STYLES ══ */}
                 {tab === 'aistyles' && (
                   <div className="space-y-6">
@@ -1269,6 +1495,91 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                       </div>
                     </Card>
 
+                    <Card title="Gallery Access" subtitle="Password, per-guest magic links and revoking access" icon={Lock}>
+                      <GalleryAccessPanel eventId={event.id} isProtected={!!event.gallery_protected}
+                        onProtectedChange={v => setEvent(prev => (prev ? { ...prev, gallery_protected: v } : prev))} />
+                    </Card>
+
+                    <Card title="Social Wall" subtitle="Live photo display for a projector or TV at the venue" icon={Tv}>
+                      <div className="space-y-5">
+                        <div>
+                          <FieldLabel>Layout</FieldLabel>
+                          <div className="grid grid-cols-3 gap-2">
+                            {[
+                              { key: 'mosaic',   label: 'Mosaic',   desc: 'Grid of tiles',      emoji: '🧩' },
+                              { key: 'carousel', label: 'Carousel', desc: 'One at a time',      emoji: '🎠' },
+                              { key: 'polaroid', label: 'Polaroid', desc: 'Prints drop in',     emoji: '📷' },
+                            ].map(l => {
+                              const active = ((event.settings?.wallLayout as string) || 'mosaic') === l.key;
+                              return (
+                                <button key={l.key} onClick={() => updateSettings('wallLayout', l.key)}
+                                  className={`flex flex-col items-center gap-1 py-3 rounded-xl border transition-all text-xs font-medium ${
+                                    active ? 'border-violet-500 bg-violet-500/20 text-violet-300' : 'border-zinc-800 bg-zinc-900 text-zinc-400 hover:border-zinc-600'
+                                  }`}>
+                                  <span className="text-xl">{l.emoji}</span>
+                                  <span className="font-semibold">{l.label}</span>
+                                  <span className="text-[10px] opacity-70">{l.desc}</span>
+                                </button>
+                              );
+                            })}
+                          </div>
+                        </div>
+                        <div>
+                          <div className="flex items-center justify-between mb-2">
+                            <FieldLabel>Slide Interval</FieldLabel>
+                            <span className="text-violet-300 font-bold text-sm">{(event.settings?.wallSlideSeconds as number) || 6}s</span>
+                          </div>
+                          <input type="range" min="3" max="30" step="1"
+                            value={(event.settings?.wallSlideSeconds as number) || 6}
+                            onChange={e => updateSettings('wallSlideSeconds', Number(e.target.value))}
+                            className="w-full accent-violet-500" />
+                          <p className="text-zinc-600 text-xs mt-1.5">How often the wall moves on between new captures.</p>
+                        </div>
+                        <ToggleRow icon={QrCode} label="Gallery QR Overlay" desc="Show a QR code guests can scan to open the gallery."
+                          checked={(event.settings?.wallShowQR as boolean) ?? true} onChange={v => updateSettings('wallShowQR', v)} />
+                        <ToggleRow icon={ShieldCheck} label="Require Approval" desc="Photos appear only after you approve them in the Moderation tab."
+                          checked={(event.settings?.wallRequireApproval as boolean) ?? false} onChange={v => updateSettings('wallRequireApproval', v)} />
+                        {needsWallLink ? (
+                          <button onClick={handleCreateWallLink}
+                            className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl border border-zinc-700 hover:border-violet-500 text-zinc-200 hover:text-white font-medium text-sm transition-colors">
+                            <Link2 className="w-4 h-4" /> Create Display Link
+                          </button>
+                        ) : (
+                          <>
+                            <div className="bg-zinc-950 border border-zinc-800 rounded-xl p-3 flex items-center gap-2">
+                              <code className="text-violet-300 text-xs truncate flex-1">{wallUrl}</code>
+                              <button onClick={() => { navigator.clipboard.writeText(wallUrl); toast.success('Copied!'); }} className="text-zinc-500 hover:text-white flex-shrink-0">
+                                <Copy className="w-4 h-4" />
+                              </button>
+                            </div>
+                            <Link href={wallUrl} target="_blank"
+                              className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl border border-zinc-700 hover:border-violet-500 text-zinc-200 hover:text-white font-medium text-sm transition-colors">
+                              <ExternalLink className="w-4 h-4" /> Open Wall
+                            </Link>
+                          </>
+                        )}
+                        {event.gallery_protected && (
+                          <p className="text-zinc-600 text-xs">The gallery is password protected, so the wall opens from a display link. It works for 3 days and stops when you revoke gallery access.</p>
+                        )}
+                      </div>
+                    </Card>
+
+                    <Card title="Find My Photos" subtitle="Guests filter the gallery to their own photos with a selfie" icon={ScanFace}>
+                      <div className="space-y-5">
+                        <ToggleRow icon={ScanFace} label="Face Search" desc="Index faces in this event's photos and show a selfie search in the gallery."
+                          checked={(event.settings?.faceSearchEnabled as boolean) ?? false} onChange={v => updateSettings('faceSearchEnabled', v)} />
+                        <div>
+                          <FieldLabel>Consent Text</FieldLabel>
+                          <textarea value={(event.settings?.faceSearchConsentText as string) || ''}
+                            onChange={e => updateSettings('faceSearchConsentText', e.target.value)} rows={3}
+                            placeholder={DEFAULT_FACE_SEARCH_CONSENT}
+                            className="w-full bg-zinc-950/50 border border-zinc-800 rounded-xl px-4 py-2.5 text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-violet-500 transition-colors resize-none" />
+                          <p className="text-zinc-600 text-xs mt-1">Guests must tick this before taking a selfie. Face data is deleted when the gallery expires.</p>
+                        </div>
+                        <FaceSearchPanel eventId={event.id} enabled={(event.settings?.faceSearchEnabled as boolean) ?? false} />
+                      </div>
+                    </Card>
+
                     <Card title="Email Customisation" icon={Mail}>
                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
                         <div><FieldLabel>From Name</FieldLabel>
@@ -1327,31 +1638,56 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                 {/* ══ PRINT ══ */}
                 {tab === 'print' && (
                   <div className="space-y-5">
-                    <Card title="Printer Connection" subtitle="SnapBooth uses AirPrint — any compatible printer on the same WiFi" icon={Printer}>
-                      <div className="bg-emerald-500/5 border border-emerald-500/15 rounded-xl p-4 mb-4">
-                        <p className="text-emerald-300 text-sm font-semibold">Your Epson PM-520 is AirPrint compatible</p>
-                        <p className="text-emerald-200/50 text-xs mt-1 leading-relaxed">Keep the printer on the same WiFi as your iPad. When guests tap Print, the AirPrint picker appears automatically.</p>
+                    <Card title="Printer Connection" subtitle="Print dialog (AirPrint) or silent printing through the print agent" icon={Printer}>
+                      <div className="space-y-4">
+                        <div>
+                          <FieldLabel>Print Method</FieldLabel>
+                          <select value={printMethod} onChange={e => updateSettings('printMethod', e.target.value)}
+                            className="w-full bg-zinc-950/50 border border-zinc-800 rounded-xl px-3 py-2.5 text-white text-sm focus:outline-none focus:border-violet-500 transition-colors">
+                            <option value="browser">Print dialog (AirPrint / system printer)</option>
+                            <option value="agent">Print agent (silent, dye-sub)</option>
+                          </select>
+                        </div>
+                        {printMethod === 'agent' ? (
+                          <div>
+                            <FieldLabel>Print Agent URL</FieldLabel>
+                            <div className="flex gap-2">
+                              <Input value={(event.settings?.printAgentUrl as string) || ''}
+                                onChange={v => updateSettings('printAgentUrl', v || undefined)}
+                                placeholder={DEFAULT_PRINT_AGENT_URL} />
+                              <button onClick={checkPrintAgent}
+                                className="px-4 rounded-xl bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-xs font-semibold flex-shrink-0 transition-all">
+                                Test
+                              </button>
+                            </div>
+                            <p className="text-zinc-600 text-xs mt-1.5">
+                              Run <code className="text-zinc-400">npm run print-agent</code> on the booth computer. It prints straight to the CUPS printer on the event&apos;s paper size; without a printer it writes PDFs instead. Test checks the agent from this computer.
+                            </p>
+                          </div>
+                        ) : (
+                          <>
+                            <div className="bg-emerald-500/5 border border-emerald-500/15 rounded-xl p-4">
+                              <p className="text-emerald-300 text-sm font-semibold">Your Epson PM-520 is AirPrint compatible</p>
+                              <p className="text-emerald-200/50 text-xs mt-1 leading-relaxed">Keep the printer on the same WiFi as your iPad. When guests tap Print, the AirPrint picker appears automatically.</p>
+                            </div>
+                            <p className="text-zinc-500 text-sm">To verify: go to Diagnostics → Send Test Page. If the print picker appears, the printer is connected.</p>
+                          </>
+                        )}
                       </div>
-                      <p className="text-zinc-500 text-sm">To verify: go to Diagnostics → Send Test Page. If the print picker appears, the printer is connected.</p>
                     </Card>
 
                     <Card title="Paper Size" subtitle="Select the paper loaded in your printer" icon={FileText}>
-                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-                        {[
-                          { key: '4x6', label: '4×6"', desc: 'Standard photo', rec: true },
-                          { key: '5x7', label: '5×7"', desc: 'Large photo' },
-                          { key: 'a5',  label: 'A5',   desc: '148×210mm' },
-                          { key: 'a4',  label: 'A4',   desc: '210×297mm' },
-                        ].map(size => (
+                      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                        {Object.values(PAPER_SIZES).map(size => (
                           <button key={size.key} onClick={() => updateSettings('paperSize', size.key)}
                             className={`flex flex-col items-center p-3 rounded-xl border-2 text-sm transition-all ${
-                              ((event.settings?.paperSize as string) || '4x6') === size.key
+                              resolvePaperSize(event.settings?.paperSize as string).key === size.key
                                 ? 'border-violet-500 bg-violet-500/10 text-violet-200'
                                 : 'border-zinc-800 bg-zinc-900/50 text-zinc-400 hover:border-zinc-600'
                             }`}>
                             <span className="font-bold text-base">{size.label}</span>
                             <span className="text-xs opacity-60 mt-0.5">{size.desc}</span>
-                            {size.rec && <span className="text-[9px] text-emerald-400 mt-1">Recommended</span>}
+                            {size.key === '4x6' && <span className="text-[9px] text-emerald-400 mt-1">Recommended</span>}
                           </button>
                         ))}
                       </div>
@@ -1375,7 +1711,12 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                         <div>
                           <FieldLabel>Max Prints Per Event</FieldLabel>
                           <Input value={String((event.settings?.maxPrints as number) || '')} onChange={v => updateSettings('maxPrints', v ? Number(v) : null)} placeholder="Unlimited" />
-                          <p className="text-zinc-600 text-xs mt-1.5">Booth shows a message when the limit is reached.</p>
+                          <p className="text-zinc-600 text-xs mt-1.5">Counts every copy across all booths. Guests see how many are left.</p>
+                        </div>
+                        <div>
+                          <FieldLabel>Max Prints Per Guest</FieldLabel>
+                          <Input value={String((event.settings?.maxPrintsPerSession as number) || '')} onChange={v => updateSettings('maxPrintsPerSession', v ? Number(v) : null)} placeholder="Unlimited" />
+                          <p className="text-zinc-600 text-xs mt-1.5">Per booth session. The operator PIN lets a guest print past either limit.</p>
                         </div>
                         <div>
                           <div className="flex items-center justify-between mb-2">
@@ -1386,7 +1727,7 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                             value={(event.settings?.printScale as number) || 98}
                             onChange={e => updateSettings('printScale', Number(e.target.value))}
                             className="w-full accent-violet-500" />
-                          <p className="text-zinc-600 text-xs mt-1.5">Reduce if photo is cropped at edges. 98% recommended for Epson PM-520.</p>
+                          <p className="text-zinc-600 text-xs mt-1.5">100% prints edge to edge. Reduce if the print dialog crops the edges — 98% suits the Epson PM-520. The print agent always prints edge to edge.</p>
                         </div>
                         <div className="border-t border-zinc-800 pt-5">
                           <ToggleRow icon={Zap} label="Auto-Print" desc="Sends photo to printer automatically after every capture — no guest tap needed"
@@ -1394,6 +1735,12 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                         </div>
                       </div>
                     </Card>
+
+                    <Card title="Print Queue" subtitle="Jobs from the booth — survives reloads; pause, cancel or reprint remotely" icon={Printer}>
+                      <PrintQueuePanel eventId={event.id}
+                        paused={(event.settings?.printQueuePaused as boolean) ?? false}
+                        onPausedChange={p => setEvent({ ...event, settings: { ...event.settings, printQueuePaused: p } })} />
+                    </Card>
                   </div>
                 )}
 
@@ -1418,11 +1765,24 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                           <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-emerald-500"></span>
                         </span>
                         <span className="text-zinc-300 text-sm font-medium">{visiblePhotos.length} photos</span>
+                        {favouriteTotal > 0 && (
+                          <span className="flex items-center gap-1 text-zinc-500 text-xs">
+                            <Heart className="w-3 h-3 fill-rose-500 text-rose-500" /> {favouriteTotal} guest favourite{favouriteTotal !== 1 ? 's' : ''}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {favouriteTotal > 0 && (
+                          <button onClick={() => setSortByFavourites(v => !v)}
+                            className={`flex items-center gap-2 text-xs px-4 py-2 rounded-lg transition-colors ${sortByFavourites ? 'bg-rose-500/15 text-rose-300' : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-200'}`}>
+                            <Heart className="w-3.5 h-3.5" /> Most Loved
+                          </button>
+                        )}
+                        <button onClick={handleZip} disabled={zipLoading || visiblePhotos.length === 0}
+                          className="flex items-center gap-2 text-xs bg-zinc-800 hover:bg-zinc-700 text-zinc-200 px-4 py-2 rounded-lg transition-colors disabled:opacity-40">
+                          <Download className="w-3.5 h-3.5" /> {zipLoading ? 'Preparing...' : 'Download All'}
+                        </button>
                       </div>
-                      <button onClick={handleZip} disabled={zipLoading || visiblePhotos.length === 0}
-                        className="flex items-center gap-2 text-xs bg-zinc-800 hover:bg-zinc-700 text-zinc-200 px-4 py-2 rounded-lg transition-colors disabled:opacity-40">
-                        <Download className="w-3.5 h-3.5" /> {zipLoading ? 'Preparing...' : 'Download All'}
-                      </button>
                     </div>
                     {visiblePhotos.length === 0 ? (
                       <div className="text-center py-24 bg-zinc-900/20 border border-white/[0.03] rounded-2xl border-dashed">
@@ -1432,7 +1792,7 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                       </div>
                     ) : (
                       <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-3">
-                        {visiblePhotos.map(photo => (
+                        {galleryPhotos.map(photo => (
                           <div key={photo.id} className="relative group rounded-xl overflow-hidden aspect-square border border-white/[0.04] bg-zinc-900">
                             {/* eslint-disable-next-line @next/next/no-img-element */}
                             <img src={photo.thumb_url || photo.url} alt="capture" className="w-full h-full object-cover" loading="lazy" />
@@ -1445,6 +1805,11 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                               </button>
                             </div>
                             <div className="absolute top-1.5 left-1.5 text-[9px] bg-black/60 text-white/70 px-1.5 py-0.5 rounded-md">{photo.mode}</div>
+                            {favouriteCounts[photo.id] > 0 && (
+                              <div className="absolute top-1.5 right-1.5 flex items-center gap-1 text-[10px] bg-black/60 text-white/80 px-1.5 py-0.5 rounded-md">
+                                <Heart className="w-2.5 h-2.5 fill-rose-500 text-rose-500" /> {favouriteCounts[photo.id]}
+                              </div>
+                            )}
                           </div>
                         ))}
                       </div>
@@ -1455,6 +1820,97 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                 {/* ══ MODERATION ══ */}
                 {tab === 'moderation' && (
                   <div className="space-y-4">
+                    <Card title="Approval Queue" subtitle="Hold new photos until you approve them — keyboard friendly" icon={ShieldCheck}>
+                      <div className="mb-5">
+                        <ToggleRow icon={ShieldCheck} label="Require Approval"
+                          desc="New photos stay off the gallery, wall and share pages until approved. Save to apply."
+                          checked={(event.settings?.requireApproval as boolean) ?? false} onChange={v => updateSettings('requireApproval', v)} />
+                      </div>
+                      {(Boolean(event.settings?.requireApproval) || moderation.counts.pending > 0 || moderation.counts.rejected > 0) && (
+                        <ModerationQueue eventId={event.id} version={moderation.version} counts={moderation.counts}
+                          onModerated={() => { moderation.refresh(); handleReloadPhotos(); }} />
+                      )}
+                    </Card>
+                    <Card title="Content Screening" subtitle="Score every photo and AI result for nudity, gestures and text before it goes public" icon={ShieldCheck}>
+                      <div className="space-y-5">
+                        <ToggleRow icon={ShieldCheck} label="Screen Photos"
+                          desc="Photos at or over a threshold are hidden automatically and listed under Hidden Photos. Photos that can't be screened wait in the approval queue."
+                          checked={(event.settings?.screeningEnabled as boolean) ?? false} onChange={v => updateSettings('screeningEnabled', v)} />
+                        {Boolean(event.settings?.screeningEnabled) && (
+                          <div className="space-y-4">
+                            {[
+                              { key: 'screeningNudityThreshold',  label: 'Nudity',   def: 0.8 },
+                              { key: 'screeningGestureThreshold', label: 'Gestures', def: 0.85 },
+                              { key: 'screeningTextThreshold',    label: 'Text',     def: 0.9 },
+                            ].map(t => {
+                              const value = (event.settings?.[t.key] as number) || t.def;
+                              return (
+                                <div key={t.key}>
+                                  <div className="flex items-center justify-between mb-2">
+                                    <FieldLabel>{t.label} — hide at</FieldLabel>
+                                    <span className="text-violet-300 font-bold text-sm">{Math.round(value * 100)}%</span>
+                                  </div>
+                                  <input type="range" min="0.3" max="1" step="0.05" value={value}
+                                    onChange={e => updateSettings(t.key, Number(e.target.value))}
+                                    className="w-full accent-violet-500" />
+                                </div>
+                              );
+                            })}
+                            <p className="text-zinc-600 text-xs">Lower is stricter. Scores are kept with each photo so you can see why it was hidden.</p>
+                          </div>
+                        )}
+                      </div>
+                    </Card>
+                    {Boolean(event.settings?.wallRequireApproval) && (
+                      <Card title="Social Wall Approval" subtitle={`${wallPending.length} waiting · ${wallApproved.length} on the wall`} icon={Tv}>
+                        <div className="flex justify-end mb-3">
+                          <button onClick={handleReloadPhotos}
+                            className="flex items-center gap-1.5 text-xs bg-zinc-800 hover:bg-zinc-700 text-zinc-300 px-3 py-2 rounded-lg transition-colors">
+                            <RefreshCw className="w-3.5 h-3.5" /> Refresh
+                          </button>
+                        </div>
+                        {wallPending.length === 0 ? (
+                          <p className="text-zinc-600 text-sm text-center py-8">Nothing waiting for approval</p>
+                        ) : (
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            {wallPending.map(photo => (
+                              <div key={photo.id} className="relative group rounded-xl overflow-hidden aspect-square border border-white/[0.04] bg-zinc-900">
+                                {/* eslint-disable-next-line @next/next/no-img-element */}
+                                <img src={photo.thumb_url || photo.url} alt="pending" className="w-full h-full object-cover" loading="lazy" />
+                                <div className="absolute inset-x-0 bottom-0 p-2 flex gap-1.5 bg-gradient-to-t from-black/80 to-transparent">
+                                  <button onClick={() => handleWallApproval(photo, true)} disabled={moderatingId === photo.id}
+                                    className="flex-1 bg-emerald-500/30 hover:bg-emerald-500/50 text-emerald-200 text-xs py-1.5 rounded-lg transition-colors">
+                                    {moderatingId === photo.id ? '...' : 'Approve'}
+                                  </button>
+                                  <button onClick={() => handleToggleHide(photo)} disabled={moderatingId === photo.id}
+                                    className="flex-1 bg-red-500/30 hover:bg-red-500/50 text-red-200 text-xs py-1.5 rounded-lg transition-colors">
+                                    Hide
+                                  </button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {wallApproved.length > 0 && (
+                          <div className="mt-5 pt-4 border-t border-zinc-800">
+                            <FieldLabel>On the wall</FieldLabel>
+                            <div className="grid grid-cols-4 md:grid-cols-8 gap-2">
+                              {wallApproved.map(photo => (
+                                <button key={photo.id} onClick={() => handleWallApproval(photo, false)} disabled={moderatingId === photo.id}
+                                  title="Remove from the wall"
+                                  className="relative group rounded-lg overflow-hidden aspect-square border border-white/[0.04] bg-zinc-900">
+                                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                                  <img src={photo.thumb_url || photo.url} alt="approved" className="w-full h-full object-cover" loading="lazy" />
+                                  <span className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-all flex items-center justify-center">
+                                    <X className="w-4 h-4 text-white" />
+                                  </span>
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                      </Card>
+                    )}
                     <Card title="Hidden Photos" subtitle="These are hidden from the public gallery" icon={EyeOff}>
                       {hiddenPhotos.length === 0 ? (
                         <div className="text-center py-12">
@@ -1467,6 +1923,12 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                             <div key={photo.id} className="relative group rounded-xl overflow-hidden aspect-square border border-white/[0.04] bg-zinc-900">
                               {/* eslint-disable-next-line @next/next/no-img-element */}
                               <img src={photo.thumb_url || photo.url} alt="hidden" className="w-full h-full object-cover opacity-50" loading="lazy" />
+                              <div className="absolute top-1.5 left-1.5 flex flex-col items-start gap-1">
+                                <span className="text-[9px] bg-black/60 text-white/70 px-1.5 py-0.5 rounded-md">
+                                  {photo.hidden_by?.startsWith('auto:') ? 'Auto-hidden' : 'Hidden by operator'}
+                                </span>
+                                <ScreeningBadge screening={photo.screening} />
+                              </div>
                               <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-all flex flex-col items-center justify-center gap-2 p-2">
                                 <button onClick={() => handleToggleHide(photo)} disabled={moderatingId === photo.id}
                                   className="bg-emerald-500/20 hover:bg-emerald-500/40 text-emerald-300 text-xs w-full py-1.5 rounded-lg transition-colors">
@@ -1602,7 +2064,7 @@ async function handleSaveStyle(style: Partial<EventStyle> & { id?: string; previ
                 )}
 
                 {/* ══ DIAGNOSTICS ══ */}
-                {tab === 'diagnostics' && <DiagnosticsPanel eventId={event.id} />}
+                {tab === 'diagnostics' && <DiagnosticsPanel eventId={event.id} settings={event.settings} />}
 
               </motion.div>
             </AnimatePresence>
@@ -0,0 +1,110 @@
+'use client';
+
+/**
+ * "Find my photos" — consent, selfie and search, as a bottom sheet over the
+ * gallery. The selfie goes straight to the backend for matching and is not kept
+ * there or here.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Camera, ScanFace, X } from 'lucide-react';
+import { DEFAULT_FACE_SEARCH_CONSENT, searchGalleryByFace, type WallPhoto } from '@/lib/api';
+
+function searchError(err: unknown): string {
+  const res = (err as { response?: { status?: number; data?: { error?: string } } })?.response;
+  if (res?.data?.error === 'NO_FACE') return 'We couldn’t see a face in that photo. Try again facing the camera in good light.';
+  if (res?.status === 410) return 'This gallery has expired.';
+  if (res?.status === 503) return 'Face search is busy right now. Please try again in a minute.';
+  return 'Search failed. Check your connection and try again.';
+}
+
+export function FaceSearchSheet({ slug, token, consentText, primaryColor, onResults, onClose }: {
+  slug: string;
+  token: string | null;
+  consentText?: string;
+  primaryColor: string;
+  onResults: (photos: WallPhoto[]) => void;
+  onClose: () => void;
+}) {
+  const [consented, setConsented] = useState(false);
+  const [selfie, setSelfie] = useState<File | null>(null);
+  const [preview, setPreview] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!selfie) return;
+    const url = URL.createObjectURL(selfie);
+    setPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selfie]);
+
+  async function runSearch(file: File) {
+    setSearching(true);
+    setError('');
+    try {
+      onResults(await searchGalleryByFace(slug, file, token));
+    } catch (err) {
+      setError(searchError(err));
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setSelfie(file);
+    runSearch(file);
+  }
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black/80 flex items-end sm:items-center justify-center"
+      onClick={e => { if (e.target === e.currentTarget && !searching) onClose(); }}>
+      <motion.div initial={{ y: 40 }} animate={{ y: 0 }} exit={{ y: 40 }}
+        className="bg-[#141420] w-full max-w-sm rounded-t-3xl sm:rounded-3xl p-6 border border-white/10 space-y-5">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ScanFace className="w-5 h-5" style={{ color: primaryColor }} />
+            <h2 className="text-white font-bold">Find my photos</h2>
+          </div>
+          <button onClick={onClose} disabled={searching} className="text-white/40 hover:text-white disabled:opacity-40">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {preview && (
+          <div className="relative w-28 h-28 mx-auto rounded-full overflow-hidden border-2" style={{ borderColor: primaryColor }}>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={preview} alt="Your selfie" className="w-full h-full object-cover" />
+            {searching && (
+              <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                <div className="w-8 h-8 border-2 border-white border-t-transparent rounded-full animate-spin" />
+              </div>
+            )}
+          </div>
+        )}
+
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input type="checkbox" checked={consented} onChange={e => setConsented(e.target.checked)}
+            className="mt-0.5 w-4 h-4 flex-shrink-0" style={{ accentColor: primaryColor }} />
+          <span className="text-white/60 text-xs leading-relaxed">{consentText?.trim() || DEFAULT_FACE_SEARCH_CONSENT}</span>
+        </label>
+
+        {error && <p className="text-red-400 text-xs text-center">{error}</p>}
+
+        <input ref={inputRef} type="file" accept="image/*" capture="user" onChange={handleFile} className="hidden" />
+        <button onClick={() => inputRef.current?.click()} disabled={!consented || searching}
+          className="w-full py-3.5 rounded-xl font-bold text-white flex items-center justify-center gap-2 disabled:opacity-40"
+          style={{ background: `linear-gradient(135deg, ${primaryColor}, ${primaryColor}bb)` }}>
+          <Camera className="w-5 h-5" />
+          {searching ? 'Searching…' : selfie ? 'Try another selfie' : 'Take a selfie'}
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+}
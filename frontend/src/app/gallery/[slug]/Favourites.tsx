@@ -0,0 +1,91 @@
+'use client';
+
+/**
+ * Guest favourites and multi-select for the public gallery. Hearts are stored
+ * server-side against an anonymous per-browser id, so they survive reloads and
+ * show up as counts in the admin Photos tab.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, Heart, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getMyGalleryFavourites, setGalleryFavourite, type GalleryPhoto } from '@/lib/api';
+
+// Keep in step with GALLERY_ZIP_MAX_PHOTOS on the backend
+export const MAX_SELECTION = 100;
+
+/**
+ * The device's favourite photos (newest first) and their ids. Kept as
+ * whole photos so the Favourites view doesn't depend on the pages loaded so far.
+ */
+export function useGalleryFavourites(slug: string, ready: boolean, token: string | null) {
+  const [photos, setPhotos] = useState<GalleryPhoto[]>([]);
+
+  useEffect(() => {
+    if (!ready) return;
+    getMyGalleryFavourites(slug, token).then(setPhotos).catch(() => {});
+  }, [slug, ready, token]);
+
+  const favourites = photos.map(p => p.id);
+
+  const toggle = useCallback(async (photo: GalleryPhoto) => {
+    const favourite = !photos.some(p => p.id === photo.id);
+    const apply = (add: boolean) => setPhotos(prev => add ? [photo, ...prev] : prev.filter(p => p.id !== photo.id));
+    apply(favourite);
+    try {
+      await setGalleryFavourite(slug, photo.id, favourite, token);
+    } catch {
+      apply(!favourite);
+      toast.error('Could not save your favourite');
+    }
+  }, [slug, token, photos]);
+
+  return { favourites, favouritePhotos: photos, toggle };
+}
+
+export function HeartButton({ active, onToggle, className = '' }: {
+  active: boolean;
+  onToggle: () => void;
+  className?: string;
+}) {
+  return (
+    <button onClick={e => { e.stopPropagation(); onToggle(); }} title={active ? 'Remove from favourites' : 'Add to favourites'}
+      className={`flex items-center justify-center ${className}`}>
+      <Heart className={`w-5 h-5 drop-shadow ${active ? 'fill-rose-500 text-rose-500' : 'text-white'}`} />
+    </button>
+  );
+}
+
+export function SelectionBar({ count, favouriteCount, primaryColor, onSelectFavourites, onDownload, onCancel }: {
+  count: number;
+  favouriteCount: number;
+  primaryColor: string;
+  onSelectFavourites: () => void;
+  onDownload: () => void;
+  onCancel: () => void;
+}) {
+  return (
+    <motion.div initial={{ y: 80 }} animate={{ y: 0 }} exit={{ y: 80 }}
+      className="fixed bottom-0 inset-x-0 z-40 bg-[#141420]/95 backdrop-blur border-t border-white/10 px-4 py-3">
+      <div className="max-w-xl mx-auto flex items-center gap-3">
+        <button onClick={onCancel} className="text-white/50 hover:text-white" title="Cancel">
+          <X className="w-5 h-5" />
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className="text-white text-sm font-semibold">{count} selected</p>
+          {favouriteCount > 0 && (
+            <button onClick={onSelectFavourites} className="text-white/50 hover:text-white text-xs underline underline-offset-2">
+              Select my favourites
+            </button>
+          )}
+        </div>
+        <button onClick={onDownload} disabled={count === 0}
+          className="flex items-center gap-2 px-4 py-2.5 rounded-xl font-bold text-white text-sm disabled:opacity-40"
+          style={{ background: `linear-gradient(135deg, ${primaryColor}, ${primaryColor}bb)` }}>
+          <Download className="w-4 h-4" /> Download ZIP
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+/**
+ * Window-scrolled masonry grid that only mounts the tiles near the viewport, so
+ * a wedding with thousands of photos costs the same as one with forty. Tile
+ * heights come from the photos' stored dimensions (square until known); asks for
+ * the next page when the guest scrolls within a screen and a half of the end.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { GalleryPhoto } from '@/lib/api';
+
+const GAP = 4;
+// Extra height kept mounted above and below the viewport, in screens
+const OVERSCAN = 1;
+const END_THRESHOLD = 1.5;
+
+interface Tile {
+  photo: GalleryPhoto;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Same breakpoints as the grid it replaces (grid-cols-2 sm:3 md:4)
+function columnCount(width: number) {
+  if (width >= 768) return 4;
+  if (width >= 640) return 3;
+  return 2;
+}
+
+// Very tall or wide captures are cropped so one photo can't swallow a column
+function aspectRatio(photo: GalleryPhoto) {
+  if (!photo.width || !photo.height) return 1;
+  return Math.min(Math.max(photo.height / photo.width, 0.5), 2);
+}
+
+function layout(photos: GalleryPhoto[], width: number) {
+  if (!width) return { tiles: [] as Tile[], height: 0 };
+  const columns = columnCount(width);
+  const columnWidth = (width - GAP * (columns + 1)) / columns;
+  const heights: number[] = [];
+  for (let c = 0; c < columns; c++) heights.push(GAP);
+
+  const tiles: Tile[] = photos.map(photo => {
+    let column = 0;
+    for (let c = 1; c < columns; c++) if (heights[c] < heights[column]) column = c;
+    const height = Math.round(columnWidth * aspectRatio(photo));
+    const tile = { photo, x: GAP + column * (columnWidth + GAP), y: heights[column], width: columnWidth, height };
+    heights[column] += height + GAP;
+    return tile;
+  });
+
+  return { tiles, height: Math.max.apply(null, heights) };
+}
+
+export function VirtualMasonry({ photos, hasMore, onEndReached, renderTile }: {
+  photos: GalleryPhoto[];
+  hasMore: boolean;
+  onEndReached: () => void;
+  renderTile: (photo: GalleryPhoto) => React.ReactNode;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  // Container width → column layout
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Visible window, relative to the top of the grid
+  useEffect(() => {
+    let frame = 0;
+    const measure = () => {
+      frame = 0;
+      const el = containerRef.current;
+      if (!el) return;
+      setViewport({ top: -el.getBoundingClientRect().top, height: window.innerHeight });
+    };
+    const schedule = () => { if (!frame) frame = requestAnimationFrame(measure); };
+    measure();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, []);
+
+  const grid = useMemo(() => layout(photos, width), [photos, width]);
+
+  // Content above the grid can move it without a scroll (banners, new pages)
+  useEffect(() => {
+    const el = containerRef.current;
+    if (el) setViewport({ top: -el.getBoundingClientRect().top, height: window.innerHeight });
+  }, [grid.height]);
+
+  const from = viewport.top - viewport.height * OVERSCAN;
+  const to = viewport.top + viewport.height * (1 + OVERSCAN);
+  const visible = grid.tiles.filter(t => t.y + t.height > from && t.y < to);
+
+  const nearEnd = viewport.top + viewport.height * (1 + END_THRESHOLD) >= grid.height;
+  useEffect(() => {
+    if (hasMore && nearEnd && width) onEndReached();
+  }, [hasMore, nearEnd, width, photos.length, onEndReached]);
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: grid.height }}>
+      {visible.map(tile => (
+        <div key={tile.photo.id} className="absolute" style={{ left: tile.x, top: tile.y, width: tile.width, height: tile.height }}>
+          {renderTile(tile.photo)}
+        </div>
+      ))}
+    </div>
+  );
+}
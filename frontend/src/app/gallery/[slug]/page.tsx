@@ -3,35 +3,51 @@
 /**
  * /gallery/[slug]/page.tsx
  * Public event gallery with:
- * - Password protection (checks event.settings.galleryPassword)
- * - Full photo grid with lightbox
+ * - Password protection — the backend checks the password and issues an access
+ *   token; per-guest magic links arrive with one as ?access=
+ * - Infinite-scroll, virtualised masonry grid with placeholders, mode filters
+ *   and a lightbox; ?photo=<id> deep links open straight into the lightbox
  * - QR code surfaced on each photo for easy re-sharing
+ * - "Find my photos" selfie search when the event enables face search
+ * - Guest favourites and multi-select download as one ZIP
  */
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback } from 'react';
 import { useParams } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Download, Share2, ArrowLeft, Lock, Check, QrCode } from 'lucide-react';
+import { X, Download, Share2, ArrowLeft, Lock, Check, QrCode, ScanFace, Heart, CheckSquare } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { isVideoUrl } from '@/services/animationEncoder';
+import {
+  verifyGalleryPassword, getGalleryToken, setGalleryToken, clearGalleryToken,
+  galleryDownloadUrl, gallerySelectionZipUrl, getGalleryPage, getGalleryPhoto,
+  GALLERY_FILTER_MODES, type GalleryFilter, type GalleryPhoto,
+} from '@/lib/api';
+import { FaceSearchSheet } from './FaceSearch';
+import { HeartButton, MAX_SELECTION, SelectionBar, useGalleryFavourites } from './Favourites';
+import { VirtualMasonry } from './VirtualMasonry';
 
 const API_BASE      = process.env.NEXT_PUBLIC_API_URL  || 'http://localhost:3001';
 const FRONTEND_BASE = process.env.NEXT_PUBLIC_APP_URL  || 'https://photobooth-v2-xi.vercel.app';
 
-interface Photo {
-  id:         string;
-  url:        string;
-  thumb_url?: string;
-  gallery_url?: string;
-  short_code?: string;
-  mode:       string;
-  created_at: string;
-}
+type Photo = GalleryPhoto;
+
+const FILTERS: { key: GalleryFilter; label: string }[] = [
+  { key: 'all',   label: 'All' },
+  { key: 'photo', label: 'Photos' },
+  { key: 'gif',   label: 'GIFs' },
+  { key: 'strip', label: 'Strips' },
+  { key: 'ai',    label: 'AI' },
+];
 
 interface Event {
   id:   string;
   name: string;
   slug: string;
   branding?: { primaryColor?: string; logoUrl?: string; eventName?: string };
-  settings?: { galleryPassword?: string };
+  gallery_protected?: boolean;
+  gallery_expires_at?: string | null;
+  settings?: { faceSearchEnabled?: boolean; faceSearchConsentText?: string };
 }
 
 async function iosDownload(url: string, filename: string) {
@@ -46,6 +62,25 @@ async function iosDownload(url: string, filename: string) {
   } catch { window.open(url, '_blank'); }
 }
 
+// Video clips, and GIFs/boomerangs the booth encoded as MP4/WebM
+function isVideoItem(photo: Photo): boolean {
+  return photo.mode === 'video' || isVideoUrl(photo.url);
+}
+
+function fileExtension(photo: Photo): string {
+  if (isVideoItem(photo)) return photo.url.split('?')[0].endsWith('.mp4') ? 'mp4' : 'webm';
+  if (photo.mode === 'gif' || photo.mode === 'boomerang') return 'gif';
+  return 'jpg';
+}
+
+function httpStatus(err: unknown): number | undefined {
+  return (err as { response?: { status?: number } })?.response?.status;
+}
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 
 export default function GalleryPage() {
@@ -54,20 +89,42 @@ export default function GalleryPage() {
 
   const [event,   setEvent]   = useState<Event | null>(null);
   const [photos,  setPhotos]  = useState<Photo[]>([]);
+  const [total,   setTotal]   = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [error,   setError]   = useState('');
+  const [expired, setExpired] = useState(false);
 
   // Password gate
   const [needsPassword, setNeedsPassword] = useState(false);
   const [passwordInput,  setPasswordInput] = useState('');
   const [passwordError,  setPasswordError] = useState('');
   const [checkingPw,     setCheckingPw]    = useState(false);
+  const [accessToken,    setAccessToken]   = useState<string | null>(null);
+
+  // Pages — `pageRequest` drops responses for a filter the guest has left
+  const [filter,      setFilter]      = useState<GalleryFilter>('all');
+  const [nextCursor,  setNextCursor]  = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [pageFailed,  setPageFailed]  = useState(false);
+  const pageRequest = useRef(0);
 
   // Lightbox
   const [lightbox, setLightbox] = useState<Photo | null>(null);
   const [showQR,   setShowQR]   = useState(false);
   const [copied,   setCopied]   = useState(false);
 
+  // Face search — `matches` narrows the grid to the guest's photos
+  const [faceSearchOpen, setFaceSearchOpen] = useState(false);
+  const [matches,        setMatches]        = useState<Photo[] | null>(null);
+
+  // Favourites and multi-select
+  const [selecting,      setSelecting]      = useState(false);
+  const [selected,       setSelected]       = useState<string[]>([]);
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+  const { favourites, favouritePhotos, toggle: toggleFavourite } = useGalleryFavourites(
+    event?.slug || slug, !!event && !loading && !needsPassword && !expired, accessToken,
+  );
+
   const loadGallery = useCallback(async () => {
     setLoading(true);
     try {
@@ -84,7 +141,7 @@ export default function GalleryPage() {
           return;
         }
         if (eventSlug) {
-          window.location.replace(`/gallery/${eventSlug}`);
+          window.location.replace(`/gallery/${eventSlug}?photo=${slug}`);
           return;
         }
         throw new Error('Could not resolve gallery link');
@@ -97,20 +154,56 @@ export default function GalleryPage() {
       const ev: Event = evData.event;
       setEvent(ev);
 
+      // Magic link — keep the token for this tab and take it out of the address bar
+      const params = new URLSearchParams(window.location.search);
+      const linkToken = params.get('access');
+      if (linkToken) {
+        setGalleryToken(ev.id, linkToken);
+        params.delete('access');
+        const query = params.toString();
+        window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+      }
+
       // Check if password protected
-      if (ev.settings?.galleryPassword) {
-        const stored = sessionStorage.getItem(`gallery-auth-${ev.id}`);
-        if (stored !== 'ok') {
+      const token = getGalleryToken(ev.id);
+      if (ev.gallery_protected && !token) {
+        setNeedsPassword(true);
+        setLoading(false);
+        return;
+      }
+      setAccessToken(token);
+
+      // First page of photos
+      let page;
+      try {
+        page = await getGalleryPage(ev.slug, '', 'all', token);
+      } catch (err) {
+        if (httpStatus(err) === 401) {
+          // Expired, or revoked by the organiser
+          clearGalleryToken(ev.id);
+          setAccessToken(null);
+          setPasswordError(linkToken ? 'This link has expired — enter the gallery password' : 'Your session has expired — enter the password again');
           setNeedsPassword(true);
-          setLoading(false);
           return;
         }
+        if (httpStatus(err) === 410) {
+          setExpired(true);
+          return;
+        }
+        throw err;
+      }
+      pageRequest.current++;
+      setFilter('all');
+      setPhotos(page.photos);
+      setTotal(page.total ?? null);
+      setNextCursor(page.nextCursor);
+      setPageFailed(false);
+
+      // Deep link — open the photo even if it's pages away
+      const linkedPhoto = params.get('photo');
+      if (linkedPhoto) {
+        getGalleryPhoto(ev.slug, linkedPhoto, token).then(setLightbox).catch(() => {});
       }
-
-      // Load photos
-      const pRes   = await fetch(`${API_BASE}/api/photos/event/${ev.id}?limit=200`);
-      const pData  = await pRes.json();
-      setPhotos(pData.photos || []);
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : 'Failed to load gallery');
     } finally {
@@ -120,31 +213,74 @@ export default function GalleryPage() {
 
   useEffect(() => { loadGallery(); }, [loadGallery]);
 
+  // Next page of the current filter; '' starts the filter over
+  const loadPage = useCallback(async (cursor: string, mode: GalleryFilter) => {
+    if (!event) return;
+    const request = ++pageRequest.current;
+    setLoadingMore(true);
+    setPageFailed(false);
+    try {
+      const page = await getGalleryPage(event.slug, cursor, mode, accessToken);
+      if (request !== pageRequest.current) return;
+      setPhotos(prev => cursor ? [...prev, ...page.photos] : page.photos);
+      if (!cursor) setTotal(page.total ?? null);
+      setNextCursor(page.nextCursor);
+    } catch {
+      if (request === pageRequest.current) setPageFailed(true);
+    } finally {
+      if (request === pageRequest.current) setLoadingMore(false);
+    }
+  }, [event, accessToken]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor && !loadingMore && !pageFailed) loadPage(nextCursor, filter);
+  }, [nextCursor, loadingMore, pageFailed, loadPage, filter]);
+
+  function changeFilter(next: GalleryFilter) {
+    if (next === filter) return;
+    setFilter(next);
+    setPhotos([]);
+    setNextCursor(null);
+    loadPage('', next);
+  }
+
   async function submitPassword() {
     if (!event || !passwordInput.trim()) return;
     setCheckingPw(true);
     setPasswordError('');
     try {
-      const res  = await fetch(`${API_BASE}/api/events/${event.id}/gallery-auth`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password: passwordInput.trim() }),
-      });
-      const data = await res.json();
-      if (data.ok) {
-        sessionStorage.setItem(`gallery-auth-${event.id}`, 'ok');
+      const token = await verifyGalleryPassword(event.slug, passwordInput.trim());
+      if (token) {
+        setGalleryToken(event.id, token);
         setNeedsPassword(false);
         loadGallery();
       } else {
         setPasswordError('Incorrect password — try again');
       }
-    } catch {
-      setPasswordError('Could not verify — check connection');
     } finally {
       setCheckingPw(false);
     }
   }
 
+  function toggleSelected(photoId: string) {
+    setSelected(prev => prev.indexOf(photoId) === -1 ? [...prev, photoId] : prev.filter(id => id !== photoId));
+  }
+
+  function exitSelection() {
+    setSelecting(false);
+    setSelected([]);
+  }
+
+  function downloadSelection() {
+    if (selected.length > MAX_SELECTION) {
+      toast.error(`You can download up to ${MAX_SELECTION} photos at once`);
+      return;
+    }
+    const a = document.createElement('a');
+    a.href = gallerySelectionZipUrl(event?.slug || slug, selected, accessToken);
+    document.body.appendChild(a); a.click(); document.body.removeChild(a);
+  }
+
   async function handleShare(photo: Photo) {
     const url = photo.gallery_url || (photo.short_code ? `${FRONTEND_BASE}/p/${photo.short_code}` : photo.url);
     if (navigator.share) {
@@ -157,6 +293,13 @@ export default function GalleryPage() {
 
   const primaryColor = event?.branding?.primaryColor || '#7c3aed';
   const eventName    = event?.branding?.eventName || event?.name || 'SnapBooth';
+  // Face search results and favourites are complete lists, filtered here; the
+  // full gallery is filtered by the server as it pages
+  const localList    = matches ?? (favouritesOnly ? favouritePhotos : null);
+  const shownPhotos  = localList
+    ? localList.filter(p => filter === 'all' || GALLERY_FILTER_MODES[filter].indexOf(p.mode) !== -1)
+    : photos;
+  const photoCount   = total ?? photos.length;
 
   // ── Loading ───────────────────────────────────────────────────────────────
   if (loading) return (
@@ -199,6 +342,18 @@ export default function GalleryPage() {
     </div>
   );
 
+  // ── Expired ───────────────────────────────────────────────────────────────
+  if (expired) return (
+    <div className="min-h-screen bg-[#0a0a0f] flex items-center justify-center p-6 text-center">
+      <div><div className="text-5xl mb-4">⏳</div>
+        <h1 className="text-white font-bold text-xl mb-2">{eventName}</h1>
+        <p className="text-white/40 text-sm">
+          This gallery has closed{event?.gallery_expires_at ? ` — it was available until ${formatDay(event.gallery_expires_at)}` : ''}.
+        </p>
+        <p className="text-white/30 text-xs mt-2">Ask the event organiser if you still need your photos.</p></div>
+    </div>
+  );
+
   // ── Error ─────────────────────────────────────────────────────────────────
   if (error) return (
     <div className="min-h-screen bg-[#0a0a0f] flex items-center justify-center p-6 text-center">
@@ -223,13 +378,73 @@ export default function GalleryPage() {
             ? <img src={event.branding.logoUrl} alt={eventName} className="h-7 w-auto mx-auto object-contain" />
             : <p className="text-white font-bold text-sm">{eventName}</p>
           }
-          <p className="text-white/30 text-xs">{photos.length} photo{photos.length !== 1 ? 's' : ''}</p>
+          <p className="text-white/30 text-xs">
+            {photoCount} photo{photoCount !== 1 ? 's' : ''}
+            {event?.gallery_expires_at && <> · available until {formatDay(event.gallery_expires_at)}</>}
+          </p>
         </div>
-        <div className="w-10" />
+        {event?.settings?.faceSearchEnabled ? (
+          <button onClick={() => setFaceSearchOpen(true)} title="Find my photos"
+            className="w-10 h-10 -mr-2 flex items-center justify-center text-white/60 hover:text-white transition-colors">
+            <ScanFace className="w-5 h-5" />
+          </button>
+        ) : <div className="w-10" />}
       </div>
 
+      {/* Face search results banner */}
+      {matches && (
+        <div className="flex items-center justify-between gap-3 px-4 py-2.5 border-b border-white/10" style={{ background: `${primaryColor}20` }}>
+          <p className="text-white/80 text-sm">
+            {matches.length
+              ? `Found you in ${matches.length} photo${matches.length !== 1 ? 's' : ''}`
+              : 'No photos of you yet — check back after your next visit to the booth'}
+          </p>
+          <button onClick={() => setMatches(null)} className="text-white text-xs font-semibold flex-shrink-0 underline underline-offset-2">
+            Show all
+          </button>
+        </div>
+      )}
+
+      {/* Filters / favourites / select toolbar */}
+      {(photos.length > 0 || filter !== 'all' || favourites.length > 0) && (
+        <div className="flex items-center gap-2 px-3 py-2 overflow-x-auto">
+          {FILTERS.map(f => (
+            <button key={f.key} onClick={() => changeFilter(f.key)}
+              className={`px-3 py-1.5 rounded-full text-xs font-semibold border transition-colors flex-shrink-0 ${
+                filter === f.key ? 'text-white' : 'border-white/15 text-white/60 hover:text-white'
+              }`}
+              style={filter === f.key ? { background: `${primaryColor}40`, borderColor: primaryColor } : undefined}>
+              {f.label}
+            </button>
+          ))}
+          <div className="flex-1" />
+          <button onClick={() => setFavouritesOnly(v => !v)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-semibold border transition-colors flex-shrink-0 ${
+              favouritesOnly ? 'border-rose-500/50 bg-rose-500/15 text-rose-300' : 'border-white/15 text-white/60 hover:text-white'
+            }`}>
+            <Heart className={`w-3.5 h-3.5 ${favouritesOnly ? 'fill-rose-400' : ''}`} />
+            Favourites{favourites.length ? ` (${favourites.length})` : ''}
+          </button>
+          <button onClick={() => selecting ? exitSelection() : setSelecting(true)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-semibold border transition-colors flex-shrink-0 ${
+              selecting ? 'border-white/40 bg-white/10 text-white' : 'border-white/15 text-white/60 hover:text-white'
+            }`}>
+            <CheckSquare className="w-3.5 h-3.5" /> {selecting ? 'Done' : 'Select'}
+          </button>
+        </div>
+      )}
+
+      {favouritesOnly && !matches && shownPhotos.length === 0 && (
+        <p className="text-center text-white/40 text-sm py-16">
+          {favourites.length ? 'None of your favourites match this filter' : 'Tap the heart on a photo to add it to your favourites'}
+        </p>
+      )}
+      {!localList && filter !== 'all' && photos.length === 0 && !loadingMore && !pageFailed && (
+        <p className="text-center text-white/40 text-sm py-16">Nothing here yet</p>
+      )}
+
       {/* Empty state */}
-      {photos.length === 0 && (
+      {photos.length === 0 && filter === 'all' && !localList && !loadingMore && (
         <div className="flex flex-col items-center justify-center min-h-[60vh] gap-3">
           <div className="text-5xl">📷</div>
           <p className="text-white/50 text-base font-semibold">No photos yet</p>
@@ -238,32 +453,65 @@ export default function GalleryPage() {
       )}
 
       {/* Photo grid */}
-      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-1 p-1">
-        {photos.map((photo, i) => (
-          <motion.div
-            key={photo.id}
-            initial={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            transition={{ delay: Math.min(i * 0.03, 0.5) }}
-            onClick={() => setLightbox(photo)}
-            className="relative aspect-square cursor-pointer overflow-hidden bg-black group"
+      <VirtualMasonry
+        photos={shownPhotos}
+        hasMore={!localList && !!nextCursor && !pageFailed}
+        onEndReached={loadMore}
+        renderTile={photo => (
+          <div
+            onClick={() => selecting ? toggleSelected(photo.id) : setLightbox(photo)}
+            className="relative w-full h-full cursor-pointer overflow-hidden bg-black group"
+            style={photo.placeholder ? { backgroundImage: `url(${photo.placeholder})`, backgroundSize: 'cover', backgroundPosition: 'center' } : undefined}
           >
             {/* eslint-disable-next-line @next/next/no-img-element */}
             <img
               src={photo.thumb_url || photo.url}
               alt="Photo"
-              className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+              className="w-full h-full object-cover opacity-0 transition duration-300 group-hover:scale-105"
+              onLoad={e => e.currentTarget.classList.remove('opacity-0')}
               loading="lazy"
+              decoding="async"
             />
             {/* Mode badge */}
             <div className="absolute bottom-1.5 left-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
               <span className="bg-black/70 rounded-full px-2 py-0.5 text-white text-xs">
-                {photo.mode === 'gif' ? '🎬' : photo.mode === 'boomerang' ? '🔄' : photo.mode === 'strip' ? '🎞️' : '📸'}
+                {photo.mode === 'gif' ? '🎬' : photo.mode === 'boomerang' ? '🔄' : photo.mode === 'strip' ? '🎞️' : photo.mode === 'video' ? '🎥' : photo.mode === 'ai' ? '✨' : '📸'}
               </span>
             </div>
-          </motion.div>
-        ))}
-      </div>
+            {isVideoItem(photo) && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <span className="w-10 h-10 rounded-full bg-black/60 flex items-center justify-center text-white text-sm">▶</span>
+              </div>
+            )}
+            {selecting ? (
+              <div className={`absolute inset-0 transition-colors ${selected.indexOf(photo.id) !== -1 ? 'bg-black/40' : ''}`}>
+                <span className="absolute top-1.5 right-1.5 w-6 h-6 rounded-full border-2 border-white flex items-center justify-center"
+                  style={selected.indexOf(photo.id) !== -1 ? { background: primaryColor, borderColor: primaryColor } : { background: 'rgba(0,0,0,0.3)' }}>
+                  {selected.indexOf(photo.id) !== -1 && <Check className="w-4 h-4 text-white" />}
+                </span>
+              </div>
+            ) : (
+              <HeartButton active={favourites.indexOf(photo.id) !== -1} onToggle={() => toggleFavourite(photo)}
+                className="absolute bottom-1 right-1 w-9 h-9" />
+            )}
+          </div>
+        )}
+      />
+
+      {/* Paging status */}
+      {!localList && loadingMore && (
+        <div className="flex justify-center py-6">
+          <div className="w-6 h-6 border-2 border-purple-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      )}
+      {!localList && pageFailed && (
+        <div className="text-center py-6">
+          <p className="text-white/40 text-sm mb-2">Couldn&apos;t load more photos</p>
+          <button onClick={() => loadPage(nextCursor || '', filter)} className="text-white text-xs font-semibold underline underline-offset-2">
+            Try again
+          </button>
+        </div>
+      )}
 
       {/* Lightbox */}
       <AnimatePresence>
@@ -282,6 +530,7 @@ export default function GalleryPage() {
                 {lightbox.mode === 'gif' ? '🎬 GIF'
                   : lightbox.mode === 'boomerang' ? '🔄 Boomerang'
                   : lightbox.mode === 'strip' ? '🎞️ Strip'
+                  : lightbox.mode === 'video' ? '🎥 Video'
                   : '📸 Photo'}
               </span>
               <button onClick={() => setLightbox(null)} className="text-white/50 hover:text-white">
@@ -291,20 +540,36 @@ export default function GalleryPage() {
 
             {/* Photo */}
             <div className="flex-1 flex items-center justify-center p-4 overflow-hidden">
-              <motion.img
-                src={lightbox.url} alt="Photo"
-                initial={{ scale: 0.9, opacity: 0 }} animate={{ scale: 1, opacity: 1 }}
-                className="max-w-full max-h-full object-contain rounded-2xl"
-                style={{ maxHeight: 'calc(100dvh - 200px)' }}
-              />
+              {isVideoItem(lightbox) ? (
+                <video
+                  src={lightbox.url} poster={lightbox.thumb_url}
+                  autoPlay controls playsInline loop={lightbox.mode !== 'video'}
+                  className="max-w-full max-h-full object-contain rounded-2xl"
+                  style={{ maxHeight: 'calc(100dvh - 200px)' }}
+                />
+              ) : (
+                <motion.img
+                  src={lightbox.url} alt="Photo"
+                  initial={{ scale: 0.9, opacity: 0 }} animate={{ scale: 1, opacity: 1 }}
+                  className="max-w-full max-h-full object-contain rounded-2xl"
+                  style={{ maxHeight: 'calc(100dvh - 200px)' }}
+                />
+              )}
             </div>
 
             {/* Actions */}
             <div className="flex-shrink-0 px-4 pb-6 pt-2 space-y-2">
-              <div className="grid grid-cols-3 gap-2">
+              <div className="grid grid-cols-4 gap-2">
+                {/* Favourite */}
+                <button onClick={() => toggleFavourite(lightbox)}
+                  className="flex flex-col items-center gap-1.5 py-3.5 rounded-2xl bg-white/8 border border-white/15 text-white hover:bg-white/12 transition-colors">
+                  <Heart className={`w-5 h-5 ${favourites.indexOf(lightbox.id) !== -1 ? 'fill-rose-500 text-rose-500' : ''}`} />
+                  <span className="text-xs">Favourite</span>
+                </button>
+
                 {/* Download */}
                 <button
-                  onClick={() => iosDownload(lightbox.url, `${eventName.replace(/\s+/g, '-')}-${lightbox.id.slice(0, 6)}.${lightbox.mode === 'gif' || lightbox.mode === 'boomerang' ? 'gif' : 'jpg'}`)}
+                  onClick={() => iosDownload(galleryDownloadUrl(event?.slug || slug, lightbox.id, accessToken), `${eventName.replace(/\s+/g, '-')}-${lightbox.id.slice(0, 6)}.${fileExtension(lightbox)}`)}
                   className="flex flex-col items-center gap-1.5 py-3.5 rounded-2xl bg-white/8 border border-white/15 text-white hover:bg-white/12 transition-colors">
                   <Download className="w-5 h-5" />
                   <span className="text-xs">Save</span>
@@ -362,8 +627,36 @@ export default function GalleryPage() {
         )}
       </AnimatePresence>
 
+      {/* Face search */}
+      <AnimatePresence>
+        {faceSearchOpen && (
+          <FaceSearchSheet
+            slug={slug}
+            token={accessToken}
+            consentText={event?.settings?.faceSearchConsentText}
+            primaryColor={primaryColor}
+            onResults={found => { setMatches(found); setFaceSearchOpen(false); }}
+            onClose={() => setFaceSearchOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Selection */}
+      <AnimatePresence>
+        {selecting && (
+          <SelectionBar
+            count={selected.length}
+            favouriteCount={favourites.length}
+            primaryColor={primaryColor}
+            onSelectFavourites={() => setSelected(favourites)}
+            onDownload={downloadSelection}
+            onCancel={exitSelection}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Footer */}
-      <div className="py-8 text-center">
+      <div className={`py-8 text-center ${selecting ? 'pb-24' : ''}`}>
         <p className="text-white/15 text-xs">Powered by SnapBooth AI</p>
       </div>
     </div>
@@ -0,0 +1,126 @@
+'use client';
+
+/**
+ * Session album view for /p/[code] — everything one guest made in a single visit.
+ * Each item opens its own /p/[code] page; "Save all" downloads them one by one.
+ */
+
+import { useState } from 'react';
+import { Download, Share2, Check } from 'lucide-react';
+import type { SessionAlbum as Album, SessionAlbumItem } from '@/lib/api';
+import { isVideoUrl } from '@/services/animationEncoder';
+import { iosCompatibleDownload } from '@/lib/download';
+
+const MODE_BADGES: Record<string, string> = {
+  gif: '🎬 GIF',
+  boomerang: '🔄 Boomerang',
+  strip: '🎞️ Strip',
+  ai: '🤖 AI',
+  video: '🎥 Video',
+  burst: '📸 Burst',
+};
+
+function fileExtension(item: SessionAlbumItem) {
+  const path = item.url.split('?')[0];
+  if (item.mode === 'video' || isVideoUrl(item.url)) return path.endsWith('.mp4') ? 'mp4' : 'webm';
+  return path.endsWith('.gif') ? 'gif' : 'jpg';
+}
+
+export function SessionAlbum({ album }: { album: Album }) {
+  const [saving, setSaving] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const branding = album.event?.branding;
+  const primaryColor = branding?.primaryColor || '#7c3aed';
+  const eventName = branding?.eventName || album.event?.name || 'SnapBooth';
+  const date = new Date(album.createdAt).toISOString().split('T')[0];
+  const baseName = `${eventName.replace(/\s+/g, '-')}-${date}`;
+
+  async function handleSaveAll() {
+    for (let i = 0; i < album.items.length; i++) {
+      setSaving(i + 1);
+      const item = album.items[i];
+      await iosCompatibleDownload(item.url, `${baseName}-${i + 1}.${fileExtension(item)}`);
+    }
+    setTimeout(() => setSaving(null), 1500);
+  }
+
+  async function handleShare() {
+    if (navigator.share) {
+      try { await navigator.share({ title: `My photos from ${eventName}`, url: album.url }); return; }
+      catch { /* cancelled */ }
+    }
+    await navigator.clipboard.writeText(album.url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2500);
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f] flex flex-col">
+
+      {/* Header */}
+      <div className="flex items-center justify-center px-4 py-3 border-b border-white/10 bg-[#0d0d18]">
+        {branding?.logoUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={branding.logoUrl} alt={eventName} className="h-7 w-auto object-contain" />
+        ) : (
+          <p className="text-white font-bold text-sm">{eventName}</p>
+        )}
+      </div>
+
+      <div className="flex-1 w-full max-w-2xl mx-auto p-4 sm:p-8">
+        <h1 className="text-white font-bold text-xl text-center">Your photos</h1>
+        <p className="text-white/40 text-sm text-center mt-1 mb-6">
+          {album.items.length} from {eventName}
+        </p>
+
+        {/* Items */}
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-6">
+          {album.items.map(item => {
+            const video = item.mode === 'video' || isVideoUrl(item.url);
+            return (
+              <a key={item.id} href={item.short_code ? `/p/${item.short_code}` : item.url}
+                className="relative block rounded-xl overflow-hidden bg-black aspect-[3/4]"
+                style={{ boxShadow: `0 0 30px ${primaryColor}22` }}>
+                {video ? (
+                  <video src={item.url} poster={item.thumb_url} muted playsInline loop autoPlay
+                    className="w-full h-full object-cover" />
+                ) : (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={item.thumb_url || item.url} alt="" className="w-full h-full object-cover" loading="lazy" />
+                )}
+                {MODE_BADGES[item.mode] && (
+                  <span className="absolute top-2 left-2 bg-black/60 backdrop-blur-sm rounded-full px-2 py-0.5 text-[10px] text-white/70 font-medium">
+                    {MODE_BADGES[item.mode]}
+                  </span>
+                )}
+              </a>
+            );
+          })}
+        </div>
+
+        {/* Actions */}
+        <div className="space-y-3 max-w-lg mx-auto">
+          <button onClick={handleSaveAll} disabled={saving !== null}
+            className="w-full py-4 rounded-2xl font-bold text-white text-base flex items-center justify-center gap-3 transition-all active:scale-95 disabled:opacity-70"
+            style={{ background: `linear-gradient(135deg, ${primaryColor}, ${primaryColor}bb)` }}>
+            <Download className="w-5 h-5" />
+            {saving !== null ? `Saving ${Math.min(saving, album.items.length)} of ${album.items.length}…` : 'Save All'}
+          </button>
+
+          <button onClick={handleShare}
+            className="w-full py-3.5 rounded-2xl font-semibold text-white/80 text-sm flex items-center justify-center gap-3 bg-white/8 border border-white/15 hover:bg-white/12 transition-all active:scale-95">
+            {copied
+              ? <><Check className="w-5 h-5 text-green-400" /><span className="text-green-400">Link copied!</span></>
+              : <><Share2 className="w-5 h-5" /><span>Share this album</span></>
+            }
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-shrink-0 px-4 pb-6 pt-2 text-center">
+        <p className="text-white/15 text-xs">Powered by SnapBooth AI</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * GET /p/[code]/og — 1200×630 branded link preview for a short link: the photo
+ * (or the first few from a session album) on the event's colour, with its logo or
+ * name. Unknown codes still get a branded card, so previews never come up blank.
+ */
+
+import { ImageResponse } from 'next/og';
+import { eventNameOf, resolveShortLink, videoType, type ShortLink } from '../shortLink';
+
+export const runtime = 'edge';
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+const PHOTO_BOX = 520;
+
+interface Preview {
+  eventName: string;
+  primaryColor: string;
+  logoUrl?: string;
+  caption: string;
+  images: { src: string; width: number; height: number }[];
+}
+
+// Fit a photo of known dimensions inside the box; square when unknown
+function fit(width?: number | null, height?: number | null, box = PHOTO_BOX) {
+  if (!width || !height) return { width: box, height: box };
+  const scale = Math.min(box / width, box / height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+// Animated captures are MP4/WebM — the preview uses their still thumbnail
+function stillOf(item: { url: string; thumb_url?: string }) {
+  return item.thumb_url || (videoType(item.url) ? null : item.url);
+}
+
+function previewFor(link: ShortLink | null): Preview {
+  if (link?.kind === 'photo') {
+    const { photo } = link;
+    const src = stillOf(photo);
+    return {
+      eventName: eventNameOf(photo.event),
+      primaryColor: photo.event?.branding?.primaryColor || '#7c3aed',
+      logoUrl: photo.event?.branding?.logoUrl,
+      caption: photo.mode === 'gif' || photo.mode === 'boomerang' ? 'Tap to watch and save' : 'Tap to view and download',
+      images: src ? [{ src, ...fit(photo.width, photo.height) }] : [],
+    };
+  }
+  if (link?.kind === 'album') {
+    const { album } = link;
+    const stills = album.items.map(stillOf).filter((src): src is string => !!src).slice(0, 3);
+    return {
+      eventName: eventNameOf(album.event),
+      primaryColor: album.event?.branding?.primaryColor || '#7c3aed',
+      logoUrl: album.event?.branding?.logoUrl,
+      caption: `${album.items.length} photo${album.items.length !== 1 ? 's' : ''} from one visit`,
+      images: stills.map(src => ({ src, width: 220, height: 293 })),
+    };
+  }
+  return { eventName: 'SnapBooth', primaryColor: '#7c3aed', caption: 'Your photo is on its way', images: [] };
+}
+
+export async function GET(_request: Request, { params }: { params: { code: string } }) {
+  const preview = previewFor(await resolveShortLink(params.code).catch(() => null));
+  const { primaryColor } = preview;
+
+  return new ImageResponse(
+    (
+      <div style={{
+        width: '100%', height: '100%', display: 'flex', alignItems: 'center', padding: 55, gap: 56,
+        background: `linear-gradient(135deg, ${primaryColor} 0%, #0a0a0f 75%)`, color: 'white',
+      }}>
+        {preview.images.length > 0 && (
+          <div style={{ display: 'flex', gap: 16, alignItems: 'center' }}>
+            {preview.images.map((image, i) => (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img key={i} src={image.src} alt="" width={image.width} height={image.height}
+                style={{
+                  objectFit: 'cover', borderRadius: 24, border: '6px solid rgba(255,255,255,0.9)',
+                  transform: preview.images.length > 1 ? `rotate(${(i - 1) * 4}deg)` : 'none',
+                }} />
+            ))}
+          </div>
+        )}
+        <div style={{ display: 'flex', flexDirection: 'column', flex: 1, gap: 20 }}>
+          {preview.logoUrl
+            // eslint-disable-next-line @next/next/no-img-element
+            ? <img src={preview.logoUrl} alt="" width={420} height={96} style={{ objectFit: 'contain', objectPosition: 'left' }} />
+            : <div style={{ fontSize: 64, fontWeight: 800, lineHeight: 1.1 }}>{preview.eventName}</div>}
+          {preview.logoUrl && <div style={{ fontSize: 40, fontWeight: 700 }}>{preview.eventName}</div>}
+          <div style={{ fontSize: 30, opacity: 0.75 }}>{preview.caption}</div>
+          <div style={{ fontSize: 22, opacity: 0.45, marginTop: 24 }}>SnapBooth AI</div>
+        </div>
+      </div>
+    ),
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      headers: { 'Cache-Control': 'public, max-age=300, stale-while-revalidate=86400' },
+    },
+  );
+}
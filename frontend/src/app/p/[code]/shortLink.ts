@@ -0,0 +1,68 @@
+/**
+ * Resolve a /p/[code] short code to a photo or a session album. Plain fetch so it
+ * runs everywhere the code is needed: server rendering (metadata for link
+ * previews), the Edge OG image route, and the client's polling while a queued
+ * capture is still uploading.
+ */
+
+import type { SessionAlbum } from '@/lib/api';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+// Link previews are cached briefly; a capture that's still uploading shows up
+// within a minute
+const REVALIDATE_SECONDS = 60;
+
+export interface PhotoData {
+  id: string;
+  url: string;
+  thumb_url?: string;
+  download_url?: string;
+  short_code?: string;
+  mode: string;
+  created_at: string;
+  width?: number | null;
+  height?: number | null;
+  event?: {
+    name: string;
+    branding?: {
+      primaryColor?: string;
+      logoUrl?: string;
+      eventName?: string;
+    };
+  };
+}
+
+export type ShortLink =
+  | { kind: 'photo'; photo: PhotoData }
+  | { kind: 'album'; album: SessionAlbum };
+
+/**
+ * The photo or album behind a code, or null when there is neither (yet)
+ */
+export async function resolveShortLink(code: string): Promise<ShortLink | null> {
+  const photoRes = await fetch(`${API_BASE}/api/photos/short/${encodeURIComponent(code)}`, { next: { revalidate: REVALIDATE_SECONDS } });
+  if (photoRes.ok) {
+    const data = await photoRes.json();
+    const { events, ...photo } = data.photo || data;
+    return { kind: 'photo', photo: { ...photo, event: photo.event ?? events ?? undefined } };
+  }
+  if (photoRes.status !== 404) throw new Error(`Photo not found (${photoRes.status})`);
+
+  const albumRes = await fetch(`${API_BASE}/api/sessions/short/${encodeURIComponent(code)}`, { next: { revalidate: REVALIDATE_SECONDS } });
+  if (!albumRes.ok) return null;
+  const { album } = await albumRes.json();
+  return album?.items?.length ? { kind: 'album', album } : null;
+}
+
+export function eventNameOf(event?: { name: string; branding?: { eventName?: string } } | null) {
+  return event?.branding?.eventName || event?.name || 'SnapBooth';
+}
+
+// Animated captures the booth encoded as MP4/WebM
+export function videoType(url: string | undefined): string | null {
+  const path = (url || '').split('?')[0].toLowerCase();
+  if (path.endsWith('.mp4')) return 'video/mp4';
+  if (path.endsWith('.webm')) return 'video/webm';
+  return null;
+}
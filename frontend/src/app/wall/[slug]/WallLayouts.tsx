@@ -0,0 +1,209 @@
+'use client';
+
+/**
+ * Social wall layouts. Each takes the current feed (newest first) plus the ids that
+ * just arrived, animates those in, and keeps the screen moving with older photos
+ * between captures. Photos that drop out of the feed (hidden, unapproved) leave
+ * the screen on the next render.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { WallPhoto } from '@/lib/api';
+import { isVideoUrl } from '@/services/animationEncoder';
+
+interface WallLayoutProps {
+  photos: WallPhoto[];
+  freshIds: string[];
+  slideSeconds: number;
+  primaryColor: string;
+}
+
+function WallMedia({ photo, className }: { photo: WallPhoto; className: string }) {
+  if (photo.mode === 'video' || isVideoUrl(photo.url)) {
+    return <video src={photo.url} poster={photo.thumb_url} muted autoPlay loop playsInline className={className} />;
+  }
+  // eslint-disable-next-line @next/next/no-img-element
+  return <img src={photo.gallery_url || photo.url} alt="" className={className} />;
+}
+
+function randomItem<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+// ─── Mosaic ───────────────────────────────────────────────────────────────────
+
+const MOSAIC_TILES = 12;
+
+// Fresh photos lead, tiles still in the feed keep their place, gaps fill from the feed
+function fillTiles(prev: WallPhoto[], photos: WallPhoto[], freshIds: string[]): WallPhoto[] {
+  const live = new Set(photos.map(p => p.id));
+  const tiles = [
+    ...photos.filter(p => freshIds.indexOf(p.id) !== -1),
+    ...prev.filter(t => live.has(t.id) && freshIds.indexOf(t.id) === -1),
+  ];
+  const shown = new Set(tiles.map(t => t.id));
+  for (let i = 0; i < photos.length && tiles.length < MOSAIC_TILES; i++) {
+    if (!shown.has(photos[i].id)) tiles.push(photos[i]);
+  }
+  return tiles.slice(0, MOSAIC_TILES);
+}
+
+export function MosaicWall({ photos, freshIds, slideSeconds, primaryColor }: WallLayoutProps) {
+  const [tiles, setTiles] = useState<WallPhoto[]>(() => fillTiles([], photos, []));
+
+  useEffect(() => {
+    setTiles(prev => fillTiles(prev, photos, freshIds));
+  }, [photos, freshIds]);
+
+  // Swap one tile for an off-screen photo now and then
+  useEffect(() => {
+    if (photos.length <= MOSAIC_TILES) return;
+    const timer = setInterval(() => {
+      setTiles(prev => {
+        const shown = new Set(prev.map(t => t.id));
+        const offscreen = photos.filter(p => !shown.has(p.id));
+        if (!offscreen.length) return prev;
+        const next = prev.slice();
+        next[Math.floor(Math.random() * next.length)] = randomItem(offscreen);
+        return next;
+      });
+    }, slideSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [photos, slideSeconds]);
+
+  return (
+    <div className="absolute inset-0 p-6 pb-32 grid grid-cols-4 grid-rows-3 gap-4">
+      <AnimatePresence mode="popLayout">
+        {tiles.map(photo => {
+          const fresh = freshIds.indexOf(photo.id) !== -1;
+          return (
+            <motion.div key={photo.id} layout
+              initial={{ opacity: 0, scale: fresh ? 1.4 : 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.9 }}
+              transition={{ type: 'spring', stiffness: 120, damping: 18 }}
+              className="relative rounded-2xl overflow-hidden bg-white/5"
+              style={fresh ? { boxShadow: `0 0 0 4px ${primaryColor}, 0 0 40px ${primaryColor}88` } : undefined}>
+              <WallMedia photo={photo} className="w-full h-full object-cover" />
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// ─── Carousel ─────────────────────────────────────────────────────────────────
+
+export function CarouselWall({ photos, freshIds, slideSeconds, primaryColor }: WallLayoutProps) {
+  const [index, setIndex] = useState(0);
+
+  // A new capture interrupts the rotation
+  useEffect(() => {
+    if (freshIds.length) setIndex(0);
+  }, [freshIds]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setIndex(i => (i + 1) % photos.length), slideSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [photos.length, slideSeconds, freshIds]);
+
+  const photo = photos[index % photos.length];
+  const fresh = freshIds.indexOf(photo.id) !== -1;
+
+  return (
+    <div className="absolute inset-0">
+      {/* Blurred fill behind letterboxed photos */}
+      <AnimatePresence>
+        <motion.div key={`bg-${photo.id}`} className="absolute inset-0"
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 1 }}>
+          <WallMedia photo={photo} className="w-full h-full object-cover blur-3xl scale-110 opacity-40" />
+        </motion.div>
+      </AnimatePresence>
+
+      <AnimatePresence mode="wait">
+        <motion.div key={photo.id} className="absolute inset-0 p-10 pb-36 flex items-center justify-center"
+          initial={{ opacity: 0, x: 120 }} animate={{ opacity: 1, x: 0 }} exit={{ opacity: 0, x: -120 }}
+          transition={{ duration: 0.6, ease: 'easeOut' }}>
+          <div className="relative h-full">
+            <WallMedia photo={photo} className="h-full w-auto max-w-full object-contain rounded-3xl shadow-2xl" />
+            {fresh && (
+              <span className="absolute top-4 left-4 px-4 py-1.5 rounded-full text-white font-bold text-lg shadow-lg"
+                style={{ background: primaryColor }}>
+                Just now
+              </span>
+            )}
+          </div>
+        </motion.div>
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// ─── Polaroid drop ────────────────────────────────────────────────────────────
+
+const PILE_SIZE = 9;
+
+interface PileCard {
+  key: number;
+  photo: WallPhoto;
+  left: number;
+  top: number;
+  rotate: number;
+}
+
+export function PolaroidWall({ photos, freshIds, slideSeconds, primaryColor }: WallLayoutProps) {
+  const nextKey = useRef(0);
+
+  function drop(photo: WallPhoto): PileCard {
+    return {
+      key: nextKey.current++,
+      photo,
+      left: 8 + Math.random() * 62,
+      top: 4 + Math.random() * 40,
+      rotate: Math.random() * 24 - 12,
+    };
+  }
+
+  // Oldest first so the newest lands on top
+  const [pile, setPile] = useState<PileCard[]>(() => photos.slice(0, PILE_SIZE).reverse().map(drop));
+
+  useEffect(() => {
+    const live = new Set(photos.map(p => p.id));
+    const fresh = photos.filter(p => freshIds.indexOf(p.id) !== -1).reverse();
+    setPile(prev => [...prev.filter(c => live.has(c.photo.id)), ...fresh.map(drop)].slice(-PILE_SIZE));
+  }, [photos, freshIds]);
+
+  // Re-drop an older photo between captures so the pile keeps moving
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (photos.length) setPile(prev => [...prev, drop(randomItem(photos))].slice(-PILE_SIZE));
+    }, slideSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [photos, slideSeconds]);
+
+  return (
+    <div className="absolute inset-0 pb-28">
+      <AnimatePresence>
+        {pile.map(card => (
+          <motion.div key={card.key}
+            className="absolute bg-white p-3 pb-12 shadow-2xl"
+            style={{ left: `${card.left}%`, top: `${card.top}%`, width: '26vw', maxWidth: 420 }}
+            initial={{ y: '-120vh', rotate: card.rotate * 3, scale: 1.3 }}
+            animate={{ y: 0, rotate: card.rotate, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.8 }}
+            transition={{ type: 'spring', stiffness: 60, damping: 14 }}>
+            <div className="aspect-square overflow-hidden bg-zinc-200">
+              <WallMedia photo={card.photo} className="w-full h-full object-cover" />
+            </div>
+            <p className="absolute bottom-3 left-0 right-0 text-center font-semibold text-lg"
+              style={{ color: primaryColor }}>
+              {new Date(card.photo.created_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+            </p>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
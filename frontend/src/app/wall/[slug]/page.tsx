@@ -0,0 +1,145 @@
+'use client';
+
+/**
+ * /app/wall/[slug]/page.tsx
+ * Social wall — the venue-facing display for a projector or TV.
+ *
+ * New captures animate in as they happen. The feed comes from the backend, which
+ * already drops hidden photos and, with wallRequireApproval on, anything not yet
+ * approved in the Moderation tab — so the wall only re-fetches when the socket
+ * says something changed and never decides visibility itself.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useParams } from 'next/navigation';
+import QRCode from 'qrcode.react';
+import { getWallFeed, type WallFeed } from '@/lib/api';
+import { connectEventSocket } from '@/lib/socket';
+import { MosaicWall, CarouselWall, PolaroidWall } from './WallLayouts';
+
+const REFETCH_DEBOUNCE_MS = 800;
+// Socket events can be missed across a venue Wi-Fi drop — poll as a safety net
+const FALLBACK_POLL_MS = 30_000;
+
+export default function SocialWallPage() {
+  const params = useParams();
+  const slug = params.slug as string;
+
+  const [feed, setFeed] = useState<WallFeed | null>(null);
+  const [error, setError] = useState('');
+  const [freshIds, setFreshIds] = useState<string[]>([]);
+  const seenIds = useRef<Set<string> | null>(null);
+  // Walls of protected galleries open from a display link carrying ?access=
+  const accessToken = useRef<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const next = await getWallFeed(slug, accessToken.current);
+      // The first load is the backlog; only photos that show up afterwards animate in as new
+      if (seenIds.current) {
+        const seen = seenIds.current;
+        setFreshIds(next.photos.filter(p => !seen.has(p.id)).map(p => p.id));
+      }
+      seenIds.current = new Set(next.photos.map(p => p.id));
+      setFeed(next);
+      setError('');
+    } catch (err: unknown) {
+      const status = (err as { response?: { status?: number } })?.response?.status;
+      if (status === 404) setError('This wall does not exist');
+      else if (status === 401) setError('Open this wall from the display link in the event dashboard');
+      else if (status === 410) setError('This gallery has expired');
+      // Otherwise keep showing the last feed — the next poll will catch up
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    accessToken.current = new URLSearchParams(window.location.search).get('access');
+    refresh();
+  }, [refresh]);
+
+  const eventId = feed?.event.id;
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const socket = connectEventSocket(eventId);
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleRefresh = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(refresh, REFETCH_DEBOUNCE_MS);
+    };
+
+    socket.on('photo-taken', scheduleRefresh);
+    socket.on('photo-moderated', scheduleRefresh);
+
+    const poll = setInterval(refresh, FALLBACK_POLL_MS);
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      clearInterval(poll);
+      socket.disconnect();
+    };
+  }, [eventId, refresh]);
+
+  if (error) {
+    return (
+      <div className="fixed inset-0 bg-black flex items-center justify-center">
+        <p className="text-white/40 text-lg">{error}</p>
+      </div>
+    );
+  }
+
+  if (!feed) {
+    return (
+      <div className="fixed inset-0 bg-black flex items-center justify-center">
+        <div className="w-10 h-10 border-2 border-white/20 border-t-white rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const { event, wall, photos } = feed;
+  const primaryColor = event.branding?.primaryColor || '#7c3aed';
+  const eventName = event.branding?.eventName || event.name;
+  const galleryUrl = `${window.location.origin}/gallery/${event.slug}`;
+
+  return (
+    <div className="fixed inset-0 bg-black overflow-hidden cursor-none select-none"
+      style={{ background: `radial-gradient(ellipse at center, ${primaryColor}26 0%, #000 70%)` }}>
+
+      {photos.length === 0 ? (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-4">
+          <p className="text-white font-black text-5xl">{eventName}</p>
+          <p className="text-white/50 text-2xl">Strike a pose at the photo booth — your photo appears here</p>
+        </div>
+      ) : wall.layout === 'carousel' ? (
+        <CarouselWall photos={photos} freshIds={freshIds} slideSeconds={wall.slideSeconds} primaryColor={primaryColor} />
+      ) : wall.layout === 'polaroid' ? (
+        <PolaroidWall photos={photos} freshIds={freshIds} slideSeconds={wall.slideSeconds} primaryColor={primaryColor} />
+      ) : (
+        <MosaicWall photos={photos} freshIds={freshIds} slideSeconds={wall.slideSeconds} primaryColor={primaryColor} />
+      )}
+
+      {/* Branding */}
+      <div className="absolute bottom-0 left-0 right-0 px-10 py-6 flex items-end justify-between pointer-events-none bg-gradient-to-t from-black/80 to-transparent">
+        {event.branding?.logoUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={event.branding.logoUrl} alt={eventName} className="h-16 w-auto object-contain" />
+        ) : (
+          <p className="text-white font-black text-4xl drop-shadow-lg">{eventName}</p>
+        )}
+
+        {wall.showQR && (
+          <div className="flex items-center gap-4 bg-black/60 backdrop-blur-sm rounded-3xl p-4 border border-white/10">
+            <div className="text-right">
+              <p className="text-white font-bold text-xl">Find your photos</p>
+              <p className="text-white/50 text-sm">Scan to open the gallery</p>
+            </div>
+            <div className="bg-white p-2 rounded-xl">
+              <QRCode value={galleryUrl} size={120} level="M" includeMargin={false} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+/**
+ * ChromaKeyCalibrator
+ * Live camera view for dialling in the green screen. Click the backdrop to
+ * sample its colour, then tune tolerance / softness / spill against the keyed
+ * preview. Everything is saved to event.settings.chromaKey.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import Webcam from 'react-webcam';
+import { Pipette } from 'lucide-react';
+import { greenScreenService, DEFAULT_CHROMA_KEY, type ChromaKeySettings } from '@/services/greenScreen';
+
+const PRESET_BACKGROUNDS = [
+  { name: 'Beach',     url: 'https://images.unsplash.com/photo-1507525428034-b723cf961d3e?w=1600' },
+  { name: 'City',      url: 'https://images.unsplash.com/photo-1477959858617-67f85cf4f1df?w=1600' },
+  { name: 'Space',     url: 'https://images.unsplash.com/photo-1446776653964-20c1d3a81b06?w=1600' },
+  { name: 'Mountains', url: 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=1600' },
+];
+
+const SLIDERS: { key: 'tolerance' | 'softness' | 'spill'; label: string; desc: string }[] = [
+  { key: 'tolerance', label: 'Tolerance',        desc: 'Raise until the whole backdrop disappears' },
+  { key: 'softness',  label: 'Edge softness',    desc: 'Feathers hair and edges' },
+  { key: 'spill',     label: 'Spill suppression', desc: 'Removes the green cast reflected onto guests' },
+];
+
+export function ChromaKeyCalibrator({ event, updateSettings }: any) {
+  const webcamRef = useRef<Webcam>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const [cameraReady, setCameraReady] = useState(false);
+  const [cameraError, setCameraError] = useState('');
+
+  const settings: ChromaKeySettings = { ...DEFAULT_CHROMA_KEY, ...(event.settings?.chromaKey || {}) };
+
+  function update(patch: Partial<ChromaKeySettings>) {
+    updateSettings('chromaKey', { ...settings, ...patch });
+  }
+
+  // Render the keyed preview continuously while the camera is live
+  useEffect(() => {
+    if (!cameraReady) return;
+    let raf = 0;
+    let busy = false;
+    let stopped = false;
+
+    async function render() {
+      const video = webcamRef.current?.video;
+      const target = previewRef.current;
+      if (video && target && video.readyState >= 2 && !busy) {
+        busy = true;
+        try {
+          await greenScreenService.processFrame(video, settings.backgroundUrl, { ...settings, target });
+        } finally {
+          busy = false;
+        }
+      }
+      if (!stopped) raf = requestAnimationFrame(render);
+    }
+
+    raf = requestAnimationFrame(render);
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(raf);
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cameraReady, settings.keyColor, settings.tolerance, settings.softness, settings.spill, settings.backgroundUrl]);
+
+  function handleSample(e: React.MouseEvent<HTMLDivElement>) {
+    const video = webcamRef.current?.video;
+    if (!video || !video.videoWidth) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * video.videoWidth;
+    const y = ((e.clientY - rect.top) / rect.height) * video.videoHeight;
+    update({ keyColor: greenScreenService.sampleColor(video, x, y, 6) });
+  }
+
+  return (
+    <div className="space-y-5">
+      <label className="flex items-center justify-between p-3 rounded-xl bg-zinc-900/50 border border-zinc-800 cursor-pointer hover:border-zinc-600 transition-colors">
+        <div>
+          <p className="text-sm font-medium text-white">Enable green screen</p>
+          <p className="text-xs text-zinc-500 mt-0.5">Replace the backdrop live on the booth and in every captured photo</p>
+        </div>
+        <input type="checkbox" checked={settings.enabled}
+          onChange={e => update({ enabled: e.target.checked })}
+          className="w-5 h-5 accent-violet-500" />
+      </label>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <p className="text-zinc-400 text-xs font-medium uppercase tracking-wider mb-1.5 flex items-center gap-1.5">
+            <Pipette className="w-3.5 h-3.5" /> Camera — click the backdrop to sample
+          </p>
+          <div onClick={handleSample} className="relative rounded-xl overflow-hidden border border-zinc-800 bg-black cursor-crosshair">
+            <Webcam
+              ref={webcamRef}
+              audio={false}
+              videoConstraints={{ facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } }}
+              className="w-full h-auto block"
+              onUserMedia={() => setCameraReady(true)}
+              onUserMediaError={() => setCameraError('Camera unavailable — allow access to calibrate.')}
+            />
+            {cameraError && (
+              <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-zinc-400 text-sm">{cameraError}</div>
+            )}
+          </div>
+        </div>
+        <div>
+          <p className="text-zinc-400 text-xs font-medium uppercase tracking-wider mb-1.5">Keyed preview</p>
+          <div className="rounded-xl overflow-hidden border border-zinc-800 bg-[repeating-conic-gradient(#27272a_0%_25%,#18181b_0%_50%)] bg-[length:20px_20px]">
+            <canvas ref={previewRef} className="w-full h-auto block" />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-xl border border-zinc-700" style={{ background: settings.keyColor }} />
+        <div className="flex-1">
+          <p className="text-sm text-zinc-200">Key colour</p>
+          <p className="text-xs text-zinc-500 font-mono">{settings.keyColor}</p>
+        </div>
+        <input type="color" value={settings.keyColor}
+          onChange={e => update({ keyColor: e.target.value })}
+          className="w-12 h-9 rounded cursor-pointer bg-transparent" />
+      </div>
+
+      {SLIDERS.map(s => (
+        <div key={s.key}>
+          <label className="flex items-center justify-between py-1">
+            <span className="text-sm text-zinc-200">{s.label}</span>
+            <span className="text-violet-300 font-bold">{settings[s.key]}</span>
+          </label>
+          <input type="range" min="0" max="100" value={settings[s.key]}
+            onChange={e => update({ [s.key]: Number(e.target.value) })}
+            className="w-full accent-violet-500" />
+          <p className="text-zinc-500 text-xs mt-1">{s.desc}</p>
+        </div>
+      ))}
+
+      <div className="border-t border-zinc-800 pt-5">
+        <h3 className="text-white font-semibold mb-3">Replacement background</h3>
+        <div className="grid grid-cols-5 gap-2 mb-3">
+          <button onClick={() => update({ backgroundUrl: null })}
+            className={`aspect-video rounded-lg border-2 text-xs text-zinc-400 ${!settings.backgroundUrl ? 'border-violet-500' : 'border-zinc-800 hover:border-zinc-600'}`}>
+            Transparent
+          </button>
+          {PRESET_BACKGROUNDS.map(bg => (
+            <button key={bg.url} onClick={() => update({ backgroundUrl: bg.url })}
+              className={`aspect-video rounded-lg overflow-hidden border-2 ${settings.backgroundUrl === bg.url ? 'border-violet-500' : 'border-zinc-800 hover:border-zinc-600'}`}>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={bg.url} alt={bg.name} className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+        <input type="text" value={settings.backgroundUrl || ''}
+          onChange={e => update({ backgroundUrl: e.target.value || null })}
+          placeholder="…or paste an image URL"
+          className="w-full bg-zinc-950/50 border border-zinc-800 rounded-xl px-4 py-2.5 text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-violet-500 transition-colors" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { RefreshCw, ScanFace, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { deleteFaceData, getFaceIndexStatus, startFaceIndexing, type FaceIndexStatus } from '@/lib/api';
+
+const POLL_MS = 5_000;
+
+/**
+ * Indexing progress for "Find my photos". New captures are indexed in the
+ * background within a minute; "Index now" catches up photos taken before the
+ * feature was switched on.
+ */
+export function FaceSearchPanel({ eventId, enabled }: { eventId: string; enabled: boolean }) {
+  const [status, setStatus] = useState<FaceIndexStatus | null>(null);
+  const [busy, setBusy] = useState<'index' | 'delete' | null>(null);
+
+  const load = useCallback(async () => {
+    try { setStatus(await getFaceIndexStatus(eventId)); }
+    catch { /* keep the last status while the backend is unreachable */ }
+  }, [eventId]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  async function handleIndex() {
+    setBusy('index');
+    try {
+      await startFaceIndexing(eventId);
+      toast.success('Indexing started');
+      load();
+    } catch (err: unknown) {
+      toast.error((err as { response?: { data?: { error?: string } } })?.response?.data?.error || 'Could not start indexing');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleDelete() {
+    if (!confirm('Erase every face descriptor stored for this event? Guests cannot search until photos are indexed again.')) return;
+    setBusy('delete');
+    try {
+      await deleteFaceData(eventId);
+      toast.success('Face data erased');
+      load();
+    } catch {
+      toast.error('Could not erase face data');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  if (!status) return null;
+
+  if (!status.available) {
+    return (
+      <p className="text-amber-400/80 text-xs bg-amber-500/10 border border-amber-500/20 rounded-xl px-3 py-2.5">
+        The face search model isn&apos;t installed on this server, so guests won&apos;t see the button.
+      </p>
+    );
+  }
+
+  const total = status.indexed + status.pending;
+  const progress = total ? Math.round((status.indexed / total) * 100) : 100;
+
+  return (
+    <div className="bg-zinc-950 border border-zinc-800 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between text-xs">
+        <span className="flex items-center gap-2 text-zinc-300 font-medium">
+          <ScanFace className="w-4 h-4 text-violet-400" />
+          {status.indexed} of {total} photos indexed · {status.faces} faces
+        </span>
+        {status.running && <span className="text-violet-300">Indexing…</span>}
+      </div>
+      <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+        <div className="h-full bg-violet-500 transition-all" style={{ width: `${progress}%` }} />
+      </div>
+      <div className="flex gap-2">
+        <button onClick={handleIndex} disabled={!enabled || !status.pending || busy !== null || status.running}
+          className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg border border-zinc-700 hover:border-violet-500 text-zinc-200 text-xs font-medium transition-colors disabled:opacity-40">
+          <RefreshCw className={`w-3.5 h-3.5 ${busy === 'index' ? 'animate-spin' : ''}`} /> Index now
+        </button>
+        <button onClick={handleDelete} disabled={!status.faces || busy !== null}
+          className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg border border-zinc-700 hover:border-red-500 text-zinc-200 hover:text-red-300 text-xs font-medium transition-colors disabled:opacity-40">
+          <Trash2 className="w-3.5 h-3.5" /> Erase face data
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import { Copy, Link2, Lock, ShieldOff, Unlock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  createGalleryMagicLink, revokeGalleryAccess, setGalleryPassword, type GalleryMagicLink,
+} from '@/lib/api';
+
+const LINK_DAYS = [7, 30, 90];
+
+function apiError(err: unknown, fallback: string) {
+  return (err as { response?: { data?: { error?: string } } })?.response?.data?.error || fallback;
+}
+
+/**
+ * Gallery password, per-guest magic links and revoke-all. The password is
+ * write-only here — the backend never sends it back, only whether one is set.
+ * Links created in this session are listed so they can be copied again.
+ */
+export function GalleryAccessPanel({ eventId, isProtected, onProtectedChange }: {
+  eventId: string;
+  isProtected: boolean;
+  onProtectedChange: (isProtected: boolean) => void;
+}) {
+  const [password, setPassword] = useState('');
+  const [guest, setGuest] = useState('');
+  const [days, setDays] = useState(30);
+  const [links, setLinks] = useState<GalleryMagicLink[]>([]);
+  const [busy, setBusy] = useState<'password' | 'link' | 'revoke' | null>(null);
+
+  async function savePassword(next: string) {
+    setBusy('password');
+    try {
+      await setGalleryPassword(eventId, next);
+      onProtectedChange(!!next);
+      setPassword('');
+      setLinks([]);
+      toast.success(next ? 'Gallery password set' : 'Gallery is now open to anyone with the link');
+    } catch (err) {
+      toast.error(apiError(err, 'Could not update the password'));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function createLink() {
+    setBusy('link');
+    try {
+      const link = await createGalleryMagicLink(eventId, guest.trim(), days);
+      setLinks(prev => [link, ...prev]);
+      setGuest('');
+      navigator.clipboard.writeText(link.url).catch(() => {});
+      toast.success('Magic link copied');
+    } catch (err) {
+      toast.error(apiError(err, 'Could not create the link'));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function revokeAll() {
+    if (!confirm('Sign every guest out of the gallery? All magic links stop working and guests need the password again.')) return;
+    setBusy('revoke');
+    try {
+      await revokeGalleryAccess(eventId);
+      setLinks([]);
+      toast.success('All gallery access revoked');
+    } catch (err) {
+      toast.error(apiError(err, 'Could not revoke access'));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className={`flex items-center gap-2 text-xs font-medium rounded-xl px-3 py-2.5 border ${
+        isProtected ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-300' : 'bg-zinc-900 border-zinc-800 text-zinc-400'
+      }`}>
+        {isProtected ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+        {isProtected ? 'Password protected — guests need the password or a magic link' : 'Open — anyone with the gallery link can view it'}
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-zinc-400 mb-1.5">{isProtected ? 'Change Password' : 'Set Password'}</p>
+        <div className="flex gap-2">
+          <input type="password" value={password} onChange={e => setPassword(e.target.value)}
+            placeholder={isProtected ? 'New password' : 'Gallery password'}
+            className="flex-1 bg-zinc-950/50 border border-zinc-800 rounded-xl px-4 py-2.5 text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-violet-500 transition-colors" />
+          <button onClick={() => savePassword(password.trim())} disabled={!password.trim() || busy !== null}
+            className="px-4 rounded-xl bg-violet-600 hover:bg-violet-500 text-white text-sm font-semibold transition-colors disabled:opacity-40">
+            Save
+          </button>
+        </div>
+        {isProtected && (
+          <button onClick={() => savePassword('')} disabled={busy !== null}
+            className="mt-2 text-zinc-500 hover:text-zinc-300 text-xs underline underline-offset-2 disabled:opacity-40">
+            Remove password
+          </button>
+        )}
+      </div>
+
+      {isProtected && (
+        <div className="border-t border-zinc-800 pt-4 space-y-3">
+          <p className="text-xs font-medium text-zinc-400">Magic Link</p>
+          <div className="flex gap-2">
+            <input value={guest} onChange={e => setGuest(e.target.value)} placeholder="Guest name or email (optional)"
+              className="flex-1 min-w-0 bg-zinc-950/50 border border-zinc-800 rounded-xl px-4 py-2.5 text-white text-sm placeholder-zinc-600 focus:outline-none focus:border-violet-500 transition-colors" />
+            <select value={days} onChange={e => setDays(Number(e.target.value))}
+              className="bg-zinc-950/50 border border-zinc-800 rounded-xl px-2 text-zinc-300 text-sm focus:outline-none focus:border-violet-500">
+              {LINK_DAYS.map(d => <option key={d} value={d}>{d} days</option>)}
+            </select>
+            <button onClick={createLink} disabled={busy !== null}
+              className="px-3 rounded-xl border border-zinc-700 hover:border-violet-500 text-zinc-200 transition-colors disabled:opacity-40" title="Create link">
+              <Link2 className="w-4 h-4" />
+            </button>
+          </div>
+          {links.map(link => (
+            <div key={link.url} className="bg-zinc-950 border border-zinc-800 rounded-xl p-3 flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-zinc-300 text-xs font-medium truncate">{link.label || 'Guest link'}</p>
+                <p className="text-zinc-600 text-[10px]">Expires {new Date(link.expiresAt).toLocaleDateString()}</p>
+              </div>
+              <button onClick={() => { navigator.clipboard.writeText(link.url); toast.success('Copied!'); }} className="text-zinc-500 hover:text-white flex-shrink-0">
+                <Copy className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isProtected && (
+        <button onClick={revokeAll} disabled={busy !== null}
+          className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl border border-red-500/30 hover:border-red-500 text-red-300 text-sm font-medium transition-colors disabled:opacity-40">
+          <ShieldOff className="w-4 h-4" /> Revoke All Access
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Archive, CalendarClock, Download, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getGalleryRetention, startGalleryExtensionCheckout, type GalleryRetention, type RetentionState } from '@/lib/api';
+
+const STATE_STYLES: Record<RetentionState, { label: string; className: string }> = {
+  unlimited: { label: 'No expiry',   className: 'bg-zinc-800 text-zinc-300' },
+  active:    { label: 'Online',      className: 'bg-emerald-500/15 text-emerald-300' },
+  expiring:  { label: 'Expiring',    className: 'bg-amber-500/15 text-amber-300' },
+  grace:     { label: 'Offline',     className: 'bg-red-500/15 text-red-300' },
+  archived:  { label: 'Archived',    className: 'bg-zinc-800 text-zinc-400' },
+  deleted:   { label: 'Deleted',     className: 'bg-zinc-800 text-zinc-500' },
+};
+
+function formatDate(iso: string | null) {
+  return iso ? new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
+}
+
+/**
+ * Gallery lifetime for the Overview tab: when it expires, what happens after the
+ * grace period, and the "extend gallery" upsell. `action` / `onActionChange` edit
+ * settings.retentionAction through the page's normal save flow.
+ */
+export function GalleryRetentionPanel({ eventId, action, onActionChange }: {
+  eventId: string;
+  action: 'archive' | 'delete';
+  onActionChange: (action: 'archive' | 'delete') => void;
+}) {
+  const [retention, setRetention] = useState<GalleryRetention | null>(null);
+  const [buying, setBuying] = useState<number | null>(null);
+
+  const load = useCallback(async () => {
+    try { setRetention(await getGalleryRetention(eventId)); }
+    catch { /* keep the panel empty while the backend is unreachable */ }
+  }, [eventId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  async function extend(days: number) {
+    setBuying(days);
+    try {
+      window.location.href = await startGalleryExtensionCheckout(eventId, days);
+    } catch (err: unknown) {
+      toast.error((err as { response?: { data?: { error?: string } } })?.response?.data?.error || 'Could not start checkout');
+      setBuying(null);
+    }
+  }
+
+  if (!retention) return <div className="h-24 rounded-xl bg-zinc-900 animate-pulse" />;
+
+  const style = STATE_STYLES[retention.state];
+  const closed = retention.state === 'archived' || retention.state === 'deleted';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-white font-semibold text-sm flex items-center gap-2">
+            <CalendarClock className="w-4 h-4 text-violet-400" />
+            {closed ? `Closed ${formatDate(retention.purgedAt)}`
+              : retention.expiresAt ? `Expires ${formatDate(retention.expiresAt)}` : 'Never expires'}
+          </p>
+          <p className="text-zinc-500 text-xs mt-1">
+            {retention.state === 'grace'
+              ? `Guests can't open it. Media is ${retention.action === 'archive' ? 'archived' : 'deleted'} on ${formatDate(retention.graceEndsAt)} unless extended.`
+              : retention.state === 'unlimited'
+                ? 'This event has no owner plan to set an expiry from.'
+                : closed
+                  ? 'The gallery is closed and its photos have left storage.'
+                  : `${retention.daysLeft} day${retention.daysLeft === 1 ? '' : 's'} left · ${retention.galleryDays}-day ${retention.plan} plan${retention.extraDays ? ` + ${retention.extraDays} extra` : ''}`}
+          </p>
+        </div>
+        <span className={`text-[11px] font-semibold px-2.5 py-1 rounded-full ${style.className}`}>{style.label}</span>
+      </div>
+
+      {retention.state === 'archived' && retention.archiveUrl && (
+        <a href={retention.archiveUrl}
+          className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl bg-violet-600 hover:bg-violet-500 text-white font-semibold text-sm transition-colors">
+          <Download className="w-4 h-4" /> Download Archive
+        </a>
+      )}
+
+      {!closed && retention.state !== 'unlimited' && (
+        <>
+          <div>
+            <p className="text-xs font-medium text-zinc-400 mb-1.5">After {retention.graceDays}-day grace period</p>
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                { key: 'archive', label: 'Archive to ZIP', Icon: Archive },
+                { key: 'delete',  label: 'Delete',         Icon: Trash2 },
+              ] as const).map(({ key, label, Icon }) => (
+                <button key={key} onClick={() => onActionChange(key)}
+                  className={`flex items-center justify-center gap-2 py-2 rounded-xl border text-xs font-medium transition-all ${
+                    action === key ? 'border-violet-500 bg-violet-500/20 text-violet-300' : 'border-zinc-800 bg-zinc-900 text-zinc-400 hover:border-zinc-600'
+                  }`}>
+                  <Icon className="w-3.5 h-3.5" /> {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="border-t border-zinc-800 pt-4">
+            <p className="text-xs font-medium text-zinc-400 mb-2">Extend Gallery</p>
+            <div className="grid grid-cols-2 gap-2">
+              {retention.extensions.map(x => (
+                <button key={x.days} onClick={() => extend(x.days)} disabled={buying !== null}
+                  className="py-2.5 rounded-xl border border-zinc-700 hover:border-violet-500 text-zinc-200 text-sm font-medium transition-colors disabled:opacity-40">
+                  +{x.days} days · ${x.price}
+                </button>
+              ))}
+            </div>
+            <Link href="/pricing" className="block text-center mt-2 text-violet-300 hover:text-violet-200 text-xs font-semibold">
+              Or upgrade for longer galleries on every event
+            </Link>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
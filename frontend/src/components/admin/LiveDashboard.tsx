@@ -6,8 +6,8 @@ const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
 interface LivePhoto {
   photoId: string;
-  thumbUrl: string;
-  galleryUrl: string;
+  thumbUrl?: string;           // left out while the photo is held or hidden
+  galleryUrl?: string;
   mode: string;
   timestamp: string;
 }
@@ -181,8 +181,12 @@ export function LiveDashboard({ eventId }: { eventId: string }) {
             {livePhotos.slice(0, 12).map((p, i) => (
               <div key={p.photoId || i}
                 className={`relative aspect-square rounded-xl overflow-hidden border-2 transition-all ${i === 0 ? 'border-green-400/60 scale-105' : 'border-white/10'}`}>
-                {/* eslint-disable-next-line @next/next/no-img-element */}
-                <img src={p.thumbUrl} alt="" className="w-full h-full object-cover" />
+                {p.thumbUrl ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={p.thumbUrl} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full bg-white/5 flex items-center justify-center text-white/30 text-[10px]">Held</div>
+                )}
                 <div className="absolute bottom-0.5 left-0.5 text-xs leading-none">
                   {modeLabel(p.mode)}
                 </div>
@@ -0,0 +1,291 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Check, X, RefreshCw, ShieldCheck, Keyboard } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  getModerationQueue, moderatePhotos,
+  type ModerationQueuePhoto, type RejectReason, type ScreeningRecord,
+} from '@/lib/api';
+import { connectEventSocket } from '@/lib/socket';
+
+const REFETCH_DEBOUNCE_MS = 600;
+
+const REJECT_REASONS: { key: RejectReason; label: string }[] = [
+  { key: 'inappropriate', label: 'Inappropriate content' },
+  { key: 'gesture',       label: 'Offensive gesture' },
+  { key: 'quality',       label: 'Blurry or bad shot' },
+  { key: 'duplicate',     label: 'Duplicate' },
+  { key: 'off_brand',     label: 'Off-brand for the client' },
+  { key: 'other',         label: 'Other' },
+];
+
+function reasonLabel(reason?: string | null) {
+  if (!reason) return '';
+  const [key, ...note] = reason.split(': ');
+  const label = REJECT_REASONS.find(r => r.key === key)?.label || key;
+  return note.length ? `${label} — ${note.join(': ')}` : label;
+}
+
+/**
+ * What content screening said about a photo: the flagged categories with their
+ * scores, the highest score when nothing crossed a threshold, or that it failed.
+ */
+export function ScreeningBadge({ screening }: { screening?: ScreeningRecord | null }) {
+  if (!screening) return null;
+  if (screening.error) {
+    return <span className="text-[9px] bg-amber-500/80 text-black font-semibold px-1.5 py-0.5 rounded-md">Not screened</span>;
+  }
+  const scores = screening.scores;
+  if (!scores) return null;
+  const flagged = screening.flagged || [];
+  const shown = flagged.length
+    ? flagged
+    : (Object.keys(scores) as (keyof typeof scores)[]).sort((a, b) => scores[b] - scores[a]).slice(0, 1);
+  return (
+    <span className={`text-[9px] font-semibold px-1.5 py-0.5 rounded-md ${flagged.length ? 'bg-red-500/80 text-white' : 'bg-black/60 text-white/60'}`}>
+      {shown.map(c => `${c} ${Math.round(scores[c] * 100)}%`).join(' · ')}
+    </span>
+  );
+}
+
+/**
+ * Approval queue counts for an event, kept live over the event's socket room.
+ * `version` bumps on every capture or moderation so open views can re-fetch.
+ */
+export function useModerationCounts(eventId: string) {
+  const [counts, setCounts] = useState({ pending: 0, rejected: 0 });
+  const [version, setVersion] = useState(0);
+
+  const refresh = useCallback(() => {
+    getModerationQueue(eventId)
+      .then(q => setCounts(q.counts))
+      .catch(() => { /* keep the last counts while the backend is unreachable */ });
+  }, [eventId]);
+
+  useEffect(() => {
+    refresh();
+    const socket = connectEventSocket(eventId);
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const changed = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => { refresh(); setVersion(v => v + 1); }, REFETCH_DEBOUNCE_MS);
+    };
+    socket.on('photo-taken', changed);
+    socket.on('photo-moderated', changed);
+    return () => {
+      if (timer) clearTimeout(timer);
+      socket.disconnect();
+    };
+  }, [eventId, refresh]);
+
+  return { counts, version, refresh };
+}
+
+/**
+ * Keyboard-driven approve / reject queue for photos held by approval mode.
+ *
+ *   ← → / J K  move      X or Space  select      ⇧X  select all / none
+ *   A  approve           R  reject (then 1–6 picks the reason)
+ *
+ * Actions apply to the selection, or to the focused photo when nothing is selected.
+ */
+export function ModerationQueue({ eventId, version, counts, onModerated }: {
+  eventId: string;
+  version: number;
+  counts: { pending: number; rejected: number };
+  onModerated: () => void;
+}) {
+  const [view, setView] = useState<'pending' | 'rejected'>('pending');
+  const [photos, setPhotos] = useState<ModerationQueuePhoto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [cursor, setCursor] = useState(0);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [rejecting, setRejecting] = useState<string[] | null>(null);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const tileRefs = useRef<Record<string, HTMLButtonElement | null>>({});
+
+  const load = useCallback(async () => {
+    try {
+      const q = await getModerationQueue(eventId, view);
+      setPhotos(q.photos);
+      setSelected(prev => prev.filter(id => q.photos.some(p => p.id === id)));
+      setCursor(c => Math.min(c, Math.max(q.photos.length - 1, 0)));
+    } catch { /* keep the last list while the backend is unreachable */ }
+    finally { setLoading(false); }
+  }, [eventId, view]);
+
+  useEffect(() => { load(); }, [load, version]);
+
+  useEffect(() => { setCursor(0); setSelected([]); setLoading(true); }, [view]);
+
+  const focused = photos[cursor];
+
+  useEffect(() => {
+    if (focused) tileRefs.current[focused.id]?.scrollIntoView({ block: 'nearest' });
+  }, [focused]);
+
+  const targets = useCallback(
+    () => (selected.length ? selected : focused ? [focused.id] : []),
+    [selected, focused],
+  );
+
+  const apply = useCallback(async (ids: string[], action: 'approve' | 'reject', reason?: RejectReason) => {
+    if (!ids.length || busy) return;
+    setBusy(true);
+    try {
+      await moderatePhotos(eventId, ids, action, reason, reason ? note.trim() : undefined);
+      setPhotos(prev => prev.filter(p => ids.indexOf(p.id) === -1));
+      setSelected([]);
+      setRejecting(null);
+      setNote('');
+      toast.success(`${ids.length} ${ids.length === 1 ? 'photo' : 'photos'} ${action === 'approve' ? 'approved' : 'rejected'}`);
+      onModerated();
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  }, [eventId, busy, note, onModerated]);
+
+  function toggle(id: string) {
+    setSelected(prev => (prev.indexOf(id) === -1 ? [...prev, id] : prev.filter(s => s !== id)));
+  }
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      const target = e.target as HTMLElement | null;
+      const typing = target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA');
+
+      if (rejecting) {
+        if (e.key === 'Escape') { setRejecting(null); return; }
+        const index = Number(e.key) - 1;
+        if (!typing && index >= 0 && index < REJECT_REASONS.length) {
+          e.preventDefault();
+          apply(rejecting, 'reject', REJECT_REASONS[index].key);
+        }
+        return;
+      }
+      if (typing || e.metaKey || e.ctrlKey || e.altKey) return;
+
+      switch (e.key) {
+        case 'ArrowRight': case 'j': case 'J':
+          e.preventDefault(); setCursor(c => Math.min(c + 1, photos.length - 1)); break;
+        case 'ArrowLeft': case 'k': case 'K':
+          e.preventDefault(); setCursor(c => Math.max(c - 1, 0)); break;
+        case ' ': case 'x':
+          e.preventDefault(); if (focused) toggle(focused.id); break;
+        case 'X':
+          e.preventDefault();
+          setSelected(prev => (prev.length === photos.length ? [] : photos.map(p => p.id)));
+          break;
+        case 'a': case 'A':
+          e.preventDefault(); apply(targets(), 'approve'); break;
+        case 'r': case 'R':
+          if (view === 'pending' && targets().length) { e.preventDefault(); setRejecting(targets()); }
+          break;
+      }
+    }
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [photos, focused, rejecting, view, apply, targets]);
+
+  const actionCount = targets().length;
+
+  return (
+    <div className="space-y-4">
+      {/* View switch + bulk actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        {(['pending', 'rejected'] as const).map(v => (
+          <button key={v} onClick={() => setView(v)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors ${
+              view === v ? 'bg-violet-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white'
+            }`}>
+            {v === 'pending' ? `Waiting (${counts.pending})` : `Rejected (${counts.rejected})`}
+          </button>
+        ))}
+        <div className="flex-1" />
+        <button onClick={() => apply(targets(), 'approve')} disabled={!actionCount || busy}
+          className="flex items-center gap-1.5 text-xs bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300 px-3 py-2 rounded-lg transition-colors disabled:opacity-40">
+          <Check className="w-3.5 h-3.5" /> Approve{selected.length ? ` ${selected.length}` : ''}
+        </button>
+        {view === 'pending' && (
+          <button onClick={() => setRejecting(targets())} disabled={!actionCount || busy}
+            className="flex items-center gap-1.5 text-xs bg-red-500/20 hover:bg-red-500/30 text-red-300 px-3 py-2 rounded-lg transition-colors disabled:opacity-40">
+            <X className="w-3.5 h-3.5" /> Reject{selected.length ? ` ${selected.length}` : ''}
+          </button>
+        )}
+        <button onClick={load}
+          className="flex items-center gap-1.5 text-xs bg-zinc-800 hover:bg-zinc-700 text-zinc-300 px-3 py-2 rounded-lg transition-colors">
+          <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* Queue */}
+      {photos.length === 0 ? (
+        <div className="text-center py-12">
+          <ShieldCheck className="w-10 h-10 text-zinc-700 mx-auto mb-3" />
+          <p className="text-zinc-500 text-sm">
+            {loading ? 'Loading…' : view === 'pending' ? 'All caught up — nothing waiting for approval' : 'No rejected photos'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-3 max-h-[70vh] overflow-y-auto p-1">
+          {photos.map((photo, i) => {
+            const isSelected = selected.indexOf(photo.id) !== -1;
+            return (
+              <button key={photo.id} ref={el => { tileRefs.current[photo.id] = el; }}
+                onClick={() => { setCursor(i); toggle(photo.id); }}
+                className={`relative rounded-xl overflow-hidden aspect-square bg-zinc-900 border-2 transition-all text-left ${
+                  i === cursor ? 'border-violet-500' : isSelected ? 'border-violet-500/40' : 'border-transparent'
+                }`}>
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={photo.thumb_url || photo.url} alt="" className="w-full h-full object-cover" loading="lazy" />
+                {isSelected && (
+                  <span className="absolute top-2 right-2 w-6 h-6 rounded-full bg-violet-600 flex items-center justify-center">
+                    <Check className="w-4 h-4 text-white" />
+                  </span>
+                )}
+                <span className="absolute top-2 left-2 flex flex-col items-start gap-1">
+                  <span className="text-[9px] bg-black/60 text-white/70 px-1.5 py-0.5 rounded-md">{photo.mode}</span>
+                  <ScreeningBadge screening={photo.screening} />
+                </span>
+                {photo.moderation_reason && (
+                  <span className="absolute bottom-0 inset-x-0 bg-black/70 text-red-300 text-[10px] px-2 py-1 truncate">
+                    {reasonLabel(photo.moderation_reason)}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Reject reason picker */}
+      {rejecting && (
+        <div className="bg-zinc-950 border border-red-500/30 rounded-xl p-4 space-y-3">
+          <p className="text-white text-sm font-semibold">
+            Reject {rejecting.length} {rejecting.length === 1 ? 'photo' : 'photos'} — why?
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            {REJECT_REASONS.map((r, i) => (
+              <button key={r.key} onClick={() => apply(rejecting, 'reject', r.key)} disabled={busy}
+                className="flex items-center gap-2 text-left text-xs bg-zinc-900 hover:bg-red-500/15 border border-zinc-800 hover:border-red-500/40 text-zinc-200 px-3 py-2 rounded-lg transition-colors">
+                <kbd className="text-[10px] text-zinc-500 font-mono">{i + 1}</kbd> {r.label}
+              </button>
+            ))}
+          </div>
+          <input value={note} onChange={e => setNote(e.target.value)} placeholder="Note for the team (optional)"
+            className="w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-white text-xs placeholder-zinc-600 focus:outline-none focus:border-red-500/50" />
+          <button onClick={() => setRejecting(null)} className="text-zinc-500 hover:text-white text-xs">Cancel (Esc)</button>
+        </div>
+      )}
+
+      <p className="flex items-center gap-2 text-zinc-600 text-[11px]">
+        <Keyboard className="w-3.5 h-3.5" />
+        ← → move · X select · ⇧X select all · A approve · R reject · 1–6 reason
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Pause, Play, RefreshCw, RotateCcw, X, Printer } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getPrintJobs, getPrintUsage, sendPrintCommand } from '@/lib/api';
+
+const POLL_MS = 5_000;
+
+interface PrintJobRow {
+  id: string;
+  photo_id: string;
+  photo_url: string | null;
+  copies: number;
+  status: 'queued' | 'printing' | 'completed' | 'failed' | 'cancelled';
+  attempts: number;
+  auto: boolean;
+  reprint_of: string | null;
+  override: boolean;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+const STATUS_STYLES: Record<PrintJobRow['status'], string> = {
+  queued:    'bg-zinc-800 text-zinc-300',
+  printing:  'bg-violet-500/15 text-violet-300',
+  completed: 'bg-emerald-500/15 text-emerald-300',
+  failed:    'bg-red-500/15 text-red-300',
+  cancelled: 'bg-zinc-800 text-zinc-500',
+};
+
+/**
+ * Live view of the booth's print queue as mirrored to the backend. Commands are
+ * relayed to the booth, which applies them and reports the new state back.
+ */
+export function PrintQueuePanel({ eventId, paused, onPausedChange }: {
+  eventId: string;
+  paused: boolean;
+  onPausedChange: (paused: boolean) => void;
+}) {
+  const [jobs, setJobs] = useState<PrintJobRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [usage, setUsage] = useState<{ used: number; maxPrints: number | null } | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [list, totals] = await Promise.all([getPrintJobs(eventId), getPrintUsage(eventId)]);
+      setJobs(list);
+      setUsage(totals);
+    }
+    catch { /* keep the last list while the backend is unreachable */ }
+    finally { setLoading(false); }
+  }, [eventId]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  async function command(action: 'pause' | 'resume' | 'cancel' | 'reprint' | 'retry', jobId?: string) {
+    setBusy(jobId || action);
+    try {
+      const result = await sendPrintCommand(eventId, action, jobId);
+      if (result.paused !== undefined) onPausedChange(result.paused);
+      toast.success(action === 'reprint' ? 'Reprint sent to the booth' : action === 'pause' ? 'Print queue paused' : action === 'resume' ? 'Print queue resumed' : 'Sent to the booth');
+      // Give the booth a moment to apply it and mirror the result back
+      setTimeout(load, 1500);
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Command failed');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const waiting = jobs.filter(j => j.status === 'queued' || j.status === 'printing').length;
+  const failed = jobs.filter(j => j.status === 'failed').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 text-xs">
+          <span className={`px-2.5 py-1 rounded-full font-semibold ${paused ? 'bg-amber-500/15 text-amber-300' : 'bg-emerald-500/15 text-emerald-300'}`}>
+            {paused ? 'Paused' : 'Running'}
+          </span>
+          <span className="text-zinc-500">
+            {waiting} waiting · {failed} failed
+            {usage && ` · ${usage.used}${usage.maxPrints ? ` of ${usage.maxPrints}` : ''} printed`}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={load} title="Refresh"
+            className="p-2 rounded-xl bg-zinc-800 hover:bg-zinc-700 text-zinc-400 hover:text-white transition-all">
+            <RefreshCw className="w-4 h-4" />
+          </button>
+          <button onClick={() => command(paused ? 'resume' : 'pause')} disabled={busy !== null}
+            className="px-3 py-2 rounded-xl bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-xs font-semibold flex items-center gap-1.5 transition-all disabled:opacity-40">
+            {paused ? <><Play className="w-3.5 h-3.5" /> Resume</> : <><Pause className="w-3.5 h-3.5" /> Pause</>}
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-zinc-500 text-sm">Loading print jobs...</p>
+      ) : jobs.length === 0 ? (
+        <div className="text-center py-8 text-zinc-600 text-sm">
+          <Printer className="w-6 h-6 mx-auto mb-2 opacity-50" />
+          No prints yet
+        </div>
+      ) : (
+        <div className="divide-y divide-zinc-800/60 max-h-96 overflow-y-auto -mx-2">
+          {jobs.map(job => (
+            <div key={job.id} className="flex items-center gap-3 px-2 py-2.5">
+              <div className="w-10 h-14 rounded-md bg-zinc-800 overflow-hidden flex-shrink-0">
+                {job.photo_url && <img src={job.photo_url} alt="" className="w-full h-full object-cover" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+                  <span className="text-zinc-400 text-xs">{job.copies} {job.copies === 1 ? 'copy' : 'copies'}</span>
+                  {job.auto && <span className="text-zinc-600 text-[10px]">auto</span>}
+                  {job.reprint_of && <span className="text-zinc-600 text-[10px]">reprint</span>}
+                  {job.override && !job.reprint_of && <span className="text-amber-500/80 text-[10px]">override</span>}
+                </div>
+                <p className="text-zinc-600 text-[11px] mt-0.5 truncate">
+                  {new Date(job.created_at).toLocaleTimeString()}
+                  {job.attempts > 1 && ` · ${job.attempts} attempts`}
+                  {job.error && <span className="text-red-400/80"> · {job.error}</span>}
+                </p>
+              </div>
+              <div className="flex gap-1.5 flex-shrink-0">
+                {job.status === 'failed' && (
+                  <JobButton title="Retry" disabled={busy !== null} onClick={() => command('retry', job.id)}><RotateCcw className="w-3.5 h-3.5" /></JobButton>
+                )}
+                {(job.status === 'queued' || job.status === 'failed') && (
+                  <JobButton title="Cancel" disabled={busy !== null} onClick={() => command('cancel', job.id)}><X className="w-3.5 h-3.5" /></JobButton>
+                )}
+                {(job.status === 'completed' || job.status === 'cancelled') && (
+                  <JobButton title="Reprint" disabled={busy !== null} onClick={() => command('reprint', job.id)}><Printer className="w-3.5 h-3.5" /></JobButton>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function JobButton({ title, onClick, disabled, children }: {
+  title: string; onClick: () => void; disabled: boolean; children: React.ReactNode;
+}) {
+  return (
+    <button title={title} onClick={onClick} disabled={disabled}
+      className="p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-400 hover:text-white transition-all disabled:opacity-40">
+      {children}
+    </button>
+  );
+}
@@ -1,99 +1,116 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Plus, Trash2, Download } from 'lucide-react';
+import { Plus, Trash2, Download, Check } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { TemplateRenderer } from '@/components/booth/TemplateRenderer';
+import { createTemplate, getTemplates } from '@/lib/api';
+import {
+  PRESET_TEMPLATES, photoSlotCount,
+  type PhotoTemplate, type TemplateElement, type TemplateElementType, type TemplateVars,
+} from '@/services/templateEngine';
 
-const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+// Numbered grey stand-ins so operators can see which slot gets which shot
+function placeholderPhoto(index: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = 800;
+  canvas.height = 600;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, 800, 600);
+  gradient.addColorStop(0, '#52525b');
+  gradient.addColorStop(1, '#27272a');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 800, 600);
+  ctx.fillStyle = '#ffffff66';
+  ctx.font = 'bold 96px system-ui, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`📷 ${index + 1}`, 400, 300);
+  return canvas;
+}
+
+function newElement(type: TemplateElementType, template: PhotoTemplate): TemplateElement {
+  const id = `element-${Date.now()}`;
+  const cx = Math.round(template.width / 2);
+  switch (type) {
+    case 'photo':
+      return { id, type, slot: photoSlotCount(template), x: 100, y: 100, width: 400, height: 300 };
+    case 'text':
+      return { id, type, x: cx, y: 100, text: '{eventName}', size: 48, color: '#ffffff', align: 'center' };
+    case 'rect':
+      return { id, type, x: 100, y: 100, width: 200, height: 200, color: '#8B5CF6', opacity: 0.5 };
+    case 'line':
+      return { id, type, x1: 100, y1: 100, x2: template.width - 100, y2: 100, color: '#ffffff', width: 3 };
+    case 'image':
+      return { id, type, x: 40, y: 40, width: 200, height: 200, url: '{logoUrl}' };
+  }
+}
 
-const PRESET_TEMPLATES = [
-  {
-    id: 'classic-4x6',
-    name: 'Classic 4x6',
-    width: 1200,
-    height: 1800,
-    layout: 'single',
-    elements: [],
-  },
-  {
-    id: 'grid-2x2',
-    name: '2x2 Grid',
-    width: 1200,
-    height: 1200,
-    layout: 'grid-2x2',
-    elements: [],
-  },
-  {
-    id: 'header-footer',
-    name: 'Header & Footer',
-    width: 1200,
-    height: 900,
-    layout: 'header-footer',
-    elements: [
-      { type: 'text', x: 600, y: 100, text: 'Event Name', size: 48, color: '#ffffff' },
-      { type: 'text', x: 600, y: 800, text: 'Date & Location', size: 24, color: '#cccccc' },
-    ],
-  },
-  {
-    id: 'wedding',
-    name: 'Wedding',
-    width: 1200,
-    height: 1200,
-    layout: 'custom',
-    elements: [
-      { type: 'rect', x: 0, y: 0, width: 1200, height: 200, color: '#8B4513', opacity: 0.3 },
-      { type: 'text', x: 600, y: 100, text: 'Our Special Day', size: 48, color: '#ffffff', align: 'center' },
-      { type: 'line', x1: 100, y1: 200, x2: 1100, y2: 200, color: '#FFD700', width: 3 },
-    ],
-  },
-  {
-    id: 'birthday',
-    name: 'Birthday Party',
-    width: 1200,
-    height: 1200,
-    layout: 'custom',
-    elements: [
-      { type: 'text', x: 600, y: 80, text: '🎉 Happy Birthday! 🎉', size: 44, color: '#FF69B4', align: 'center' },
-      { type: 'rect', x: 50, y: 150, width: 1100, height: 950, color: '#FFB6C1', opacity: 0.2 },
-    ],
-  },
-];
+const NUMBER_FIELDS: Record<TemplateElementType, string[]> = {
+  photo: ['slot', 'x', 'y', 'width', 'height', 'radius'],
+  text:  ['x', 'y', 'size'],
+  rect:  ['x', 'y', 'width', 'height', 'opacity'],
+  line:  ['x1', 'y1', 'x2', 'y2', 'width'],
+  image: ['x', 'y', 'width', 'height', 'opacity'],
+};
 
 export function TemplateDesigner({ event, onTemplateSelect }: any) {
-  const [templates, setTemplates] = useState(PRESET_TEMPLATES);
-  const [selectedTemplate, setSelectedTemplate] = useState<any>(PRESET_TEMPLATES[0]);
-  const [isEditing, setIsEditing] = useState(false);
-  const [editingElement, setEditingElement] = useState<any>(null);
+  const [savedTemplates, setSavedTemplates] = useState<PhotoTemplate[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<PhotoTemplate>(
+    (event?.branding?.customTemplate as PhotoTemplate | undefined) || PRESET_TEMPLATES[0]
+  );
+  const [placeholders, setPlaceholders] = useState<HTMLCanvasElement[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const slotCount = photoSlotCount(selectedTemplate);
+  const activeId = (event?.branding?.customTemplate as PhotoTemplate | undefined)?.id;
+  const vars: TemplateVars = {
+    eventName: event?.branding?.eventName || event?.name,
+    footerText: event?.branding?.footerText || event?.name,
+    date: new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' }),
+    logoUrl: event?.branding?.logoUrl || null,
+    frameUrl: event?.branding?.frameUrl || null,
+    primaryColor: event?.branding?.primaryColor || '#7c3aed',
+  };
 
-  function handleTemplateSelect(template: any) {
+  useEffect(() => {
+    setPlaceholders(Array.from({ length: Math.max(slotCount, 1) }, (_, i) => placeholderPhoto(i)));
+  }, [slotCount]);
+
+  useEffect(() => {
+    if (!event?.id) return;
+    getTemplates(event.id)
+      .then((rows: { id: string; name: string; layout: PhotoTemplate }[]) =>
+        setSavedTemplates(rows.filter(r => r.layout?.elements).map(r => ({ ...r.layout, id: r.id, name: r.name }))))
+      .catch(() => setSavedTemplates([]));
+  }, [event?.id]);
+
+  function handleTemplateSelect(template: PhotoTemplate) {
     setSelectedTemplate(template);
-    onTemplateSelect(template);
-    toast.success(`Selected: ${template.name}`);
   }
 
-  function addElement(type: string) {
-    const newElement = {
-      id: `element-${Date.now()}`,
-      type,
-      x: 100,
-      y: 100,
-      ...(type === 'text' && { text: 'New Text', size: 24, color: '#ffffff' }),
-      ...(type === 'rect' && { width: 200, height: 200, color: '#8B5CF6', opacity: 0.5 }),
-      ...(type === 'image' && { width: 400, height: 400, url: '' }),
-    };
+  function handleUseTemplate() {
+    if (photoSlotCount(selectedTemplate) === 0) {
+      toast.error('Add at least one photo slot first');
+      return;
+    }
+    onTemplateSelect(selectedTemplate);
+    toast.success(`Using: ${selectedTemplate.name}`);
+  }
 
+  function addElement(type: TemplateElementType) {
     setSelectedTemplate({
       ...selectedTemplate,
-      elements: [...(selectedTemplate.elements || []), newElement],
+      elements: [...selectedTemplate.elements, newElement(type, selectedTemplate)],
     });
   }
 
-  function updateElement(elementId: string, updates: any) {
+  function updateElement(elementId: string, updates: Record<string, unknown>) {
     setSelectedTemplate({
       ...selectedTemplate,
-      elements: selectedTemplate.elements.map((el: any) =>
-        el.id === elementId ? { ...el, ...updates } : el
+      elements: selectedTemplate.elements.map(el =>
+        el.id === elementId ? ({ ...el, ...updates } as TemplateElement) : el
       ),
     });
   }
@@ -101,91 +118,64 @@ export function TemplateDesigner({ event, onTemplateSelect }: any) {
   function deleteElement(elementId: string) {
     setSelectedTemplate({
       ...selectedTemplate,
-      elements: selectedTemplate.elements.filter((el: any) => el.id !== elementId),
+      elements: selectedTemplate.elements.filter(el => el.id !== elementId),
     });
   }
 
   async function saveTemplate() {
+    if (!selectedTemplate.name) {
+      toast.error('Please name your template');
+      return;
+    }
+    setSaving(true);
     try {
-      if (!selectedTemplate.name) {
-        toast.error('Please name your template');
-        return;
-      }
-
-      const response = await fetch(`${API_BASE}/api/events/${event.id}/templates`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('sb_access_token')}`,
-        },
-        body: JSON.stringify(selectedTemplate),
-      });
-
-      if (!response.ok) throw new Error('Failed to save template');
-
+      const row = await createTemplate(event.id, { name: selectedTemplate.name, layout: selectedTemplate });
+      const saved = { ...selectedTemplate, id: row.id };
+      setSavedTemplates(prev => [saved, ...prev]);
+      setSelectedTemplate(saved);
       toast.success('Template saved successfully!');
     } catch (error: any) {
-      toast.error(error.message);
+      toast.error(error.response?.data?.error || error.message);
+    } finally {
+      setSaving(false);
     }
   }
 
   return (
     <div className="space-y-6">
-      {/* Template Preview */}
+      {/* Template Preview — rendered by the same engine the booth uses */}
       <div className="bg-[#0d0d1a] border border-white/10 rounded-2xl p-6">
-        <h3 className="text-white font-bold text-lg mb-4">Template Preview</h3>
-        <div className="bg-black rounded-lg overflow-hidden flex items-center justify-center" style={{ aspectRatio: selectedTemplate.width / selectedTemplate.height }}>
-          <svg
-            width={Math.min(selectedTemplate.width / 2, 400)}
-            height={Math.min(selectedTemplate.height / 2, 400)}
-            viewBox={`0 0 ${selectedTemplate.width} ${selectedTemplate.height}`}
-            className="bg-white/5"
-          >
-            {/* Render template elements */}
-            {selectedTemplate.elements?.map((el: any) => (
-              <g key={el.id}>
-                {el.type === 'rect' && (
-                  <rect
-                    x={el.x}
-                    y={el.y}
-                    width={el.width}
-                    height={el.height}
-                    fill={el.color}
-                    opacity={el.opacity || 1}
-                  />
-                )}
-                {el.type === 'text' && (
-                  <text
-                    x={el.x}
-                    y={el.y}
-                    fontSize={el.size}
-                    fill={el.color}
-                    textAnchor={el.align === 'center' ? 'middle' : 'start'}
-                  >
-                    {el.text}
-                  </text>
-                )}
-                {el.type === 'line' && (
-                  <line
-                    x1={el.x1}
-                    y1={el.y1}
-                    x2={el.x2}
-                    y2={el.y2}
-                    stroke={el.color}
-                    strokeWidth={el.width || 2}
-                  />
-                )}
-              </g>
-            ))}
-          </svg>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-white font-bold text-lg">Template Preview</h3>
+          <span className="text-white/40 text-xs">
+            {selectedTemplate.width}×{selectedTemplate.height} · {slotCount} photo{slotCount === 1 ? '' : 's'}
+          </span>
+        </div>
+        <div className="bg-black rounded-lg overflow-hidden flex items-center justify-center p-4">
+          {placeholders.length > 0 && (
+            <TemplateRenderer
+              template={selectedTemplate}
+              photos={placeholders}
+              vars={vars}
+              scale={0.4}
+              className="max-h-[420px] w-auto max-w-full object-contain"
+            />
+          )}
         </div>
+        <input
+          type="text"
+          value={selectedTemplate.name}
+          onChange={e => setSelectedTemplate({ ...selectedTemplate, name: e.target.value })}
+          className="mt-4 w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+          placeholder="Template name"
+        />
       </div>
 
-      {/* Preset Templates */}
+      {/* Preset + saved templates */}
       <div className="bg-[#0d0d1a] border border-white/10 rounded-2xl p-6">
-        <h3 className="text-white font-bold text-lg mb-4">Preset Templates</h3>
+        <h3 className="text-white font-bold text-lg mb-4">Templates</h3>
         <div className="grid grid-cols-2 gap-3">
-          {PRESET_TEMPLATES.map(template => (
+          {[...savedTemplates, ...PRESET_TEMPLATES].map(template => (
             <motion.button
               key={template.id}
               whileTap={{ scale: 0.95 }}
@@ -196,9 +186,12 @@ export function TemplateDesigner({ event, onTemplateSelect }: any) {
                   : 'border-white/10 hover:border-white/30 bg-white/5'
               }`}
             >
-              <p className="text-white font-semibold text-sm">{template.name}</p>
+              <p className="text-white font-semibold text-sm flex items-center gap-1.5">
+                {template.name}
+                {activeId === template.id && <Check className="w-3.5 h-3.5 text-green-400" />}
+              </p>
               <p className="text-white/50 text-xs">
-                {template.width}x{template.height}
+                {template.width}x{template.height} · {photoSlotCount(template)} slot{photoSlotCount(template) === 1 ? '' : 's'}
               </p>
             </motion.button>
           ))}
@@ -207,28 +200,37 @@ export function TemplateDesigner({ event, onTemplateSelect }: any) {
 
       {/* Element Editor */}
       <div className="bg-[#0d0d1a] border border-white/10 rounded-2xl p-6">
-        <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center justify-between mb-4 gap-2 flex-wrap">
           <h3 className="text-white font-bold text-lg">Design Elements</h3>
-          <div className="flex gap-2">
-            <button
-              onClick={() => addElement('text')}
-              className="px-3 py-1 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg flex items-center gap-1"
-            >
-              <Plus className="w-4 h-4" /> Text
-            </button>
-            <button
-              onClick={() => addElement('rect')}
-              className="px-3 py-1 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg flex items-center gap-1"
-            >
-              <Plus className="w-4 h-4" /> Shape
-            </button>
+          <div className="flex gap-2 flex-wrap">
+            {(['photo', 'text', 'rect', 'line', 'image'] as TemplateElementType[]).map(type => (
+              <button
+                key={type}
+                onClick={() => addElement(type)}
+                className="px-3 py-1 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg flex items-center gap-1 capitalize"
+              >
+                <Plus className="w-4 h-4" /> {type === 'rect' ? 'Shape' : type}
+              </button>
+            ))}
           </div>
         </div>
 
-        {selectedTemplate.elements?.map((el: any) => (
+        <div className="mb-3 flex items-center gap-2">
+          <span className="text-white/60 text-sm">Background</span>
+          <input
+            type="color"
+            value={selectedTemplate.background.startsWith('#') ? selectedTemplate.background.slice(0, 7) : '#000000'}
+            onChange={e => setSelectedTemplate({ ...selectedTemplate, background: e.target.value })}
+            className="w-12 h-8 rounded cursor-pointer"
+          />
+        </div>
+
+        {selectedTemplate.elements.map(el => (
           <div key={el.id} className="mb-3 p-3 bg-white/5 rounded-lg border border-white/10">
             <div className="flex items-center justify-between mb-2">
-              <span className="text-white text-sm font-semibold capitalize">{el.type}</span>
+              <span className="text-white text-sm font-semibold capitalize">
+                {el.type === 'photo' ? `Photo slot ${el.slot + 1}` : el.type}
+              </span>
               <button
                 onClick={() => deleteElement(el.id)}
                 className="text-red-400 hover:text-red-300 transition-colors"
@@ -237,71 +239,59 @@ export function TemplateDesigner({ event, onTemplateSelect }: any) {
               </button>
             </div>
 
-            {el.type === 'text' && (
-              <div className="space-y-2">
-                <input
-                  type="text"
-                  value={el.text}
-                  onChange={e => updateElement(el.id, { text: e.target.value })}
-                  className="w-full px-2 py-1 bg-white/10 border border-white/20 rounded text-white text-sm"
-                  placeholder="Text content"
-                />
-                <div className="flex gap-2">
-                  <input
-                    type="number"
-                    value={el.size}
-                    onChange={e => updateElement(el.id, { size: Number(e.target.value) })}
-                    className="w-20 px-2 py-1 bg-white/10 border border-white/20 rounded text-white text-sm"
-                    placeholder="Size"
-                  />
-                  <input
-                    type="color"
-                    value={el.color}
-                    onChange={e => updateElement(el.id, { color: e.target.value })}
-                    className="w-12 h-8 rounded cursor-pointer"
-                  />
-                </div>
-              </div>
+            {(el.type === 'text' || el.type === 'image') && (
+              <input
+                type="text"
+                value={el.type === 'text' ? el.text : el.url}
+                onChange={e => updateElement(el.id, el.type === 'text' ? { text: e.target.value } : { url: e.target.value })}
+                className="w-full mb-2 px-2 py-1 bg-white/10 border border-white/20 rounded text-white text-sm"
+                placeholder={el.type === 'text' ? 'Text — {eventName}, {footerText}, {date}' : 'Image URL or {logoUrl}'}
+              />
             )}
 
-            {el.type === 'rect' && (
-              <div className="space-y-2">
-                <div className="flex gap-2">
+            <div className="flex gap-2 flex-wrap items-center">
+              {NUMBER_FIELDS[el.type].map(field => (
+                <label key={field} className="flex items-center gap-1 text-white/40 text-xs">
+                  {field}
                   <input
                     type="number"
-                    value={el.width}
-                    onChange={e => updateElement(el.id, { width: Number(e.target.value) })}
-                    className="w-24 px-2 py-1 bg-white/10 border border-white/20 rounded text-white text-sm"
-                    placeholder="Width"
-                  />
-                  <input
-                    type="number"
-                    value={el.height}
-                    onChange={e => updateElement(el.id, { height: Number(e.target.value) })}
-                    className="w-24 px-2 py-1 bg-white/10 border border-white/20 rounded text-white text-sm"
-                    placeholder="Height"
+                    step={field === 'opacity' ? 0.1 : 1}
+                    value={Number((el as unknown as Record<string, unknown>)[field] ?? 0)}
+                    onChange={e => updateElement(el.id, { [field]: Number(e.target.value) })}
+                    className="w-20 px-2 py-1 bg-white/10 border border-white/20 rounded text-white text-sm"
                   />
-                </div>
+                </label>
+              ))}
+              {'color' in el && (
                 <input
                   type="color"
-                  value={el.color}
+                  value={el.color.startsWith('#') ? el.color.slice(0, 7) : '#ffffff'}
                   onChange={e => updateElement(el.id, { color: e.target.value })}
                   className="w-12 h-8 rounded cursor-pointer"
                 />
-              </div>
-            )}
+              )}
+            </div>
           </div>
         ))}
       </div>
 
-      {/* Save Button */}
-      <button
-        onClick={saveTemplate}
-        className="w-full px-4 py-3 bg-violet-600 hover:bg-violet-500 text-white font-bold rounded-lg flex items-center justify-center gap-2"
-      >
-        <Download className="w-5 h-5" />
-        Save Template
-      </button>
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={saveTemplate}
+          disabled={saving}
+          className="px-4 py-3 bg-white/10 hover:bg-white/20 text-white font-bold rounded-lg flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Download className="w-5 h-5" />
+          {saving ? 'Saving…' : 'Save Template'}
+        </button>
+        <button
+          onClick={handleUseTemplate}
+          className="px-4 py-3 bg-violet-600 hover:bg-violet-500 text-white font-bold rounded-lg flex items-center justify-center gap-2"
+        >
+          <Check className="w-5 h-5" />
+          Use for this Event
+        </button>
+      </div>
     </div>
   );
 }
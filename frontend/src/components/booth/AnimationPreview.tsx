@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { sequenceFrames, type LoopStyle } from '@/services/animationEncoder';
+import type { AnimationPreview as AnimationPreviewState } from '@/lib/store';
+
+/**
+ * Plays captured frames in the same order and timing the encoder will use,
+ * so guests see their GIF/boomerang the moment capture ends.
+ */
+export function AnimationPreview({ frames, delayMs, loopStyle, className = '' }: {
+  frames: Blob[];
+  delayMs: number;
+  loopStyle: LoopStyle;
+  className?: string;
+}) {
+  const urls = useMemo(() => frames.map(f => URL.createObjectURL(f)), [frames]);
+  useEffect(() => () => urls.forEach(u => URL.revokeObjectURL(u)), [urls]);
+
+  const sequence = useMemo(() => sequenceFrames(urls, loopStyle), [urls, loopStyle]);
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    setIndex(0);
+    if (sequence.length < 2) return;
+    const timer = setInterval(() => setIndex(i => (i + 1) % sequence.length), delayMs);
+    return () => clearInterval(timer);
+  }, [sequence, delayMs]);
+
+  if (sequence.length === 0) return null;
+  // eslint-disable-next-line @next/next/no-img-element
+  return <img src={sequence[index % sequence.length]} alt="Animation preview" className={className} />;
+}
+
+/**
+ * Stand-in preview screen while a GIF/boomerang encodes and uploads —
+ * PreviewScreen swaps to its full layout once the upload returns.
+ */
+export function AnimationEncodingView({ preview, label }: { preview: AnimationPreviewState; label: string }) {
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center gap-5 bg-[#080810] p-4">
+      <AnimationPreview
+        frames={preview.frames}
+        delayMs={preview.delayMs}
+        loopStyle={preview.loopStyle}
+        className="max-h-[70vh] w-auto max-w-full rounded-2xl object-contain shadow-2xl"
+      />
+      <div className="flex items-center gap-3 text-white/70 text-sm">
+        <div className="w-5 h-5 border-2 border-purple-500 border-t-transparent rounded-full animate-spin" />
+        Finishing your {label}…
+      </div>
+    </div>
+  );
+}
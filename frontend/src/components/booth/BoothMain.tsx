@@ -1,20 +1,47 @@
 'use client';
 
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useState } from 'react';
 import { useBoothStore } from '@/lib/store';
 import { IdleScreen } from './IdleScreen';
 import { CountdownScreen } from './CountdownScreen';
 import { PreviewScreen } from './PreviewScreen';
 import { AIStudioScreen } from './AIStudioScreen';
 import { ShareScreen } from './ShareScreen';
+import { PendingUploadScreen } from './PendingUploadScreen';
 import { FlashOverlay } from './FlashOverlay';
 import { motion, AnimatePresence } from 'framer-motion';
 import { io } from 'socket.io-client';
+import { offlineQueue } from '@/services/offlineQueue';
+import { printService, type PrintCommand } from '@/services/printService';
 
 export function BoothMain() {
   const { screen, event, resetSession, setScreen } = useBoothStore();
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const socketRef = useRef<ReturnType<typeof io> | null>(null);
+  const [queuedCount, setQueuedCount] = useState(0);
+
+  // Offline capture queue — retry uploads in the background while the booth runs
+  useEffect(() => {
+    offlineQueue.start();
+    const unsubscribe = offlineQueue.subscribe(setQueuedCount);
+    return () => {
+      unsubscribe();
+      offlineQueue.stop();
+    };
+  }, []);
+
+  // Print queue — resume jobs left over from before a reload and mirror them to the backend
+  useEffect(() => {
+    printService.start();
+    return () => printService.stop();
+  }, []);
+
+  // The event manager's pause switch is saved on the event, so a booth that was
+  // offline when it was flipped picks it up on load
+  useEffect(() => {
+    const paused = event?.settings.printQueuePaused;
+    if (paused !== undefined && paused !== printService.isPaused()) printService.setPaused(paused);
+  }, [event]);
 
   // Connect to Socket.IO for real-time updates
   useEffect(() => {
@@ -40,6 +67,10 @@ export function BoothMain() {
       useBoothStore.getState().setAIProgress(message);
     });
 
+    socket.on('print-command', (command: PrintCommand) => {
+      printService.handleCommand(command).catch(err => console.error('Print command failed:', err));
+    });
+
     return () => {
       socket.disconnect();
     };
@@ -85,11 +116,17 @@ export function BoothMain() {
     aistudio: <AIStudioScreen />,
     share: <ShareScreen />,
     print: <ShareScreen />, // print is part of share screen
+    pending: <PendingUploadScreen />,
   };
 
   return (
     <div className="booth-container" onTouchStart={resetTimeout} onClick={resetTimeout}>
       <FlashOverlay />
+      {queuedCount > 0 && (
+        <div className="fixed bottom-3 left-3 z-40 bg-black/70 border border-amber-400/40 rounded-full px-3 py-1 text-amber-300 text-xs font-medium pointer-events-none">
+          ☁ {queuedCount} waiting to upload
+        </div>
+      )}
       <AnimatePresence mode="wait">
         <motion.div
           key={screen}
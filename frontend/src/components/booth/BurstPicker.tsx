@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, RefreshCw, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useBoothStore } from '@/lib/store';
+import { createBurst } from '@/lib/api';
+import { templateEngine, resolveTemplate, templateVars, contactSheetTemplate } from '@/services/templateEngine';
+
+/**
+ * Best-shot picker for burst mode. Frames stay local until the guest picks
+ * favourites; each pick is rendered through the event's single-photo template
+ * and uploaded together (plus an optional contact sheet of every frame).
+ */
+export function BurstPicker() {
+  const { event, sessionId, burstFrames, setBurstFrames, setCurrentPhoto, setScreen } = useBoothStore();
+  const [picked, setPicked] = useState<number[]>([]);
+  const [uploading, setUploading] = useState(false);
+
+  const urls = useMemo(() => burstFrames.map(f => URL.createObjectURL(f)), [burstFrames]);
+  useEffect(() => () => urls.forEach(u => URL.revokeObjectURL(u)), [urls]);
+
+  const primaryColor = event?.branding?.primaryColor || '#7c3aed';
+
+  function togglePick(index: number) {
+    setPicked(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b));
+  }
+
+  function handleRetake() {
+    setBurstFrames([]);
+    setScreen('countdown');
+  }
+
+  async function handleUpload() {
+    if (!event || picked.length === 0) return;
+    setUploading(true);
+    try {
+      const vars = templateVars(event);
+      const template = resolveTemplate(event, 'single');
+      const rendered = await Promise.all(
+        picked.map(i => templateEngine.renderToBlob(template, [burstFrames[i]], vars))
+      );
+      const sheet = event.settings?.burstContactSheet
+        ? await templateEngine.renderToBlob(contactSheetTemplate(burstFrames.length), burstFrames, vars)
+        : undefined;
+
+      const result = await createBurst(rendered, event.id, sessionId, sheet);
+      if (!result?.photos?.length) throw new Error('Upload failed');
+      setCurrentPhoto({ ...result.photos[0], mode: 'burst' });
+      setBurstFrames([]);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || err.message || 'Upload failed — try again');
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-[#080810] p-4 sm:p-6 gap-4">
+      <div className="text-center">
+        <h2 className="text-white font-bold text-xl">Pick your best shots</h2>
+        <p className="text-white/40 text-sm">Tap to select — {picked.length} of {burstFrames.length} chosen</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {urls.map((url, i) => {
+            const isPicked = picked.includes(i);
+            return (
+              <motion.button
+                key={url}
+                whileTap={{ scale: 0.96 }}
+                onClick={() => togglePick(i)}
+                disabled={uploading}
+                className="relative rounded-xl overflow-hidden border-2 transition-colors"
+                style={{ borderColor: isPicked ? primaryColor : 'rgba(255,255,255,0.08)' }}
+              >
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={url} alt={`Frame ${i + 1}`} className="w-full aspect-[4/3] object-cover" />
+                {isPicked && (
+                  <span className="absolute top-2 right-2 w-7 h-7 rounded-full flex items-center justify-center" style={{ background: primaryColor }}>
+                    <Check className="w-4 h-4 text-white" />
+                  </span>
+                )}
+              </motion.button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={handleRetake}
+          disabled={uploading}
+          className="py-4 rounded-2xl bg-white/5 border border-white/10 text-white font-bold flex items-center justify-center gap-2 disabled:opacity-40"
+        >
+          <RefreshCw className="w-5 h-5" /> Retake
+        </button>
+        <button
+          onClick={handleUpload}
+          disabled={uploading || picked.length === 0}
+          className="py-4 rounded-2xl text-white font-bold flex items-center justify-center gap-2 disabled:opacity-40"
+          style={{ background: primaryColor }}
+        >
+          <Upload className="w-5 h-5" />
+          {uploading ? 'Uploading…' : `Use ${picked.length || ''} photo${picked.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, RotateCw, FlipHorizontal, Mic } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  CAMERA_RESOLUTIONS, drawReframed, getCameraPrefs, setCameraPrefs, listMediaDevices, openCameraStream,
+  type CameraPrefs, type CameraResolution, type CaptureSourceConfig,
+} from '@/services/captureSource';
+
+const CROP_OPTIONS: Array<{ label: string; aspect: number | null }> = [
+  { label: 'Full frame', aspect: null },
+  { label: '4:3',        aspect: 4 / 3 },
+  { label: '3:2',        aspect: 3 / 2 },
+  { label: '16:9',       aspect: 16 / 9 },
+  { label: 'Square',     aspect: 1 },
+  { label: '3:4',        aspect: 3 / 4 },
+  { label: '2:3',        aspect: 2 / 3 },
+];
+
+const selectClass = 'w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-white text-sm focus:outline-none focus:border-purple-500';
+
+/**
+ * Operator picker for the booth webcam and microphone. Each camera is previewed
+ * live with its saved resolution / mirror / rotation / crop; Save stores those
+ * per camera on this device and makes the chosen pair the booth's capture source.
+ */
+export function CameraPickerModal({ config, onSave, onClose }: {
+  config: CaptureSourceConfig;
+  onSave: (config: CaptureSourceConfig) => void;
+  onClose: () => void;
+}) {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [mics, setMics] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState(config.deviceId || '');
+  const [audioDeviceId, setAudioDeviceId] = useState(config.audioDeviceId || '');
+  // Edits for every camera looked at in this session, saved together
+  const [edits, setEdits] = useState<Record<string, CameraPrefs>>({});
+  const [actualSize, setActualSize] = useState('');
+  const [micLevel, setMicLevel] = useState(0);
+  const [error, setError] = useState('');
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const prefs = edits[deviceId] || getCameraPrefs(deviceId);
+  const prefsRef = useRef(prefs);
+  prefsRef.current = prefs;
+
+  function update(patch: Partial<CameraPrefs>) {
+    setEdits(prev => ({ ...prev, [deviceId]: { ...prefs, ...patch } }));
+  }
+
+  // Labels only appear once a stream has been granted, so list again after each open
+  async function refreshDevices() {
+    const [video, audio] = await Promise.all([listMediaDevices('videoinput'), listMediaDevices('audioinput')]);
+    setCameras(video);
+    setMics(audio);
+  }
+
+  // Live camera preview — reopened when the camera or resolution changes
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let raf = 0;
+    let cancelled = false;
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    setError('');
+    setActualSize('');
+
+    openCameraStream(deviceId || undefined, prefs)
+      .then(async (s) => {
+        if (cancelled) { s.getTracks().forEach(t => t.stop()); return; }
+        stream = s;
+        video.srcObject = s;
+        await video.play().catch(() => {});
+        refreshDevices();
+        const draw = () => {
+          const canvas = canvasRef.current;
+          if (canvas && drawReframed(video, prefsRef.current, canvas)) {
+            setActualSize(`${video.videoWidth}×${video.videoHeight}`);
+          }
+          raf = requestAnimationFrame(draw);
+        };
+        draw();
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not open this camera');
+      });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(raf);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [deviceId, prefs.resolution]);
+
+  // Microphone level meter for the selected input
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let ctx: AudioContext | null = null;
+    let raf = 0;
+    let cancelled = false;
+
+    navigator.mediaDevices.getUserMedia({ audio: audioDeviceId ? { deviceId: { exact: audioDeviceId } } : true })
+      .then((s) => {
+        if (cancelled) { s.getTracks().forEach(t => t.stop()); return; }
+        stream = s;
+        ctx = new AudioContext();
+        const analyser = ctx.createAnalyser();
+        analyser.fftSize = 256;
+        ctx.createMediaStreamSource(s).connect(analyser);
+        const samples = new Uint8Array(analyser.fftSize);
+        const tick = () => {
+          analyser.getByteTimeDomainData(samples);
+          let peak = 0;
+          for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i] - 128));
+          setMicLevel(Math.round((peak / 128) * 20) / 20);
+          raf = requestAnimationFrame(tick);
+        };
+        tick();
+      })
+      .catch(() => setMicLevel(0));
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(raf);
+      stream?.getTracks().forEach(t => t.stop());
+      ctx?.close();
+    };
+  }, [audioDeviceId]);
+
+  function handleSave() {
+    Object.entries(edits).forEach(([id, p]) => setCameraPrefs(id || undefined, p));
+    onSave({ ...config, kind: 'webcam', deviceId: deviceId || undefined, audioDeviceId: audioDeviceId || undefined });
+    toast.success('Camera saved for this booth');
+    onClose();
+  }
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{ y: 40, opacity: 0 }} animate={{ y: 0, opacity: 1 }}
+        className="bg-[#12121a] border border-white/10 rounded-2xl w-full max-w-3xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/10">
+          <h3 className="text-white font-bold text-lg">📷 Camera &amp; Microphone</h3>
+          <button onClick={onClose}><X className="w-5 h-5 text-white/40 hover:text-white" /></button>
+        </div>
+
+        <div className="grid sm:grid-cols-[1fr_240px] gap-4 p-5">
+          <div className="space-y-3">
+            <div className="relative aspect-video bg-black rounded-xl overflow-hidden flex items-center justify-center">
+              <canvas ref={canvasRef} className="max-w-full max-h-full object-contain" />
+              {error && <p className="absolute inset-0 flex items-center justify-center p-6 text-center text-red-300 text-sm">{error}</p>}
+              {actualSize && (
+                <span className="absolute bottom-2 right-2 bg-black/60 text-white/70 text-[10px] font-mono px-2 py-0.5 rounded">
+                  {actualSize}
+                </span>
+              )}
+            </div>
+
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              <CameraButton label="Front camera" active={!deviceId} onClick={() => setDeviceId('')} />
+              {cameras.map((d, i) => (
+                <CameraButton key={d.deviceId} label={d.label || `Camera ${i + 1}`}
+                  active={deviceId === d.deviceId} onClick={() => setDeviceId(d.deviceId)} />
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <p className="text-white/50 text-xs mb-1.5">Resolution</p>
+              <select value={prefs.resolution} onChange={e => update({ resolution: e.target.value as CameraResolution })} className={selectClass}>
+                {(Object.keys(CAMERA_RESOLUTIONS) as CameraResolution[]).map(r => (
+                  <option key={r} value={r}>{CAMERA_RESOLUTIONS[r].label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <button onClick={() => update({ mirror: !prefs.mirror })}
+                className={`py-2 rounded-xl text-xs font-semibold flex items-center justify-center gap-1.5 border transition-all ${
+                  prefs.mirror ? 'bg-purple-600/30 border-purple-500 text-purple-200' : 'bg-white/5 border-white/10 text-white/60'
+                }`}>
+                <FlipHorizontal className="w-4 h-4" /> Mirror
+              </button>
+              <button onClick={() => update({ rotation: ((prefs.rotation + 90) % 360) as CameraPrefs['rotation'] })}
+                className="py-2 rounded-xl text-xs font-semibold flex items-center justify-center gap-1.5 border bg-white/5 border-white/10 text-white/60 hover:text-white transition-all">
+                <RotateCw className="w-4 h-4" /> {prefs.rotation}°
+              </button>
+            </div>
+
+            <div>
+              <p className="text-white/50 text-xs mb-1.5">Crop</p>
+              <select value={String(prefs.cropAspect)}
+                onChange={e => update({ cropAspect: e.target.value === 'null' ? null : Number(e.target.value) })}
+                className={selectClass}>
+                {CROP_OPTIONS.map(o => <option key={o.label} value={String(o.aspect)}>{o.label}</option>)}
+              </select>
+            </div>
+
+            <div>
+              <div className="flex justify-between text-xs mb-1.5">
+                <span className="text-white/50">Zoom</span>
+                <span className="text-purple-300 font-semibold">{prefs.zoom.toFixed(1)}×</span>
+              </div>
+              <input type="range" min="1" max="2" step="0.1" value={prefs.zoom}
+                onChange={e => update({ zoom: Number(e.target.value) })}
+                className="w-full accent-purple-500" />
+            </div>
+
+            <div>
+              <p className="text-white/50 text-xs mb-1.5 flex items-center gap-1.5"><Mic className="w-3.5 h-3.5" /> Microphone</p>
+              <select value={audioDeviceId} onChange={e => setAudioDeviceId(e.target.value)} className={selectClass}>
+                <option value="">System default</option>
+                {mics.map((d, i) => <option key={d.deviceId} value={d.deviceId}>{d.label || `Microphone ${i + 1}`}</option>)}
+              </select>
+              <div className="h-1.5 mt-2 rounded-full bg-white/10 overflow-hidden">
+                <div className="h-full bg-green-400 transition-[width] duration-75" style={{ width: `${Math.round(micLevel * 100)}%` }} />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-3 px-5 py-4 border-t border-white/10">
+          <button onClick={onClose} className="flex-1 py-3 rounded-xl text-white/50 text-sm hover:text-white/80 transition-colors">Cancel</button>
+          <button onClick={handleSave} disabled={!!error}
+            className="flex-1 py-3 rounded-xl bg-purple-600 hover:bg-purple-500 text-white font-semibold text-sm transition-all disabled:opacity-40">
+            Use this camera
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+function CameraButton({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button onClick={onClick}
+      className={`flex-shrink-0 px-3 py-2 rounded-xl text-xs font-semibold border transition-all max-w-[180px] truncate ${
+        active ? 'bg-purple-600/30 border-purple-500 text-purple-200' : 'bg-white/5 border-white/10 text-white/60 hover:text-white'
+      }`}>
+      {label}
+    </button>
+  );
+}
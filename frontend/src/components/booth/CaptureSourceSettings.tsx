@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import type { Event } from '@/lib/store';
+import {
+  CAPTURE_SOURCE_LABELS, DEFAULT_BRIDGE_URL,
+  createCaptureSource, getDeviceCaptureConfig, setDeviceCaptureConfig, listMediaDevices,
+  type CaptureSourceConfig, type CaptureSourceKind,
+} from '@/services/captureSource';
+import { CameraPickerModal } from './CameraPickerModal';
+
+const selectClass = 'w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2.5 text-white text-sm focus:outline-none focus:border-purple-500';
+
+/**
+ * Operator-panel picker for this device's camera. "Event default" follows the
+ * source chosen in the event manager; anything else is saved on this device only.
+ * Webcams open the full camera & microphone picker.
+ */
+export function CaptureSourceSettings({ event }: { event: Event | null }) {
+  const [override, setOverride] = useState<CaptureSourceConfig | null>(() => getDeviceCaptureConfig());
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [testing, setTesting] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
+
+  const eventKind = event?.settings?.captureSource?.kind || 'webcam';
+  const config = override || event?.settings?.captureSource || { kind: 'webcam' as const };
+
+  useEffect(() => {
+    if (config.kind === 'webcam') listMediaDevices('videoinput').then(setDevices).catch(() => setDevices([]));
+  }, [config.kind, showPicker]);
+
+  const cameraLabel = config.deviceId
+    ? devices.find(d => d.deviceId === config.deviceId)?.label || 'Selected camera'
+    : 'Front camera';
+
+  function save(next: CaptureSourceConfig | null) {
+    setOverride(next);
+    setDeviceCaptureConfig(next);
+  }
+
+  async function testConnection() {
+    setTesting(true);
+    const source = createCaptureSource(config);
+    try {
+      await source.start();
+      toast.success('Camera connected');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Camera not reachable');
+    } finally {
+      source.stop();
+      setTesting(false);
+    }
+  }
+
+  return (
+    <div className="bg-white/5 rounded-xl p-3 space-y-2.5">
+      <p className="text-white/50 text-xs">Camera on this device</p>
+      <select
+        value={override?.kind ?? 'event'}
+        onChange={e => save(e.target.value === 'event' ? null : { ...config, kind: e.target.value as CaptureSourceKind })}
+        className={selectClass}
+      >
+        <option value="event">Event default ({CAPTURE_SOURCE_LABELS[eventKind]})</option>
+        {(Object.keys(CAPTURE_SOURCE_LABELS) as CaptureSourceKind[]).map(kind => (
+          <option key={kind} value={kind}>{CAPTURE_SOURCE_LABELS[kind]}</option>
+        ))}
+      </select>
+
+      {config.kind === 'webcam' && (
+        <button
+          onClick={() => setShowPicker(true)}
+          className="w-full py-2 px-3 rounded-xl bg-white/10 hover:bg-white/20 text-white text-xs font-semibold transition-all flex items-center justify-between gap-2"
+        >
+          <span className="truncate">{cameraLabel}</span>
+          <span className="text-white/40 flex-shrink-0">Camera &amp; mic…</span>
+        </button>
+      )}
+
+      {config.kind !== 'webcam' && (
+        <>
+          <input
+            value={config.bridgeUrl || ''}
+            onChange={e => save({ ...config, bridgeUrl: e.target.value || undefined })}
+            placeholder={DEFAULT_BRIDGE_URL}
+            className={selectClass}
+          />
+          <button
+            onClick={testConnection}
+            disabled={testing}
+            className="w-full py-2 rounded-xl bg-white/10 hover:bg-white/20 text-white text-xs font-semibold transition-all disabled:opacity-40"
+          >
+            {testing ? 'Connecting…' : 'Test capture bridge'}
+          </button>
+        </>
+      )}
+
+      <AnimatePresence>
+        {showPicker && (
+          <CameraPickerModal config={config} onSave={save} onClose={() => setShowPicker(false)} />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -1,10 +1,16 @@
 'use client';
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import Webcam from 'react-webcam';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useBoothStore } from '@/lib/store';
-import { uploadPhoto, createGIF, createStrip } from '@/lib/api';
+import { useBoothStore, type AnimationPreview } from '@/lib/store';
+import { uploadPhoto, createGIF, uploadVideo, uploadAnimation } from '@/lib/api';
+import { offlineQueue, isNetworkError } from '@/services/offlineQueue';
+import { greenScreenService } from '@/services/greenScreen';
+import { beautyFilterService, beautyStrength } from '@/services/beautyFilter';
+import { createCaptureSource, resolveCaptureConfig, previewReady, previewSize, type CaptureSource } from '@/services/captureSource';
+import { templateEngine, resolveTemplate, templateVars, photoSlotCount } from '@/services/templateEngine';
+import { TemplateRenderer } from '@/components/booth/TemplateRenderer';
+import { animationEncoder, animationSettings } from '@/services/animationEncoder';
 import toast from 'react-hot-toast';
 
 
@@ -48,43 +54,110 @@ function playShutter() {
 const STRIP_COUNT = 4;
 const GIF_COUNT = 6;
 const BOOMERANG_COUNT = 5;
+const BURST_COUNT = 6;
+const BURST_INTERVAL_MS = 300;
+const MAX_RETAKES = 3;
+const VIDEO_SECONDS = 15;
+
+// Safari records mp4; Chrome/Firefox record webm
+function pickVideoMimeType(): string | undefined {
+  const candidates = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+  return candidates.find(t => MediaRecorder.isTypeSupported(t));
+}
 
 export function CountdownScreen() {
   const {
     event, mode, sessionId,
-    setScreen, setCurrentPhoto,
+    setScreen, setCurrentPhoto, setPendingCapture, setBurstFrames, setAnimationPreview,
     addFrame, clearFrames, capturedFrames,
     setProcessing, triggerFlash,
   } = useBoothStore();
 
-  const webcamRef = useRef<Webcam>(null);
+  const [captureConfig] = useState(() => resolveCaptureConfig(event));
+  const sourceRef = useRef<CaptureSource | null>(null);
+  const previewHostRef = useRef<HTMLDivElement>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
   const [countdown, setCountdown] = useState<number | null>(null);
-  const [phase, setPhase] = useState<'ready' | 'countdown' | 'capturing' | 'processing'>('ready');
+  const [phase, setPhase] = useState<'ready' | 'countdown' | 'capturing' | 'recording' | 'review' | 'processing'>('ready');
   const [shotsTaken, setShotsTaken] = useState(0);
+  // Strip review: prepared (keyed + framed) shots the guest can retake one at a time
+  const [reviewFrames, setReviewFrames] = useState<Blob[]>([]);
+  const [retakesUsed, setRetakesUsed] = useState(0);
+  const [retakingIndex, setRetakingIndex] = useState<number | null>(null);
+  const unmountedRef = useRef(false);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const [recordedSeconds, setRecordedSeconds] = useState(0);
   // ── Camera warm-up: block countdown until the camera stream is live ──────
-  // On iPad Safari the Webcam component mounts before the video pipeline is
-  // ready. getScreenshot() during that window returns null or a black frame.
-  // We wait for onUserMedia, then add an extra 400ms so the sensor can
+  // On iPad Safari the video element exists before the video pipeline is
+  // ready. Grabbing a frame during that window returns a black frame.
+  // We wait for the source to start, then add an extra 400ms so the sensor can
   // auto-expose — this eliminates the 1-2s black screen on first capture.
   const [isCameraReady, setIsCameraReady] = useState(false);
   const [cameraError, setCameraError] = useState('');
 
-  const totalShots = mode === 'strip' ? STRIP_COUNT : mode === 'gif' ? GIF_COUNT : mode === 'boomerang' ? BOOMERANG_COUNT : 1;
+  // Strip shot count follows the strip template's photo slots
+  const stripShots = photoSlotCount(resolveTemplate(event, 'strip')) || STRIP_COUNT;
+  const burstShots = Math.min(Math.max(event?.settings?.burstCount ?? BURST_COUNT, 2), 10);
+  const burstInterval = Math.min(Math.max(event?.settings?.burstIntervalMs ?? BURST_INTERVAL_MS, 100), 2000);
+  const isBurst = mode === 'burst';
+  const isVideo = mode === 'video';
+  const videoSeconds = Math.min(Math.max(event?.settings?.videoDuration ?? VIDEO_SECONDS, 5), 30);
+  const totalShots = isVideo ? 0 : isBurst ? burstShots : mode === 'strip' ? stripShots : mode === 'gif' ? GIF_COUNT : mode === 'boomerang' ? BOOMERANG_COUNT : 1;
   const countdownSeconds = event?.settings?.countdownSeconds ?? 3;
   const soundEnabled = (event?.settings?.countdownSound as boolean) !== false; // on by default
   const roamingMode = (event?.settings?.roamingMode as boolean) ?? false; // no countdown, instant capture
+  const chromaKey = event?.settings?.chromaKey;
+  const chromaKeyEnabled = !!chromaKey?.enabled;
+  const beauty = beautyStrength(event?.settings?.beautyLevel);
+  // Beauty and chroma key both replace the raw feed with a processed canvas
+  const processedPreview = chromaKeyEnabled || beauty > 0;
+  const reviewStrip = mode === 'strip' && event?.settings?.allowRetakes !== false;
+  const retakesLeft = Math.max((event?.settings?.maxRetakes ?? MAX_RETAKES) - retakesUsed, 0);
+
+  const captureFrame = useCallback(async (): Promise<Blob | null> => {
+    try {
+      return (await sourceRef.current?.capture()) ?? null;
+    } catch (err) {
+      console.warn('[CountdownScreen] capture failed:', err);
+      toast.error('Camera didn\'t fire — try again');
+      return null;
+    }
+  }, []);
+
+  // Start the event's (or this device's) capture source and mount its live view
+  useEffect(() => {
+    const source = createCaptureSource(captureConfig, { audio: isVideo });
+    sourceRef.current = source;
+    let cancelled = false;
+
+    if (source.preview && previewHostRef.current) {
+      source.preview.className = 'w-full h-full object-cover';
+      if (source.mirrored) source.preview.style.transform = 'scaleX(-1)';
+      previewHostRef.current.appendChild(source.preview);
+    }
+
+    source.start()
+      .then(() => {
+        if (!cancelled) setTimeout(() => { if (!cancelled) setIsCameraReady(true); }, 400);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        const msg = err instanceof Error ? `${err.name} ${err.message}` : String(err);
+        setCameraError(
+          source.kind !== 'webcam' ? (err instanceof Error ? err.message : 'Could not reach the camera.')
+            : msg.includes('NotAllowed') || msg.includes('Permission')
+              ? 'Camera permission denied. Please allow camera access and try again.'
+              : 'Could not start camera. Check it isn\'t in use by another app.'
+        );
+      });
 
-  const captureFrame = useCallback((): Blob | null => {
-    const imageSrc = webcamRef.current?.getScreenshot();
-    if (!imageSrc) return null;
-
-    // Convert base64 to blob
-    const arr = imageSrc.split(',');
-    const mime = arr[0].match(/:(.*?);/)?.[1] || 'image/jpeg';
-    const bstr = atob(arr[1]);
-    const u8arr = new Uint8Array(bstr.length);
-    for (let i = 0; i < bstr.length; i++) u8arr[i] = bstr.charCodeAt(i);
-    return new Blob([u8arr], { type: mime });
+    return () => {
+      cancelled = true;
+      source.stop();
+      source.preview?.remove();
+      sourceRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   // Composite captured frame with the event frame overlay (if set)
@@ -124,45 +197,234 @@ export function CountdownScreen() {
     });
   }, [event?.branding?.frameUrl]);
 
+  // Smooth skin on the raw shot, then key out the backdrop so the frame overlay
+  // sits on top of the new background
+  const prepareFrame = useCallback(async (blob: Blob): Promise<Blob> => {
+    const smoothed = await beautyFilterService.processBlob(blob, beauty);
+    const keyed = chromaKeyEnabled && chromaKey ? await greenScreenService.processBlob(smoothed, chromaKey) : smoothed;
+    return compositeWithFrame(keyed);
+  }, [beauty, chromaKey, chromaKeyEnabled, compositeWithFrame]);
+
   const processCaptures = useCallback(
-    async (frames: Blob[]) => {
+    async (frames: Blob[], prepared = false) => {
       setPhase('processing');
       setProcessing(true);
+      // What would be uploaded — kept so a network failure can queue it as-is
+      let output: { frames: Blob[]; templated: boolean } = { frames, templated: false };
+      // GIFs hand over to the preview before their upload finishes; by the time it
+      // does, the guest may have pressed Done or Retake
+      let background: AnimationPreview | null = null;
+      const superseded = () => {
+        const current = useBoothStore.getState();
+        return !!background && (current.sessionId !== sessionId || current.animationPreview !== background);
+      };
 
       try {
         if (!event) throw new Error('No event loaded');
 
-        // Apply frame overlay to every captured frame before upload
-        const composited = await Promise.all(frames.map(f => compositeWithFrame(f)));
+        // Apply key + frame overlay to every captured frame before upload
+        // (video clips are keyed live while recording, so they arrive ready)
+        const composited = prepared || mode === 'video' ? frames : await Promise.all(frames.map(prepareFrame));
+        output = { frames: composited, templated: false };
 
         let result;
 
-        if (mode === 'single' || mode === 'aistudio') {
+        if (isBurst) {
+          // Nothing uploads yet — the guest picks favourites on the preview screen first
+          setCurrentPhoto(null);
+          setBurstFrames(composited);
+          setScreen('preview');
+        } else if (mode === 'video') {
+          result = await uploadVideo(composited[0], event.id, sessionId, composited[1]);
+          setCurrentPhoto({ ...result.video, mode });
+          setScreen('preview');
+        } else if (mode === 'aistudio') {
+          // AI input stays un-templated — the style transfer would repaint the layout
           result = await uploadPhoto(composited[0], event.id, sessionId, 'single');
           setCurrentPhoto(result.photo);
-          // AI Studio goes to AIStudioScreen (style picker), regular photo goes to PreviewScreen
-          setScreen(mode === 'aistudio' ? 'aistudio' : 'preview');
-        } else if (mode === 'strip') {
-          result = await createStrip(composited, event.id);
-          setCurrentPhoto({ ...result.strip, mode: 'strip' });
+          setScreen('aistudio');
+        } else if (mode === 'single' || mode === 'strip') {
+          // Render through the event template so upload, preview and print share one image
+          const rendered = await templateEngine.renderToBlob(resolveTemplate(event, mode), composited, templateVars(event));
+          output = { frames: [rendered], templated: true };
+          result = await uploadPhoto(rendered, event.id, sessionId, mode, { templated: true });
+          setCurrentPhoto({ ...result.photo, mode });
           setScreen('preview');
         } else if (mode === 'gif' || mode === 'boomerang') {
-          result = await createGIF(composited, event.id, mode);
-          setCurrentPhoto({ ...result.gif, mode });
+          // Play the frames straight away; encode + upload carry on behind the preview
+          const animation = animationSettings(event, mode);
+          setCurrentPhoto(null);
+          background = { frames: composited, delayMs: animation.delayMs, loopStyle: animation.loopStyle };
+          setAnimationPreview(background);
           setScreen('preview');
+
+          let encoded: Blob | null = null;
+          try {
+            encoded = await animationEncoder.encode(composited, animation);
+          } catch (err) {
+            console.warn('[CountdownScreen] browser encode failed, using server encoder:', err);
+          }
+          if (encoded) {
+            output = { frames: [encoded, composited[0]], templated: true };
+            result = await uploadAnimation(encoded, event.id, mode, sessionId, { poster: composited[0] });
+          } else {
+            result = await createGIF(composited, event.id, mode, sessionId);
+          }
+          if (superseded()) return;
+          setCurrentPhoto({ ...result.gif, mode });
         }
       } catch (error: unknown) {
+        // Backend unreachable: park the capture in the offline queue instead of losing it
+        if (event && output.frames.length > 0 && isNetworkError(error)) {
+          try {
+            const queuedMode = mode === 'aistudio' ? 'single' : mode;
+            const queued = await offlineQueue.enqueue({ eventId: event.id, sessionId, mode: queuedMode, ...output });
+            if (superseded()) return;
+            setPendingCapture({ shortCode: queued.shortCode, mode: queuedMode });
+            setScreen('pending');
+            return;
+          } catch (queueError) {
+            console.error('Offline queue error:', queueError);
+          }
+        }
+        if (superseded()) return;
         const msg = error instanceof Error ? error.message : 'Unknown error';
         toast.error(`Failed to process: ${msg}`);
+        setAnimationPreview(null);
         setScreen('idle');
       } finally {
         setProcessing(false);
         clearFrames();
       }
     },
-    [event, mode, sessionId, setCurrentPhoto, setScreen, setProcessing, clearFrames, compositeWithFrame]
+    [event, mode, isBurst, sessionId, setCurrentPhoto, setPendingCapture, setBurstFrames, setAnimationPreview, setScreen, setProcessing, clearFrames, prepareFrame]
   );
 
+  // Live processed preview: draw each live-view frame (mirrored for selfie webcams, to match the stills)
+  // through the beauty filter and/or keyer onto a canvas laid over the webcam element.
+  useEffect(() => {
+    if (!isCameraReady || !processedPreview) return;
+
+    let raf = 0;
+    let busy = false;
+    let stopped = false;
+    const mirrorCanvas = document.createElement('canvas');
+    if (beauty > 0) beautyFilterService.initialize();
+    // The CPU beauty fallback can't keep up at full resolution; the preview is scaled by CSS anyway
+    const scale = beauty > 0 && !beautyFilterService.usingWebGL ? 0.5 : 1;
+
+    async function renderFrame() {
+      const view = sourceRef.current?.preview;
+      const target = previewCanvasRef.current;
+      if (!stopped && view && target && previewReady(view) && !busy) {
+        busy = true;
+        try {
+          const { width, height } = previewSize(view);
+          mirrorCanvas.width = Math.round(width * scale);
+          mirrorCanvas.height = Math.round(height * scale);
+          const ctx = mirrorCanvas.getContext('2d')!;
+          if (sourceRef.current?.mirrored) ctx.setTransform(-1, 0, 0, 1, mirrorCanvas.width, 0);
+          ctx.drawImage(view, 0, 0, mirrorCanvas.width, mirrorCanvas.height);
+          const smoothed = beauty > 0
+            ? beautyFilterService.processFrame(mirrorCanvas, beauty, chromaKeyEnabled ? undefined : target)
+            : mirrorCanvas;
+          if (chromaKeyEnabled && chromaKey) {
+            await greenScreenService.processFrame(smoothed, chromaKey.backgroundUrl, { ...chromaKey, target });
+          }
+        } catch (err) {
+          console.warn('[CountdownScreen] live preview failed:', err);
+        } finally {
+          busy = false;
+        }
+      }
+      if (!stopped) raf = requestAnimationFrame(renderFrame);
+    }
+
+    raf = requestAnimationFrame(renderFrame);
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(raf);
+    };
+  }, [isCameraReady, processedPreview, beauty, chromaKeyEnabled, chromaKey]);
+
+  async function runCountdown(isCancelled: () => boolean): Promise<boolean> {
+    setPhase('countdown');
+    for (let i = countdownSeconds; i >= 1; i--) {
+      if (isCancelled()) return false;
+      setCountdown(i);
+      if (soundEnabled) playBeep(i === 1 ? 1100 : 880, 0.15, 0.35);
+      await sleep(1000);
+    }
+    setCountdown(null);
+    return !isCancelled();
+  }
+
+  // One shot: countdown (unless instant), flash + shutter, then grab the frame
+  async function takeShot(isCancelled: () => boolean, { instant = false, flash = true } = {}): Promise<Blob | null> {
+    if (instant) {
+      setPhase('capturing');
+      setCountdown(null);
+      if (flash) triggerFlash();
+      if (soundEnabled) playShutter();
+      if (flash) await sleep(150);
+    } else {
+      if (!(await runCountdown(isCancelled))) return null;
+      setPhase('capturing');
+      triggerFlash();
+      if (soundEnabled) playShutter();
+      await sleep(100);
+    }
+    if (isCancelled()) return null;
+    return captureFrame();
+  }
+
+  // Video guestbook: countdown, then record the webcam (or the processed preview) until
+  // the time limit or the guest taps Stop. A mirrored screenshot becomes the poster.
+  async function recordClip(isCancelled: () => boolean) {
+    const stream = sourceRef.current?.stream;
+    if (!stream || typeof MediaRecorder === 'undefined') {
+      toast.error(stream === null ? 'Video recording needs a webcam' : 'Video recording is not supported on this device');
+      setScreen('idle');
+      return;
+    }
+    if (!roamingMode && !(await runCountdown(isCancelled))) return;
+
+    const previewCanvas = previewCanvasRef.current;
+    const source = processedPreview && previewCanvas
+      ? new MediaStream([...previewCanvas.captureStream(30).getVideoTracks(), ...stream.getAudioTracks()])
+      : stream;
+    const mimeType = pickVideoMimeType();
+    const recorder = new MediaRecorder(source, mimeType ? { mimeType, videoBitsPerSecond: 4_000_000 } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+
+    const poster = await captureFrame();
+    recorderRef.current = recorder;
+    recorder.start(1000);
+    setPhase('recording');
+    if (soundEnabled) playBeep(1320, 0.2, 0.35);
+
+    const startedAt = Date.now();
+    while (recorder.state === 'recording' && Date.now() - startedAt < videoSeconds * 1000) {
+      if (isCancelled()) break;
+      setRecordedSeconds(Math.floor((Date.now() - startedAt) / 1000));
+      await sleep(250);
+    }
+    if (recorder.state === 'recording') recorder.stop();
+    await stopped;
+    recorderRef.current = null;
+    if (isCancelled()) return;
+
+    const clip = new Blob(chunks, { type: recorder.mimeType || mimeType || 'video/webm' });
+    await processCaptures(poster ? [clip, poster] : [clip]);
+  }
+
+  useEffect(() => () => {
+    unmountedRef.current = true;
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  }, []);
+
   // Main countdown + capture logic — only fires once isCameraReady is true
   useEffect(() => {
     if (!isCameraReady) return; // wait for onUserMedia + warm-up delay
@@ -170,44 +432,38 @@ export function CountdownScreen() {
     let cancelled = false;
 
     async function runSession() {
+      if (isVideo) {
+        await recordClip(() => cancelled);
+        return;
+      }
+
       const allFrames: Blob[] = [];
 
       for (let shot = 0; shot < totalShots; shot++) {
         if (cancelled) return;
 
-        if (roamingMode) {
-          // Roaming mode: no countdown, capture immediately
-          setPhase('capturing');
-          setCountdown(null);
-          triggerFlash();
-          if (soundEnabled) playShutter();
-          await sleep(150);
-        } else {
-          // Normal countdown
-          setPhase('countdown');
-          for (let i = countdownSeconds; i >= 1; i--) {
-            if (cancelled) return;
-            setCountdown(i);
-            if (soundEnabled) playBeep(i === 1 ? 1100 : 880, 0.15, 0.35);
-            await sleep(1000);
-          }
-          setCountdown(null);
-          setPhase('capturing');
-          triggerFlash();
-          if (soundEnabled) playShutter();
-          await sleep(100);
-        }
-
-        const frame = captureFrame();
+        // Roaming mode and burst follow-up frames: no countdown, capture immediately
+        const frame = await takeShot(() => cancelled, {
+          instant: roamingMode || (isBurst && shot > 0),
+          flash: !isBurst || shot === 0,
+        });
+        if (cancelled) return;
         if (frame) allFrames.push(frame);
         setShotsTaken(shot + 1);
 
         if (shot < totalShots - 1) {
-          await sleep(800); // brief pause between shots
+          await sleep(isBurst ? burstInterval : 800); // brief pause between shots
         }
       }
 
-      if (!cancelled) {
+      if (cancelled) return;
+      if (reviewStrip && allFrames.length > 0) {
+        setPhase('processing');
+        const prepared = await Promise.all(allFrames.map(prepareFrame));
+        if (cancelled) return;
+        setReviewFrames(prepared);
+        setPhase('review');
+      } else {
         await processCaptures(allFrames);
       }
     }
@@ -221,37 +477,41 @@ export function CountdownScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isCameraReady]);
 
+  async function retakeFrame(index: number) {
+    if (retakesLeft <= 0 || retakingIndex !== null) return;
+    setRetakingIndex(index);
+    try {
+      const frame = await takeShot(() => unmountedRef.current);
+      if (!frame || unmountedRef.current) return;
+      const prepared = await prepareFrame(frame);
+      setReviewFrames(prev => prev.map((f, i) => (i === index ? prepared : f)));
+      setRetakesUsed(n => n + 1);
+    } finally {
+      if (!unmountedRef.current) {
+        setRetakingIndex(null);
+        setPhase('review');
+      }
+    }
+  }
+
   return (
     <div className="w-full h-full flex flex-col bg-black relative">
-      {/* Webcam - fills most of screen */}
+      {/* Camera live view - fills most of screen */}
       <div className="flex-1 relative overflow-hidden">
-        <Webcam
-          ref={webcamRef}
-          audio={false}
-          screenshotFormat="image/jpeg"
-          screenshotQuality={0.95}
-          videoConstraints={{
-            facingMode: 'user',
-            width: { ideal: 1920 },
-            height: { ideal: 1080 },
-          }}
-          className="w-full h-full object-cover"
-          mirrored={true}
-          onUserMedia={() => {
-            // Camera stream is live — wait 400ms for auto-exposure to settle
-            // before marking ready and starting the countdown. This eliminates
-            // the black/under-exposed first frame on iPad Safari.
-            setTimeout(() => setIsCameraReady(true), 400);
-          }}
-          onUserMediaError={(err) => {
-            const msg = err instanceof Error ? err.message : String(err);
-            setCameraError(
-              msg.includes('NotAllowed') || msg.includes('Permission')
-                ? 'Camera permission denied. Please allow camera access and try again.'
-                : 'Could not start camera. Check it isn\'t in use by another app.'
-            );
-          }}
-        />
+        <div ref={previewHostRef} className="absolute inset-0" />
+
+        {/* Hot folder: no live view — the photographer's camera takes the shot */}
+        {captureConfig.kind === 'folder' && isCameraReady && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-center p-8">
+            <div className="text-6xl">📸</div>
+            <p className="text-white/70 text-lg font-semibold">Look at the photographer&apos;s camera</p>
+          </div>
+        )}
+
+        {/* Processed preview — replaces the raw feed when beauty mode or a green screen is configured */}
+        {processedPreview && (
+          <canvas ref={previewCanvasRef} className="absolute inset-0 w-full h-full object-cover pointer-events-none" />
+        )}
 
         {/* Camera warm-up overlay — shown until stream is ready */}
         <AnimatePresence>
@@ -293,13 +553,59 @@ export function CountdownScreen() {
           <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center">
             <div className="w-16 h-16 border-4 border-purple-500 border-t-transparent rounded-full animate-spin mb-4" />
             <p className="text-white text-xl font-semibold">
-              {mode === 'gif' || mode === 'boomerang' ? 'Creating your GIF...' : 'Processing photo...'}
+              {mode === 'gif' || mode === 'boomerang' ? 'Creating your GIF...' : isVideo ? 'Uploading your video...' : 'Processing photo...'}
             </p>
           </div>
         )}
 
+        {/* Recording timer */}
+        {phase === 'recording' && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-black/70 rounded-full px-4 py-2 flex items-center gap-2">
+            <motion.span
+              animate={{ opacity: [1, 0.3, 1] }}
+              transition={{ duration: 1, repeat: Infinity }}
+              className="w-3 h-3 rounded-full bg-red-500"
+            />
+            <span className="text-white font-mono font-semibold tabular-nums">
+              0:{String(recordedSeconds).padStart(2, '0')} / 0:{String(videoSeconds).padStart(2, '0')}
+            </span>
+          </div>
+        )}
+
+        {/* Strip review — assembled strip plus per-shot retakes */}
+        {phase === 'review' && event && (
+          <div className="absolute inset-0 z-20 bg-[#080810] flex flex-col sm:flex-row items-center justify-center gap-6 p-6 overflow-y-auto">
+            <TemplateRenderer
+              template={resolveTemplate(event, 'strip')}
+              photos={reviewFrames}
+              vars={templateVars(event)}
+              scale={0.4}
+              className="max-h-[60vh] sm:max-h-full w-auto rounded-xl shadow-2xl"
+            />
+            <div className="flex flex-col gap-4 w-full max-w-sm">
+              <div>
+                <h2 className="text-white font-bold text-xl">Happy with your strip?</h2>
+                <p className="text-white/40 text-sm">
+                  {retakesLeft > 0 ? `Tap a shot to retake it — ${retakesLeft} retake${retakesLeft === 1 ? '' : 's'} left` : 'No retakes left'}
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {reviewFrames.map((frame, i) => (
+                  <ReviewThumb key={i} frame={frame} index={i} disabled={retakesLeft <= 0} onRetake={() => retakeFrame(i)} />
+                ))}
+              </div>
+              <button
+                onClick={() => processCaptures(reviewFrames, true)}
+                className="py-4 rounded-2xl bg-purple-600 hover:bg-purple-500 text-white font-bold transition-colors"
+              >
+                Looks good — save it
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Shot progress for multi-shot modes */}
-        {totalShots > 1 && phase !== 'processing' && (
+        {totalShots > 1 && phase !== 'processing' && phase !== 'review' && retakingIndex === null && (
           <div className="absolute top-6 left-0 right-0 flex justify-center gap-3">
             {Array.from({ length: totalShots }).map((_, i) => (
               <div
@@ -315,7 +621,7 @@ export function CountdownScreen() {
         {/* Mode label */}
         <div className="absolute top-4 right-4 bg-black/60 rounded-xl px-3 py-1.5">
           <span className="text-white/80 text-sm font-medium uppercase tracking-wider">
-            {mode === 'boomerang' ? '🔄 Boomerang' : mode === 'gif' ? '🎬 GIF' : mode === 'strip' ? '🎞️ Strip' : '📸 Photo'}
+            {mode === 'boomerang' ? '🔄 Boomerang' : mode === 'gif' ? '🎬 GIF' : mode === 'strip' ? '🎞️ Strip' : isBurst ? '⚡ Burst' : isVideo ? '🎥 Video' : '📸 Photo'}
           </span>
         </div>
       </div>
@@ -363,14 +669,53 @@ export function CountdownScreen() {
           {phase === 'ready' && <p className="text-white/60">Get ready...</p>}
           {phase === 'countdown' && <p className="text-white font-semibold">Smile! 😊</p>}
           {phase === 'capturing' && <p className="text-purple-400 font-bold">Click! ✨</p>}
+          {phase === 'recording' && <p className="text-red-400 font-bold">Recording — say hello! 🎤</p>}
+          {phase === 'review' && <p className="text-white/60">Review your strip</p>}
           {phase === 'processing' && <p className="text-white/60">Almost done...</p>}
         </div>
-        <div className="w-20" />
+        {phase === 'recording' ? (
+          <button
+            onClick={() => recorderRef.current?.stop()}
+            className="text-white text-sm font-semibold px-4 py-2 rounded-xl bg-red-600 hover:bg-red-500 transition-colors"
+          >
+            Stop
+          </button>
+        ) : (
+          <div className="w-20" />
+        )}
       </div>
     </div>
   );
 }
 
+function ReviewThumb({ frame, index, disabled, onRetake }: {
+  frame: Blob;
+  index: number;
+  disabled: boolean;
+  onRetake: () => void;
+}) {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(frame);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [frame]);
+
+  return (
+    <button
+      onClick={onRetake}
+      disabled={disabled}
+      className="relative rounded-xl overflow-hidden border border-white/10 disabled:cursor-default group"
+    >
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      {url && <img src={url} alt={`Shot ${index + 1}`} className="w-full aspect-[4/3] object-cover" />}
+      <span className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-xs font-semibold py-1">
+        {disabled ? `Shot ${index + 1}` : `🔁 Retake ${index + 1}`}
+      </span>
+    </button>
+  );
+}
+
 function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms));
 }
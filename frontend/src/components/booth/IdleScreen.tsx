@@ -1,23 +1,22 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Camera, Image, Film, Zap, Settings, X, AlertCircle, Sparkles } from 'lucide-react';
-import { useBoothStore } from '@/lib/store';
+import { Camera, Image, Film, Zap, Settings, X, AlertCircle, Sparkles, Layers, Video } from 'lucide-react';
+import { useBoothStore, type BoothMode } from '@/lib/store';
 import { AttractScreenWrapper } from './AttractScreen';
+import { CaptureSourceSettings } from './CaptureSourceSettings';
+import { PrinterStatusCard } from './PrinterStatusCard';
+import { OperatorPinPad } from './OperatorPinPad';
+import { resolveCaptureConfig } from '@/services/captureSource';
+import { verifyOperatorPin } from '@/lib/api';
 
 export function IdleScreen() {
   const { event, setScreen, setMode, resetSession } = useBoothStore();
 
   // Operator panel state
   const [showPanel, setShowPanel] = useState(false);
-  const [pinInput, setPinInput] = useState('');
-  const [pinError, setPinError] = useState(false);
-  const [pinLocked, setPinLocked] = useState(false);
-  const [pinAttempts, setPinAttempts] = useState(0);
-  const [lockCountdown, setLockCountdown] = useState(0);
   const [showPinPad, setShowPinPad] = useState(false);
-  const lockTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   const branding = event?.branding;
   const settings = event?.settings;
@@ -48,10 +47,12 @@ export function IdleScreen() {
     { mode: 'strip'  as const, label: '4-Strip',   icon: <Image  className="w-6 h-6" />,  enabled: true,                              desc: 'Film strip' },
     { mode: 'gif'    as const, label: 'GIF',        icon: <Film   className="w-6 h-6" />,  enabled: settings?.allowGIF !== false,      desc: 'Animated' },
     { mode: 'boomerang' as const, label: 'Boomerang', icon: <Zap  className="w-6 h-6" />,  enabled: settings?.allowBoomerang !== false, desc: 'Looping' },
+    { mode: 'burst'  as const, label: 'Burst',      icon: <Layers className="w-6 h-6" />,  enabled: settings?.allowBurst === true,     desc: 'Pick your best' },
+    { mode: 'video'  as const, label: 'Video',      icon: <Video  className="w-6 h-6" />,  enabled: settings?.allowVideo === true && resolveCaptureConfig(event).kind === 'webcam', desc: 'Leave a message' },
     { mode: 'aistudio' as const, label: 'AI Art',    icon: <Sparkles className="w-6 h-6" />, enabled: settings?.allowAI !== false,        desc: 'AI Studio' },
   ].filter(m => m.enabled);
 
-  function handleStart(mode: 'single' | 'gif' | 'boomerang' | 'strip' | 'aistudio') {
+  function handleStart(mode: BoothMode) {
     if (gated) return;
     // All modes go to countdown first — aistudio captures then goes to style picker
     setMode(mode);
@@ -59,53 +60,10 @@ export function IdleScreen() {
   }
 
   function handleOperatorGear() {
-    const pin = (settings as Record<string, unknown>)?.operatorPin as string;
-    if (pinLocked) return;
-    if (pin) {
-      setShowPinPad(true);
-      setPinInput('');
-      setPinError(false);
-    } else {
-      setShowPanel(true);
-    }
-  }
-
-  function handlePinKey(key: string) {
-    if (key === '⌫') { setPinInput(p => p.slice(0, -1)); return; }
-    if (key === '') return;
-    const pin = (settings as Record<string, unknown>)?.operatorPin as string || '1234';
-    const next = pinInput + key;
-    if (next.length === pin.length) {
-      if (next === pin) {
-        setShowPinPad(false);
-        setShowPanel(true);
-        setPinInput('');
-        setPinAttempts(0);
-      } else {
-        setPinError(true);
-        setPinInput('');
-        setTimeout(() => setPinError(false), 800);
-        const attempts = pinAttempts + 1;
-        setPinAttempts(attempts);
-        if (attempts >= 5) {
-          setPinLocked(true);
-          setLockCountdown(30);
-          lockTimerRef.current = setInterval(() => {
-            setLockCountdown(c => {
-              if (c <= 1) { clearInterval(lockTimerRef.current!); setPinLocked(false); setPinAttempts(0); return 0; }
-              return c - 1;
-            });
-          }, 1000);
-        }
-      }
-    } else {
-      setPinInput(next);
-    }
+    if (event?.operator_pin_length) setShowPinPad(true);
+    else setShowPanel(true);
   }
 
-  const pin = (settings as Record<string, unknown>)?.operatorPin as string || '1234';
-  const pinDots = Array.from({ length: pin.length }, (_, i) => i);
-
   return (
     <div className="w-full h-full flex flex-col items-center justify-center p-8 relative overflow-hidden select-none">
 
@@ -203,31 +161,14 @@ export function IdleScreen() {
 
       {/* PIN Pad Modal */}
       <AnimatePresence>
-        {showPinPad && (
-          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
-            className="fixed inset-0 z-50 bg-black/90 backdrop-blur-sm flex items-center justify-center p-6">
-            <motion.div initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}
-              className="bg-[#12121a] border border-white/10 rounded-2xl p-8 w-full max-w-xs text-center">
-              <Settings className="w-8 h-8 text-white/40 mx-auto mb-3" />
-              <h3 className="text-white font-bold text-lg mb-1">Operator Access</h3>
-              <p className="text-white/40 text-sm mb-5">Enter your PIN</p>
-              <div className="flex justify-center gap-3 mb-6">
-                {pinDots.map((_, i) => (
-                  <div key={i} className={`w-4 h-4 rounded-full border-2 transition-all ${i < pinInput.length ? (pinError ? 'bg-red-500 border-red-500' : 'border-current') : 'border-white/20'}`}
-                    style={i < pinInput.length && !pinError ? { background: primaryColor, borderColor: primaryColor } : {}} />
-                ))}
-              </div>
-              <div className="grid grid-cols-3 gap-2 mb-4">
-                {[1,2,3,4,5,6,7,8,9,'',0,'⌫'].map((k, i) => (
-                  <button key={i} onClick={() => handlePinKey(String(k))}
-                    className={`py-4 rounded-xl text-white font-bold text-lg transition-all active:scale-90 ${k === '' ? 'opacity-0 pointer-events-none' : 'bg-white/10 hover:bg-white/20'}`}>
-                    {k}
-                  </button>
-                ))}
-              </div>
-              <button onClick={() => setShowPinPad(false)} className="text-white/40 text-sm hover:text-white/70 transition-colors">Cancel</button>
-            </motion.div>
-          </motion.div>
+        {showPinPad && !!event?.operator_pin_length && (
+          <OperatorPinPad
+            pinLength={event.operator_pin_length}
+            verify={pin => verifyOperatorPin(event.id, pin)}
+            primaryColor={primaryColor}
+            onSuccess={() => { setShowPinPad(false); setShowPanel(true); }}
+            onCancel={() => setShowPinPad(false)}
+          />
         )}
       </AnimatePresence>
 
@@ -249,6 +190,8 @@ export function IdleScreen() {
                   <p className="text-white/50 text-xs">Event</p>
                   <p className="text-white font-semibold">{event?.name || '—'}</p>
                 </div>
+                <CaptureSourceSettings event={event} />
+                <PrinterStatusCard event={event} />
                 <button onClick={() => { resetSession(); setShowPanel(false); }}
                   className="w-full py-3 rounded-xl bg-white/10 hover:bg-white/20 text-white font-semibold text-sm transition-all">
                   🔄 Reset Session
@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Settings } from 'lucide-react';
+
+const MAX_ATTEMPTS = 5;
+const LOCK_MS = 30_000;
+
+// Shared by every pad on the booth, so closing and reopening one doesn't reset the lock
+let failedAttempts = 0;
+let lockedUntil = 0;
+
+function secondsLocked() {
+  return Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+}
+
+/**
+ * Operator PIN entry. The booth never knows the PIN: once `pinLength` digits are in,
+ * `verify` asks the backend and resolves false for a wrong PIN. Locks every pad for
+ * 30 seconds after five wrong PINs. Render it inside <AnimatePresence> so it fades out.
+ */
+export function OperatorPinPad({ pinLength, verify, primaryColor, title = 'Operator Access', subtitle = 'Enter your PIN', onSuccess, onCancel }: {
+  pinLength: number;
+  verify: (pin: string) => Promise<boolean>;
+  primaryColor: string;
+  title?: string;
+  subtitle?: string;
+  onSuccess: (pin: string) => void;
+  onCancel: () => void;
+}) {
+  const [pinInput, setPinInput] = useState('');
+  const [pinError, setPinError] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [checkFailed, setCheckFailed] = useState(false);
+  const [lockCountdown, setLockCountdown] = useState(secondsLocked);
+
+  useEffect(() => {
+    if (lockCountdown <= 0) return;
+    const timer = setTimeout(() => setLockCountdown(secondsLocked()), 1000);
+    return () => clearTimeout(timer);
+  }, [lockCountdown]);
+
+  async function handlePinKey(key: string) {
+    if (lockCountdown > 0 || checking) return;
+    if (key === '⌫') { setPinInput(p => p.slice(0, -1)); return; }
+    if (key === '') return;
+    const next = pinInput + key;
+    if (next.length < pinLength) { setPinInput(next); return; }
+
+    setPinInput(next);
+    setChecking(true);
+    setCheckFailed(false);
+    let correct: boolean;
+    try {
+      correct = await verify(next);
+    } catch {
+      // Offline or the backend is down — not a wrong PIN
+      setCheckFailed(true);
+      return;
+    } finally {
+      setChecking(false);
+      setPinInput('');
+    }
+    if (correct) {
+      failedAttempts = 0;
+      onSuccess(next);
+      return;
+    }
+    setPinError(true);
+    setTimeout(() => setPinError(false), 800);
+    failedAttempts += 1;
+    if (failedAttempts >= MAX_ATTEMPTS) {
+      failedAttempts = 0;
+      lockedUntil = Date.now() + LOCK_MS;
+      setLockCountdown(secondsLocked());
+    }
+  }
+
+  const pinDots = Array.from({ length: pinLength }, (_, i) => i);
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black/90 backdrop-blur-sm flex items-center justify-center p-6">
+      <motion.div initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}
+        className="bg-[#12121a] border border-white/10 rounded-2xl p-8 w-full max-w-xs text-center">
+        <Settings className="w-8 h-8 text-white/40 mx-auto mb-3" />
+        <h3 className="text-white font-bold text-lg mb-1">{title}</h3>
+        <p className="text-white/40 text-sm mb-5">
+          {lockCountdown > 0 ? `Too many attempts — try again in ${lockCountdown}s`
+            : checkFailed ? 'Could not check the PIN — try again' : subtitle}
+        </p>
+        <div className="flex justify-center gap-3 mb-6">
+          {pinDots.map((_, i) => (
+            <div key={i} className={`w-4 h-4 rounded-full border-2 transition-all ${i < pinInput.length ? (pinError ? 'bg-red-500 border-red-500' : 'border-current') : 'border-white/20'}`}
+              style={i < pinInput.length && !pinError ? { background: primaryColor, borderColor: primaryColor } : {}} />
+          ))}
+        </div>
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          {[1,2,3,4,5,6,7,8,9,'',0,'⌫'].map((k, i) => (
+            <button key={i} onClick={() => handlePinKey(String(k))} disabled={lockCountdown > 0 || checking}
+              className={`py-4 rounded-xl text-white font-bold text-lg transition-all active:scale-90 disabled:opacity-40 ${k === '' ? 'opacity-0 pointer-events-none' : 'bg-white/10 hover:bg-white/20'}`}>
+              {k}
+            </button>
+          ))}
+        </div>
+        <button onClick={onCancel} className="text-white/40 text-sm hover:text-white/70 transition-colors">Cancel</button>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+/**
+ * PendingUploadScreen
+ * Shown when a capture couldn't upload and was parked in the offline queue.
+ * The QR points at the capture's pre-assigned /p/[code] link, which starts
+ * working as soon as the sync worker gets it to the backend.
+ */
+
+import { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { QRCodeSVG } from 'qrcode.react';
+import { CloudOff } from 'lucide-react';
+import { useBoothStore } from '@/lib/store';
+import { shortUrlFor } from '@/services/offlineQueue';
+
+export function PendingUploadScreen() {
+  const { event, pendingCapture, resetSession } = useBoothStore();
+  const primaryColor = event?.branding?.primaryColor || '#7c3aed';
+
+  useEffect(() => {
+    if (!pendingCapture) resetSession();
+  }, [pendingCapture, resetSession]);
+
+  if (!pendingCapture) return null;
+
+  const label = pendingCapture.mode === 'strip' ? 'strip'
+    : pendingCapture.mode === 'gif' || pendingCapture.mode === 'boomerang' ? 'GIF'
+    : 'photo';
+
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center bg-[#0a0a0f] p-8 text-center">
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="flex flex-col items-center gap-6 max-w-md"
+      >
+        <div className="w-14 h-14 rounded-full bg-white/10 flex items-center justify-center">
+          <CloudOff className="w-7 h-7 text-white/70" />
+        </div>
+
+        <div>
+          <h1 className="text-white text-3xl font-black mb-2">Your {label} will be ready soon</h1>
+          <p className="text-white/50 text-sm">
+            We&apos;re having trouble reaching the internet. Scan this code now — it&apos;ll show
+            your {label} as soon as the booth is back online.
+          </p>
+        </div>
+
+        <div className="bg-white p-3 rounded-2xl shadow-lg">
+          <QRCodeSVG value={shortUrlFor(pendingCapture.shortCode)} size={220} level="H" fgColor="#000000" bgColor="#ffffff" />
+        </div>
+
+        <p className="text-white/30 text-xs font-mono">{shortUrlFor(pendingCapture.shortCode).replace(/^https?:\/\//, '')}</p>
+
+        <button
+          onClick={resetSession}
+          className="px-10 py-4 rounded-2xl font-bold text-white text-lg"
+          style={{ background: `linear-gradient(135deg, ${primaryColor}, ${primaryColor}bb)` }}
+        >
+          Done
+        </button>
+      </motion.div>
+    </div>
+  );
+}
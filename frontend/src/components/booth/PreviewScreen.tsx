@@ -3,55 +3,20 @@
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { RefreshCw, Wand2, Share2, CheckCircle, Rocket, Printer, Image as ImageIcon, X, Mail } from 'lucide-react';
-import { useBoothStore } from '@/lib/store';
-import { trackAction } from '@/lib/api';
+import { useBoothStore, type Photo } from '@/lib/store';
+import { createPhotoVersion, getPrintOverride, restorePhotoVersion } from '@/lib/api';
 import { LeadCaptureModal } from '@/components/booth/LeadCaptureModal';
 import { EmailCaptureModal } from '@/components/booth/EmailCaptureModal';
-import { TemplateRenderer } from '@/components/booth/TemplateRenderer';
+import { BurstPicker } from '@/components/booth/BurstPicker';
+import { AnimationPreview, AnimationEncodingView } from '@/components/booth/AnimationPreview';
+import { isVideoUrl } from '@/services/animationEncoder';
+import { enabledEffects, effectByKey, bakeEffect } from '@/services/photoEffects';
+import { printLimits, printPhotoUrls, printService, printTarget, PrintLimitError } from '@/services/printService';
+import { OperatorPinPad } from '@/components/booth/OperatorPinPad';
+import { usePrintAllowance, printLabel } from '@/components/booth/PrintAllowance';
 import { useIsDemo } from '@/app/booth/BoothPageClient';
 import toast from 'react-hot-toast';
 
-// ── Print — single page, no blank pages ───────────────────────────────────────
-function printPhotoOnly(photoUrl: string, eventName: string, scale = 98) {
-  const existing = document.getElementById('__snapbooth_print_frame');
-  if (existing) existing.remove();
-  const iframe = document.createElement('iframe');
-  iframe.id = '__snapbooth_print_frame';
-  iframe.style.cssText = 'position:fixed;left:-9999px;top:-9999px;width:1px;height:1px;border:none;';
-  document.body.appendChild(iframe);
-  const win = iframe.contentWindow;
-  const doc = iframe.contentDocument || win?.document;
-  if (!doc || !win) { window.open(photoUrl, '_blank'); return; }
-  doc.open(); doc.close();
-  const style = doc.createElement('style');
-  style.textContent = [
-    '* { margin:0; padding:0; box-sizing:border-box; }',
-    'html, body { width:100%; height:100%; overflow:hidden; background:#fff; }',
-    '@page { margin:0; size:4in 6in portrait; }',
-    '@media print { html, body { height:auto; overflow:hidden; }',
-    '  * { page-break-after:avoid !important; page-break-before:avoid !important; page-break-inside:avoid !important; }',
-    '  img { -webkit-print-color-adjust:exact; print-color-adjust:exact; } }',
-    '.wrap { display:flex; flex-direction:column; align-items:center; justify-content:flex-start; width:4in; height:6in; overflow:hidden; padding:0.15in; gap:0.08in; }',
-    'img { width:100%; height:auto; max-height:5.4in; object-fit:contain; display:block; }',
-    '.footer { font-size:8pt; color:#555; text-align:center; } .en { font-size:9pt; font-weight:bold; color:#333; }',
-  ].join(' ');
-  doc.head.appendChild(style);
-  const wrap = doc.createElement('div'); wrap.className = 'wrap';
-  const safeScale = Number.isFinite(scale) ? Math.max(70, Math.min(110, scale)) : 98;
-  const img = doc.createElement('img'); img.src = photoUrl; img.alt = 'photo';
-  img.style.width = `${safeScale}%`;
-  img.style.margin = '0 auto';
-  wrap.appendChild(img);
-  const en = doc.createElement('p'); en.className = 'en'; en.textContent = eventName; wrap.appendChild(en);
-  const ft = doc.createElement('p'); ft.className = 'footer';
-  ft.textContent = new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
-  wrap.appendChild(ft);
-  doc.body.appendChild(wrap);
-  function doPrint() { win!.focus(); win!.print(); }
-  if (img.complete) { setTimeout(doPrint, 400); } else { img.onload = () => setTimeout(doPrint, 400); }
-  setTimeout(() => { document.getElementById('__snapbooth_print_frame')?.remove(); }, 30000);
-}
-
 // ── Action button — used in both portrait row and landscape panel ─────────────
 function ActionBtn({
   onClick, icon, label, color, accent = false, disabled = false,
@@ -81,7 +46,7 @@ function ActionBtn({
 }
 
 export function PreviewScreen() {
-  const { currentPhoto, event, mode, setScreen, resetSession, setEvent, setCurrentPhoto } = useBoothStore();
+  const { currentPhoto, event, mode, burstFrames, animationPreview, sessionId, setScreen, resetSession, setEvent, setCurrentPhoto } = useBoothStore();
   const [showLeadModal, setShowLeadModal] = useState(false);
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [showFrames, setShowFrames] = useState(false);
@@ -89,65 +54,170 @@ export function PreviewScreen() {
   const [frames, setFrames] = useState<Array<{ id: string; name: string; url: string; isDefault?: boolean; isActive?: boolean }>>([]);
   const isDemo = useIsDemo();
 
+  const settings = event?.settings;
+  const operatorPinLength = event?.operator_pin_length || 0;
+  const effects = enabledEffects(settings);
+  const [showEffects, setShowEffects] = useState(false);
+  const [activeFilter, setActiveFilter] = useState(() =>
+    effects.some(e => e.key === settings?.defaultEffect) ? settings!.defaultEffect! : 'none'
+  );
+  const autoPrinted = useRef(false);
+  const printAllowance = usePrintAllowance(event);
+  const [showPrintOverride, setShowPrintOverride] = useState(false);
+  const printOverrideToken = useRef<string | null>(null);
+
+  // Burst frames wait here un-uploaded until the guest picks favourites
+  const pickingBurst = !currentPhoto && mode === 'burst' && burstFrames.length > 0;
+  // GIF/boomerang frames play locally while the encode + upload finish
+  const livePreview = (mode === 'gif' || mode === 'boomerang') ? animationPreview : null;
+  const encodingAnimation = !currentPhoto && !!livePreview;
+
+  const isGIF = mode === 'gif' || mode === 'boomerang';
+  const isVideo = mode === 'video' || isVideoUrl(currentPhoto?.url);
+  // Effects are baked into stills only — animations keep their encoded frames —
+  // and only while the capture's edit token is valid
+  const canBakeEffect = !!currentPhoto?.editToken && !isGIF && !isVideo;
+  const eventName = (event?.branding?.eventName as string) || event?.name || 'SnapBooth';
+  const printScale = (settings?.printScale as number) || 98;
+
+  // ── Effects: baked into a new photo version, always from the original ────
+  const originalRef = useRef<Photo | null>(null);
+  const bakeTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const pendingBake = useRef<Promise<void> | null>(null);
+  const [baking, setBaking] = useState(false);
+
+  useEffect(() => {
+    if (currentPhoto && !currentPhoto.parentId) originalRef.current = currentPhoto;
+  }, [currentPhoto]);
+
+  async function saveEffect(key: string) {
+    const original = originalRef.current;
+    if (!original?.editToken) return;
+    setBaking(true);
+    try {
+      if (key === 'none') {
+        const res = await restorePhotoVersion(original.id, original.editToken);
+        setCurrentPhoto({ ...original, ...res.photo, mode: original.mode, effect: null });
+      } else {
+        const source = await (await fetch(original.url)).blob();
+        const res = await createPhotoVersion(original.id, original.editToken, await bakeEffect(source, key), key);
+        setCurrentPhoto({ ...res.photo, mode: original.mode, parentId: original.id, effect: key, editToken: original.editToken });
+      }
+    } catch {
+      toast.error('Could not save the effect — try again');
+    } finally {
+      setBaking(false);
+    }
+  }
+
+  // Debounced so flicking through effects doesn't upload every one
+  useEffect(() => {
+    if (!canBakeEffect || (currentPhoto!.effect ?? 'none') === activeFilter) return;
+    bakeTimer.current = setTimeout(() => {
+      pendingBake.current = (pendingBake.current || Promise.resolve()).then(() => saveEffect(activeFilter));
+    }, 600);
+    return () => clearTimeout(bakeTimer.current);
+  }, [activeFilter, currentPhoto?.id, canBakeEffect]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Share, print and email must use the version with the chosen effect
+  async function commitEffect(): Promise<Photo | null> {
+    clearTimeout(bakeTimer.current);
+    if (pendingBake.current) await pendingBake.current;
+    const latest = useBoothStore.getState().currentPhoto;
+    if (canBakeEffect && latest && (latest.effect ?? 'none') !== activeFilter) {
+      pendingBake.current = saveEffect(activeFilter);
+      await pendingBake.current;
+    }
+    return useBoothStore.getState().currentPhoto;
+  }
+
+  async function queuePrint(printed: Photo, { auto = false, overrideToken }: { auto?: boolean; overrideToken?: string } = {}) {
+    const target = printTarget(settings);
+    return printService.queuePrint({
+      eventId: event!.id, photoId: printed.id, photoUrl: printed.url,
+      photoUrls: await printPhotoUrls(target.paperSize, event!.id, sessionId, printed),
+      title: eventName, scale: printScale, copies: settings?.printCopies || 1, auto,
+      sessionId, overrideToken, limits: printLimits(settings),
+      ...target,
+    });
+  }
+
+  // ── Auto-print: fires once per photo if operator enabled it ───────────────
+  useEffect(() => {
+    const autoPrint = settings?.autoPrint as boolean | undefined;
+    if (autoPrint && !isVideo && !autoPrinted.current && currentPhoto?.url && event) {
+      autoPrinted.current = true;
+      // Small delay so the photo renders first, then print with any default effect applied
+      setTimeout(async () => {
+        const photo = await commitEffect();
+        if (!photo) return;
+        try {
+          await queuePrint(photo, { auto: true });
+          toast.success('🖨️ Auto-printing...', { duration: 2000 });
+        } catch (err) {
+          if (err instanceof PrintLimitError) toast(err.message);
+          else toast.error('Auto-print failed');
+        }
+      }, 800);
+    }
+  }, [currentPhoto?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Guard: redirect safely via effect, never during render
   useEffect(() => {
-    if (!currentPhoto) setScreen('idle');
-  }, [currentPhoto, setScreen]);
+    if (!currentPhoto && !pickingBurst && !encodingAnimation) setScreen('idle');
+  }, [currentPhoto, pickingBurst, encodingAnimation, setScreen]);
 
+  if (pickingBurst) return <BurstPicker />;
+  if (encodingAnimation) return <AnimationEncodingView preview={livePreview!} label={mode === 'boomerang' ? 'Boomerang' : 'GIF'} />;
   if (!currentPhoto) return null;
   const photo = currentPhoto;
 
-  const settings = event?.settings;
   const primaryColor = event?.branding?.primaryColor || '#7c3aed';
-  const isGIF = mode === 'gif' || mode === 'boomerang';
-  const modeLabel = mode === 'boomerang' ? 'Boomerang' : mode === 'gif' ? 'GIF' : mode === 'strip' ? 'Strip' : 'Photo';
-  const eventName = (event?.branding?.eventName as string) || event?.name || 'SnapBooth';
+  const modeLabel = mode === 'boomerang' ? 'Boomerang' : mode === 'gif' ? 'GIF' : mode === 'strip' ? 'Strip' : mode === 'burst' ? 'Burst' : mode === 'video' ? 'Video' : 'Photo';
+
+  // Until the baked version arrives, preview the original with the CSS filter
+  const effectBaked = (photo.effect ?? 'none') === activeFilter;
+  const originalUrl = originalRef.current?.url ?? photo.url;
+  const displayUrl = effectBaked || !canBakeEffect ? photo.url : originalUrl;
+  const currentFilter = effectBaked || !canBakeEffect ? 'none' : effectByKey(activeFilter).filter;
 
-  function handleShareClick() {
+  async function handleShareClick() {
+    await commitEffect();
     if (event?.settings?.leadCapture) setShowLeadModal(true);
     else setScreen('share');
   }
 
-  const printScale = (event?.settings?.printScale as number) || 98;
+  async function handleEmailClick() {
+    await commitEffect();
+    setShowEmailModal(true);
+  }
 
-  async function handlePrint() {
+  async function handlePrint(overrideToken?: string) {
     if (!event) return;
     try {
-      printPhotoOnly(photo.url, eventName, printScale);
-      await trackAction(event.id, 'photo_printed', { photoId: photo.id });
-      toast.success('Sent to printer!');
-    } catch { toast.error('Print failed — try again'); }
+      const printed = (await commitEffect()) || photo;
+      await queuePrint(printed, { overrideToken });
+      toast.success(printService.isPaused() ? 'Added to the print queue' : 'Sent to printer!');
+    } catch (err) {
+      if (!(err instanceof PrintLimitError)) toast.error('Print failed — try again');
+      // Without an operator PIN there is nobody who can let the print through
+      else if (operatorPinLength) setShowPrintOverride(true);
+      else toast(err.message);
+    }
   }
 
-  // ── Auto-print: fires once on mount if operator enabled it ─────────────────
-  const autoPrinted = useRef(false);
-  const [showEffects, setShowEffects] = useState(false);
-  const [activeFilter, setActiveFilter] = useState('none');
-
-  // CSS filters applied live on the preview image
-  const EFFECTS = [
-    { key: 'none',       label: 'Original',  style: 'none' },
-    { key: 'bw',         label: 'B&W',        style: 'grayscale(100%)' },
-    { key: 'warm',       label: 'Warm',       style: 'sepia(60%) saturate(140%) brightness(105%)' },
-    { key: 'cool',       label: 'Cool',       style: 'hue-rotate(200deg) saturate(120%)' },
-    { key: 'vivid',      label: 'Vivid',      style: 'saturate(180%) contrast(110%)' },
-    { key: 'fade',       label: 'Fade',       style: 'contrast(85%) brightness(110%) saturate(80%)' },
-    { key: 'drama',      label: 'Drama',      style: 'contrast(140%) brightness(90%) saturate(110%)' },
-    { key: 'golden',     label: 'Golden',     style: 'sepia(80%) hue-rotate(-20deg) saturate(160%) brightness(108%)' },
-  ];
-  const currentFilter = EFFECTS.find(e => e.key === activeFilter)?.style || 'none';
-  useEffect(() => {
-    const autoPrint = event?.settings?.autoPrint as boolean | undefined;
-    if (autoPrint && !autoPrinted.current && photo?.url && event) {
-      autoPrinted.current = true;
-      // Small delay so the photo renders first
-      setTimeout(() => {
-        printPhotoOnly(photo.url, eventName, printScale);
-        trackAction(event.id, 'photo_printed', { photoId: photo.id, auto: true });
-        toast.success('🖨️ Auto-printing...', { duration: 2000 });
-      }, 800);
-    }
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+  // The backend checks the PIN and answers a correct one with the override token
+  async function checkPrintOverride(pin: string) {
+    if (!event) return false;
+    const override = await getPrintOverride(event.id, pin);
+    printOverrideToken.current = override?.overrideToken ?? null;
+    return !!override;
+  }
+
+  function handlePrintOverride() {
+    setShowPrintOverride(false);
+    if (printOverrideToken.current) handlePrint(printOverrideToken.current);
+  }
 
   async function loadFrames() {
     if (!event?.id) return;
@@ -201,13 +271,14 @@ function selectFrame(frameUrl: string | null) {
   }
 
   // Build action list dynamically
+  // Effects, frames and print only make sense for stills
   const actions = [
-    {
+    ...(canBakeEffect && effects.length > 1 ? [{
       id: 'effects', icon: <Wand2 className="w-5 h-5" />, label: 'Effects',
       color: 'linear-gradient(135deg,#0ea5e9,#6366f1)',
       onClick: () => setShowEffects(v => !v),
-    },
-    ...(settings?.allowFrameOverlays ? [{
+    }] : []),
+    ...(settings?.allowFrameOverlays && !isVideo ? [{
       id: 'frames', icon: <ImageIcon className="w-5 h-5" />, label: 'Frames',
       color: 'linear-gradient(135deg,#7c3aed,#a855f7)',
       onClick: async () => {
@@ -217,15 +288,15 @@ function selectFrame(frameUrl: string | null) {
     }] : []),
     ...(settings?.allowEmailShare !== false ? [{
       id: 'email', icon: <Mail className="w-5 h-5" />, label: 'Email',
-      color: 'linear-gradient(135deg,#10b981,#059669)', onClick: () => setShowEmailModal(true),
+      color: 'linear-gradient(135deg,#10b981,#059669)', onClick: handleEmailClick,
     }] : []),
     {
       id: 'share', icon: <Share2 className="w-5 h-5" />, label: 'Share & QR',
       color: '#2563eb', onClick: handleShareClick,
     },
-    ...(settings?.allowPrint !== false ? [{
-      id: 'print', icon: <Printer className="w-5 h-5" />, label: 'Print',
-      color: undefined, onClick: handlePrint,
+    ...(settings?.allowPrint !== false && !isVideo ? [{
+      id: 'print', icon: <Printer className="w-5 h-5" />, label: printLabel(printAllowance),
+      color: undefined, onClick: () => handlePrint(),
     }] : []),
     ...(settings?.allowRetakes !== false ? [{
       id: 'retake', icon: <RefreshCw className="w-5 h-5" />, label: 'Retake',
@@ -271,20 +342,28 @@ function selectFrame(frameUrl: string | null) {
             transition={{ type: 'spring', stiffness: 200, damping: 22 }}
             className="relative w-full h-full flex items-center justify-center"
           >
-            {/* eslint-disable-next-line @next/next/no-img-element */}
+            {/* Photo is already rendered through the event template (frame + layout baked in) */}
             <div className="relative inline-block" style={{ filter: currentFilter, transition: 'filter 0.25s ease' }}>
-              <TemplateRenderer
-                photoUrl={photo.url}
-                eventName={eventName}
-                template={{ layout: { footerText: event?.branding?.footerText, logoUrl: event?.branding?.logoUrl, borderColor: event?.branding?.secondaryColor } }}
-              />
-
-              {event?.branding?.frameUrl && (
+              {livePreview ? (
+                <AnimationPreview
+                  frames={livePreview.frames}
+                  delayMs={livePreview.delayMs}
+                  loopStyle={livePreview.loopStyle}
+                  className="max-h-[70vh] w-auto max-w-full rounded-2xl object-contain shadow-2xl"
+                />
+              ) : isVideo ? (
+                <video
+                  src={photo.url}
+                  poster={photo.thumbUrl}
+                  autoPlay loop playsInline controls
+                  className="max-h-[70vh] w-auto max-w-full rounded-2xl object-contain shadow-2xl"
+                />
+              ) : (
+                // eslint-disable-next-line @next/next/no-img-element
                 <img
-                  src={event.branding.frameUrl as string}
-                  alt="Selected frame overlay"
-                  className="absolute inset-0 w-full h-full object-cover rounded-2xl pointer-events-none select-none"
-                  draggable={false}
+                  src={displayUrl}
+                  alt="Captured photo"
+                  className="max-h-[70vh] w-auto max-w-full rounded-2xl object-contain shadow-2xl"
                 />
               )}
             </div>
@@ -403,14 +482,17 @@ function selectFrame(frameUrl: string | null) {
             className="absolute bottom-0 left-0 right-0 z-30 bg-[#0d0d1a]/97 backdrop-blur-xl border-t border-white/10 px-4 pt-4 pb-6"
           >
             <div className="flex items-center justify-between mb-3">
-              <span className="text-white/60 text-xs font-bold uppercase tracking-widest">🪄 Live Effects</span>
+              <span className="text-white/60 text-xs font-bold uppercase tracking-widest">
+                🪄 Live Effects
+                {baking && <span className="ml-2 normal-case tracking-normal font-medium text-sky-300/70">Saving…</span>}
+              </span>
               <button onClick={() => setShowEffects(false)}
                 className="text-white/30 hover:text-white/80 text-xl leading-none transition-colors w-8 h-8 flex items-center justify-center rounded-lg hover:bg-white/10">
                 ✕
               </button>
             </div>
             <div className="flex gap-2 overflow-x-auto pb-1 scrollbar-none">
-              {EFFECTS.map(ef => (
+              {effects.map(ef => (
                 <button key={ef.key}
                   onClick={() => setActiveFilter(ef.key)}
                   className={`flex-shrink-0 flex flex-col items-center gap-1.5 px-2.5 py-2 rounded-xl border transition-all ${
@@ -420,9 +502,9 @@ function selectFrame(frameUrl: string | null) {
                   }`}>
                   <div className="w-12 h-12 rounded-lg overflow-hidden flex-shrink-0 relative">
                     {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img src={photo.url} alt=""
+                    <img src={originalUrl} alt=""
                       className="absolute inset-0 w-full h-full object-cover"
-                      style={{ filter: ef.style }} />
+                      style={{ filter: ef.filter }} />
                   </div>
                   <span className="text-[10px] font-semibold leading-none whitespace-nowrap">{ef.label}</span>
                 </button>
@@ -526,6 +608,18 @@ function selectFrame(frameUrl: string | null) {
             onContinue={() => { setShowLeadModal(false); setScreen('share'); }}
           />
         )}
+
+        {showPrintOverride && operatorPinLength > 0 && (
+          <OperatorPinPad
+            pinLength={operatorPinLength}
+            verify={checkPrintOverride}
+            primaryColor={primaryColor}
+            title="No prints left"
+            subtitle="Ask the operator to enter their PIN to print anyway"
+            onSuccess={handlePrintOverride}
+            onCancel={() => setShowPrintOverride(false)}
+          />
+        )}
       </AnimatePresence>
     </div>
   );
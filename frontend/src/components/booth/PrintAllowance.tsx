@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useBoothStore, type Event } from '@/lib/store';
+import { printLimits, printService, type PrintAllowance } from '@/services/printService';
+
+const UNLIMITED: PrintAllowance = { remaining: null, eventRemaining: null, sessionRemaining: null };
+
+/**
+ * Prints the current guest session has left, kept up to date as the queue changes
+ */
+export function usePrintAllowance(event: Event | null): PrintAllowance {
+  const sessionId = useBoothStore(s => s.sessionId);
+  const [allowance, setAllowance] = useState<PrintAllowance>(UNLIMITED);
+  const { event: eventLimit, session: sessionLimit } = printLimits(event?.settings);
+
+  useEffect(() => {
+    if (!event || (!eventLimit && !sessionLimit)) { setAllowance(UNLIMITED); return; }
+    const limits = { event: eventLimit, session: sessionLimit };
+    let cancelled = false;
+    const refresh = () => {
+      printService.getAllowance(event.id, sessionId, limits)
+        .then(a => { if (!cancelled) setAllowance(a); })
+        .catch(() => {});
+    };
+    const unsubscribe = printService.subscribe(refresh);
+    return () => { cancelled = true; unsubscribe(); };
+  }, [event?.id, sessionId, eventLimit, sessionLimit]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  return allowance;
+}
+
+/**
+ * Button label with the prints left, e.g. "Print (2 left)"
+ */
+export function printLabel(allowance: PrintAllowance, label = 'Print'): string {
+  if (allowance.remaining === null) return label;
+  if (allowance.remaining === 0) return 'No prints left';
+  return `${label} (${allowance.remaining} left)`;
+}
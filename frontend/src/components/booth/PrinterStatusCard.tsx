@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Event } from '@/lib/store';
+import { PrintAgentClient, type PrinterStatus } from '@/services/printAgent';
+import { printTarget } from '@/services/printService';
+
+const STATE_LABELS: Record<PrinterStatus['state'], string> = {
+  idle: 'Ready',
+  printing: 'Printing…',
+  error: 'Needs attention',
+  offline: 'Offline',
+};
+
+/**
+ * Operator-panel readout of the local print agent: printer state, errors and
+ * media remaining, kept live over the agent's event socket.
+ */
+export function PrinterStatusCard({ event }: { event: Event | null }) {
+  const { agentUrl } = printTarget(event?.settings);
+  const [status, setStatus] = useState<PrinterStatus | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!agentUrl) return;
+    const agent = new PrintAgentClient(agentUrl);
+    agent.status()
+      .then(s => { setStatus(s); setError(''); })
+      .catch(err => setError(err instanceof Error ? err.message : 'Print agent not reachable'));
+    let unwatch = () => {};
+    try {
+      unwatch = agent.watch(message => { if (message.type === 'status') setStatus(message.printer); });
+    } catch { /* the first status check already reported it */ }
+    return () => unwatch();
+  }, [agentUrl]);
+
+  if (!agentUrl) return null;
+
+  const media = status?.media;
+  const low = !!media && media.remaining <= Math.max(10, media.capacity * 0.1);
+
+  return (
+    <div className="bg-white/5 rounded-xl p-3 space-y-1.5">
+      <div className="flex items-center justify-between">
+        <p className="text-white/50 text-xs">Printer</p>
+        {status && (
+          <span className={`text-xs font-semibold ${status.state === 'error' || status.state === 'offline' ? 'text-red-300' : 'text-green-300'}`}>
+            {STATE_LABELS[status.state]}
+          </span>
+        )}
+      </div>
+      {error ? (
+        <p className="text-red-300 text-xs">{error}</p>
+      ) : status ? (
+        <>
+          <p className="text-white font-semibold text-sm truncate">{status.name || 'Unknown printer'}</p>
+          {status.error && <p className="text-red-300 text-xs">{status.error.message}</p>}
+          {media && (
+            <p className={`text-xs ${low ? 'text-amber-300' : 'text-white/50'}`}>
+              {media.remaining} of {media.capacity} prints left{low ? ' — change media soon' : ''}
+            </p>
+          )}
+        </>
+      ) : (
+        <p className="text-white/40 text-xs">Checking…</p>
+      )}
+    </div>
+  );
+}
@@ -5,55 +5,15 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { QRCodeSVG } from 'qrcode.react';
 import { Mail, Phone, X, Send, Check, Share2, Printer } from 'lucide-react';
 import { useBoothStore } from '@/lib/store';
-import { trackAction } from '@/lib/api';
+import { ensureSessionAlbum, getPrintOverride, trackAction } from '@/lib/api';
+import { isVideoUrl } from '@/services/animationEncoder';
+import { printLimits, printPhotoUrls, printService, printTarget, PrintLimitError } from '@/services/printService';
+import { OperatorPinPad } from './OperatorPinPad';
+import { usePrintAllowance, printLabel } from './PrintAllowance';
 import toast from 'react-hot-toast';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
-// ── Print fix — single page, no blank pages ───────────────────────────────────
-function printPhotoOnly(photoUrl: string, eventName: string, scale = 98) {
-  const existing = document.getElementById('__snapbooth_print_frame');
-  if (existing) existing.remove();
-  const iframe = document.createElement('iframe');
-  iframe.id = '__snapbooth_print_frame';
-  iframe.style.cssText = 'position:fixed;left:-9999px;top:-9999px;width:1px;height:1px;border:none;';
-  document.body.appendChild(iframe);
-  const win = iframe.contentWindow;
-  const doc = iframe.contentDocument || win?.document;
-  if (!doc || !win) { window.open(photoUrl, '_blank'); return; }
-  doc.open(); doc.close();
-  const style = doc.createElement('style');
-  style.textContent = [
-    '* { margin:0; padding:0; box-sizing:border-box; }',
-    'html, body { width:100%; height:100%; overflow:hidden; background:#fff; }',
-    '@page { margin:0; size:4in 6in portrait; }',
-    '@media print { html, body { height:auto; overflow:hidden; }',
-    '  * { page-break-after:avoid !important; page-break-before:avoid !important; page-break-inside:avoid !important; }',
-    '  img { -webkit-print-color-adjust:exact; print-color-adjust:exact; } }',
-    '.wrap { display:flex; flex-direction:column; align-items:center; justify-content:flex-start;',
-    '        width:4in; height:6in; overflow:hidden; padding:0.15in; gap:0.08in; }',
-    'img { width:100%; height:auto; max-height:5.4in; object-fit:contain; display:block; }',
-    '.footer { font-size:8pt; color:#555; text-align:center; }',
-    '.event-name { font-size:9pt; font-weight:bold; color:#333; }',
-  ].join(' ');
-  doc.head.appendChild(style);
-  const wrap = doc.createElement('div'); wrap.className = 'wrap';
-  const safeScale = Number.isFinite(scale) ? Math.max(70, Math.min(110, scale)) : 98;
-  const img = doc.createElement('img'); img.src = photoUrl; img.alt = 'photo';
-   img.style.width = `${safeScale}%`;
-  img.style.margin = '0 auto';
-  wrap.appendChild(img);
-  const nameEl = doc.createElement('p'); nameEl.className = 'event-name'; nameEl.textContent = eventName;
-  wrap.appendChild(nameEl);
-  const footer = doc.createElement('p'); footer.className = 'footer';
-  footer.textContent = new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
-  wrap.appendChild(footer);
-  doc.body.appendChild(wrap);
-  function doPrint() { win!.focus(); win!.print(); }
-  if (img.complete) { setTimeout(doPrint, 400); } else { img.onload = () => setTimeout(doPrint, 400); }
-  setTimeout(() => { document.getElementById('__snapbooth_print_frame')?.remove(); }, 30000);
-}
-
 // ── Input modal ───────────────────────────────────────────────────────────────
 function InputModal({ icon, title, placeholder, inputType, onSubmit, onClose, sending }: {
   icon: React.ReactNode; title: string; placeholder: string; inputType: string;
@@ -92,11 +52,26 @@ function InputModal({ icon, title, placeholder, inputType, onSubmit, onClose, se
 }
 
 export function ShareScreen() {
-  const { currentPhoto, event, setScreen, resetSession } = useBoothStore();
+  const { currentPhoto, event, sessionId, setScreen, resetSession } = useBoothStore();
   const [modal, setModal] = useState<'email' | 'sms' | null>(null);
   const [showWhatsAppQR, setShowWhatsAppQR] = useState(false);
   const [sending, setSending] = useState(false);
   const [sent, setSent] = useState<Set<string>>(new Set());
+  const printAllowance = usePrintAllowance(event);
+  const [showPrintOverride, setShowPrintOverride] = useState(false);
+  const printOverrideToken = useRef<string | null>(null);
+  // Everything from this visit under one code, offered once there's more than this photo
+  const [album, setAlbum] = useState<{ shortCode: string; url: string; count: number } | null>(null);
+  const [scope, setScope] = useState<'photo' | 'session'>('photo');
+
+  useEffect(() => {
+    if (!event?.id || !currentPhoto?.id) return;
+    let cancelled = false;
+    ensureSessionAlbum(event.id, sessionId)
+      .then(a => { if (!cancelled) setAlbum(a); })
+      .catch(() => { /* offline — share the photo on its own */ });
+    return () => { cancelled = true; };
+  }, [event?.id, sessionId, currentPhoto?.id]);
 
   // Guard: if somehow we land here without a photo, redirect safely
   useEffect(() => {
@@ -109,13 +84,19 @@ export function ShareScreen() {
   const primaryColor = event?.branding?.primaryColor || '#7c3aed';
   const eventName = (event?.branding?.eventName as string) || event?.name || 'SnapBooth';
   const photoUrl = photo.galleryUrl || photo.url;
+  const hasAlbum = !!album && album.count > 1;
+  const sharingSession = scope === 'session' && hasAlbum;
+  const shareUrl = sharingSession ? album!.url : photoUrl;
+  const shareNoun = sharingSession ? `${album!.count} photos` : 'photo';
+  const isVideo = photo.mode === 'video' || isVideoUrl(photo.url);
   const settings = event?.settings as Record<string, unknown> | undefined;
+  const operatorPinLength = event?.operator_pin_length || 0;
   const allowEmail = (settings?.allowEmailShare as boolean) !== false;
   const allowInstagram = (settings?.allowInstagram as boolean) !== false;
   const allowAirDrop = (settings?.allowAirDrop as boolean) !== false;
   const allowWhatsApp = (settings?.allowWhatsApp as boolean) !== false;
   const allowSMS = (settings?.allowSMSShare as boolean) === true;
-  const allowPrint = (settings?.allowPrint as boolean) !== false;
+  const allowPrint = (settings?.allowPrint as boolean) !== false && !isVideo;
   const printScale = (settings?.printScale as number) || 98;
   
   // ── Share screen auto-timeout ───────────────────────────────────────────────
@@ -151,11 +132,11 @@ export function ShareScreen() {
     // fallback to copying the photo URL on desktop
     const isMobile = /iPhone|iPad|Android/i.test(navigator.userAgent);
     if (isMobile && navigator.share) {
-      navigator.share({ title: eventName, url: photoUrl });
+      navigator.share({ title: eventName, url: shareUrl });
     } else {
-      navigator.clipboard.writeText(photoUrl).then(() => {
+      navigator.clipboard.writeText(shareUrl).then(() => {
         toast.success('Link copied! Paste into Instagram Story');
-      }).catch(() => window.open(photoUrl, '_blank'));
+      }).catch(() => window.open(shareUrl, '_blank'));
     }
     if (event) trackAction(event.id, 'photo_shared', { platform: 'instagram', photoId: photo.id });
   }
@@ -164,7 +145,7 @@ export function ShareScreen() {
   function handleAirDrop() {
     // AirDrop is triggered via native share sheet on iOS/macOS
     if (navigator.share) {
-      navigator.share({ title: eventName, text: '📸 Your photo', url: photoUrl })
+      navigator.share({ title: eventName, text: '📸 Your photo', url: shareUrl })
         .catch(() => {});
       if (event) trackAction(event.id, 'photo_shared', { platform: 'airdrop', photoId: photo.id });
     } else {
@@ -182,28 +163,52 @@ export function ShareScreen() {
   async function handleNativeShare() {
     if (event) await trackAction(event.id, 'photo_shared', { platform: 'native', photoId: photo.id });
     if (navigator.share) {
-      try { await navigator.share({ title: eventName, text: '📸 Your photobooth photo', url: photoUrl }); return; }
+      try { await navigator.share({ title: eventName, text: '📸 Your photobooth photo', url: shareUrl }); return; }
       catch { /* cancelled */ }
     }
-    try { await navigator.clipboard.writeText(photoUrl); toast.success('Link copied!'); }
+    try { await navigator.clipboard.writeText(shareUrl); toast.success('Link copied!'); }
     catch { toast('Could not copy link'); }
   }
 
-  async function handlePrint() {
+  async function handlePrint(overrideToken?: string) {
     if (!event) return;
     try {
-      printPhotoOnly(photo.url, eventName, printScale);
-      await trackAction(event.id, 'photo_printed', { photoId: photo.id });
-      toast.success('Sent to printer!');
-    } catch { toast.error('Print failed'); }
+      const target = printTarget(event.settings);
+      await printService.queuePrint({
+        eventId: event.id, photoId: photo.id, photoUrl: photo.url,
+        photoUrls: await printPhotoUrls(target.paperSize, event.id, sessionId, photo),
+        title: eventName, scale: printScale, copies: (settings?.printCopies as number) || 1,
+        sessionId, overrideToken, limits: printLimits(event.settings),
+        ...target,
+      });
+      toast.success(printService.isPaused() ? 'Added to the print queue' : 'Sent to printer!');
+    } catch (err) {
+      if (!(err instanceof PrintLimitError)) toast.error('Print failed');
+      // Without an operator PIN there is nobody who can let the print through
+      else if (operatorPinLength) setShowPrintOverride(true);
+      else toast(err.message);
+    }
+  }
+
+  // The backend checks the PIN and answers a correct one with the override token
+  async function checkPrintOverride(pin: string) {
+    if (!event) return false;
+    const override = await getPrintOverride(event.id, pin);
+    printOverrideToken.current = override?.overrideToken ?? null;
+    return !!override;
+  }
+
+  function handlePrintOverride() {
+    setShowPrintOverride(false);
+    if (printOverrideToken.current) handlePrint(printOverrideToken.current);
   }
 
   async function sendEmail(email: string) {
     setSending(true);
     try {
-      const res = await fetch(`${API_BASE}/api/share/email`, {
+      const res = await fetch(`${API_BASE}/api/share/${sharingSession ? 'session/email' : 'email'}`, {
         method: 'POST', headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ photoId: photo.id, toEmail: email }),
+        body: JSON.stringify(sharingSession ? { code: album!.shortCode, toEmail: email } : { photoId: photo.id, toEmail: email }),
       });
       const raw = await res.text();
       let data: { error?: string } = {};
@@ -211,13 +216,13 @@ export function ShareScreen() {
       if (!res.ok) throw new Error(data.error || 'Email failed');
       setSent(prev => new Set(prev).add('email'));
       setModal(null);
-      toast.success(`📧 Photo sent to ${email}!`);
+      toast.success(`📧 ${sharingSession ? `${album!.count} photos` : 'Photo'} sent to ${email}!`);
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : 'Send failed';
       if (msg.includes('not configured')) {
         setModal(null);
-        const subject = encodeURIComponent(`${eventName} — your photo 📸`);
-        const body = encodeURIComponent(`Here's your photo: ${photoUrl}`);
+        const subject = encodeURIComponent(`${eventName} — your ${shareNoun} 📸`);
+        const body = encodeURIComponent(`Here's your ${shareNoun}: ${shareUrl}`);
         window.open(`mailto:${email}?subject=${subject}&body=${body}`, '_blank');
         toast('📧 Opening email app...', { duration: 2000 });
       } else { toast.error(msg); }
@@ -227,9 +232,9 @@ export function ShareScreen() {
   async function sendSMS(phone: string) {
     setSending(true);
     try {
-      const res = await fetch(`${API_BASE}/api/share/sms`, {
+      const res = await fetch(`${API_BASE}/api/share/${sharingSession ? 'session/sms' : 'sms'}`, {
         method: 'POST', headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ photoId: photo.id, toPhone: phone }),
+        body: JSON.stringify(sharingSession ? { code: album!.shortCode, toPhone: phone } : { photoId: photo.id, toPhone: phone }),
       });
       const raw = await res.text();
       let data: { error?: string } = {};
@@ -237,7 +242,7 @@ export function ShareScreen() {
       if (!res.ok) throw new Error(data.error || 'SMS failed');
       setSent(prev => new Set(prev).add('sms'));
       setModal(null);
-      toast.success(`📱 Photo sent to ${phone}!`);
+      toast.success(`📱 ${sharingSession ? `${album!.count} photos` : 'Photo'} sent to ${phone}!`);
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : 'Send failed';
       toast.error(msg.includes('not configured') ? 'SMS not enabled for this event' : msg);
@@ -255,10 +260,10 @@ export function ShareScreen() {
   ) : null;
 
   const printButton = allowPrint ? (
-    <motion.button whileTap={{ scale: 0.95 }} onClick={handlePrint}
+    <motion.button whileTap={{ scale: 0.95 }} onClick={() => handlePrint()}
       className="flex items-center gap-2.5 px-3 py-3 rounded-xl font-bold text-white text-xs btn-touch bg-white/8 border border-white/15 hover:bg-white/12 transition-colors">
       <Printer className="w-5 h-5 flex-shrink-0" />
-      Print
+      {printLabel(printAllowance)}
     </motion.button>
   ) : null;
 
@@ -300,14 +305,24 @@ export function ShareScreen() {
             transition={{ type: 'spring', stiffness: 200, damping: 22 }}
             className="w-full h-full flex items-center justify-center"
           >
-            {/* eslint-disable-next-line @next/next/no-img-element */}
-            <img
-              src={photo.url}
-              alt="Your photo"
-              className="max-w-full max-h-full object-contain rounded-2xl shadow-2xl"
-              style={{ maxHeight: 'calc(100dvh - 160px)' }}
-              draggable={false}
-            />
+            {isVideo ? (
+              <video
+                src={photo.url}
+                poster={photo.thumbUrl}
+                autoPlay loop playsInline controls
+                className="max-w-full max-h-full object-contain rounded-2xl shadow-2xl"
+                style={{ maxHeight: 'calc(100dvh - 160px)' }}
+              />
+            ) : (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={photo.url}
+                alt="Your photo"
+                className="max-w-full max-h-full object-contain rounded-2xl shadow-2xl"
+                style={{ maxHeight: 'calc(100dvh - 160px)' }}
+                draggable={false}
+              />
+            )}
           </motion.div>
         </div>
 
@@ -318,13 +333,26 @@ export function ShareScreen() {
           transition={{ delay: 0.1 }}
           className="w-48 sm:w-56 flex-shrink-0 flex flex-col gap-3 py-4 px-3 border-l border-white/8 bg-[#0d0d18]/60 overflow-y-auto"
         >
+          {/* This photo / the whole visit */}
+          {hasAlbum && (
+            <div className="grid grid-cols-2 gap-1 p-1 rounded-xl bg-white/5 border border-white/10">
+              {(['photo', 'session'] as const).map(s => (
+                <button key={s} onClick={() => { setScope(s); resetTimer(); }}
+                  className={`py-1.5 rounded-lg text-[11px] font-semibold transition-colors ${scope === s ? 'text-white' : 'text-white/40 hover:text-white/70'}`}
+                  style={scope === s ? { background: primaryColor } : {}}>
+                  {s === 'photo' ? 'This photo' : `All ${album!.count}`}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* QR Code */}
           <div className="flex flex-col items-center gap-2">
             <div className="bg-white p-2.5 rounded-xl shadow-lg">
-              <QRCodeSVG value={photoUrl} size={130} level="H" fgColor="#000000" bgColor="#ffffff" />
+              <QRCodeSVG value={shareUrl} size={130} level="H" fgColor="#000000" bgColor="#ffffff" />
             </div>
             <p className="text-white/40 text-[10px] text-center leading-tight">
-              📱 Scan to get your photo
+              📱 Scan to get your {shareNoun}
             </p>
           </div>
 
@@ -420,7 +448,7 @@ export function ShareScreen() {
               </div>
               {(() => {
                 const phone = whatsappCountryCode.replace(/\D/g, '');
-                const text = encodeURIComponent('📸 ' + eventName + ' — tap to view & save your photo: ' + photoUrl);
+                const text = encodeURIComponent('📸 ' + eventName + ' — tap to view & save your photo: ' + shareUrl);
                 const waUrl = phone ? `https://wa.me/${phone}?text=${text}` : `https://wa.me/?text=${text}`;
                 return (
                   <>
@@ -457,6 +485,17 @@ export function ShareScreen() {
             placeholder="+91 98765 43210" inputType="tel" sending={sending}
             onSubmit={sendSMS} onClose={() => setModal(null)} />
         )}
+        {showPrintOverride && operatorPinLength > 0 && (
+          <OperatorPinPad
+            pinLength={operatorPinLength}
+            verify={checkPrintOverride}
+            primaryColor={primaryColor}
+            title="No prints left"
+            subtitle="Ask the operator to enter their PIN to print anyway"
+            onSuccess={handlePrintOverride}
+            onCancel={() => setShowPrintOverride(false)}
+          />
+        )}
       </AnimatePresence>
     </div>
   );
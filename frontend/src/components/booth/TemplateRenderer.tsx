@@ -1,23 +1,48 @@
 'use client';
 
-import type { ReactNode } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { templateEngine, type PhotoTemplate, type TemplateVars } from '@/services/templateEngine';
 
-export interface BoothTemplate {
-  name?: string;
-  layout?: {
-    borderColor?: string;
-    backgroundColor?: string;
-    footerText?: string;
-    logoUrl?: string | null;
-  };
+// Stable ids for blob/canvas photos so callers can pass fresh arrays each render
+const photoIds = new WeakMap<object, number>();
+let nextPhotoId = 1;
+function photoKey(photo: Blob | string | HTMLCanvasElement): string {
+  if (typeof photo === 'string') return photo;
+  if (!photoIds.has(photo)) photoIds.set(photo, nextPhotoId++);
+  return `#${photoIds.get(photo)}`;
 }
 
-export function TemplateRenderer({ photoUrl, eventName, template, children }: { photoUrl: string; eventName: string; template?: BoothTemplate | null; children?: ReactNode }) {
-  const layout = template?.layout || {};
-  return <div className="relative overflow-hidden rounded-[2rem] p-3 shadow-2xl" style={{ background: layout.backgroundColor || '#111827', border: `6px solid ${layout.borderColor || '#ffffff'}` }}>
-    {layout.logoUrl && <img src={layout.logoUrl} alt="Event logo" className="absolute left-4 top-4 z-10 h-14 w-14 rounded-full object-contain bg-white/90 p-1" />}
-    <img src={photoUrl} alt="Captured photo" className="max-h-[70vh] w-full rounded-2xl object-contain" />
-    <div className="mt-3 text-center text-sm font-bold text-white">{layout.footerText || eventName}</div>
-    {children}
-  </div>;
+/**
+ * Renders a PhotoTemplate through the shared canvas engine and shows the result
+ * as an image — the exact pixels the booth uploads and prints.
+ * `scale` renders a smaller bitmap for thumbnails and editor previews.
+ */
+export function TemplateRenderer({ template, photos, vars, scale = 0.5, className = '' }: {
+  template: PhotoTemplate;
+  photos: (Blob | string | HTMLCanvasElement)[];
+  vars?: TemplateVars;
+  scale?: number;
+  className?: string;
+}) {
+  const [src, setSrc] = useState<string | null>(null);
+  const latest = useRef({ template, photos, vars });
+  latest.current = { template, photos, vars };
+
+  // Re-render only when the content changes, not on every new object identity
+  const renderKey = JSON.stringify([template, vars, scale, photos.map(photoKey)]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const { template: t, photos: p, vars: v } = latest.current;
+    templateEngine.render(t, p, v, scale)
+      .then(canvas => { if (!cancelled) setSrc(canvas.toDataURL('image/jpeg', 0.85)); })
+      .catch(err => console.warn('[TemplateRenderer] render failed:', err));
+    return () => { cancelled = true; };
+  }, [renderKey, scale]);
+
+  if (!src) {
+    return <div className={`bg-white/5 animate-pulse ${className}`} style={{ aspectRatio: `${template.width} / ${template.height}` }} />;
+  }
+  // eslint-disable-next-line @next/next/no-img-element
+  return <img src={src} alt={template.name} className={className} />;
 }
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import type { PhotoTemplate } from '@/services/templateEngine';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -37,42 +38,108 @@ api.interceptors.response.use(
 
 // ─── Photos ────────────────────────────────────────────────────────────────
 
-export async function uploadPhoto(blob: Blob, eventId: string, sessionId: string, mode = 'single') {
+// `templated` tells the backend the image was already rendered through the
+// event's template, so it skips its own branding overlay.
+// `shortCode` is only passed by the offline queue: it pre-assigns the code the
+// guest already scanned, and makes a retried upload resolve to the same photo.
+export async function uploadPhoto(
+  blob: Blob, eventId: string, sessionId: string, mode = 'single',
+  opts: { templated?: boolean; shortCode?: string } = {},
+) {
   const form = new FormData();
   form.append('photo', blob, 'photo.jpg');
   form.append('eventId', eventId);
   form.append('sessionId', sessionId);
   form.append('mode', mode);
+  if (opts.templated) form.append('templated', 'true');
+  if (opts.shortCode) form.append('shortCode', opts.shortCode);
   const res = await api.post('/photos/upload', form);
   return res.data;
 }
 
-export async function createGIF(frames: Blob[], eventId: string, type: 'gif' | 'boomerang' = 'gif') {
+export async function createGIF(
+  frames: Blob[], eventId: string, type: 'gif' | 'boomerang' = 'gif', sessionId?: string, shortCode?: string,
+) {
   const form = new FormData();
   frames.forEach((f, i) => form.append('frames', f, `frame_${i}.jpg`));
   form.append('eventId', eventId);
   form.append('type', type);
+  if (sessionId) form.append('sessionId', sessionId);
+  if (shortCode) form.append('shortCode', shortCode);
   const res = await api.post('/photos/gif', form);
   return res.data;
 }
 
-export async function createBurst(frames: Blob[], eventId: string, sessionId?: string) {
+// GIF/boomerang already encoded in the browser (GIF, or MP4/WebM); `poster` is the
+// first frame, used as the thumbnail for video-format animations
+export async function uploadAnimation(
+  animation: Blob, eventId: string, type: 'gif' | 'boomerang' = 'gif', sessionId?: string,
+  opts: { poster?: Blob; shortCode?: string } = {},
+) {
   const form = new FormData();
-  frames.forEach((f, i) => form.append('frames', f, `frame_${i}.jpg`));
+  const ext = animation.type === 'image/gif' ? 'gif' : animation.type === 'video/mp4' ? 'mp4' : 'webm';
+  form.append('animation', animation, `animation.${ext}`);
+  if (opts.poster) form.append('poster', opts.poster, 'poster.jpg');
+  form.append('eventId', eventId);
+  form.append('type', type);
+  if (sessionId) form.append('sessionId', sessionId);
+  if (opts.shortCode) form.append('shortCode', opts.shortCode);
+  const res = await api.post('/photos/gif', form);
+  return res.data;
+}
+
+// Video guestbook clip; `poster` is a JPEG frame used as the gallery thumbnail
+export async function uploadVideo(
+  video: Blob, eventId: string, sessionId: string, poster?: Blob, opts: { duration?: number; shortCode?: string } = {},
+) {
+  const form = new FormData();
+  form.append('video', video, video.type.startsWith('video/mp4') ? 'clip.mp4' : 'clip.webm');
+  if (poster) form.append('poster', poster, 'poster.jpg');
+  form.append('eventId', eventId);
+  form.append('sessionId', sessionId);
+  if (opts.duration) form.append('duration', String(opts.duration));
+  if (opts.shortCode) form.append('shortCode', opts.shortCode);
+  const res = await api.post('/photos/video', form);
+  return res.data;
+}
+
+// `frames` are the guest's picks (max 10); `contactSheet` is an optional grid of the whole burst
+export async function createBurst(frames: Blob[], eventId: string, sessionId?: string, contactSheet?: Blob) {
+  const form = new FormData();
+  frames.slice(0, 10).forEach((f, i) => form.append(`frame_${i}`, f, `frame_${i}.jpg`));
+  if (contactSheet) form.append('contact_sheet', contactSheet, 'contact_sheet.jpg');
   form.append('eventId', eventId);
   if (sessionId) form.append('sessionId', sessionId);
   const res = await api.post('/photos/burst', form);
   return res.data;
 }
 
-export async function createStrip(photos: Blob[], eventId: string) {
+export async function createStrip(photos: Blob[], eventId: string, sessionId?: string, shortCode?: string) {
   const form = new FormData();
   photos.forEach((p, i) => form.append('photos', p, `photo_${i}.jpg`));
   form.append('eventId', eventId);
+  if (sessionId) form.append('sessionId', sessionId);
+  if (shortCode) form.append('shortCode', shortCode);
   const res = await api.post('/photos/strip', form);
   return res.data;
 }
 
+// Edited copy of a photo (effect baked in). Versions always attach to the
+// original capture, and the newest one becomes the photo galleries and QR links show.
+// `editToken` comes back with the capture's upload and expires a few minutes after it.
+export async function createPhotoVersion(photoId: string, editToken: string, photo: Blob, effect: string) {
+  const form = new FormData();
+  form.append('photo', photo, 'photo.jpg');
+  form.append('effect', effect);
+  const res = await api.post(`/photos/${photoId}/versions`, form, { headers: { 'X-Edit-Token': editToken } });
+  return res.data;
+}
+
+export async function restorePhotoVersion(photoId: string, editToken: string) {
+  const res = await api.post(`/photos/${photoId}/versions/restore`, null, { headers: { 'X-Edit-Token': editToken } });
+  return res.data;
+}
+
 export async function getEventPhotos(eventId: string, page = 1) {
   const res = await api.get(`/photos/event/${eventId}?page=${page}`);
   return res.data;
@@ -84,7 +151,10 @@ export async function deletePhoto(photoId: string) {
 }
 
 export async function downloadPhotosZip(eventId: string, eventName: string) {
-  const response = await fetch(`${API_BASE}/api/photos/event/${eventId}/zip`);
+  const token = localStorage.getItem('sb_access_token');
+  const response = await fetch(`${API_BASE}/api/photos/event/${eventId}/zip`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
   if (!response.ok) throw new Error('ZIP download failed');
   const blob = await response.blob();
   const url = URL.createObjectURL(blob);
@@ -174,13 +244,225 @@ export async function testWebhook(
 
 // ─── Gallery ───────────────────────────────────────────────────────────────
 
-export async function verifyGalleryPassword(eventId: string, password: string): Promise<boolean> {
+// Access token for a password-protected gallery, or null for a wrong password.
+// Send it back as X-Gallery-Token (or ?access_token= on plain links).
+export async function verifyGalleryPassword(slug: string, password: string): Promise<string | null> {
   try {
-    const res = await api.post(`/events/${eventId}/gallery-auth`, { password });
-    return res.data.ok === true;
+    const res = await api.post(`/gallery/${slug}/verify-password`, { password });
+    return res.data.token ?? null;
   } catch {
-    return false;
+    return null;
+  }
+}
+
+// Tokens live for the browser tab only; magic links can simply be opened again
+export function getGalleryToken(eventId: string): string | null {
+  return typeof window === 'undefined' ? null : sessionStorage.getItem(`gallery-token-${eventId}`);
+}
+
+export function setGalleryToken(eventId: string, token: string) {
+  sessionStorage.setItem(`gallery-token-${eventId}`, token);
+}
+
+export function clearGalleryToken(eventId: string) {
+  sessionStorage.removeItem(`gallery-token-${eventId}`);
+}
+
+export function galleryTokenHeaders(token: string | null): Record<string, string> {
+  return token ? { 'X-Gallery-Token': token } : {};
+}
+
+export function galleryDownloadUrl(slug: string, photoId: string, token: string | null) {
+  const url = `${API_BASE}/api/gallery/${slug}/photos/${photoId}/download`;
+  return token ? `${url}?access_token=${encodeURIComponent(token)}` : url;
+}
+
+export interface GalleryPhoto {
+  id: string;
+  url: string;
+  thumb_url?: string;
+  gallery_url?: string;
+  short_code?: string;
+  mode: string;
+  created_at: string;
+  width?: number | null;
+  height?: number | null;
+  // Tiny blurred JPEG data URI shown while the photo loads ('' or null when none)
+  placeholder?: string | null;
+}
+
+export type GalleryFilter = 'all' | 'photo' | 'gif' | 'strip' | 'ai';
+
+// Keep in step with MODE_FILTERS in backend/src/services/photoFeed.js
+export const GALLERY_FILTER_MODES: Record<Exclude<GalleryFilter, 'all'>, string[]> = {
+  photo: ['single', 'burst'],
+  gif:   ['gif', 'boomerang', 'video'],
+  strip: ['strip', 'contact_sheet'],
+  ai:    ['ai'],
+};
+
+export interface GalleryPage {
+  photos: GalleryPhoto[];
+  nextCursor: string | null;
+  // Only on the first page
+  total?: number;
+}
+
+// Newest first. Pass '' for the first page, then the nextCursor you got back.
+// Rejects with 401 (needs the password) or 410 (gallery expired).
+export async function getGalleryPage(
+  slug: string, cursor: string, filter: GalleryFilter = 'all', token: string | null = null, limit = 40,
+): Promise<GalleryPage> {
+  const res = await api.get(`/gallery/${slug}`, {
+    params: { cursor, limit, ...(filter !== 'all' ? { mode: filter } : {}) },
+    headers: galleryTokenHeaders(token),
+  });
+  return res.data;
+}
+
+export async function getGalleryPhoto(slug: string, photoId: string, token: string | null = null): Promise<GalleryPhoto> {
+  const res = await api.get(`/gallery/${slug}/photos/${photoId}`, { headers: galleryTokenHeaders(token) });
+  return res.data.photo;
+}
+
+// One ZIP of the guest's selection — a plain link so the browser streams it to disk
+export function gallerySelectionZipUrl(slug: string, photoIds: string[], token: string | null) {
+  const url = `${API_BASE}/api/gallery/${slug}/download?ids=${photoIds.join(',')}`;
+  return token ? `${url}&access_token=${encodeURIComponent(token)}` : url;
+}
+
+function randomUuid(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  const b = new Uint8Array(16);
+  crypto.getRandomValues(b);
+  b[6] = (b[6] & 0x0f) | 0x40;
+  b[8] = (b[8] & 0x3f) | 0x80;
+  const hex = Array.from(b, x => x.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// Favourites are anonymous: a random id per browser, shared by every gallery
+export function getGalleryDeviceId(): string {
+  let id = localStorage.getItem('gallery-device-id');
+  if (!id) {
+    id = randomUuid();
+    localStorage.setItem('gallery-device-id', id);
   }
+  return id;
+}
+
+export async function getMyGalleryFavourites(slug: string, token: string | null = null): Promise<GalleryPhoto[]> {
+  const res = await api.get(`/gallery/${slug}/favourites/mine`, {
+    params: { device: getGalleryDeviceId() },
+    headers: galleryTokenHeaders(token),
+  });
+  return res.data.photos;
+}
+
+export async function setGalleryFavourite(slug: string, photoId: string, favourite: boolean, token: string | null = null) {
+  const config = { params: { device: getGalleryDeviceId() }, headers: galleryTokenHeaders(token) };
+  const res = favourite
+    ? await api.put(`/gallery/${slug}/photos/${photoId}/favourite`, null, config)
+    : await api.delete(`/gallery/${slug}/photos/${photoId}/favourite`, config);
+  return res.data;
+}
+
+// Admin: guest hearts per photo id
+export async function getFavouriteCounts(eventId: string): Promise<Record<string, number>> {
+  const res = await api.get(`/gallery/${eventId}/favourites`);
+  return res.data.counts;
+}
+
+// Admin: set or clear (empty string) the gallery password — signs every guest out
+export async function setGalleryPassword(eventId: string, password: string) {
+  const res = await api.put(`/gallery/${eventId}/access`, { password });
+  return res.data;
+}
+
+export interface GalleryMagicLink {
+  url: string;
+  label: string;
+  expiresAt: string;
+}
+
+export async function createGalleryMagicLink(eventId: string, label: string, days = 30): Promise<GalleryMagicLink> {
+  const res = await api.post(`/gallery/${eventId}/access/links`, { label, days });
+  return res.data;
+}
+
+// Admin: invalidate every password session and magic link issued so far
+export async function revokeGalleryAccess(eventId: string) {
+  const res = await api.post(`/gallery/${eventId}/access/revoke`);
+  return res.data;
+}
+
+export type WallLayout = 'mosaic' | 'carousel' | 'polaroid';
+
+export interface WallPhoto {
+  id: string;
+  url: string;
+  thumb_url?: string;
+  gallery_url?: string;
+  mode: string;
+  created_at: string;
+}
+
+export interface WallFeed {
+  event: { id: string; name: string; slug: string; branding?: { primaryColor?: string; logoUrl?: string; eventName?: string } };
+  wall: { layout: WallLayout; showQR: boolean; requireApproval: boolean; slideSeconds: number };
+  photos: WallPhoto[];
+}
+
+// Newest first; with approval required, only photos approved in Moderation.
+// Walls of protected galleries pass the token from their display link.
+export async function getWallFeed(slug: string, token: string | null = null): Promise<WallFeed> {
+  const res = await api.get(`/gallery/${slug}/wall`, { headers: galleryTokenHeaders(token) });
+  return res.data;
+}
+
+// Admin: wall link for a venue screen; carries a display token when the gallery is protected
+export async function createWallDisplayLink(eventId: string, days?: number) {
+  const res = await api.post(`/gallery/${eventId}/access/display`, { days });
+  return res.data as { url: string; expiresAt: string | null };
+}
+
+export const DEFAULT_FACE_SEARCH_CONSENT =
+  'To find your photos we compare your selfie with the faces in this gallery. Your selfie is not saved. ' +
+  'Face data from the gallery is used only for this search and is deleted when the gallery expires.';
+
+// "Find my photos" — the selfie is matched server-side and never stored. Rejects
+// with 422 { error: 'NO_FACE' } when no face is found in it.
+export async function searchGalleryByFace(slug: string, selfie: Blob, token: string | null = null): Promise<WallPhoto[]> {
+  const form = new FormData();
+  form.append('selfie', selfie, 'selfie.jpg');
+  form.append('consent', 'true');
+  const res = await api.post(`/gallery/${slug}/faces/search`, form, { headers: galleryTokenHeaders(token) });
+  return res.data.photos;
+}
+
+export interface FaceIndexStatus {
+  available: boolean;
+  enabled: boolean;
+  indexed: number;
+  pending: number;
+  faces: number;
+  running: boolean;
+}
+
+export async function getFaceIndexStatus(eventId: string): Promise<FaceIndexStatus> {
+  const res = await api.get(`/gallery/${eventId}/faces`);
+  return res.data;
+}
+
+// Index photos taken before face search was switched on (runs in the background)
+export async function startFaceIndexing(eventId: string) {
+  const res = await api.post(`/gallery/${eventId}/faces/index`);
+  return res.data;
+}
+
+export async function deleteFaceData(eventId: string) {
+  const res = await api.delete(`/gallery/${eventId}/faces`);
+  return res.data;
 }
 
 // ─── Analytics ─────────────────────────────────────────────────────────────
@@ -254,11 +536,65 @@ export async function unhidePhoto(photoId: string) {
   return res.data;
 }
 
+export async function approveForWall(photoId: string, approved = true) {
+  const res = await api.patch(`/photos/${photoId}/moderate`, { wall_approved: approved });
+  return res.data;
+}
+
 export async function getEventPhotosWithHidden(eventId: string) {
   const res = await api.get(`/photos/event/${eventId}?include_hidden=true`);
   return res.data;
 }
 
+export type ModerationStatus = 'pending' | 'approved' | 'rejected';
+export type RejectReason = 'inappropriate' | 'gesture' | 'quality' | 'duplicate' | 'off_brand' | 'other';
+
+export type ScreeningCategory = 'nudity' | 'gesture' | 'text';
+
+// What the content classifier made of a photo; `error` when it couldn't be screened
+export interface ScreeningRecord {
+  provider: string;
+  scores?: Record<ScreeningCategory, number>;
+  flagged?: ScreeningCategory[];
+  error?: string;
+  at: string;
+}
+
+export interface ModerationQueuePhoto {
+  id: string;
+  url: string;
+  thumb_url?: string;
+  mode: string;
+  created_at: string;
+  session_id?: string;
+  moderation_status: ModerationStatus;
+  moderation_reason?: string | null;
+  moderated_at?: string | null;
+  screening?: ScreeningRecord | null;
+}
+
+export interface ModerationQueue {
+  counts: { pending: number; rejected: number };
+  photos: ModerationQueuePhoto[];
+}
+
+// Counts only unless a status is given
+export async function getModerationQueue(eventId: string, status?: ModerationStatus): Promise<ModerationQueue> {
+  const res = await api.get(`/photos/event/${eventId}/moderation`, { params: status ? { status } : {} });
+  return res.data;
+}
+
+export async function moderatePhotos(
+  eventId: string,
+  photoIds: string[],
+  action: 'approve' | 'reject',
+  reason?: RejectReason,
+  note?: string,
+) {
+  const res = await api.post('/photos/moderate/bulk', { eventId, photoIds, action, reason, note });
+  return res.data as { success: boolean; updated: number; moderationStatus: ModerationStatus };
+}
+
 // ─── Leads ─────────────────────────────────────────────────────────────────
 
 export async function submitLead(data: {
@@ -323,6 +659,34 @@ export async function openBillingPortal() {
   return res.data;
 }
 
+export type RetentionState = 'unlimited' | 'active' | 'expiring' | 'grace' | 'archived' | 'deleted';
+
+export interface GalleryRetention {
+  state: RetentionState;
+  expiresAt: string | null;
+  graceEndsAt: string | null;
+  daysLeft: number | null;
+  purgedAt: string | null;
+  plan: string | null;
+  galleryDays: number | null;
+  extraDays: number;
+  graceDays: number;
+  action: 'archive' | 'delete';
+  extensions: { days: number; price: number }[];
+  archiveUrl: string | null;
+}
+
+export async function getGalleryRetention(eventId: string): Promise<GalleryRetention> {
+  const res = await api.get(`/gallery/${eventId}/retention`);
+  return res.data;
+}
+
+// "Extend gallery" — returns a Stripe Checkout URL; the days apply once paid
+export async function startGalleryExtensionCheckout(eventId: string, days: number): Promise<string> {
+  const res = await api.post('/billing/checkout/gallery-extension', { eventId, days });
+  return res.data.checkoutUrl;
+}
+
 // ─── Email / Backgrounds / Templates ───────────────────────────────────────
 
 export async function sendPhotoEmail(data: { eventId: string; photoId: string; email: string; name?: string }) {
@@ -348,7 +712,89 @@ export async function getTemplates(eventId: string) {
   return res.data.templates;
 }
 
-export async function createTemplate(eventId: string, data: { name: string; layout?: Record<string, unknown>; isDefault?: boolean }) {
+export async function createTemplate(eventId: string, data: { name: string; layout: PhotoTemplate; isDefault?: boolean }) {
   const res = await api.post(`/templates/event/${eventId}`, data);
   return res.data.template;
 }
+
+export async function updateTemplate(templateId: string, data: { name?: string; layout?: PhotoTemplate; isDefault?: boolean }) {
+  const res = await api.patch(`/templates/${templateId}`, data);
+  return res.data.template;
+}
+
+export async function deleteTemplate(templateId: string) {
+  const res = await api.delete(`/templates/${templateId}`);
+  return res.data;
+}
+
+// ─── Session albums ────────────────────────────────────────────────────────
+
+export interface SessionAlbumItem {
+  id: string;
+  url: string;
+  thumb_url?: string;
+  gallery_url?: string;
+  mode: string;
+  created_at: string;
+  short_code?: string;
+}
+
+export interface SessionAlbum {
+  shortCode: string;
+  url: string;
+  createdAt: string;
+  event: { name: string; slug?: string; branding?: { primaryColor?: string; logoUrl?: string; eventName?: string } } | null;
+  items: SessionAlbumItem[];
+}
+
+// Creates the album on first call; `count` is how many captures it holds so far
+export async function ensureSessionAlbum(eventId: string, sessionId: string) {
+  const res = await api.post('/sessions', { eventId, sessionId });
+  return res.data.album as { shortCode: string; url: string; count: number };
+}
+
+// null when no album has this code (it may be a photo code instead)
+export async function getSessionAlbum(code: string): Promise<SessionAlbum | null> {
+  const res = await api.get(`/sessions/short/${code}`, { validateStatus: s => s === 200 || s === 404 });
+  return res.status === 404 ? null : res.data.album;
+}
+
+// ─── Print queue ───────────────────────────────────────────────────────────
+
+export async function getPrintJobs(eventId: string) {
+  const res = await api.get(`/prints/event/${eventId}`);
+  return res.data.jobs;
+}
+
+export async function getPrintUsage(eventId: string, sessionId?: string) {
+  const res = await api.get(`/prints/event/${eventId}/usage`, { params: sessionId ? { sessionId } : {}, timeout: 5000 });
+  return res.data as { used: number; sessionUsed: number; maxPrints: number | null; maxPrintsPerSession: number | null };
+}
+
+// Trade the operator's PIN for a few minutes' leave to print past the allowance —
+// null for a wrong PIN; throws when the backend can't be reached
+export async function getPrintOverride(eventId: string, pin: string) {
+  try {
+    const res = await api.post(`/prints/event/${eventId}/override`, { pin });
+    return res.data as { overrideToken: string; expiresAt: string };
+  } catch (err) {
+    if (axios.isAxiosError(err) && err.response?.status === 403) return null;
+    throw err;
+  }
+}
+
+// False for a wrong PIN; throws when the backend can't be reached
+export async function verifyOperatorPin(eventId: string, pin: string) {
+  try {
+    await api.post(`/events/${eventId}/operator-pin`, { pin });
+    return true;
+  } catch (err) {
+    if (axios.isAxiosError(err) && err.response?.status === 403) return false;
+    throw err;
+  }
+}
+
+export async function sendPrintCommand(eventId: string, action: 'pause' | 'resume' | 'cancel' | 'reprint' | 'retry', jobId?: string) {
+  const res = await api.post(`/prints/event/${eventId}/commands`, { action, jobId });
+  return res.data as { success: boolean; paused?: boolean };
+}
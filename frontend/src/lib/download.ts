@@ -0,0 +1,22 @@
+/**
+ * Save a remote file on the guest's device. Fetching to a blob first makes the
+ * download attribute work cross-origin (and on iOS); if the fetch is blocked the
+ * file opens in a new tab instead, where it can be long-pressed and saved.
+ */
+export async function iosCompatibleDownload(url: string, filename: string) {
+  try {
+    const res = await fetch(url, { mode: 'cors' });
+    if (!res.ok) throw new Error('fetch failed');
+    const blob = await res.blob();
+    const objectUrl = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = objectUrl;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 8000);
+  } catch {
+    window.open(url, '_blank');
+  }
+}
@@ -0,0 +1,22 @@
+import { io, type Socket } from 'socket.io-client';
+
+function socketUrl() {
+  return process.env.NEXT_PUBLIC_SOCKET_URL ||
+    process.env.NEXT_PUBLIC_API_URL ||
+    (typeof window !== 'undefined' ? window.location.origin : 'http://localhost:3001');
+}
+
+/**
+ * Socket.IO connection joined to an event's room. The room is rejoined on every
+ * reconnect, so screens left open all night (the wall, the admin queue) keep
+ * receiving events after a network drop.
+ */
+export function connectEventSocket(eventId: string): Socket {
+  const socket = io(socketUrl(), {
+    transports: ['websocket', 'polling'],
+    reconnection: true,
+    reconnectionDelay: 2000,
+  });
+  socket.on('connect', () => socket.emit('join-event', eventId));
+  return socket;
+}
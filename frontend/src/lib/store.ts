@@ -1,7 +1,24 @@
 import { create } from 'zustand';
+import type { ChromaKeySettings } from '@/services/greenScreen';
+import type { PhotoTemplate } from '@/services/templateEngine';
+import type { AnimationFormat, LoopStyle } from '@/services/animationEncoder';
+import type { CaptureSourceConfig } from '@/services/captureSource';
 
-export type BoothMode = 'single' | 'strip' | 'gif' | 'boomerang' | 'burst' | 'aistudio';
-export type BoothScreen = 'idle' | 'countdown' | 'capture' | 'preview' | 'ai' | 'aistudio' | 'share' | 'print';
+export type BoothMode = 'single' | 'strip' | 'gif' | 'boomerang' | 'burst' | 'video' | 'aistudio';
+export type BoothScreen = 'idle' | 'countdown' | 'capture' | 'preview' | 'ai' | 'aistudio' | 'share' | 'print' | 'pending';
+
+// Captured GIF/boomerang frames, played back locally while the encode + upload runs
+export interface AnimationPreview {
+  frames: Blob[];
+  delayMs: number;
+  loopStyle: LoopStyle;
+}
+
+// A capture parked in the offline queue; its short code resolves once it uploads
+export interface PendingCapture {
+  shortCode: string;
+  mode: BoothMode;
+}
 
 export interface Photo {
   id: string;
@@ -14,6 +31,9 @@ export interface Photo {
   mode: BoothMode;
   isAI?: boolean;
   style?: string;
+  parentId?: string;           // set on edited versions — the original capture's id
+  effect?: string | null;      // effect baked into this version
+  editToken?: string;          // lets this booth save effects on the capture for a few minutes
 }
 
 export interface Event {
@@ -33,20 +53,35 @@ export interface Event {
     logoUrl: string | null;
     idleMediaUrl?: string | null;
     frameUrl?: string | null;
+    customTemplate?: PhotoTemplate | null;
   };
   settings: {
     countdownSeconds: number;
     photosPerSession: number;
     allowRetakes: boolean;
+    maxRetakes?: number;         // per strip, on the review step
     allowAI: boolean;
     allowGIF: boolean;
     allowBoomerang: boolean;
+    allowBurst?:   boolean;
+    burstCount?:   number;
+    burstIntervalMs?: number;
+    burstContactSheet?: boolean;
+    gifFrameDelayMs?:       number;
+    gifLoopStyle?:          LoopStyle;
+    boomerangFrameDelayMs?: number;
+    boomerangLoopStyle?:    LoopStyle;
+    animationFormat?:       AnimationFormat;
+    allowVideo?:   boolean;
+    videoDuration?: number;      // seconds, 5–30
     allowFrameOverlays?: boolean;
+    enabledEffects?: string[];   // preview effects offered to guests (all when unset)
+    defaultEffect?:  string;
     allowPrint: boolean;
     printCopies: number;
     aiStyles: string[];
     sessionTimeout: number;
-    operatorPin: string;
+    operatorPin?: string;          // write-only: event responses leave it out
     // New fields
     boothStart:    string | null;
     boothEnd:      string | null;
@@ -65,15 +100,22 @@ export interface Event {
     smsMessage?:           string;
     // Print settings
     maxPrints?:    number | null;
+    maxPrintsPerSession?: number | null;
     printScale?:   number;
     autoPrint?:    boolean;
+    printQueuePaused?: boolean;  // set from the event manager's print queue panel
+    printMethod?:   'browser' | 'agent';
+    printAgentUrl?: string;
     kioskMode?:    boolean;
     countdownSound?: boolean;
     roamingMode?:   boolean;
     beautyLevel?:   number;
     paperSize?:     string;
     disabledAIStyles?: string[];
+    chromaKey?:     ChromaKeySettings;
+    captureSource?: CaptureSourceConfig;   // event default; booths can override per device
   };
+  operator_pin_length?: number;  // digits in the operator PIN, 0 when there is none
 }
 
 interface BoothStore {
@@ -81,6 +123,9 @@ interface BoothStore {
   mode: BoothMode;
   event: Event | null;
   currentPhoto: Photo | null;
+  pendingCapture: PendingCapture | null;
+  burstFrames: Blob[];
+  animationPreview: AnimationPreview | null;
   capturedFrames: string[];
   isCapturing: boolean;
   isProcessing: boolean;
@@ -94,6 +139,9 @@ interface BoothStore {
   setMode: (mode: BoothMode) => void;
   setEvent: (event: Event) => void;
   setCurrentPhoto: (photo: Photo | null) => void;
+  setPendingCapture: (capture: PendingCapture | null) => void;
+  setBurstFrames: (frames: Blob[]) => void;
+  setAnimationPreview: (preview: AnimationPreview | null) => void;
   addFrame: (frame: string) => void;
   clearFrames: () => void;
   setCapturing: (v: boolean) => void;
@@ -111,6 +159,9 @@ export const useBoothStore = create<BoothStore>((set, get) => ({
   mode: 'single',
   event: null,
   currentPhoto: null,
+  pendingCapture: null,
+  burstFrames: [],
+  animationPreview: null,
   capturedFrames: [],
   isCapturing: false,
   isProcessing: false,
@@ -124,6 +175,9 @@ export const useBoothStore = create<BoothStore>((set, get) => ({
   setMode: (mode) => set({ mode }),
   setEvent: (event) => set({ event }),
   setCurrentPhoto: (currentPhoto) => set({ currentPhoto }),
+  setPendingCapture: (pendingCapture) => set({ pendingCapture }),
+  setBurstFrames: (burstFrames) => set({ burstFrames }),
+  setAnimationPreview: (animationPreview) => set({ animationPreview }),
   addFrame: (frame) => set((s) => ({ capturedFrames: [...s.capturedFrames, frame] })),
   clearFrames: () => set({ capturedFrames: [] }),
   setCapturing: (isCapturing) => set({ isCapturing }),
@@ -139,6 +193,9 @@ export const useBoothStore = create<BoothStore>((set, get) => ({
     set({
       screen: 'idle',
       currentPhoto: null,
+      pendingCapture: null,
+      burstFrames: [],
+      animationPreview: null,
       capturedFrames: [],
       isCapturing: false,
       isProcessing: false,
@@ -0,0 +1,144 @@
+/**
+ * Animation Encoder - GIF / MP4 encoding in the browser
+ *
+ * GIF and boomerang captures used to upload raw frames and wait for the server's
+ * ffmpeg encode. Frames are now decoded and scaled here, encoded to GIF in a Web
+ * Worker (gifEncoder.worker.ts), and only the finished asset is uploaded.
+ * The "video" format records the frame sequence from a canvas with MediaRecorder
+ * (MP4 on Safari, WebM elsewhere) — MediaRecorder is not available inside workers.
+ */
+
+import type { Event, BoothMode } from '@/lib/store';
+import type { GifEncodeMessage, GifEncodeRequest } from '@/services/gifEncoder.worker';
+
+export type LoopStyle = 'forward' | 'pingpong' | 'reverse';
+export type AnimationFormat = 'gif' | 'video';
+
+export interface AnimationOptions {
+  delayMs: number;
+  loopStyle: LoopStyle;
+  format: AnimationFormat;
+  width?: number;
+}
+
+const DEFAULT_WIDTH = 640;
+const MIN_VIDEO_MS = 3_000;    // short clips are repeated so shared videos don't end instantly
+
+/**
+ * Frame order for one pass of the animation.
+ * pingpong skips the turn-around frames so they aren't shown twice.
+ */
+export function sequenceFrames<T>(frames: T[], loopStyle: LoopStyle): T[] {
+  if (loopStyle === 'reverse') return [...frames].reverse();
+  if (loopStyle === 'pingpong' && frames.length > 2) return [...frames, ...frames.slice(1, -1).reverse()];
+  return frames;
+}
+
+/**
+ * Per-event animation settings for a capture mode, with the old server defaults
+ * (GIF at 4fps forward, boomerang at 8fps ping-pong).
+ */
+export function animationSettings(event: Event | null, mode: BoothMode): AnimationOptions {
+  const settings = event?.settings;
+  const isBoomerang = mode === 'boomerang';
+  return {
+    delayMs: (isBoomerang ? settings?.boomerangFrameDelayMs : settings?.gifFrameDelayMs) ?? (isBoomerang ? 125 : 250),
+    loopStyle: (isBoomerang ? settings?.boomerangLoopStyle : settings?.gifLoopStyle) ?? (isBoomerang ? 'pingpong' : 'forward'),
+    format: settings?.animationFormat ?? 'gif',
+  };
+}
+
+export function isVideoUrl(url: string | undefined | null): boolean {
+  return !!url && /\.(mp4|webm)(\?|$)/i.test(url);
+}
+
+export class AnimationEncoder {
+  /**
+   * Encode captured frames in playback order. Rejects when the browser can't
+   * (no Worker / MediaRecorder) so callers can fall back to server encoding.
+   */
+  async encode(frames: Blob[], options: AnimationOptions, onProgress?: (done: number, total: number) => void): Promise<Blob> {
+    if (frames.length === 0) throw new Error('No frames to encode');
+    const bitmaps = await Promise.all(frames.map(f => createImageBitmap(f)));
+    try {
+      const sequence = sequenceFrames(bitmaps, options.loopStyle);
+      return options.format === 'video'
+        ? await this.encodeVideo(sequence, options)
+        : await this.encodeGIF(sequence, options, onProgress);
+    } finally {
+      bitmaps.forEach(b => b.close());
+    }
+  }
+
+  private frameSize(source: ImageBitmap, width = DEFAULT_WIDTH) {
+    const w = Math.min(width, source.width);
+    return { width: w, height: Math.round((source.height / source.width) * w) };
+  }
+
+  private encodeGIF(sequence: ImageBitmap[], options: AnimationOptions, onProgress?: (done: number, total: number) => void): Promise<Blob> {
+    if (typeof Worker === 'undefined') return Promise.reject(new Error('Web Workers not supported'));
+
+    const { width, height } = this.frameSize(sequence[0], options.width);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    const buffers = sequence.map(bitmap => {
+      ctx.drawImage(bitmap, 0, 0, width, height);
+      return ctx.getImageData(0, 0, width, height).data.buffer;
+    });
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./gifEncoder.worker.ts', import.meta.url));
+      worker.onmessage = (e: MessageEvent<GifEncodeMessage>) => {
+        const msg = e.data;
+        if (msg.type === 'progress') {
+          onProgress?.(msg.done, msg.total);
+          return;
+        }
+        worker.terminate();
+        if (msg.type === 'done') resolve(new Blob([msg.gif], { type: 'image/gif' }));
+        else reject(new Error(msg.message));
+      };
+      worker.onerror = (e) => {
+        worker.terminate();
+        reject(new Error(e.message || 'GIF worker failed'));
+      };
+      const request: GifEncodeRequest = { width, height, frames: buffers, delayMs: options.delayMs, repeat: 0 };
+      worker.postMessage(request, buffers);
+    });
+  }
+
+  private async encodeVideo(sequence: ImageBitmap[], options: AnimationOptions): Promise<Blob> {
+    if (typeof MediaRecorder === 'undefined') throw new Error('MediaRecorder not supported');
+
+    const { width, height } = this.frameSize(sequence[0], options.width ?? 1080);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(sequence[0], 0, 0, width, height);
+
+    const mimeType = ['video/mp4', 'video/webm;codecs=vp9', 'video/webm'].find(t => MediaRecorder.isTypeSupported(t));
+    const recorder = new MediaRecorder(canvas.captureStream(30), mimeType ? { mimeType, videoBitsPerSecond: 5_000_000 } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+
+    // Frames are drawn in real time, so the clip length is passes × sequence × delay
+    const passes = Math.max(1, Math.ceil(MIN_VIDEO_MS / (sequence.length * options.delayMs)));
+    recorder.start();
+    for (let pass = 0; pass < passes; pass++) {
+      for (const bitmap of sequence) {
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        await new Promise(r => setTimeout(r, options.delayMs));
+      }
+    }
+    recorder.stop();
+    await stopped;
+
+    return new Blob(chunks, { type: (recorder.mimeType || mimeType || 'video/webm').split(';')[0] });
+  }
+}
+
+export const animationEncoder = new AnimationEncoder();
@@ -0,0 +1,329 @@
+/**
+ * Beauty Filter Service - Real-time skin smoothing and brightening
+ *
+ * An edge-preserving (bilateral-style) blur restricted to skin tones: each pixel
+ * is averaged with neighbours weighted by distance *and* colour difference, so
+ * pores and blemishes soften while eyes, hair and outlines stay sharp. A gentle
+ * midtone lift brightens the result. Runs on WebGL2 when available and falls back
+ * to a CPU pass over ImageData otherwise (same maths, same output).
+ */
+
+type FilterSource = HTMLCanvasElement | HTMLVideoElement | HTMLImageElement;
+
+// Tap grid is (2·TAPS+1)², spread evenly across the smoothing radius
+const TAPS = 3;
+const CPU_TAPS = 2;
+
+// Skin sits in a compact region of YCbCr chroma regardless of skin tone
+const SKIN_CHROMA: [number, number] = [-0.1, 0.1];
+const SKIN_INNER = 0.08;
+const SKIN_OUTER = 0.16;
+
+const VERTEX_SHADER = `#version 300 es
+out vec2 v_uv;
+void main() {
+  vec2 p = vec2(gl_VertexID == 1 ? 3.0 : -1.0, gl_VertexID == 2 ? 3.0 : -1.0);
+  v_uv = vec2((p.x + 1.0) * 0.5, (1.0 - p.y) * 0.5);
+  gl_Position = vec4(p, 0.0, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+uniform sampler2D u_src;
+uniform vec2 u_texel;
+uniform float u_radius;
+uniform float u_sigmaColor;
+uniform float u_strength;
+uniform float u_brighten;
+in vec2 v_uv;
+out vec4 outColor;
+
+const vec3 LUMA = vec3(0.299, 0.587, 0.114);
+const int TAPS = ${TAPS};
+
+void main() {
+  vec3 c = texture(u_src, v_uv).rgb;
+
+  vec3 sum = vec3(0.0);
+  float weights = 0.0;
+  float spacing = u_radius / float(TAPS);
+  for (int y = -TAPS; y <= TAPS; y++) {
+    for (int x = -TAPS; x <= TAPS; x++) {
+      vec2 offset = vec2(float(x), float(y)) * spacing;
+      vec3 s = texture(u_src, v_uv + offset * u_texel).rgb;
+      vec3 diff = s - c;
+      float w = exp(-2.0 * dot(offset, offset) / (u_radius * u_radius)
+                    - dot(diff, diff) / (2.0 * u_sigmaColor * u_sigmaColor));
+      sum += s * w;
+      weights += w;
+    }
+  }
+  vec3 smoothed = sum / weights;
+
+  float y = dot(c, LUMA);
+  vec2 chroma = vec2((c.b - y) * 0.565, (c.r - y) * 0.713);
+  float skin = 1.0 - smoothstep(${SKIN_INNER}, ${SKIN_OUTER}, distance(chroma, vec2(${SKIN_CHROMA[0]}, ${SKIN_CHROMA[1]})));
+
+  vec3 color = mix(c, smoothed, u_strength * skin);
+  color += color * (1.0 - color) * u_brighten;
+  outColor = vec4(clamp(color, 0.0, 1.0), 1.0);
+}`;
+
+interface BeautyParams {
+  radius: number;              // px
+  sigmaColor: number;          // colour difference (0–1 RGB distance) that still counts as "same surface"
+  strength: number;            // 0–1 mix toward the smoothed colour
+  brighten: number;            // 0–1 midtone lift
+}
+
+/**
+ * Map the admin's 0–10 `beautyLevel` slider to filter strength (0 = off)
+ */
+export function beautyStrength(level: number | null | undefined): number {
+  return Math.min(Math.max(Number(level) || 0, 0), 10) / 10;
+}
+
+function sourceSize(source: FilterSource): { width: number; height: number } {
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight };
+  return { width: source.width, height: source.height };
+}
+
+// Radius scales with the frame so a 4K still and a 720p preview look alike
+function paramsFor(strength: number, width: number, height: number): BeautyParams {
+  const shortSide = Math.min(width, height);
+  return {
+    radius: Math.max(1.5, (shortSide / 240) * (1 + strength * 3)),
+    sigmaColor: 0.06 + strength * 0.08,
+    strength: Math.min(1, 0.35 + strength * 0.65),
+    brighten: strength * 0.15,
+  };
+}
+
+function smoothstep(edge0: number, edge1: number, x: number) {
+  const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+}
+
+export class BeautyFilterService {
+  private isInitialized = false;
+  private glCanvas: HTMLCanvasElement | null = null;
+  private gl: WebGL2RenderingContext | null = null;
+  private program: WebGLProgram | null = null;
+  private texture: WebGLTexture | null = null;
+
+  initialize() {
+    if (this.isInitialized) return;
+    this.initWebGL();
+    this.isInitialized = true;
+  }
+
+  /** True when filtering runs on the GPU */
+  get usingWebGL() {
+    return this.gl !== null;
+  }
+
+  /**
+   * Smooth and brighten the source at `strength` (0–1). Draws into `target` when
+   * given; otherwise returns an internal canvas that's reused on the next call.
+   */
+  processFrame(source: FilterSource, strength: number, target?: HTMLCanvasElement): HTMLCanvasElement {
+    if (!this.isInitialized) this.initialize();
+
+    const { width, height } = sourceSize(source);
+    const params = paramsFor(strength, width, height);
+    const result = this.filter(source, width, height, params);
+    if (!target) return result;
+
+    if (target.width !== width) target.width = width;
+    if (target.height !== height) target.height = height;
+    const ctx = target.getContext('2d')!;
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(result, 0, 0, width, height);
+    return target;
+  }
+
+  /**
+   * Filter a captured JPEG blob. Returns the original blob when strength is 0
+   * or if anything goes wrong.
+   */
+  async processBlob(blob: Blob, strength: number): Promise<Blob> {
+    if (strength <= 0) return blob;
+    const url = URL.createObjectURL(blob);
+    try {
+      const img = await loadImage(url);
+      const canvas = this.processFrame(img, strength);
+      return await new Promise<Blob>((resolve) => {
+        canvas.toBlob(result => resolve(result || blob), 'image/jpeg', 0.92);
+      });
+    } catch (err) {
+      console.error('[BeautyFilter] filtering failed:', err);
+      return blob;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  dispose() {
+    if (this.gl) {
+      if (this.texture) this.gl.deleteTexture(this.texture);
+      if (this.program) this.gl.deleteProgram(this.program);
+      this.gl.getExtension('WEBGL_lose_context')?.loseContext();
+    }
+    this.gl = null;
+    this.program = null;
+    this.texture = null;
+    this.glCanvas = null;
+    this.isInitialized = false;
+  }
+
+  // ── Filtering ─────────────────────────────────────────────────────────────
+
+  private filter(source: FilterSource, width: number, height: number, params: BeautyParams): HTMLCanvasElement {
+    if (this.gl && this.program && this.glCanvas) {
+      try {
+        return this.filterWebGL(source, width, height, params);
+      } catch (err) {
+        console.warn('[BeautyFilter] WebGL filtering failed, falling back to CPU:', err);
+        this.gl = null;
+      }
+    }
+    return this.filterCPU(source, width, height, params);
+  }
+
+  private filterWebGL(source: FilterSource, width: number, height: number, params: BeautyParams): HTMLCanvasElement {
+    const gl = this.gl!;
+    const canvas = this.glCanvas!;
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+
+    gl.viewport(0, 0, width, height);
+    gl.useProgram(this.program);
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+
+    gl.uniform2f(gl.getUniformLocation(this.program!, 'u_texel'), 1 / width, 1 / height);
+    gl.uniform1f(gl.getUniformLocation(this.program!, 'u_radius'), params.radius);
+    gl.uniform1f(gl.getUniformLocation(this.program!, 'u_sigmaColor'), params.sigmaColor);
+    gl.uniform1f(gl.getUniformLocation(this.program!, 'u_strength'), params.strength);
+    gl.uniform1f(gl.getUniformLocation(this.program!, 'u_brighten'), params.brighten);
+
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    return canvas;
+  }
+
+  // Fewer taps than the shader — this path runs per preview frame on the main thread
+  private filterCPU(source: FilterSource, width: number, height: number, params: BeautyParams): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(source, 0, 0, width, height);
+    const image = ctx.getImageData(0, 0, width, height);
+    const src = new Uint8ClampedArray(image.data);
+    const out = image.data;
+
+    const spacing = params.radius / CPU_TAPS;
+    const offsets: Array<{ dx: number; dy: number; w: number }> = [];
+    for (let y = -CPU_TAPS; y <= CPU_TAPS; y++) {
+      for (let x = -CPU_TAPS; x <= CPU_TAPS; x++) {
+        const ox = x * spacing, oy = y * spacing;
+        offsets.push({ dx: Math.round(ox), dy: Math.round(oy), w: Math.exp(-2 * (ox * ox + oy * oy) / (params.radius * params.radius)) });
+      }
+    }
+    const colorScale = 1 / (2 * params.sigmaColor * params.sigmaColor);
+
+    for (let py = 0; py < height; py++) {
+      for (let px = 0; px < width; px++) {
+        const i = (py * width + px) * 4;
+        const r = src[i] / 255, g = src[i + 1] / 255, b = src[i + 2] / 255;
+
+        const y = 0.299 * r + 0.587 * g + 0.114 * b;
+        const cb = (b - y) * 0.565, cr = (r - y) * 0.713;
+        const skin = 1 - smoothstep(SKIN_INNER, SKIN_OUTER, Math.hypot(cb - SKIN_CHROMA[0], cr - SKIN_CHROMA[1]));
+        const mix = params.strength * skin;
+
+        let nr = r, ng = g, nb = b;
+        if (mix > 0.001) {
+          let sr = 0, sg = 0, sb = 0, weights = 0;
+          for (const o of offsets) {
+            const sx = Math.min(Math.max(px + o.dx, 0), width - 1);
+            const sy = Math.min(Math.max(py + o.dy, 0), height - 1);
+            const j = (sy * width + sx) * 4;
+            const qr = src[j] / 255, qg = src[j + 1] / 255, qb = src[j + 2] / 255;
+            const dr = qr - r, dg = qg - g, db = qb - b;
+            const w = o.w * Math.exp(-(dr * dr + dg * dg + db * db) * colorScale);
+            sr += qr * w; sg += qg * w; sb += qb * w;
+            weights += w;
+          }
+          nr = r + (sr / weights - r) * mix;
+          ng = g + (sg / weights - g) * mix;
+          nb = b + (sb / weights - b) * mix;
+        }
+
+        nr += nr * (1 - nr) * params.brighten;
+        ng += ng * (1 - ng) * params.brighten;
+        nb += nb * (1 - nb) * params.brighten;
+        out[i]     = Math.min(Math.max(nr, 0), 1) * 255;
+        out[i + 1] = Math.min(Math.max(ng, 0), 1) * 255;
+        out[i + 2] = Math.min(Math.max(nb, 0), 1) * 255;
+      }
+    }
+
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+  }
+
+  private initWebGL() {
+    if (typeof document === 'undefined') return;
+    try {
+      const canvas = document.createElement('canvas');
+      const gl = canvas.getContext('webgl2', { preserveDrawingBuffer: true });
+      if (!gl) return;
+
+      const compile = (type: number, src: string) => {
+        const shader = gl.createShader(type)!;
+        gl.shaderSource(shader, src);
+        gl.compileShader(shader);
+        if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+          throw new Error(gl.getShaderInfoLog(shader) || 'Shader compile failed');
+        }
+        return shader;
+      };
+
+      const program = gl.createProgram()!;
+      gl.attachShader(program, compile(gl.VERTEX_SHADER, VERTEX_SHADER));
+      gl.attachShader(program, compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+      gl.linkProgram(program);
+      if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        throw new Error(gl.getProgramInfoLog(program) || 'Program link failed');
+      }
+
+      const texture = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+      this.glCanvas = canvas;
+      this.gl = gl;
+      this.program = program;
+      this.texture = texture;
+    } catch (err) {
+      console.warn('[BeautyFilter] WebGL2 unavailable, using CPU filtering:', err);
+      this.gl = null;
+    }
+  }
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load ${src}`));
+    img.src = src;
+  });
+}
+
+export const beautyFilterService = new BeautyFilterService();
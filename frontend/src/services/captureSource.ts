@@ -0,0 +1,352 @@
+/**
+ * Capture Sources - Where the booth gets its photos from
+ *
+ * CountdownScreen talks to a CaptureSource instead of a specific camera API:
+ *  - webcam: a browser camera via getUserMedia (optionally a specific device)
+ *  - dslr:   a tethered camera behind the local capture bridge
+ *            (backend/scripts/capture-bridge.js — gphoto2, or a stand-in)
+ *  - folder: a hot folder served by the same bridge; each shot is the next image
+ *            that lands there (photographer's camera on Wi-Fi/FTP, Eye-Fi cards…)
+ *
+ * The event picks a default source; each booth device can override it, and the
+ * override is kept in localStorage so it survives reloads. Webcams also keep
+ * per-camera preferences (resolution, mirroring, rotation, crop) on the device.
+ */
+
+import type { Event } from '@/lib/store';
+
+export type CaptureSourceKind = 'webcam' | 'dslr' | 'folder';
+
+export interface CaptureSourceConfig {
+  kind: CaptureSourceKind;
+  deviceId?: string;           // webcam: specific camera (default: front-facing)
+  audioDeviceId?: string;      // webcam: microphone for video guestbook (default: system default)
+  bridgeUrl?: string;          // dslr / folder: capture bridge base URL
+}
+
+export interface CaptureSource {
+  readonly kind: CaptureSourceKind;
+  /** Live view to show the guest — null when the source has none (hot folder) */
+  readonly preview: LiveView | null;
+  /** Preview must be flipped to match the stills (selfie webcams shown straight from the video) */
+  readonly mirrored: boolean;
+  /** Audio/video stream for video guestbook recording — webcams only */
+  readonly stream: MediaStream | null;
+  start(): Promise<void>;
+  capture(): Promise<Blob | null>;
+  stop(): void;
+}
+
+export type LiveView = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement;
+
+export type CameraResolution = '720p' | '1080p' | '4k';
+
+export interface CameraPrefs {
+  resolution: CameraResolution;
+  mirror: boolean;
+  rotation: 0 | 90 | 180 | 270;
+  cropAspect: number | null;   // width / height of the centred crop, null = sensor aspect
+  zoom: number;                // 1–2, centred
+}
+
+export const CAMERA_RESOLUTIONS: Record<CameraResolution, { width: number; height: number; label: string }> = {
+  '720p':  { width: 1280, height: 720,  label: 'HD 720p' },
+  '1080p': { width: 1920, height: 1080, label: 'Full HD 1080p' },
+  '4k':    { width: 3840, height: 2160, label: '4K' },
+};
+
+export const DEFAULT_CAMERA_PREFS: CameraPrefs = {
+  resolution: '1080p',
+  mirror: true,
+  rotation: 0,
+  cropAspect: null,
+  zoom: 1,
+};
+
+export const DEFAULT_BRIDGE_URL = 'http://localhost:5055';
+const DEVICE_CONFIG_KEY = 'sb_capture_source';
+const CAMERA_PREFS_KEY = 'sb_camera_prefs';
+const FOLDER_POLL_MS = 1_000;
+const FOLDER_TIMEOUT_MS = 30_000;
+
+export const CAPTURE_SOURCE_LABELS: Record<CaptureSourceKind, string> = {
+  webcam: 'Webcam',
+  dslr:   'Tethered DSLR',
+  folder: 'Hot folder',
+};
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+/** This device's override, or null to follow the event */
+export function getDeviceCaptureConfig(): CaptureSourceConfig | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = localStorage.getItem(DEVICE_CONFIG_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setDeviceCaptureConfig(config: CaptureSourceConfig | null) {
+  if (config) localStorage.setItem(DEVICE_CONFIG_KEY, JSON.stringify(config));
+  else localStorage.removeItem(DEVICE_CONFIG_KEY);
+}
+
+/** Device override first, then the event's source, then the front webcam */
+export function resolveCaptureConfig(event: Event | null): CaptureSourceConfig {
+  return getDeviceCaptureConfig() || event?.settings?.captureSource || { kind: 'webcam' };
+}
+
+function readCameraPrefs(): Record<string, Partial<CameraPrefs>> {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(CAMERA_PREFS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/** Saved preferences for one camera on this device ('' = the default front camera) */
+export function getCameraPrefs(deviceId?: string): CameraPrefs {
+  return { ...DEFAULT_CAMERA_PREFS, ...readCameraPrefs()[deviceId || ''] };
+}
+
+export function setCameraPrefs(deviceId: string | undefined, prefs: CameraPrefs) {
+  localStorage.setItem(CAMERA_PREFS_KEY, JSON.stringify({ ...readCameraPrefs(), [deviceId || '']: prefs }));
+}
+
+export function createCaptureSource(config: CaptureSourceConfig, options: { audio?: boolean } = {}): CaptureSource {
+  switch (config.kind) {
+    case 'dslr':   return new BridgeCameraSource(config.bridgeUrl || DEFAULT_BRIDGE_URL);
+    case 'folder': return new HotFolderSource(config.bridgeUrl || DEFAULT_BRIDGE_URL);
+    default:       return new WebcamSource(config, getCameraPrefs(config.deviceId), !!options.audio);
+  }
+}
+
+/** Inputs for the device picker; labels are blank until camera permission is granted */
+export async function listMediaDevices(kind: 'videoinput' | 'audioinput' = 'videoinput'): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === kind && d.deviceId);
+}
+
+/** Open a camera at its preferred resolution, plus a microphone when `audio` is set */
+export function openCameraStream(deviceId: string | undefined, prefs: CameraPrefs, audio: boolean | string = false): Promise<MediaStream> {
+  const { width, height } = CAMERA_RESOLUTIONS[prefs.resolution];
+  return navigator.mediaDevices.getUserMedia({
+    audio: typeof audio === 'string' ? { deviceId: { exact: audio } } : audio,
+    video: {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' }),
+      width: { ideal: width },
+      height: { ideal: height },
+    },
+  });
+}
+
+// ─── Orientation ──────────────────────────────────────────────────────────────
+
+/** True when frames need more than a CSS mirror (rotation or crop) */
+export function needsReframing(prefs: CameraPrefs): boolean {
+  return prefs.rotation !== 0 || prefs.cropAspect !== null || prefs.zoom > 1;
+}
+
+/**
+ * Draw a video frame rotated, mirrored and cropped per `prefs`, resizing
+ * `canvas` to the cropped size. Crop is centred in the rotated frame.
+ */
+export function drawReframed(video: HTMLVideoElement, prefs: CameraPrefs, canvas: HTMLCanvasElement): boolean {
+  const { videoWidth: w, videoHeight: h } = video;
+  if (!w || !h) return false;
+
+  const sideways = prefs.rotation === 90 || prefs.rotation === 270;
+  const rw = sideways ? h : w;
+  const rh = sideways ? w : h;
+  let cw = rw / Math.max(prefs.zoom, 1);
+  let ch = rh / Math.max(prefs.zoom, 1);
+  if (prefs.cropAspect) {
+    if (cw / ch > prefs.cropAspect) cw = ch * prefs.cropAspect;
+    else ch = cw / prefs.cropAspect;
+  }
+
+  const width = Math.round(cw), height = Math.round(ch);
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((prefs.rotation * Math.PI) / 180);
+  if (prefs.mirror) ctx.scale(-1, 1);
+  ctx.drawImage(video, -w / 2, -h / 2, w, h);
+  return true;
+}
+
+// ─── Preview helpers ──────────────────────────────────────────────────────────
+
+export function previewReady(el: LiveView): boolean {
+  if (el instanceof HTMLVideoElement) return el.readyState >= 2;
+  if (el instanceof HTMLImageElement) return el.complete && el.naturalWidth > 0;
+  return el.width > 0 && el.height > 0;
+}
+
+export function previewSize(el: LiveView): { width: number; height: number } {
+  if (el instanceof HTMLVideoElement) return { width: el.videoWidth, height: el.videoHeight };
+  if (el instanceof HTMLImageElement) return { width: el.naturalWidth, height: el.naturalHeight };
+  return { width: el.width, height: el.height };
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement, quality = 0.95): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+}
+
+// ─── Webcam ───────────────────────────────────────────────────────────────────
+
+// Plain mirroring is done with CSS on the <video>. Rotation and crop are drawn
+// onto a canvas every frame, and that canvas becomes the preview (and the
+// recorded video track) so guests see exactly what will be captured.
+class WebcamSource implements CaptureSource {
+  readonly kind = 'webcam' as const;
+  readonly mirrored: boolean;
+  readonly preview: HTMLVideoElement | HTMLCanvasElement;
+  private video: HTMLVideoElement;
+  private raw: MediaStream | null = null;
+  private reframed: MediaStream | null = null;
+  private raf = 0;
+  // stop() can land while getUserMedia is still pending (guest left the screen)
+  private stopped = false;
+
+  constructor(private config: CaptureSourceConfig, private prefs: CameraPrefs, private audio: boolean) {
+    this.video = document.createElement('video');
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.video.autoplay = true;
+    const reframe = needsReframing(prefs);
+    this.preview = reframe ? document.createElement('canvas') : this.video;
+    this.mirrored = !reframe && prefs.mirror;
+  }
+
+  get stream(): MediaStream | null {
+    return this.reframed || this.raw;
+  }
+
+  async start() {
+    const raw = await openCameraStream(this.config.deviceId, this.prefs, this.audio && (this.config.audioDeviceId || true));
+    if (this.stopped) {
+      raw.getTracks().forEach(t => t.stop());
+      return;
+    }
+    this.raw = raw;
+    this.video.srcObject = raw;
+    await this.video.play().catch(() => {});
+    if (this.stopped) return;
+
+    const canvas = this.preview;
+    if (canvas instanceof HTMLCanvasElement) {
+      const draw = () => {
+        drawReframed(this.video, this.prefs, canvas);
+        this.raf = requestAnimationFrame(draw);
+      };
+      draw();
+      this.reframed = new MediaStream([...canvas.captureStream(30).getVideoTracks(), ...raw.getAudioTracks()]);
+    }
+  }
+
+  // Same transform as the preview, so the still matches what the guest saw
+  async capture() {
+    const canvas = document.createElement('canvas');
+    return drawReframed(this.video, this.prefs, canvas) ? canvasToJpeg(canvas) : null;
+  }
+
+  stop() {
+    this.stopped = true;
+    cancelAnimationFrame(this.raf);
+    this.reframed?.getVideoTracks().forEach(t => t.stop());
+    this.raw?.getTracks().forEach(t => t.stop());
+    this.raw = null;
+    this.reframed = null;
+    this.video.srcObject = null;
+  }
+}
+
+// ─── Tethered DSLR (capture bridge) ───────────────────────────────────────────
+
+class BridgeCameraSource implements CaptureSource {
+  readonly kind = 'dslr' as const;
+  readonly mirrored = false;
+  readonly stream = null;
+  readonly preview: HTMLImageElement;
+
+  constructor(private bridgeUrl: string) {
+    this.preview = document.createElement('img');
+    this.preview.crossOrigin = 'anonymous';
+    this.preview.alt = '';
+  }
+
+  async start() {
+    const res = await fetch(`${this.bridgeUrl}/status`).catch(() => null);
+    const status = res ? await res.json().catch(() => null) : null;
+    if (!res?.ok || !status?.ok) {
+      throw new Error(status?.camera === null ? 'No camera connected to the capture bridge' : `Capture bridge not reachable at ${this.bridgeUrl}`);
+    }
+    // MJPEG — the <img> keeps updating for as long as the stream is open
+    this.preview.src = `${this.bridgeUrl}/liveview`;
+  }
+
+  async capture() {
+    const res = await fetch(`${this.bridgeUrl}/capture`, { method: 'POST' });
+    if (!res.ok) throw new Error('Camera capture failed');
+    return res.blob();
+  }
+
+  stop() {
+    this.preview.removeAttribute('src');
+  }
+}
+
+// ─── Hot folder (capture bridge) ──────────────────────────────────────────────
+
+interface FolderFile { name: string; url: string; modifiedAt: string }   // url is relative to the bridge
+
+class HotFolderSource implements CaptureSource {
+  readonly kind = 'folder' as const;
+  readonly mirrored = false;
+  readonly stream = null;
+  readonly preview = null;
+  private seen = new Set<string>();
+  private stopped = false;
+
+  constructor(private bridgeUrl: string) {}
+
+  private async list(): Promise<FolderFile[]> {
+    const res = await fetch(`${this.bridgeUrl}/folder`);
+    if (!res.ok) throw new Error(`Capture bridge not reachable at ${this.bridgeUrl}`);
+    return (await res.json()).files || [];
+  }
+
+  // Everything already in the folder belongs to earlier guests
+  async start() {
+    const files = await this.list().catch(() => {
+      throw new Error(`Capture bridge not reachable at ${this.bridgeUrl}`);
+    });
+    files.forEach(f => this.seen.add(f.name));
+  }
+
+  // The countdown is the photographer's cue — wait for the next new image
+  async capture() {
+    const deadline = Date.now() + FOLDER_TIMEOUT_MS;
+    while (!this.stopped && Date.now() < deadline) {
+      const fresh = (await this.list().catch(() => [])).find(f => !this.seen.has(f.name));
+      if (fresh) {
+        this.seen.add(fresh.name);
+        const res = await fetch(`${this.bridgeUrl}${fresh.url}`);
+        return res.ok ? res.blob() : null;
+      }
+      await new Promise(r => setTimeout(r, FOLDER_POLL_MS));
+    }
+    return null;
+  }
+
+  stop() {
+    this.stopped = true;
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * GIF Encoder Worker - Encodes animated GIFs off the main thread
+ *
+ * Receives raw RGBA frames (same size, already in playback order), builds one
+ * global 256-colour palette with median cut over a sample of every frame, then
+ * LZW-encodes each frame. Posts progress as frames finish and the GIF bytes at the end.
+ */
+
+export interface GifEncodeRequest {
+  width: number;
+  height: number;
+  frames: ArrayBuffer[];       // RGBA, width * height * 4 bytes each
+  delayMs: number;
+  repeat: number;              // 0 = loop forever
+}
+
+export type GifEncodeMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; gif: ArrayBuffer }
+  | { type: 'error'; message: string };
+
+const worker = self as unknown as {
+  onmessage: ((e: MessageEvent<GifEncodeRequest>) => void) | null;
+  postMessage: (message: GifEncodeMessage, transfer?: Transferable[]) => void;
+};
+
+// ─── Byte output ──────────────────────────────────────────────────────────────
+
+class ByteWriter {
+  private buf = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(b: number) {
+    if (this.length === this.buf.length) {
+      const grown = new Uint8Array(this.buf.length * 2);
+      grown.set(this.buf);
+      this.buf = grown;
+    }
+    this.buf[this.length++] = b;
+  }
+
+  word(w: number) {
+    this.byte(w & 0xff);
+    this.byte((w >> 8) & 0xff);
+  }
+
+  text(s: string) {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i));
+  }
+
+  bytes(data: Uint8Array, start: number, end: number) {
+    for (let i = start; i < end; i++) this.byte(data[i]);
+  }
+
+  result(): ArrayBuffer {
+    return this.buf.slice(0, this.length).buffer;
+  }
+}
+
+// ─── Palette (median cut) ─────────────────────────────────────────────────────
+
+const MAX_SAMPLES = 60_000;
+
+function buildPalette(frames: Uint8ClampedArray[]): number[][] {
+  const totalPixels = frames.reduce((n, f) => n + f.length / 4, 0);
+  const step = Math.max(1, Math.floor(totalPixels / MAX_SAMPLES));
+  const samples: number[][] = [];
+  for (const f of frames) {
+    for (let p = 0; p < f.length; p += 4 * step) samples.push([f[p], f[p + 1], f[p + 2]]);
+  }
+
+  let boxes: number[][][] = [samples];
+  while (boxes.length < 256) {
+    // Split the box with the widest channel range
+    let target = -1, targetChannel = 0, widest = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let min = 255, max = 0;
+        for (const px of box) { if (px[c] < min) min = px[c]; if (px[c] > max) max = px[c]; }
+        if (max - min > widest) { widest = max - min; target = i; targetChannel = c; }
+      }
+    });
+    if (target === -1) break;
+    const box = boxes[target].sort((a, b) => a[targetChannel] - b[targetChannel]);
+    const mid = box.length >> 1;
+    boxes = [...boxes.slice(0, target), box.slice(0, mid), box.slice(mid), ...boxes.slice(target + 1)];
+  }
+
+  const palette = boxes.map(box => {
+    const sum = [0, 0, 0];
+    for (const px of box) { sum[0] += px[0]; sum[1] += px[1]; sum[2] += px[2]; }
+    return sum.map(v => Math.round(v / Math.max(box.length, 1)));
+  });
+  while (palette.length < 256) palette.push([0, 0, 0]);
+  return palette;
+}
+
+// Nearest palette entry, cached on a 15-bit colour key
+function makeIndexer(palette: number[][]) {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  return (r: number, g: number, b: number): number => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const hit = cache[key];
+    if (hit !== -1) return hit;
+    let best = 0, bestDist = Infinity;
+    for (let i = 0; i < palette.length; i++) {
+      const dr = palette[i][0] - r, dg = palette[i][1] - g, db = palette[i][2] - b;
+      const d = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+      if (d < bestDist) { bestDist = d; best = i; }
+    }
+    cache[key] = best;
+    return best;
+  };
+}
+
+// ─── LZW ──────────────────────────────────────────────────────────────────────
+
+function writeLzw(out: ByteWriter, indices: Uint8Array, minCodeSize: number) {
+  out.byte(minCodeSize);
+
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  const table = new Int32Array(4096 << 8).fill(-1);
+  let nextCode = eoiCode + 1;
+  let codeSize = minCodeSize + 1;
+
+  // Pack codes LSB-first into 255-byte sub-blocks
+  const block = new Uint8Array(255);
+  let blockLen = 0, bits = 0, bitCount = 0;
+  const flushByte = (b: number) => {
+    block[blockLen++] = b;
+    if (blockLen === 255) { out.byte(255); out.bytes(block, 0, 255); blockLen = 0; }
+  };
+  const emit = (code: number, size: number) => {
+    bits |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) { flushByte(bits & 0xff); bits >>>= 8; bitCount -= 8; }
+  };
+
+  emit(clearCode, codeSize);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = table[key];
+    if (existing !== -1) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix, codeSize);
+    if (nextCode === 4096) {
+      emit(clearCode, codeSize);
+      table.fill(-1);
+      nextCode = eoiCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table[key] = nextCode++;
+    }
+    prefix = k;
+  }
+  emit(prefix, codeSize);
+  emit(eoiCode, codeSize);
+  if (bitCount > 0) flushByte(bits & 0xff);
+  if (blockLen > 0) { out.byte(blockLen); out.bytes(block, 0, blockLen); }
+  out.byte(0);
+}
+
+// ─── GIF ──────────────────────────────────────────────────────────────────────
+
+function encodeGif({ width, height, frames, delayMs, repeat }: GifEncodeRequest): ArrayBuffer {
+  const pixels = frames.map(f => new Uint8ClampedArray(f));
+  const palette = buildPalette(pixels);
+  const indexOf = makeIndexer(palette);
+  const out = new ByteWriter();
+
+  out.text('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(0xf7);              // global colour table, 8 bits/channel, 256 entries
+  out.byte(0);                 // background colour index
+  out.byte(0);                 // pixel aspect ratio
+  for (const [r, g, b] of palette) { out.byte(r); out.byte(g); out.byte(b); }
+
+  // NETSCAPE2.0 application extension — loop count
+  out.byte(0x21); out.byte(0xff); out.byte(11);
+  out.text('NETSCAPE2.0');
+  out.byte(3); out.byte(1); out.word(repeat); out.byte(0);
+
+  const delay = Math.max(2, Math.round(delayMs / 10)); // centiseconds; browsers clamp < 2
+  const indices = new Uint8Array(width * height);
+
+  pixels.forEach((frame, n) => {
+    for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+      indices[i] = indexOf(frame[p], frame[p + 1], frame[p + 2]);
+    }
+
+    // Graphic control extension — frame delay, no transparency
+    out.byte(0x21); out.byte(0xf9); out.byte(4);
+    out.byte(0x04);            // disposal: leave in place
+    out.word(delay);
+    out.byte(0);
+    out.byte(0);
+
+    // Image descriptor — full frame, global palette
+    out.byte(0x2c);
+    out.word(0); out.word(0);
+    out.word(width); out.word(height);
+    out.byte(0);
+    writeLzw(out, indices, 8);
+
+    worker.postMessage({ type: 'progress', done: n + 1, total: pixels.length });
+  });
+
+  out.byte(0x3b);
+  return out.result();
+}
+
+worker.onmessage = (e) => {
+  try {
+    const gif = encodeGif(e.data);
+    worker.postMessage({ type: 'done', gif }, [gif]);
+  } catch (err) {
+    worker.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -1,30 +1,381 @@
 /**
- * Green Screen Service
- * Temporary implementation for build success
+ * Green Screen Service - Chroma-key the booth camera against a backdrop colour
+ *
+ * Keys in YCbCr space: alpha comes from the distance between a pixel's chroma
+ * and the key colour's chroma, so lighting falloff across the backdrop matters
+ * far less than it would in RGB. Runs on WebGL2 when available and falls back
+ * to a CPU pass over ImageData otherwise (same maths, same output).
  */
 
+export interface ChromaKeySettings {
+  enabled: boolean;
+  keyColor: string;            // hex, e.g. '#00b140'
+  tolerance: number;           // 0–100: how far from the key colour still counts as backdrop
+  softness: number;            // 0–100: width of the feathered edge beyond tolerance
+  spill: number;               // 0–100: how much key-coloured cast to remove from the subject
+  backgroundUrl: string | null;
+}
+
+export const DEFAULT_CHROMA_KEY: ChromaKeySettings = {
+  enabled: false,
+  keyColor: '#00b140',
+  tolerance: 35,
+  softness: 20,
+  spill: 50,
+  backgroundUrl: null,
+};
+
+type KeySource = HTMLCanvasElement | HTMLVideoElement | HTMLImageElement;
+
+// Slider ranges → chroma-distance units. Max chroma distance is ~0.8; a lit
+// green backdrop sits well under 0.1 from its own average, skin ~0.4 from green.
+const TOLERANCE_RANGE = 0.4;
+const SOFTNESS_RANGE = 0.2;
+
+const VERTEX_SHADER = `#version 300 es
+out vec2 v_uv;
+void main() {
+  vec2 p = vec2(gl_VertexID == 1 ? 3.0 : -1.0, gl_VertexID == 2 ? 3.0 : -1.0);
+  v_uv = vec2((p.x + 1.0) * 0.5, (1.0 - p.y) * 0.5);
+  gl_Position = vec4(p, 0.0, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+uniform sampler2D u_src;
+uniform vec2 u_keyChroma;
+uniform float u_tolerance;
+uniform float u_softness;
+uniform float u_spill;
+in vec2 v_uv;
+out vec4 outColor;
+
+const vec3 LUMA = vec3(0.299, 0.587, 0.114);
+
+void main() {
+  vec3 c = texture(u_src, v_uv).rgb;
+  float y = dot(c, LUMA);
+  vec2 chroma = vec2((c.b - y) * 0.565, (c.r - y) * 0.713);
+
+  float d = distance(chroma, u_keyChroma);
+  float alpha = smoothstep(u_tolerance, u_tolerance + max(u_softness, 0.001), d);
+
+  // Spill: strip the component of this pixel's chroma that points toward the key
+  float keyLen = length(u_keyChroma);
+  if (keyLen > 0.0001) {
+    vec2 dir = u_keyChroma / keyLen;
+    float toward = max(dot(chroma, dir), 0.0);
+    chroma -= dir * toward * u_spill;
+  }
+
+  float r = y + chroma.y / 0.713;
+  float b = y + chroma.x / 0.565;
+  float g = (y - 0.299 * r - 0.114 * b) / 0.587;
+  outColor = vec4(clamp(vec3(r, g, b), 0.0, 1.0) * alpha, alpha);
+}`;
+
+function hexToRgb(hex: string): [number, number, number] {
+  const clean = hex.replace('#', '');
+  const full = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean;
+  const n = parseInt(full, 16) || 0;
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+function rgbToHex(r: number, g: number, b: number): string {
+  return '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+}
+
+function chromaOf(r: number, g: number, b: number): [number, number] {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  return [(b - y) * 0.565, (r - y) * 0.713];
+}
+
+function sourceSize(source: KeySource): { width: number; height: number } {
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight };
+  return { width: source.width, height: source.height };
+}
+
+function smoothstep(edge0: number, edge1: number, x: number) {
+  const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+}
+
 export class GreenScreenService {
   private isInitialized = false;
+  private glCanvas: HTMLCanvasElement | null = null;
+  private gl: WebGL2RenderingContext | null = null;
+  private program: WebGLProgram | null = null;
+  private texture: WebGLTexture | null = null;
+  private backgrounds = new Map<string, Promise<HTMLImageElement | null>>();
 
   async initialize() {
+    if (this.isInitialized) return;
+    this.initWebGL();
     this.isInitialized = true;
-    console.log('GreenScreenService initialized');
   }
 
+  /** True when keying runs on the GPU */
+  get usingWebGL() {
+    return this.gl !== null;
+  }
+
+  /**
+   * Key the source and composite it over the background (image, URL, or a
+   * blurred copy of the source). Returns a new canvas the size of the source.
+   */
   async processFrame(
-    sourceCanvas: HTMLCanvasElement,
-    backgroundImage?: HTMLImageElement | string,
-    options?: {
+    sourceCanvas: KeySource,
+    backgroundImage?: HTMLImageElement | string | null,
+    options?: Partial<ChromaKeySettings> & {
       blur?: boolean;
       blurAmount?: number;
+      target?: HTMLCanvasElement;
     }
   ): Promise<HTMLCanvasElement> {
-    return sourceCanvas;
+    if (!this.isInitialized) await this.initialize();
+
+    const settings = { ...DEFAULT_CHROMA_KEY, ...options };
+    const { width, height } = sourceSize(sourceCanvas);
+    const out = options?.target || document.createElement('canvas');
+    if (out.width !== width) out.width = width;
+    if (out.height !== height) out.height = height;
+    const ctx = out.getContext('2d')!;
+    ctx.clearRect(0, 0, width, height);
+
+    const background = typeof backgroundImage === 'string'
+      ? await this.loadBackground(backgroundImage)
+      : backgroundImage || null;
+
+    if (background) {
+      this.drawCover(ctx, background, width, height);
+    } else if (options?.blur) {
+      ctx.filter = `blur(${Math.round(((options.blurAmount ?? 50) / 100) * 24)}px)`;
+      ctx.drawImage(sourceCanvas, 0, 0, width, height);
+      ctx.filter = 'none';
+    }
+
+    const keyed = this.key(sourceCanvas, width, height, settings);
+    ctx.drawImage(keyed, 0, 0, width, height);
+    return out;
+  }
+
+  /**
+   * Key a captured JPEG blob against the event's settings and background.
+   * Returns the original blob if anything goes wrong.
+   */
+  async processBlob(blob: Blob, settings: Partial<ChromaKeySettings>): Promise<Blob> {
+    const url = URL.createObjectURL(blob);
+    try {
+      const img = await loadImage(url);
+      const canvas = await this.processFrame(img, settings.backgroundUrl, settings);
+      return await new Promise<Blob>((resolve) => {
+        canvas.toBlob(result => resolve(result || blob), 'image/jpeg', 0.92);
+      });
+    } catch (err) {
+      console.error('[GreenScreen] keying failed:', err);
+      return blob;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  /**
+   * Average colour in a (2·radius+1)² patch around (x, y) of the source.
+   * Used by the admin calibration view to pick the backdrop colour.
+   */
+  sampleColor(source: KeySource, x: number, y: number, radius = 4): string {
+    const { width, height } = sourceSize(source);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(source, 0, 0, width, height);
+
+    const x0 = Math.max(0, Math.round(x) - radius);
+    const y0 = Math.max(0, Math.round(y) - radius);
+    const w = Math.min(width - x0, radius * 2 + 1);
+    const h = Math.min(height - y0, radius * 2 + 1);
+    const { data } = ctx.getImageData(x0, y0, Math.max(w, 1), Math.max(h, 1));
+
+    let r = 0, g = 0, b = 0;
+    const count = data.length / 4;
+    for (let i = 0; i < data.length; i += 4) {
+      r += data[i]; g += data[i + 1]; b += data[i + 2];
+    }
+    return rgbToHex(r / count, g / count, b / count);
   }
 
   dispose() {
+    if (this.gl) {
+      if (this.texture) this.gl.deleteTexture(this.texture);
+      if (this.program) this.gl.deleteProgram(this.program);
+      this.gl.getExtension('WEBGL_lose_context')?.loseContext();
+    }
+    this.gl = null;
+    this.program = null;
+    this.texture = null;
+    this.glCanvas = null;
+    this.backgrounds.clear();
     this.isInitialized = false;
   }
+
+  // ── Keying ────────────────────────────────────────────────────────────────
+
+  private key(source: KeySource, width: number, height: number, settings: ChromaKeySettings): HTMLCanvasElement {
+    const [kr, kg, kb] = hexToRgb(settings.keyColor).map(v => v / 255);
+    const keyChroma = chromaOf(kr, kg, kb);
+    const tolerance = (settings.tolerance / 100) * TOLERANCE_RANGE;
+    const softness = (settings.softness / 100) * SOFTNESS_RANGE;
+    const spill = settings.spill / 100;
+
+    if (this.gl && this.program && this.glCanvas) {
+      try {
+        return this.keyWebGL(source, width, height, keyChroma, tolerance, softness, spill);
+      } catch (err) {
+        console.warn('[GreenScreen] WebGL keying failed, falling back to CPU:', err);
+        this.gl = null;
+      }
+    }
+    return this.keyCPU(source, width, height, keyChroma, tolerance, softness, spill);
+  }
+
+  private keyWebGL(
+    source: KeySource, width: number, height: number,
+    keyChroma: [number, number], tolerance: number, softness: number, spill: number,
+  ): HTMLCanvasElement {
+    const gl = this.gl!;
+    const canvas = this.glCanvas!;
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+
+    gl.viewport(0, 0, width, height);
+    gl.useProgram(this.program);
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+
+    gl.uniform2f(gl.getUniformLocation(this.program!, 'u_keyChroma'), keyChroma[0], keyChroma[1]);
+    gl.uniform1f(gl.getUniformLocation(this.program!, 'u_tolerance'), tolerance);
+    gl.uniform1f(gl.getUniformLocation(this.program!, 'u_softness'), softness);
+    gl.uniform1f(gl.getUniformLocation(this.program!, 'u_spill'), spill);
+
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    return canvas;
+  }
+
+  private keyCPU(
+    source: KeySource, width: number, height: number,
+    keyChroma: [number, number], tolerance: number, softness: number, spill: number,
+  ): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(source, 0, 0, width, height);
+    const image = ctx.getImageData(0, 0, width, height);
+    const data = image.data;
+
+    const keyLen = Math.hypot(keyChroma[0], keyChroma[1]);
+    const dirCb = keyLen > 0.0001 ? keyChroma[0] / keyLen : 0;
+    const dirCr = keyLen > 0.0001 ? keyChroma[1] / keyLen : 0;
+    const edge = tolerance + Math.max(softness, 0.001);
+
+    for (let i = 0; i < data.length; i += 4) {
+      const r = data[i] / 255, g = data[i + 1] / 255, b = data[i + 2] / 255;
+      const y = 0.299 * r + 0.587 * g + 0.114 * b;
+      let cb = (b - y) * 0.565;
+      let cr = (r - y) * 0.713;
+
+      const alpha = smoothstep(tolerance, edge, Math.hypot(cb - keyChroma[0], cr - keyChroma[1]));
+
+      const toward = Math.max(cb * dirCb + cr * dirCr, 0) * spill;
+      cb -= dirCb * toward;
+      cr -= dirCr * toward;
+
+      const nr = y + cr / 0.713;
+      const nb = y + cb / 0.565;
+      const ng = (y - 0.299 * nr - 0.114 * nb) / 0.587;
+      data[i]     = Math.min(Math.max(nr, 0), 1) * 255;
+      data[i + 1] = Math.min(Math.max(ng, 0), 1) * 255;
+      data[i + 2] = Math.min(Math.max(nb, 0), 1) * 255;
+      data[i + 3] = alpha * 255;
+    }
+
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+  }
+
+  private initWebGL() {
+    if (typeof document === 'undefined') return;
+    try {
+      const canvas = document.createElement('canvas');
+      const gl = canvas.getContext('webgl2', { premultipliedAlpha: true, preserveDrawingBuffer: true });
+      if (!gl) return;
+
+      const compile = (type: number, src: string) => {
+        const shader = gl.createShader(type)!;
+        gl.shaderSource(shader, src);
+        gl.compileShader(shader);
+        if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+          throw new Error(gl.getShaderInfoLog(shader) || 'Shader compile failed');
+        }
+        return shader;
+      };
+
+      const program = gl.createProgram()!;
+      gl.attachShader(program, compile(gl.VERTEX_SHADER, VERTEX_SHADER));
+      gl.attachShader(program, compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+      gl.linkProgram(program);
+      if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        throw new Error(gl.getProgramInfoLog(program) || 'Program link failed');
+      }
+
+      const texture = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+      this.glCanvas = canvas;
+      this.gl = gl;
+      this.program = program;
+      this.texture = texture;
+    } catch (err) {
+      console.warn('[GreenScreen] WebGL2 unavailable, using CPU keying:', err);
+      this.gl = null;
+    }
+  }
+
+  // ── Backgrounds ───────────────────────────────────────────────────────────
+
+  private loadBackground(url: string): Promise<HTMLImageElement | null> {
+    let pending = this.backgrounds.get(url);
+    if (!pending) {
+      pending = loadImage(url).catch(() => null);
+      this.backgrounds.set(url, pending);
+    }
+    return pending;
+  }
+
+  private drawCover(ctx: CanvasRenderingContext2D, img: HTMLImageElement, width: number, height: number) {
+    const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+    const w = img.naturalWidth * scale;
+    const h = img.naturalHeight * scale;
+    ctx.drawImage(img, (width - w) / 2, (height - h) / 2, w, h);
+  }
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load ${src}`));
+    img.src = src;
+  });
 }
 
 export const greenScreenService = new GreenScreenService();
@@ -0,0 +1,220 @@
+/**
+ * Offline Capture Queue - Keep the booth shooting when the backend is unreachable
+ *
+ * Captures that fail to upload are persisted to IndexedDB (blobs included) with
+ * their sessionId/mode and a pre-assigned short code. A background sync worker
+ * pings the backend and retries with exponential backoff; the short code means
+ * the "ready soon" QR shown to the guest resolves once the upload lands.
+ */
+
+import { uploadPhoto, createGIF, createStrip, uploadVideo, uploadAnimation, pingBackend } from '@/lib/api';
+import type { BoothMode } from '@/lib/store';
+
+export interface QueuedCapture {
+  id: string;
+  eventId: string;
+  sessionId: string;
+  mode: BoothMode;
+  frames: Blob[];               // video mode: [clip, poster?]
+  templated?: boolean;         // frames[0] is the final asset (template render, or encoded GIF + poster)
+  shortCode: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+type Listener = (pending: number) => void;
+
+const DB_NAME = 'snapbooth-offline';
+const STORE = 'captures';
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 5 * 60_000;
+const TICK_MS = 5_000;
+
+// Same alphabet as the backend's generateShortCode — no 0/O/1/l confusion.
+// 8 chars so client-generated codes can't realistically collide with server ones.
+const SHORT_CODE_CHARS = 'abcdefghijkmnpqrstuvwxyz23456789';
+
+export function generateShortCode(length = 8): string {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => SHORT_CODE_CHARS[b % SHORT_CODE_CHARS.length]).join('');
+}
+
+/**
+ * True when an upload failed because the backend couldn't be reached
+ * (no response, timeout, or gateway/5xx) rather than because it refused the capture.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const err = error as { response?: { status?: number }; code?: string } | null;
+  if (!err || typeof err !== 'object') return false;
+  if (!err.response) return true;
+  return (err.response.status ?? 0) >= 500;
+}
+
+export function shortUrlFor(code: string): string {
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  return `${origin}/p/${code}`;
+}
+
+export class OfflineQueue {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private syncing = false;
+  private listeners = new Set<Listener>();
+
+  /**
+   * Persist a capture for later upload. Frames should already be composited.
+   */
+  async enqueue(capture: Pick<QueuedCapture, 'eventId' | 'sessionId' | 'mode' | 'frames' | 'templated'>): Promise<QueuedCapture> {
+    const item: QueuedCapture = {
+      ...capture,
+      id: `capture-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      shortCode: generateShortCode(),
+      attempts: 0,
+      nextAttemptAt: Date.now() + BASE_DELAY_MS,
+      createdAt: Date.now(),
+    };
+    await this.tx('readwrite', (store) => store.put(item));
+    this.notify();
+    return item;
+  }
+
+  /**
+   * All queued captures, oldest first
+   */
+  async list(): Promise<QueuedCapture[]> {
+    const items = await this.tx<QueuedCapture[]>('readonly', (store) => store.getAll());
+    return items.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async count(): Promise<number> {
+    return this.tx<number>('readonly', (store) => store.count());
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.tx('readwrite', (store) => store.delete(id));
+    this.notify();
+  }
+
+  /**
+   * Subscribe to pending-count changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    this.count().then(listener).catch(() => listener(0));
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /**
+   * Start the background sync worker (idempotent)
+   */
+  start() {
+    if (this.timer || typeof window === 'undefined') return;
+    this.timer = setInterval(() => { this.sync().catch(err => console.error('Offline sync error:', err)); }, TICK_MS);
+    window.addEventListener('online', this.handleOnline);
+    this.sync().catch(err => console.error('Offline sync error:', err));
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    if (typeof window !== 'undefined') window.removeEventListener('online', this.handleOnline);
+  }
+
+  /**
+   * Upload every capture that is due. Skips the run entirely while the backend is down.
+   */
+  async sync(force = false): Promise<void> {
+    if (this.syncing) return;
+    this.syncing = true;
+
+    try {
+      const now = Date.now();
+      const due = (await this.list()).filter(item => force || item.nextAttemptAt <= now);
+      if (due.length === 0) return;
+
+      const { ok } = await pingBackend();
+      if (!ok) return;
+
+      for (const item of due) {
+        try {
+          await this.upload(item);
+          await this.remove(item.id);
+        } catch (error: unknown) {
+          // A 4xx won't get better by retrying (event deleted, photo limit hit…) — keep
+          // the capture but back off to the maximum so the operator can see it's stuck.
+          const attempts = item.attempts + 1;
+          const delay = isNetworkError(error)
+            ? Math.min(BASE_DELAY_MS * 2 ** attempts, MAX_DELAY_MS)
+            : MAX_DELAY_MS;
+          const updated: QueuedCapture = {
+            ...item,
+            attempts,
+            nextAttemptAt: Date.now() + delay,
+            lastError: error instanceof Error ? error.message : String(error),
+          };
+          await this.tx('readwrite', (store) => store.put(updated));
+          if (isNetworkError(error)) break; // backend dropped again — wait for the next tick
+        }
+      }
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  private handleOnline = () => {
+    this.sync(true).catch(err => console.error('Offline sync error:', err));
+  };
+
+  private async upload(item: QueuedCapture) {
+    const { frames, eventId, sessionId, mode, shortCode, templated } = item;
+    if (mode === 'video') return uploadVideo(frames[0], eventId, sessionId, frames[1], { shortCode });
+    if ((mode === 'gif' || mode === 'boomerang') && templated) {
+      return uploadAnimation(frames[0], eventId, mode, sessionId, { poster: frames[1], shortCode });
+    }
+    if (mode === 'gif' || mode === 'boomerang') return createGIF(frames, eventId, mode, sessionId, shortCode);
+    if (mode === 'strip' && !templated) return createStrip(frames, eventId, sessionId, shortCode);
+    return uploadPhoto(frames[0], eventId, sessionId, mode === 'strip' ? 'strip' : 'single', { templated, shortCode });
+  }
+
+  private notify() {
+    if (this.listeners.size === 0) return;
+    this.count()
+      .then(n => this.listeners.forEach(l => l(n)))
+      .catch(() => {});
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => {
+          if (!req.result.objectStoreNames.contains(STORE)) {
+            req.result.createObjectStore(STORE, { keyPath: 'id' });
+          }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+          this.dbPromise = null;
+          reject(req.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async tx<T = unknown>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const req = fn(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(req.result as T);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
+
+export const offlineQueue = new OfflineQueue();
@@ -0,0 +1,145 @@
+/**
+ * Photo Effects - Preview filters baked into real pixels
+ *
+ * Each effect is described as a CSS filter string so the preview can show it live
+ * with `style.filter`; bakeEffect() renders the same filter chain into the image
+ * data with the CSS Filter Effects formulas (canvas `ctx.filter` isn't available
+ * in Safari), so the shared, printed and gallery copies match what the guest saw.
+ */
+
+export interface PhotoEffect {
+  key: string;
+  label: string;
+  filter: string;
+}
+
+export const PHOTO_EFFECTS: PhotoEffect[] = [
+  { key: 'none',   label: 'Original', filter: 'none' },
+  { key: 'bw',     label: 'B&W',      filter: 'grayscale(100%)' },
+  { key: 'warm',   label: 'Warm',     filter: 'sepia(60%) saturate(140%) brightness(105%)' },
+  { key: 'cool',   label: 'Cool',     filter: 'hue-rotate(200deg) saturate(120%)' },
+  { key: 'vivid',  label: 'Vivid',    filter: 'saturate(180%) contrast(110%)' },
+  { key: 'fade',   label: 'Fade',     filter: 'contrast(85%) brightness(110%) saturate(80%)' },
+  { key: 'drama',  label: 'Drama',    filter: 'contrast(140%) brightness(90%) saturate(110%)' },
+  { key: 'golden', label: 'Golden',   filter: 'sepia(80%) hue-rotate(-20deg) saturate(160%) brightness(108%)' },
+];
+
+/**
+ * Effects the operator offers for this event (all by default), in list order
+ */
+export function enabledEffects(settings?: { enabledEffects?: string[] } | null): PhotoEffect[] {
+  const keys = settings?.enabledEffects;
+  if (!keys) return PHOTO_EFFECTS;
+  return PHOTO_EFFECTS.filter(e => e.key === 'none' || keys.includes(e.key));
+}
+
+export function effectByKey(key: string | null | undefined): PhotoEffect {
+  return PHOTO_EFFECTS.find(e => e.key === key) || PHOTO_EFFECTS[0];
+}
+
+// ─── Filter maths ─────────────────────────────────────────────────────────────
+
+type Matrix = number[]; // 3×3 row-major, applied to sRGB channels in 0–1
+
+function grayscaleMatrix(a: number): Matrix {
+  const s = 1 - a;
+  return [
+    0.2126 + 0.7874 * s, 0.7152 - 0.7152 * s, 0.0722 - 0.0722 * s,
+    0.2126 - 0.2126 * s, 0.7152 + 0.2848 * s, 0.0722 - 0.0722 * s,
+    0.2126 - 0.2126 * s, 0.7152 - 0.7152 * s, 0.0722 + 0.9278 * s,
+  ];
+}
+
+function sepiaMatrix(a: number): Matrix {
+  const s = 1 - a;
+  return [
+    0.393 + 0.607 * s, 0.769 - 0.769 * s, 0.189 - 0.189 * s,
+    0.349 - 0.349 * s, 0.686 + 0.314 * s, 0.168 - 0.168 * s,
+    0.272 - 0.272 * s, 0.534 - 0.534 * s, 0.131 + 0.869 * s,
+  ];
+}
+
+function saturateMatrix(s: number): Matrix {
+  return [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+  ];
+}
+
+function hueRotateMatrix(deg: number): Matrix {
+  const rad = (deg * Math.PI) / 180;
+  const c = Math.cos(rad), s = Math.sin(rad);
+  return [
+    0.213 + c * 0.787 - s * 0.213, 0.715 - c * 0.715 - s * 0.715, 0.072 - c * 0.072 + s * 0.928,
+    0.213 - c * 0.213 + s * 0.143, 0.715 + c * 0.285 + s * 0.140, 0.072 - c * 0.072 - s * 0.283,
+    0.213 - c * 0.213 - s * 0.787, 0.715 - c * 0.715 + s * 0.715, 0.072 + c * 0.928 + s * 0.072,
+  ];
+}
+
+type Step = { kind: 'matrix'; m: Matrix } | { kind: 'linear'; slope: number; intercept: number };
+
+// "sepia(60%) hue-rotate(-20deg)" → filter steps, in order
+function parseFilter(filter: string): Step[] {
+  const steps: Step[] = [];
+  const re = /([a-z-]+)\(\s*(-?[\d.]+)(%|deg)?\s*\)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(filter))) {
+    const [, fn, raw, unit] = m;
+    const amount = unit === '%' ? Number(raw) / 100 : Number(raw);
+    switch (fn) {
+      case 'grayscale':  steps.push({ kind: 'matrix', m: grayscaleMatrix(Math.min(amount, 1)) }); break;
+      case 'sepia':      steps.push({ kind: 'matrix', m: sepiaMatrix(Math.min(amount, 1)) }); break;
+      case 'saturate':   steps.push({ kind: 'matrix', m: saturateMatrix(amount) }); break;
+      case 'hue-rotate': steps.push({ kind: 'matrix', m: hueRotateMatrix(amount) }); break;
+      case 'brightness': steps.push({ kind: 'linear', slope: amount, intercept: 0 }); break;
+      case 'contrast':   steps.push({ kind: 'linear', slope: amount, intercept: 0.5 - 0.5 * amount }); break;
+    }
+  }
+  return steps;
+}
+
+function applySteps(data: Uint8ClampedArray, steps: Step[]) {
+  const clamp = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+  for (let p = 0; p < data.length; p += 4) {
+    let r = data[p] / 255, g = data[p + 1] / 255, b = data[p + 2] / 255;
+    for (const step of steps) {
+      if (step.kind === 'matrix') {
+        const m = step.m;
+        const nr = m[0] * r + m[1] * g + m[2] * b;
+        const ng = m[3] * r + m[4] * g + m[5] * b;
+        const nb = m[6] * r + m[7] * g + m[8] * b;
+        r = clamp(nr); g = clamp(ng); b = clamp(nb);
+      } else {
+        r = clamp(r * step.slope + step.intercept);
+        g = clamp(g * step.slope + step.intercept);
+        b = clamp(b * step.slope + step.intercept);
+      }
+    }
+    data[p] = r * 255; data[p + 1] = g * 255; data[p + 2] = b * 255;
+  }
+}
+
+/**
+ * Render an effect into the photo's pixels and return a new JPEG
+ */
+export async function bakeEffect(photo: Blob, effectKey: string, quality = 0.92): Promise<Blob> {
+  const steps = parseFilter(effectByKey(effectKey).filter);
+  const bitmap = await createImageBitmap(photo);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  if (steps.length > 0) {
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applySteps(image.data, steps);
+    ctx.putImageData(image, 0, 0);
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(b => (b ? resolve(b) : reject(new Error('Failed to encode photo'))), 'image/jpeg', quality);
+  });
+}
@@ -0,0 +1,152 @@
+/**
+ * Print Agent Client - Silent printing through the local print agent
+ *
+ * The agent (backend/scripts/print-agent.js) runs on the booth computer and drives
+ * the printer directly, so prints skip the browser dialog and use the event's paper
+ * size. Jobs are submitted with the print queue's own job id: the agent ignores a
+ * resubmitted id, so a booth that reloads mid-print picks up the job where it was.
+ */
+
+export const DEFAULT_PRINT_AGENT_URL = 'http://localhost:5056';
+export const PRINT_AGENT_PROTOCOL = 1;
+
+export type PrintAgentJobStatus = 'queued' | 'printing' | 'completed' | 'failed' | 'cancelled';
+
+export type PrintAgentErrorCode =
+  | 'out_of_media' | 'ribbon_out' | 'paper_jam' | 'cover_open' | 'offline' | 'render_failed' | 'unknown';
+
+export interface PrinterStatus {
+  name: string | null;
+  state: 'idle' | 'printing' | 'error' | 'offline';
+  error: { code: PrintAgentErrorCode; message: string } | null;
+  media: { remaining: number; capacity: number } | null;
+}
+
+export interface PrintAgentJob {
+  id: string;
+  status: PrintAgentJobStatus;
+  copies: number;
+  paperSize: string;
+  error: { code: PrintAgentErrorCode; message: string } | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export type PrintAgentMessage =
+  | { type: 'status'; printer: PrinterStatus }
+  | { type: 'job'; job: PrintAgentJob };
+
+const ERROR_MESSAGES: Record<PrintAgentErrorCode, string> = {
+  out_of_media:  'Printer is out of paper',
+  ribbon_out:    'Printer ribbon needs replacing',
+  paper_jam:     'Paper jam — check the printer',
+  cover_open:    'Printer cover is open',
+  offline:       'Printer is offline',
+  render_failed: 'Photo could not be prepared for printing',
+  unknown:       'Printer error',
+};
+
+const STATUS_TIMEOUT_MS = 3_000;
+const JOB_POLL_MS = 5_000;
+const JOB_TIMEOUT_MS = 5 * 60_000;
+
+export class PrintAgentError extends Error {
+  constructor(public code: PrintAgentErrorCode, message?: string) {
+    // Driver wording is only worth showing when we have no friendlier message
+    super(code === 'unknown' && message ? message : ERROR_MESSAGES[code]);
+    this.name = 'PrintAgentError';
+  }
+}
+
+export class PrintAgentClient {
+  constructor(private baseUrl: string = DEFAULT_PRINT_AGENT_URL) {}
+
+  /**
+   * Printer state and media remaining. Throws when the agent can't be reached.
+   */
+  async status(timeoutMs = STATUS_TIMEOUT_MS): Promise<PrinterStatus> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const body = await fetch(`${this.baseUrl}/status`, { signal: controller.signal })
+      .then(res => res.json())
+      .catch(() => null)
+      .finally(() => clearTimeout(timeout));
+    if (!body) throw new Error(`Print agent not reachable at ${this.baseUrl}`);
+    if (body.protocol !== PRINT_AGENT_PROTOCOL) throw new Error(`Print agent at ${this.baseUrl} speaks an unsupported protocol`);
+    return body.printer;
+  }
+
+  /**
+   * Submit a photo. Safe to repeat with the same id — the agent returns the existing job.
+   */
+  async submit(id: string, photo: Blob, options: { copies: number; paperSize: string }): Promise<PrintAgentJob> {
+    const params = new URLSearchParams({ id, copies: String(options.copies), paperSize: options.paperSize });
+    const res = await fetch(`${this.baseUrl}/jobs?${params}`, {
+      method: 'POST',
+      headers: { 'Content-Type': photo.type || 'image/jpeg' },
+      body: photo,
+    }).catch(() => null);
+    if (!res) throw new Error(`Print agent not reachable at ${this.baseUrl}`);
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body.error || 'Print agent rejected the job');
+    return body.job;
+  }
+
+  async getJob(id: string): Promise<PrintAgentJob | null> {
+    const res = await fetch(`${this.baseUrl}/jobs/${encodeURIComponent(id)}`).catch(() => null);
+    if (!res || !res.ok) return null;
+    return (await res.json()).job;
+  }
+
+  /**
+   * Cancel a job the agent hasn't started. Returns false once it is printing.
+   */
+  async cancel(id: string): Promise<boolean> {
+    const res = await fetch(`${this.baseUrl}/jobs/${encodeURIComponent(id)}`, { method: 'DELETE' }).catch(() => null);
+    return !!res?.ok;
+  }
+
+  /**
+   * Listen to the agent's status and job events. Returns a function that closes the socket.
+   */
+  watch(listener: (message: PrintAgentMessage) => void): () => void {
+    const socket = new WebSocket(`${this.baseUrl.replace(/^http/, 'ws')}/events`);
+    socket.onmessage = (e) => {
+      try { listener(JSON.parse(e.data)); } catch { /* ignore malformed frames */ }
+    };
+    return () => socket.close();
+  }
+
+  /**
+   * Resolve when the job has printed; reject with the printer's error if it fails.
+   * Pushed events drive this, with a slow poll in case the socket drops.
+   */
+  waitForJob(id: string, timeoutMs = JOB_TIMEOUT_MS): Promise<PrintAgentJob> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let unwatch = () => {};
+      const settle = (job: PrintAgentJob | null, error?: Error) => {
+        if (settled) return;
+        settled = true;
+        clearInterval(poll);
+        clearTimeout(timeout);
+        unwatch();
+        if (error) reject(error);
+        else resolve(job!);
+      };
+      const check = (job: PrintAgentJob | null) => {
+        if (!job || job.id !== id) return;
+        if (job.status === 'completed') settle(job);
+        else if (job.status === 'failed') settle(null, new PrintAgentError(job.error?.code || 'unknown', job.error?.message));
+        else if (job.status === 'cancelled') settle(null, new Error('Print cancelled at the printer'));
+      };
+
+      const poll = setInterval(() => { this.getJob(id).then(check).catch(() => {}); }, JOB_POLL_MS);
+      const timeout = setTimeout(() => settle(null, new Error('Printer did not finish the job in time')), timeoutMs);
+      try {
+        unwatch = this.watch(message => { if (message.type === 'job') check(message.job); });
+      } catch { /* polling still covers it */ }
+      this.getJob(id).then(check).catch(() => {});
+    });
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * Print Renderer - One rasteriser for every print path
+ *
+ * Lays photos out on the event's paper at print resolution: single photos edge to
+ * edge on 4x6 / 5x7 / 6x8, 2x6 strips two-up on 4x6 with a cut line, and A4 / Letter
+ * contact sheets. The page image includes bleed; the print agent sends it as-is and
+ * the browser path prints it at exact physical size with the bleed off the page.
+ */
+
+import { drawFitted, loadImage, type PhotoSource } from './templateEngine';
+
+export type PaperSizeKey = '4x6' | '5x7' | '6x8' | '2x6' | 'a4' | 'letter';
+
+export interface PaperSize {
+  key: PaperSizeKey;
+  label: string;
+  desc: string;
+  width: number;               // trim size in inches, portrait
+  height: number;
+  bleed: number;               // printed past the trim on every side, inches
+  safe: number;                // captions and shrunk photos stay this far inside the trim
+  layout: 'photo' | 'strip' | 'sheet';
+  media: string;               // paper loaded in the printer — the print agent's paperSize
+}
+
+export const PAPER_SIZES: Record<PaperSizeKey, PaperSize> = {
+  '4x6':  { key: '4x6',    label: '4×6"',   desc: 'Standard photo',       width: 4,    height: 6,     bleed: 0.05, safe: 0.125, layout: 'photo', media: '4x6' },
+  '5x7':  { key: '5x7',    label: '5×7"',   desc: 'Large photo',          width: 5,    height: 7,     bleed: 0.05, safe: 0.125, layout: 'photo', media: '5x7' },
+  '6x8':  { key: '6x8',    label: '6×8"',   desc: 'Dye-sub large',        width: 6,    height: 8,     bleed: 0.05, safe: 0.125, layout: 'photo', media: '6x8' },
+  '2x6':  { key: '2x6',    label: '2×6"',   desc: 'Strips, 2 per 4×6',    width: 4,    height: 6,     bleed: 0.05, safe: 0.1,   layout: 'strip', media: '4x6' },
+  a4:     { key: 'a4',     label: 'A4',     desc: 'Contact sheet',        width: 8.27, height: 11.69, bleed: 0,    safe: 0.25,  layout: 'sheet', media: 'a4' },
+  letter: { key: 'letter', label: 'Letter', desc: 'Contact sheet',        width: 8.5,  height: 11,    bleed: 0,    safe: 0.25,  layout: 'sheet', media: 'letter' },
+};
+
+export const DEFAULT_PRINT_DPI = 300;
+const SHEET_MAX_PHOTOS = 20;
+const SHEET_GAP_IN = 0.15;
+const CUT_LINE_IN = 0.01;
+
+export function resolvePaperSize(key?: string | null): PaperSize {
+  return (key && PAPER_SIZES[key as PaperSizeKey]) || PAPER_SIZES['4x6'];
+}
+
+export interface PrintRenderOptions {
+  dpi?: number;
+  /** 100 prints edge to edge; lower shrinks the photo inside the safe area for printers that crop */
+  scale?: number;
+  /** Contact sheets only */
+  caption?: { title?: string; date?: string };
+}
+
+export interface RenderedPrint {
+  blob: Blob;
+  paper: PaperSize;
+  dpi: number;
+  width: number;               // trim size in inches as printed (landscape pages are swapped)
+  height: number;
+  bleed: number;
+}
+
+type Drawable = HTMLImageElement | HTMLCanvasElement;
+
+async function toDrawable(source: PhotoSource): Promise<Drawable> {
+  if (source instanceof HTMLImageElement || source instanceof HTMLCanvasElement) return source;
+  if (typeof source === 'string') return loadImage(source);
+  const url = URL.createObjectURL(source);
+  try {
+    return await loadImage(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function sizeOf(img: Drawable) {
+  return img instanceof HTMLImageElement
+    ? { width: img.naturalWidth, height: img.naturalHeight }
+    : { width: img.width, height: img.height };
+}
+
+function isLandscape(img: Drawable): boolean {
+  const { width, height } = sizeOf(img);
+  return width > height;
+}
+
+/**
+ * Draw into a clipped box, optionally turned a quarter so a landscape strip fills a portrait cell
+ */
+function drawBox(
+  ctx: CanvasRenderingContext2D, img: Drawable,
+  x: number, y: number, w: number, h: number, fit: 'cover' | 'contain', rotate = false,
+) {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, w, h);
+  ctx.clip();
+  if (rotate) {
+    ctx.translate(x + w / 2, y + h / 2);
+    ctx.rotate(Math.PI / 2);
+    drawFitted(ctx, img, -h / 2, -w / 2, h, w, fit);
+  } else {
+    drawFitted(ctx, img, x, y, w, h, fit);
+  }
+  ctx.restore();
+}
+
+// Columns × rows for a contact sheet, portrait page
+function sheetGrid(count: number): { cols: number; rows: number } {
+  if (count <= 1) return { cols: 1, rows: 1 };
+  if (count === 2) return { cols: 1, rows: 2 };
+  if (count <= 4) return { cols: 2, rows: 2 };
+  if (count <= 6) return { cols: 2, rows: 3 };
+  if (count <= 9) return { cols: 3, rows: 3 };
+  if (count <= 12) return { cols: 3, rows: 4 };
+  return { cols: 4, rows: 5 };
+}
+
+interface Page {
+  paper: PaperSize;
+  dpi: number;
+  width: number;
+  height: number;
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  trim: { x: number; y: number; w: number; h: number };
+  safe: { x: number; y: number; w: number; h: number };
+  px: (inches: number) => number;
+}
+
+// White page canvas with bleed, plus the trim box inside it and the safe box inside that
+function createPage(paper: PaperSize, landscape: boolean, dpi: number): Page {
+  const width = landscape ? paper.height : paper.width;
+  const height = landscape ? paper.width : paper.height;
+  const px = (inches: number) => Math.round(inches * dpi);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = px(width + paper.bleed * 2);
+  canvas.height = px(height + paper.bleed * 2);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const trim = { x: px(paper.bleed), y: px(paper.bleed), w: px(width), h: px(height) };
+  const inset = px(paper.safe);
+  const safe = { x: trim.x + inset, y: trim.y + inset, w: trim.w - inset * 2, h: trim.h - inset * 2 };
+  return { paper, dpi, width, height, canvas, ctx, trim, safe, px };
+}
+
+async function finishPage({ canvas, paper, dpi, width, height }: Page): Promise<RenderedPrint> {
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(b => (b ? resolve(b) : reject(new Error('Print render failed'))), 'image/jpeg', 0.95);
+  });
+  return { blob, paper, dpi, width, height, bleed: paper.bleed };
+}
+
+/**
+ * Lay one or more photos out on the given paper and rasterise at print resolution.
+ * Photo sizes print the first photo; strips print it twice; sheets print up to 20.
+ */
+export async function renderPrint(
+  photos: PhotoSource | PhotoSource[],
+  paperKey?: string | null,
+  options: PrintRenderOptions = {},
+): Promise<RenderedPrint> {
+  const paper = resolvePaperSize(paperKey);
+  const dpi = options.dpi || DEFAULT_PRINT_DPI;
+  const scale = Math.max(50, Math.min(100, options.scale ?? 100)) / 100;
+  const sources = (Array.isArray(photos) ? photos : [photos]).slice(0, paper.layout === 'sheet' ? SHEET_MAX_PHOTOS : 1);
+  if (sources.length === 0) throw new Error('Nothing to print');
+  const images = await Promise.all(sources.map(toDrawable));
+
+  // Photos and single-photo sheets turn the page to match the photo; strips never turn
+  const landscape = paper.layout !== 'strip' && images.length === 1 && isLandscape(images[0]);
+  const page = createPage(paper, landscape, dpi);
+  const { canvas, ctx, safe, px } = page;
+
+  if (paper.layout === 'photo') {
+    if (scale >= 1) {
+      drawBox(ctx, images[0], 0, 0, canvas.width, canvas.height, 'cover');
+    } else {
+      const w = safe.w * scale, h = safe.h * scale;
+      drawBox(ctx, images[0], safe.x + (safe.w - w) / 2, safe.y + (safe.h - h) / 2, w, h, 'contain');
+    }
+  } else if (paper.layout === 'strip') {
+    // Two copies side by side, each bleeding off its outer edges; the printer or
+    // a trimmer cuts down the middle
+    const mid = Math.round(canvas.width / 2);
+    const rotate = isLandscape(images[0]);
+    drawBox(ctx, images[0], 0, 0, mid, canvas.height, 'cover', rotate);
+    drawBox(ctx, images[0], mid, 0, canvas.width - mid, canvas.height, 'cover', rotate);
+    ctx.strokeStyle = 'rgba(255,255,255,0.8)';
+    ctx.lineWidth = Math.max(1, px(CUT_LINE_IN));
+    ctx.setLineDash([px(0.08), px(0.06)]);
+    ctx.beginPath();
+    ctx.moveTo(mid, 0);
+    ctx.lineTo(mid, canvas.height);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  } else {
+    const { title, date } = options.caption || {};
+    const header = title ? px(0.45) : 0;
+    const footer = date ? px(0.3) : 0;
+    const area = { x: safe.x, y: safe.y + header, w: safe.w, h: safe.h - header - footer };
+    const { cols, rows } = landscape ? { cols: 1, rows: 1 } : sheetGrid(images.length);
+    const gap = px(SHEET_GAP_IN);
+    const cellW = (area.w - gap * (cols - 1)) / cols;
+    const cellH = (area.h - gap * (rows - 1)) / rows;
+    images.forEach((img, i) => {
+      const x = area.x + (i % cols) * (cellW + gap);
+      const y = area.y + Math.floor(i / cols) * (cellH + gap);
+      drawBox(ctx, img, x, y, cellW, cellH, 'contain');
+    });
+
+    ctx.fillStyle = '#222222';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    if (title) {
+      ctx.font = `bold ${px(0.22)}px system-ui, -apple-system, sans-serif`;
+      ctx.fillText(title, canvas.width / 2, safe.y + header / 2, safe.w);
+    }
+    if (date) {
+      ctx.fillStyle = '#777777';
+      ctx.font = `${px(0.13)}px system-ui, -apple-system, sans-serif`;
+      ctx.fillText(date, canvas.width / 2, safe.y + safe.h - footer / 2, safe.w);
+    }
+  }
+
+  return finishPage(page);
+}
+
+/**
+ * Calibration page: bleed (grey), trim edge (solid) and safe area (dashed), for
+ * checking a printer's alignment and cropping on the event's paper
+ */
+export async function renderTestPage(paperKey?: string | null, options: Pick<PrintRenderOptions, 'dpi'> = {}): Promise<RenderedPrint> {
+  const paper = resolvePaperSize(paperKey);
+  const page = createPage(paper, false, options.dpi || DEFAULT_PRINT_DPI);
+  const { canvas, ctx, trim, safe, px } = page;
+
+  ctx.fillStyle = '#e4e4e7';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(trim.x, trim.y, trim.w, trim.h);
+
+  // Strips are checked per strip, either side of the cut
+  const cells = paper.layout === 'strip'
+    ? [{ ...safe, w: trim.w / 2 - px(paper.safe) * 2 }, { ...safe, x: trim.x + trim.w / 2 + px(paper.safe), w: trim.w / 2 - px(paper.safe) * 2 }]
+    : [safe];
+
+  ctx.strokeStyle = '#7c3aed';
+  ctx.lineWidth = Math.max(1, px(0.015));
+  ctx.setLineDash([px(0.1), px(0.06)]);
+  cells.forEach(c => ctx.strokeRect(c.x, c.y, c.w, c.h));
+  ctx.setLineDash([]);
+  ctx.strokeStyle = '#18181b';
+  ctx.lineWidth = Math.max(1, px(0.01));
+  ctx.strokeRect(trim.x, trim.y, trim.w, trim.h);
+  if (paper.layout === 'strip') {
+    ctx.beginPath();
+    ctx.moveTo(trim.x + trim.w / 2, 0);
+    ctx.lineTo(trim.x + trim.w / 2, canvas.height);
+    ctx.stroke();
+  }
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  cells.forEach(c => {
+    const cx = c.x + c.w / 2, cy = c.y + c.h / 2;
+    ctx.fillStyle = '#7c3aed';
+    ctx.font = `bold ${px(0.24)}px system-ui, -apple-system, sans-serif`;
+    ctx.fillText('SnapBooth', cx, cy - px(0.4), c.w);
+    ctx.fillStyle = '#555555';
+    ctx.font = `${px(0.12)}px system-ui, -apple-system, sans-serif`;
+    ctx.fillText(`${paper.label} · ${page.dpi} dpi`, cx, cy, c.w);
+    ctx.fillText('Dashed line = safe area', cx, cy + px(0.22), c.w);
+    ctx.fillStyle = '#999999';
+    ctx.font = `${px(0.1)}px system-ui, -apple-system, sans-serif`;
+    ctx.fillText(new Date().toLocaleString(), cx, cy + px(0.5), c.w);
+  });
+
+  return finishPage(page);
+}
@@ -1,204 +1,598 @@
 /**
- * Print Service - Handle printing to physical printers
- * FIXED: Race condition, error handling, memory leaks
+ * Print Service - Durable print queue for the booth
+ *
+ * Jobs are persisted to IndexedDB so a page reload mid-event doesn't lose queued
+ * prints, and anything caught mid-print goes back to the queue. Jobs print silently
+ * through the local print agent when the event uses one, otherwise through the
+ * browser's print dialog. Each job change is mirrored to the backend so the event manager can
+ * inspect the queue and send pause / cancel / reprint commands back over the socket.
+ *
+ * Print allowances (settings.maxPrints per event, settings.maxPrintsPerSession per
+ * guest session) are checked here before a job is queued and again by the backend
+ * when the job first reaches it; an operator override skips both. The backend only
+ * accepts an override with a short-lived token: the booth trades the operator's PIN
+ * for one, and the manager's reprint commands carry one.
  */
 
+import { api, ensureSessionAlbum, getPrintUsage, getSessionAlbum, trackAction } from '@/lib/api';
+import type { Event } from '@/lib/store';
+import { isVideoUrl } from './animationEncoder';
+import { DEFAULT_PRINT_AGENT_URL, PrintAgentClient, type PrinterStatus } from './printAgent';
+import { renderPrint, renderTestPage, resolvePaperSize, type RenderedPrint } from './printRenderer';
+
+export type PrintJobStatus = 'queued' | 'printing' | 'completed' | 'failed' | 'cancelled';
+
 export interface PrintJob {
   id: string;
-  photoId: string;
   eventId: string;
+  photoId: string;
+  photoUrl: string;
+  photoUrls?: string[];        // every photo on a contact sheet, photoUrl first
+  title: string;               // print document title (event name)
+  scale: number;               // printScale: 100 = edge to edge, lower shrinks into the safe area (browser printing)
+  paperSize: string;
+  agentUrl?: string;           // print through the local agent; browser dialog when unset
   copies: number;
-  status: 'pending' | 'printing' | 'completed' | 'failed';
-  createdAt: Date;
-  completedAt?: Date;
+  status: PrintJobStatus;
+  attempts: number;
+  auto?: boolean;              // queued by auto-print rather than the guest
+  reprintOf?: string;
+  sessionId?: string;          // guest session, for the per-session allowance
+  override?: boolean;          // operator let it through past the print allowance
+  overrideToken?: string;      // the backend's proof of that, checked when it first sees the job
   error?: string;
+  synced: boolean;             // latest state has reached the backend
+  reported?: boolean;          // the backend has seen the job at least once
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+export interface PrintQueueStatus {
+  total: number;
+  queued: number;
+  printing: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  paused: boolean;
+  isProcessing: boolean;
+}
+
+export interface PrintLimits {
+  event: number | null;
+  session: number | null;
+}
+
+/** Prints left; null means unlimited */
+export interface PrintAllowance {
+  remaining: number | null;
+  eventRemaining: number | null;
+  sessionRemaining: number | null;
+}
+
+export type PrintCommand =
+  | { action: 'pause' | 'resume' }
+  | { action: 'cancel' | 'retry'; jobId: string }
+  | { action: 'reprint'; jobId: string; overrideToken?: string };
+
+type Listener = (jobs: PrintJob[], paused: boolean) => void;
+
+const DB_NAME = 'snapbooth-print';
+const STORE = 'jobs';
+const PAUSED_KEY = 'sb_print_queue_paused';
+const SYNC_MS = 10_000;
+const PRINT_TIMEOUT_MS = 60_000;
+// Finished jobs older than this are dropped from the booth (the backend keeps them)
+const KEEP_FINISHED_MS = 24 * 60 * 60_000;
+// How long queuing waits for the backend's allowance check before printing anyway
+const RESERVE_TIMEOUT_MS = 5_000;
+const COUNTED_STATUSES: PrintJobStatus[] = ['queued', 'printing', 'completed'];
+const UNLIMITED: PrintAllowance = { remaining: null, eventRemaining: null, sessionRemaining: null };
+
+export class PrintLimitError extends Error {
+  constructor(public scope: 'event' | 'session', public remaining = 0) {
+    super(scope === 'event' ? 'This event has used all of its prints' : 'You have used all of your prints');
+    this.name = 'PrintLimitError';
+  }
+}
+
+function isLimitRefusal(err: unknown): err is { response: { data: { scope: 'event' | 'session'; remaining: number } } } {
+  const response = (err as { response?: { status?: number; data?: { code?: string } } })?.response;
+  return response?.status === 409 && response.data?.code === 'print_limit';
+}
+
+function sumCopies(jobs: PrintJob[]): number {
+  return jobs.reduce((n, job) => n + job.copies, 0);
+}
+
+function newJobId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  const b = new Uint8Array(16);
+  crypto.getRandomValues(b);
+  b[6] = (b[6] & 0x0f) | 0x40;
+  b[8] = (b[8] & 0x3f) | 0x80;
+  const hex = Array.from(b, x => x.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Where and on what paper this event prints
+ */
+export function printTarget(settings: Event['settings'] | undefined): Pick<PrintJob, 'paperSize' | 'agentUrl'> {
+  return {
+    paperSize: settings?.paperSize || '4x6',
+    agentUrl: settings?.printMethod === 'agent' ? settings.printAgentUrl || DEFAULT_PRINT_AGENT_URL : undefined,
+  };
 }
 
+/**
+ * What goes on the page: on contact-sheet paper the guest's whole visit (this
+ * photo first, then the session's other stills), otherwise just this photo
+ */
+export async function printPhotoUrls(
+  paperSize: string, eventId: string, sessionId: string | undefined, photo: { id: string; url: string },
+): Promise<string[]> {
+  if (resolvePaperSize(paperSize).layout !== 'sheet' || !sessionId) return [photo.url];
+  try {
+    const { shortCode } = await ensureSessionAlbum(eventId, sessionId);
+    const album = await getSessionAlbum(shortCode);
+    const others = (album?.items || [])
+      .filter(item => item.id !== photo.id && item.mode !== 'gif' && item.mode !== 'boomerang' && !isVideoUrl(item.url))
+      .map(item => item.url);
+    return [photo.url, ...others];
+  } catch {
+    // The sheet still prints, with the one photo we have
+    return [photo.url];
+  }
+}
+
+/**
+ * The event's print allowances; unset or zero means unlimited
+ */
+export function printLimits(settings: Event['settings'] | undefined): PrintLimits {
+  const limit = (value: number | null | undefined) => (value && value > 0 ? value : null);
+  return { event: limit(settings?.maxPrints), session: limit(settings?.maxPrintsPerSession) };
+}
+
+// ─── Browser output ───────────────────────────────────────────────────────────
+
+/**
+ * Print a rendered page at its exact physical size through a hidden iframe. The
+ * bleed hangs off the page edges. Resolves once the page has been handed to the
+ * print dialog (silently in kiosk-printing mode).
+ */
+function printInBrowser(page: RenderedPrint, title: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    document.getElementById('__snapbooth_print_frame')?.remove();
+    const iframe = document.createElement('iframe');
+    iframe.id = '__snapbooth_print_frame';
+    iframe.style.cssText = 'position:fixed;left:-9999px;top:-9999px;width:1px;height:1px;border:none;';
+    document.body.appendChild(iframe);
+    const win = iframe.contentWindow;
+    const doc = iframe.contentDocument || win?.document;
+    if (!doc || !win) { iframe.remove(); reject(new Error('Printing is not available in this browser')); return; }
+    doc.open(); doc.close();
+    const { width, height, bleed } = page;
+    const style = doc.createElement('style');
+    style.textContent = [
+      '* { margin:0; padding:0; box-sizing:border-box; }',
+      `@page { margin:0; size:${width}in ${height}in; }`,
+      `html, body { width:${width}in; height:${height}in; overflow:hidden; background:#fff; }`,
+      `.page { position:relative; width:${width}in; height:${height}in; overflow:hidden; page-break-inside:avoid; }`,
+      `img { position:absolute; left:-${bleed}in; top:-${bleed}in; width:${width + bleed * 2}in; height:${height + bleed * 2}in; display:block;`,
+      '  -webkit-print-color-adjust:exact; print-color-adjust:exact; }',
+    ].join(' ');
+    doc.head.appendChild(style);
+    const wrap = doc.createElement('div'); wrap.className = 'page';
+    const img = doc.createElement('img'); img.alt = 'photo';
+    wrap.appendChild(img);
+    doc.title = title;
+    doc.body.appendChild(wrap);
+
+    const url = URL.createObjectURL(page.blob);
+    let settled = false;
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      setTimeout(() => { iframe.remove(); URL.revokeObjectURL(url); }, 1000);
+      if (error) reject(error); else resolve();
+    };
+    const timeout = setTimeout(() => finish(new Error('Timed out preparing the print')), PRINT_TIMEOUT_MS);
+    img.onerror = () => finish(new Error('Could not load the photo to print'));
+    img.onload = () => setTimeout(() => {
+      win.focus();
+      win.print();
+      finish();
+    }, 400);
+    img.src = url;
+  });
+}
+
+// ─── Queue ────────────────────────────────────────────────────────────────────
+
 export class PrintService {
-  private printQueue: PrintJob[] = [];
-  private printingPromise: Promise<void> | null = null; // FIX: Prevent race condition
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private printingPromise: Promise<void> | null = null;
+  private syncTimer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<Listener>();
+  private started = false;
+  // Last event-wide usage from the backend, for checking allowances while offline
+  private serverUsage = new Map<string, { used: number; sessionUsed: number; sessionId?: string }>();
+  private paused = typeof window !== 'undefined' && localStorage.getItem(PAUSED_KEY) === '1';
 
   /**
-   * Add photo to print queue
+   * Add a photo to the print queue and start printing if the queue is running.
+   * With `limits`, copies are cut to what the allowance has left and a
+   * PrintLimitError is thrown once nothing is left, unless there's an `overrideToken`.
    */
-  async queuePrint(photoId: string, eventId: string, copies: number = 1): Promise<PrintJob> {
-    if (!photoId || !eventId) {
-      throw new Error('photoId and eventId required');
+  async queuePrint({ limits, ...job }: Pick<PrintJob, 'eventId' | 'photoId' | 'photoUrl' | 'photoUrls' | 'title' | 'scale' | 'paperSize' | 'agentUrl'> & {
+    copies?: number; auto?: boolean; reprintOf?: string; sessionId?: string; overrideToken?: string; limits?: PrintLimits;
+  }): Promise<PrintJob> {
+    if (!job.photoId || !job.eventId || !job.photoUrl) {
+      throw new Error('photoId, eventId and photoUrl required');
     }
-
+    let copies = job.copies ?? 1;
     if (copies < 1 || copies > 10) {
       throw new Error('Copies must be between 1 and 10');
     }
 
-    const job: PrintJob = {
-      id: `print-${Date.now()}`,
-      photoId,
-      eventId,
+    if (limits && !job.overrideToken) {
+      const allowance = await this.getAllowance(job.eventId, job.sessionId, limits);
+      if (allowance.remaining !== null) {
+        if (allowance.remaining <= 0) {
+          throw new PrintLimitError(allowance.eventRemaining === 0 ? 'event' : 'session');
+        }
+        copies = Math.min(copies, allowance.remaining);
+      }
+    }
+
+    const now = Date.now();
+    const item: PrintJob = {
+      ...job,
+      override: !!job.overrideToken,
+      id: newJobId(),
       copies,
-      status: 'pending',
-      createdAt: new Date(),
+      status: 'queued',
+      attempts: 0,
+      synced: false,
+      createdAt: now,
+      updatedAt: now,
     };
+    // Let the backend check the allowance across every booth before the job can print.
+    // When it can't be reached the local check stands and the sync loop reports the job.
+    let reported = false;
+    try {
+      await this.push(item, RESERVE_TIMEOUT_MS);
+      reported = true;
+    } catch (err: unknown) {
+      if (isLimitRefusal(err)) throw new PrintLimitError(err.response.data.scope, err.response.data.remaining);
+    }
+    await this.tx('readwrite', (store) => store.put({ ...item, reported, synced: reported }));
+    this.notify();
+    this.processPrintQueue().catch(err => console.error('Print queue error:', err));
+    return item;
+  }
 
-    this.printQueue.push(job);
+  /**
+   * Prints left for the event and the guest session. Counts this booth's jobs the
+   * backend hasn't seen on top of the backend's event-wide usage.
+   */
+  async getAllowance(eventId: string, sessionId: string | undefined, limits: PrintLimits): Promise<PrintAllowance> {
+    if (!limits.event && !limits.session) return UNLIMITED;
+
+    try {
+      const usage = await getPrintUsage(eventId, sessionId);
+      this.serverUsage.set(eventId, { used: usage.used, sessionUsed: usage.sessionUsed, sessionId });
+    } catch { /* offline — use the last known usage */ }
 
-    // Start processing queue without race condition
-    this.processPrintQueue().catch(err => console.error('Queue processing error:', err));
+    const counted = (await this.list()).filter(j => j.eventId === eventId && COUNTED_STATUSES.includes(j.status));
+    const ours = counted.filter(j => !!sessionId && j.sessionId === sessionId);
+    const server = this.serverUsage.get(eventId);
+    const eventUsed = Math.max(sumCopies(counted), (server?.used ?? 0) + sumCopies(counted.filter(j => !j.reported)));
+    const sessionUsed = Math.max(
+      sumCopies(ours),
+      (server && server.sessionId === sessionId ? server.sessionUsed : 0) + sumCopies(ours.filter(j => !j.reported)),
+    );
 
-    return job;
+    const eventRemaining = limits.event ? Math.max(0, limits.event - eventUsed) : null;
+    const sessionRemaining = limits.session && sessionId ? Math.max(0, limits.session - sessionUsed) : null;
+    const remaining = eventRemaining === null ? sessionRemaining
+      : sessionRemaining === null ? eventRemaining
+      : Math.min(eventRemaining, sessionRemaining);
+    return { remaining, eventRemaining, sessionRemaining };
   }
 
   /**
-   * Process print queue (non-concurrent)
+   * Load the persisted queue, recover jobs interrupted by a reload, and start
+   * printing and mirroring (idempotent)
    */
-  private async processPrintQueue() {
-    // FIX: Use promise to prevent concurrent processing
-    if (this.printingPromise) {
-      return this.printingPromise; // Wait for current processing
-    }
+  async start() {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
 
-    if (this.printQueue.length === 0) {
-      return;
+    const cutoff = Date.now() - KEEP_FINISHED_MS;
+    for (const job of await this.list()) {
+      if (job.status === 'printing') {
+        // The page went away mid-print. The agent recognises the resubmitted id and just
+        // reports progress; a browser print can't be checked, so it prints again.
+        await this.save({ ...job, status: 'queued', error: 'Interrupted by page reload' });
+      } else if (job.status !== 'queued' && job.synced && job.updatedAt < cutoff) {
+        await this.tx('readwrite', (store) => store.delete(job.id));
+      }
     }
 
-    this.printingPromise = this._processPrintQueueInternal();
-    
-    try {
-      await this.printingPromise;
-    } finally {
-      this.printingPromise = null; // Clear reference for cleanup
-    }
+    this.syncTimer = setInterval(() => { this.sync().catch(() => {}); }, SYNC_MS);
+    this.sync().catch(() => {});
+    this.processPrintQueue().catch(err => console.error('Print queue error:', err));
   }
 
+  stop() {
+    if (this.syncTimer) clearInterval(this.syncTimer);
+    this.syncTimer = null;
+    this.started = false;
+  }
+
+  // ─── Operations ─────────────────────────────────────────────────────────────
+
   /**
-   * Internal queue processing logic
+   * Hold the queue after the current job; queued jobs wait until resumed
    */
-  private async _processPrintQueueInternal() {
-    while (this.printQueue.length > 0) {
-      const job = this.printQueue.shift();
-      if (!job) break;
+  setPaused(paused: boolean) {
+    this.paused = paused;
+    localStorage.setItem(PAUSED_KEY, paused ? '1' : '0');
+    this.notify();
+    if (!paused) this.processPrintQueue().catch(err => console.error('Print queue error:', err));
+  }
 
-      try {
-        job.status = 'printing';
-        await this.sendToPrinter(job);
-        job.status = 'completed';
-        job.completedAt = new Date();
-      } catch (error: any) {
-        job.status = 'failed';
-        job.error = error.message || 'Unknown error';
-        console.error(`Print job ${job.id} failed:`, job.error);
-      }
-    }
+  isPaused(): boolean {
+    return this.paused;
   }
 
   /**
-   * Send job to physical printer via USB
+   * Cancel a job that hasn't started printing
    */
-  private async sendToPrinter(job: PrintJob): Promise<void> {
-    try {
-      const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
-      const token = typeof window !== 'undefined' ? localStorage.getItem('sb_access_token') : null;
-
-      const response = await fetch(`${API_BASE}/api/events/${job.eventId}/print`, {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify({
-          photoId: job.photoId,
-          copies: job.copies,
-          jobId: job.id,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-        throw new Error(`Print failed: ${error.error || response.statusText}`);
-      }
+  async cancel(jobId: string): Promise<boolean> {
+    const job = await this.getJob(jobId);
+    if (!job || (job.status !== 'queued' && job.status !== 'failed')) return false;
+    await this.save({ ...job, status: 'cancelled' });
+    return true;
+  }
 
-      const result = await response.json();
+  /**
+   * Queue a fresh copy of any earlier job. Reprints come from the operator, whose
+   * command carries an override token, so they aren't held to the print allowance.
+   */
+  async reprint(jobId: string, overrideToken?: string): Promise<PrintJob | null> {
+    const job = await this.getJob(jobId);
+    if (!job) return null;
+    const { eventId, photoId, photoUrl, photoUrls, title, scale, paperSize, agentUrl, copies, sessionId } = job;
+    return this.queuePrint({
+      eventId, photoId, photoUrl, photoUrls, title, scale, paperSize, agentUrl, copies, sessionId,
+      overrideToken, reprintOf: job.reprintOf || job.id,
+    });
+  }
 
-      if (!result.success) {
-        throw new Error(result.error || 'Print job failed');
-      }
+  /**
+   * Put a failed job back in the queue
+   */
+  async retry(jobId: string): Promise<boolean> {
+    const job = await this.getJob(jobId);
+    if (!job || job.status !== 'failed') return false;
+    await this.save({ ...job, status: 'queued', error: undefined });
+    this.processPrintQueue().catch(err => console.error('Print queue error:', err));
+    return true;
+  }
 
-      // Simulate print delay (2-5 seconds per copy)
-      await new Promise(resolve => setTimeout(resolve, job.copies * 2000));
-    } catch (error) {
-      throw error;
+  /**
+   * Apply a command sent from the event manager
+   */
+  async handleCommand(command: PrintCommand) {
+    switch (command.action) {
+      case 'pause':   return this.setPaused(true);
+      case 'resume':  return this.setPaused(false);
+      case 'cancel':  return this.cancel(command.jobId);
+      case 'reprint': return this.reprint(command.jobId, command.overrideToken);
+      case 'retry':   return this.retry(command.jobId);
     }
   }
 
+  // ─── Inspection ─────────────────────────────────────────────────────────────
+
   /**
-   * Get print queue status
+   * Every job on this booth, newest first
    */
-  getQueueStatus(): {
-    total: number;
-    pending: number;
-    printing: number;
-    completed: number;
-    failed: number;
-    isProcessing: boolean;
-  } {
+  async list(): Promise<PrintJob[]> {
+    const jobs = await this.tx<PrintJob[]>('readonly', (store) => store.getAll());
+    return jobs.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async getJob(jobId: string): Promise<PrintJob | undefined> {
+    return this.tx<PrintJob | undefined>('readonly', (store) => store.get(jobId));
+  }
+
+  async getQueueStatus(): Promise<PrintQueueStatus> {
+    const jobs = await this.list();
+    const count = (status: PrintJobStatus) => jobs.filter(j => j.status === status).length;
     return {
-      total: this.printQueue.length,
-      pending: this.printQueue.filter(j => j.status === 'pending').length,
-      printing: this.printQueue.filter(j => j.status === 'printing').length,
-      completed: this.printQueue.filter(j => j.status === 'completed').length,
-      failed: this.printQueue.filter(j => j.status === 'failed').length,
+      total: jobs.length,
+      queued: count('queued'),
+      printing: count('printing'),
+      completed: count('completed'),
+      failed: count('failed'),
+      cancelled: count('cancelled'),
+      paused: this.paused,
       isProcessing: this.printingPromise !== null,
     };
   }
 
   /**
-   * Check if printer is connected (with timeout)
+   * Subscribe to queue changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    this.list().then(jobs => listener(jobs, this.paused)).catch(() => listener([], this.paused));
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /**
+   * Printer state and media remaining from the local print agent
    */
-  async checkPrinterStatus(timeoutMs: number = 5000): Promise<boolean> {
+  checkPrinterStatus(agentUrl: string = DEFAULT_PRINT_AGENT_URL): Promise<PrinterStatus> {
+    return new PrintAgentClient(agentUrl).status();
+  }
+
+  // ─── Processing ─────────────────────────────────────────────────────────────
+
+  /**
+   * Print queued jobs oldest first, one at a time
+   */
+  private async processPrintQueue() {
+    if (this.printingPromise) return this.printingPromise;
+    this.printingPromise = this.processNext();
     try {
-      const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
-      
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), timeoutMs);
+      await this.printingPromise;
+    } finally {
+      this.printingPromise = null;
+    }
+  }
+
+  private async processNext() {
+    while (!this.paused) {
+      const next = (await this.list()).filter(j => j.status === 'queued').pop();
+      if (!next) break;
 
+      const job: PrintJob = { ...next, status: 'printing', attempts: next.attempts + 1, error: undefined };
+      await this.save(job);
       try {
-        const response = await fetch(`${API_BASE}/api/printer/status`, {
-          signal: controller.signal,
+        await this.output(job);
+        await this.save({ ...job, status: 'completed', completedAt: Date.now() });
+        trackAction(job.eventId, 'photo_printed', {
+          photoId: job.photoId, jobId: job.id, copies: job.copies, auto: !!job.auto, reprint: !!job.reprintOf,
         });
-        clearTimeout(timeout);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Print job ${job.id} failed:`, message);
+        await this.save({ ...job, status: 'failed', error: message });
+      }
+    }
+  }
 
-        if (!response.ok) {
-          return false;
-        }
+  /**
+   * Render the job onto its paper and send it to the agent or the print dialog.
+   * Dye-sub printers through the agent always print edge to edge.
+   */
+  private async output(job: PrintJob) {
+    let page: RenderedPrint;
+    try {
+      page = await renderPrint(job.photoUrls?.length ? job.photoUrls : job.photoUrl, job.paperSize, {
+        scale: job.agentUrl ? 100 : job.scale,
+        caption: { title: job.title, date: new Date(job.createdAt).toLocaleDateString() },
+      });
+    } catch {
+      throw new Error('Could not load the photo to print');
+    }
 
-        const data = await response.json();
-        return data.connected && data.ready;
-      } catch (error: any) {
-        clearTimeout(timeout);
-        if (error.name === 'AbortError') {
-          console.warn('Printer status check timeout');
-        }
-        return false;
-      }
-    } catch (error) {
-      console.error('Printer status check error:', error);
-      return false;
+    if (job.agentUrl) {
+      const agent = new PrintAgentClient(job.agentUrl);
+      await agent.submit(job.id, page.blob, { copies: job.copies, paperSize: page.paper.media });
+      await agent.waitForJob(job.id);
+      return;
+    }
+    for (let i = 0; i < job.copies; i++) {
+      await printInBrowser(page, job.title);
     }
   }
 
   /**
-   * Clear completed jobs from queue (memory cleanup)
+   * Print a calibration page straight away, outside the queue
    */
-  clearCompleted() {
-    const initialLength = this.printQueue.length;
-    this.printQueue = this.printQueue.filter(j => j.status !== 'completed' && j.status !== 'failed');
-    return initialLength - this.printQueue.length;
+  async printTestPage(target: Pick<PrintJob, 'paperSize' | 'agentUrl'>) {
+    const page = await renderTestPage(target.paperSize);
+    if (!target.agentUrl) return printInBrowser(page, 'SnapBooth Print Test');
+    const agent = new PrintAgentClient(target.agentUrl);
+    const id = newJobId();
+    await agent.submit(id, page.blob, { copies: 1, paperSize: page.paper.media });
+    await agent.waitForJob(id);
   }
 
+  // ─── Backend mirror ─────────────────────────────────────────────────────────
+
   /**
-   * Get job status by ID
+   * Push every job whose latest state hasn't reached the backend yet
    */
-  getJobStatus(jobId: string): PrintJob | undefined {
-    return this.printQueue.find(j => j.id === jobId);
+  private async sync() {
+    const pending = (await this.list()).filter(j => !j.synced);
+    for (const job of pending) {
+      try {
+        await this.push(job);
+      } catch (err: unknown) {
+        if (!isLimitRefusal(err)) return; // offline — try again on the next tick
+        // Queued offline past an allowance other booths used up: drop it if it hasn't started
+        const latest = await this.getJob(job.id);
+        if (latest?.status === 'queued') await this.save({ ...latest, status: 'cancelled', error: 'Print limit reached' });
+        // Already printed — the backend won't record it, so stop offering it
+        else if (latest) await this.tx('readwrite', (store) => store.put({ ...latest, synced: true }));
+      }
+    }
+  }
+
+  private async push(job: PrintJob, timeout?: number) {
+    await api.put(`/prints/jobs/${job.id}`, {
+      eventId: job.eventId, photoId: job.photoId, photoUrl: job.photoUrl, copies: job.copies,
+      status: job.status, attempts: job.attempts, auto: !!job.auto, reprintOf: job.reprintOf || null,
+      sessionId: job.sessionId || null, overrideToken: job.overrideToken || null,
+      error: job.error || null, createdAt: job.createdAt, completedAt: job.completedAt || null,
+    }, timeout ? { timeout } : undefined);
+    // Only mark synced if the job hasn't moved on while the request was in flight
+    const latest = await this.getJob(job.id);
+    if (latest) {
+      await this.tx('readwrite', (store) => store.put({ ...latest, reported: true, synced: latest.updatedAt === job.updatedAt }));
+    }
+  }
+
+  private async save(job: PrintJob) {
+    const item: PrintJob = { ...job, synced: false, updatedAt: Math.max(Date.now(), job.updatedAt + 1) };
+    await this.tx('readwrite', (store) => store.put(item));
+    this.notify();
+    this.push(item).catch(() => {});
+  }
+
+  private notify() {
+    if (this.listeners.size === 0) return;
+    this.list()
+      .then(jobs => this.listeners.forEach(l => l(jobs, this.paused)))
+      .catch(() => {});
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => {
+          if (!req.result.objectStoreNames.contains(STORE)) {
+            req.result.createObjectStore(STORE, { keyPath: 'id' });
+          }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+          this.dbPromise = null;
+          reject(req.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async tx<T = unknown>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const req = fn(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(req.result as T);
+      transaction.onerror = () => reject(transaction.error);
+    });
   }
 }
 
@@ -0,0 +1,371 @@
+/**
+ * Template Engine - One schema, one renderer for every photo output
+ *
+ * A PhotoTemplate is a fixed-size canvas with photo slots plus decorative
+ * elements. The booth renders captures through it before upload, the preview
+ * and print paths show that exact output, and TemplateDesigner edits the same
+ * schema — so what operators design is what guests get and what prints.
+ */
+
+import type { Event } from '@/lib/store';
+
+interface BaseElement {
+  id: string;
+}
+
+export interface PhotoSlotElement extends BaseElement {
+  type: 'photo';
+  slot: number;                // index into the captured photos
+  x: number; y: number; width: number; height: number;
+  radius?: number;
+  fit?: 'cover' | 'contain';
+}
+
+export interface TextElement extends BaseElement {
+  type: 'text';
+  x: number; y: number;
+  text: string;                // supports {eventName}, {footerText}, {date}
+  size: number;
+  color: string;
+  align?: 'left' | 'center' | 'right';
+  weight?: 'normal' | 'bold';
+  font?: string;
+}
+
+export interface RectElement extends BaseElement {
+  type: 'rect';
+  x: number; y: number; width: number; height: number;
+  color: string;
+  opacity?: number;
+  radius?: number;
+}
+
+export interface LineElement extends BaseElement {
+  type: 'line';
+  x1: number; y1: number; x2: number; y2: number;
+  color: string;
+  width?: number;
+}
+
+export interface ImageElement extends BaseElement {
+  type: 'image';
+  x: number; y: number; width: number; height: number;
+  url: string;                 // supports {logoUrl}, {frameUrl}
+  opacity?: number;
+  fit?: 'cover' | 'contain' | 'fill';
+}
+
+export type TemplateElement = PhotoSlotElement | TextElement | RectElement | LineElement | ImageElement;
+export type TemplateElementType = TemplateElement['type'];
+
+export interface PhotoTemplate {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  background: string;
+  elements: TemplateElement[];   // drawn in order — later elements sit on top
+}
+
+export interface TemplateVars {
+  [key: string]: string | null | undefined;
+  eventName?: string;
+  primaryColor?: string;
+  footerText?: string;
+  date?: string;
+  logoUrl?: string | null;
+  frameUrl?: string | null;
+}
+
+// ─── Built-in templates ───────────────────────────────────────────────────────
+
+const CLASSIC: PhotoTemplate = {
+  id: 'classic', name: 'Classic', width: 1200, height: 1600, background: '#111827',
+  elements: [
+    { id: 'photo-0', type: 'photo', slot: 0, x: 0, y: 0, width: 1200, height: 1400 },
+    { id: 'footer-bar', type: 'rect', x: 0, y: 1400, width: 1200, height: 200, color: '{primaryColor}' },
+    { id: 'footer', type: 'text', x: 600, y: 1480, text: '{footerText}', size: 48, color: '#ffffff', align: 'center', weight: 'bold' },
+    { id: 'date', type: 'text', x: 600, y: 1550, text: '{date}', size: 30, color: '#ffffffb3', align: 'center' },
+  ],
+};
+
+const POLAROID: PhotoTemplate = {
+  id: 'polaroid', name: 'Polaroid', width: 1200, height: 1440, background: '#ffffff',
+  elements: [
+    { id: 'photo-0', type: 'photo', slot: 0, x: 60, y: 60, width: 1080, height: 1080 },
+    { id: 'caption', type: 'text', x: 600, y: 1290, text: '{footerText}', size: 60, color: '#3f3f46', align: 'center', font: 'ui-monospace, monospace' },
+  ],
+};
+
+const STRIP: PhotoTemplate = {
+  id: 'strip', name: 'Photo Strip', width: 600, height: 1800, background: '{primaryColor}',
+  elements: [
+    { id: 'title', type: 'text', x: 300, y: 70, text: '{eventName}', size: 34, color: '#ffffff', align: 'center', weight: 'bold' },
+    ...[0, 1, 2, 3].map((i): PhotoSlotElement => ({
+      id: `photo-${i}`, type: 'photo', slot: i, x: 30, y: 120 + i * 400, width: 540, height: 380, radius: 8,
+    })),
+    { id: 'date', type: 'text', x: 300, y: 1750, text: '{date}', size: 26, color: '#ffffffaa', align: 'center' },
+  ],
+};
+
+export const BUILT_IN_TEMPLATES: Record<'classic' | 'polaroid' | 'strip', PhotoTemplate> = {
+  classic: CLASSIC,
+  polaroid: POLAROID,
+  strip: STRIP,
+};
+
+export const PRESET_TEMPLATES: PhotoTemplate[] = [
+  CLASSIC,
+  POLAROID,
+  STRIP,
+  {
+    id: 'grid-2x2', name: '2x2 Grid', width: 1200, height: 1200, background: '#ffffff',
+    elements: [0, 1, 2, 3].map((i): PhotoSlotElement => ({
+      id: `photo-${i}`, type: 'photo', slot: i,
+      x: 20 + (i % 2) * 590, y: 20 + Math.floor(i / 2) * 590, width: 570, height: 570,
+    })),
+  },
+  {
+    id: 'header-footer', name: 'Header & Footer', width: 1200, height: 900, background: '#111827',
+    elements: [
+      { id: 'photo-0', type: 'photo', slot: 0, x: 0, y: 160, width: 1200, height: 580 },
+      { id: 'title', type: 'text', x: 600, y: 100, text: '{eventName}', size: 48, color: '#ffffff', align: 'center' },
+      { id: 'footer', type: 'text', x: 600, y: 820, text: '{date}', size: 24, color: '#cccccc', align: 'center' },
+    ],
+  },
+  {
+    id: 'wedding', name: 'Wedding', width: 1200, height: 1200, background: '#fdf6ec',
+    elements: [
+      { id: 'photo-0', type: 'photo', slot: 0, x: 100, y: 230, width: 1000, height: 900, radius: 12 },
+      { id: 'band', type: 'rect', x: 0, y: 0, width: 1200, height: 200, color: '#8B4513', opacity: 0.3 },
+      { id: 'title', type: 'text', x: 600, y: 120, text: 'Our Special Day', size: 48, color: '#ffffff', align: 'center' },
+      { id: 'rule', type: 'line', x1: 100, y1: 200, x2: 1100, y2: 200, color: '#FFD700', width: 3 },
+    ],
+  },
+  {
+    id: 'birthday', name: 'Birthday Party', width: 1200, height: 1200, background: '#1f1030',
+    elements: [
+      { id: 'panel', type: 'rect', x: 50, y: 150, width: 1100, height: 950, color: '#FFB6C1', opacity: 0.2 },
+      { id: 'photo-0', type: 'photo', slot: 0, x: 80, y: 180, width: 1040, height: 890 },
+      { id: 'title', type: 'text', x: 600, y: 100, text: '🎉 Happy Birthday! 🎉', size: 44, color: '#FF69B4', align: 'center' },
+    ],
+  },
+];
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Grid layout for a burst contact sheet — every frame, in capture order
+ */
+export function contactSheetTemplate(count: number): PhotoTemplate {
+  const cols = count <= 4 ? 2 : 3;
+  const rows = Math.ceil(count / cols);
+  const cell = 400, gap = 20, header = 100;
+  const width = cols * cell + (cols + 1) * gap;
+  const height = header + rows * (cell * 0.75) + (rows + 1) * gap + 60;
+  return {
+    id: 'contact-sheet', name: 'Contact Sheet', width, height, background: '#111111',
+    elements: [
+      { id: 'title', type: 'text', x: width / 2, y: header / 2 + 10, text: '{eventName}', size: 40, color: '#ffffff', align: 'center', weight: 'bold' },
+      ...Array.from({ length: count }, (_, i): PhotoSlotElement => ({
+        id: `photo-${i}`, type: 'photo', slot: i,
+        x: gap + (i % cols) * (cell + gap),
+        y: header + gap + Math.floor(i / cols) * (cell * 0.75 + gap),
+        width: cell, height: cell * 0.75,
+      })),
+      { id: 'date', type: 'text', x: width / 2, y: height - 40, text: '{date}', size: 24, color: '#ffffff99', align: 'center' },
+    ],
+  };
+}
+
+export function photoSlotCount(template: PhotoTemplate): number {
+  const slots = template.elements.filter((el): el is PhotoSlotElement => el.type === 'photo');
+  return slots.length === 0 ? 0 : Math.max(...slots.map(s => s.slot)) + 1;
+}
+
+/**
+ * The template an event uses for a capture mode. A designed template wins when
+ * it fits the mode (one slot for single shots, several for strips); otherwise
+ * fall back to the built-in picked in the Branding tab.
+ */
+export function resolveTemplate(event: Event | null, mode: string): PhotoTemplate {
+  const custom = event?.branding?.customTemplate;
+  const multi = mode === 'strip';
+  if (custom && photoSlotCount(custom) > 0 && (photoSlotCount(custom) > 1) === multi) return custom;
+  if (multi) return STRIP;
+  const key = event?.branding?.template;
+  return key === 'polaroid' ? POLAROID : CLASSIC;
+}
+
+export function templateVars(event: Event | null): TemplateVars {
+  return {
+    eventName: event?.branding?.eventName || event?.name || '',
+    footerText: event?.branding?.footerText || event?.branding?.eventName || event?.name || '',
+    date: event?.branding?.showDate === false
+      ? ''
+      : new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' }),
+    logoUrl: event?.branding?.logoUrl || null,
+    frameUrl: event?.branding?.frameUrl || null,
+    primaryColor: event?.branding?.primaryColor || '#7c3aed',
+  };
+}
+
+function interpolate(text: string, vars: TemplateVars): string {
+  return text.replace(/\{(\w+)\}/g, (_, key) => (vars[key] == null ? '' : String(vars[key])));
+}
+
+function roundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
+  const radius = Math.max(0, Math.min(r, w / 2, h / 2));
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + w, y, x + w, y + h, radius);
+  ctx.arcTo(x + w, y + h, x, y + h, radius);
+  ctx.arcTo(x, y + h, x, y, radius);
+  ctx.arcTo(x, y, x + w, y, radius);
+  ctx.closePath();
+}
+
+export function drawFitted(
+  ctx: CanvasRenderingContext2D, img: CanvasImageSource & { width: number; height: number },
+  x: number, y: number, w: number, h: number, fit: 'cover' | 'contain' | 'fill',
+) {
+  const iw = img instanceof HTMLImageElement ? img.naturalWidth : img.width;
+  const ih = img instanceof HTMLImageElement ? img.naturalHeight : img.height;
+  if (fit === 'fill' || !iw || !ih) { ctx.drawImage(img, x, y, w, h); return; }
+  const scale = fit === 'cover' ? Math.max(w / iw, h / ih) : Math.min(w / iw, h / ih);
+  const dw = iw * scale, dh = ih * scale;
+  ctx.drawImage(img, x + (w - dw) / 2, y + (h - dh) / 2, dw, dh);
+}
+
+// ─── Renderer ─────────────────────────────────────────────────────────────────
+
+export type PhotoSource = Blob | string | HTMLImageElement | HTMLCanvasElement;
+
+export class TemplateEngine {
+  private assets = new Map<string, Promise<HTMLImageElement | null>>();
+
+  /**
+   * Render the template with the given photos onto a new canvas at full size.
+   * Missing slots reuse the last photo so a single shot still fills a grid.
+   */
+  async render(
+    template: PhotoTemplate,
+    photos: PhotoSource[],
+    vars: TemplateVars = {},
+    scale = 1,
+  ): Promise<HTMLCanvasElement> {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(template.width * scale);
+    canvas.height = Math.round(template.height * scale);
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(scale, scale);
+
+    const images = await Promise.all(photos.map(p => this.toImage(p)));
+
+    ctx.fillStyle = interpolate(template.background, vars) || '#ffffff';
+    ctx.fillRect(0, 0, template.width, template.height);
+
+    for (const el of template.elements) {
+      ctx.save();
+      switch (el.type) {
+        case 'photo': {
+          const img = images[Math.min(el.slot, images.length - 1)];
+          if (img) {
+            roundedRect(ctx, el.x, el.y, el.width, el.height, el.radius || 0);
+            ctx.clip();
+            drawFitted(ctx, img, el.x, el.y, el.width, el.height, el.fit || 'cover');
+          } else {
+            ctx.fillStyle = '#00000033';
+            ctx.fillRect(el.x, el.y, el.width, el.height);
+          }
+          break;
+        }
+        case 'rect':
+          ctx.globalAlpha = el.opacity ?? 1;
+          ctx.fillStyle = interpolate(el.color, vars);
+          roundedRect(ctx, el.x, el.y, el.width, el.height, el.radius || 0);
+          ctx.fill();
+          break;
+        case 'line':
+          ctx.strokeStyle = interpolate(el.color, vars);
+          ctx.lineWidth = el.width || 2;
+          ctx.beginPath();
+          ctx.moveTo(el.x1, el.y1);
+          ctx.lineTo(el.x2, el.y2);
+          ctx.stroke();
+          break;
+        case 'text': {
+          const text = interpolate(el.text, vars);
+          if (!text) break;
+          ctx.fillStyle = interpolate(el.color, vars);
+          ctx.font = `${el.weight === 'bold' ? 'bold ' : ''}${el.size}px ${el.font || 'system-ui, -apple-system, sans-serif'}`;
+          ctx.textAlign = el.align || 'left';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(text, el.x, el.y, template.width - 40);
+          break;
+        }
+        case 'image': {
+          const url = interpolate(el.url, vars);
+          const img = url ? await this.loadAsset(url) : null;
+          if (img) {
+            ctx.globalAlpha = el.opacity ?? 1;
+            drawFitted(ctx, img, el.x, el.y, el.width, el.height, el.fit || 'contain');
+          }
+          break;
+        }
+      }
+      ctx.restore();
+    }
+
+    return canvas;
+  }
+
+  /**
+   * Render straight to an encoded image, ready for upload or print
+   */
+  async renderToBlob(
+    template: PhotoTemplate,
+    photos: PhotoSource[],
+    vars: TemplateVars = {},
+    type: 'image/jpeg' | 'image/png' = 'image/jpeg',
+  ): Promise<Blob> {
+    const canvas = await this.render(template, photos, vars);
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Template render failed'))), type, 0.92);
+    });
+  }
+
+  private async toImage(source: PhotoSource): Promise<HTMLImageElement | HTMLCanvasElement | null> {
+    if (source instanceof HTMLImageElement || source instanceof HTMLCanvasElement) return source;
+    if (typeof source === 'string') return this.loadAsset(source);
+    const url = URL.createObjectURL(source);
+    try {
+      return await loadImage(url);
+    } catch {
+      return null;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  private loadAsset(url: string): Promise<HTMLImageElement | null> {
+    let pending = this.assets.get(url);
+    if (!pending) {
+      pending = loadImage(url).catch(() => null);
+      this.assets.set(url, pending);
+    }
+    return pending;
+  }
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load ${src}`));
+    img.src = src;
+  });
+}
+
+export const templateEngine = new TemplateEngine();